@@ -1,70 +1,186 @@
 /**
- * KEEP GOING CARE - SERVICE WORKER DEACTIVATION NOTICE
- * ====================================================
- * 
- * This service worker has been PERMANENTLY DISABLED to ensure application stability.
- * 
- * The application now requires a full internet connection to function properly.
- * This change was made after multiple instances of instability and data 
- * inconsistency issues with the previous offline-capable implementation.
- * 
- * PLEASE NOTE: 
- * Any code using service worker caching and offline functionality should be updated
- * to rely on direct API calls instead.
- * 
- * All offline data caching, persistence, and background sync functionality 
- * has been removed from this service worker implementation.
- * 
- * Last Updated: May 02, 2025
+ * KEEP GOING CARE - SERVICE WORKER (OFFLINE OUTBOX SYNC AND WEB PUSH)
+ * ============================================================
+ *
+ * Offline page caching stays disabled: this worker does not intercept fetches and
+ * clears any caches left by earlier versions, which caused the instability that led
+ * to the old worker being removed.
+ *
+ * Its first job is Background Sync for the patient input outbox. Self-scores,
+ * milestones and journal drafts saved while offline are queued in IndexedDB by
+ * client/src/lib/offlineOutbox.ts; when the browser regains connectivity it fires a
+ * 'sync' event here, even if the app is closed, and the queue is sent to
+ * POST /api/sync/batch. The server is idempotent by client UUID, so retries are safe.
+ *
+ * Keep OUTBOX_DB_NAME, OUTBOX_STORE and OUTBOX_SYNC_TAG in step with offlineOutbox.ts.
+ *
+ * It also shows Web Push notifications sent by server/services/webPushService.ts
+ * (payload: { title, body, url, tag, notificationId }) and, on click, focuses an open
+ * app window at the notification's page or opens a new one.
+ *
+ * Last Updated: October 19, 2026
  */
 
-// This service worker immediately unregisters itself as soon as it's installed
-self.addEventListener('install', (event) => {
-  console.log('[Service Worker] Installation bypassed - offline functionality disabled');
-  // Skip waiting to immediately activate and then unregister
+const OUTBOX_DB_NAME = 'kgc-offline-outbox';
+const OUTBOX_STORE = 'operations';
+const OUTBOX_SYNC_TAG = 'kgc-outbox-sync';
+const OUTBOX_DB_VERSION = 1;
+const BATCH_SIZE = 100;
+
+self.addEventListener('install', () => {
   self.skipWaiting();
 });
 
 self.addEventListener('activate', (event) => {
-  console.log('[Service Worker] Activated - performing unregistration and cache cleanup');
   event.waitUntil(
     (async () => {
       // Clear all caches used by previous service worker versions
       try {
         const cacheNames = await caches.keys();
-        await Promise.all(
-          cacheNames.map(cacheName => caches.delete(cacheName))
-        );
-        console.log('[Service Worker] All caches cleared successfully');
+        await Promise.all(cacheNames.map(cacheName => caches.delete(cacheName)));
       } catch (error) {
         console.error('[Service Worker] Error clearing caches:', error);
       }
-      
-      // The service worker will unregister itself
-      self.registration.unregister()
-        .then(success => {
-          console.log('[Service Worker] Unregistration result:', success ? 'successful' : 'failed');
-        })
-        .catch(error => {
-          console.error('[Service Worker] Unregistration error:', error);
-        });
+      await self.clients.claim();
     })()
   );
 });
 
-// Do not intercept any fetch events - let all network requests go directly through the browser
-self.addEventListener('fetch', (event) => {
-  // Passthrough - do not intercept any requests
-  return;
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    // A rejected promise tells the browser to retry later with backoff
+    event.waitUntil(drainOutbox());
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    console.error('[Service Worker] Unreadable push payload:', error);
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Keep Going Care', {
+      body: payload.body || '',
+      icon: '/icons/icon-192x192.png',
+      badge: '/icons/icon-192x192.png',
+      tag: payload.tag,
+      data: { url: payload.url || '/', notificationId: payload.notificationId }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      const existing = windows.find(client => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        await existing.focus();
+        if (existing.url !== target) {
+          await existing.navigate(target);
+        }
+        return;
+      }
+      await self.clients.openWindow(target);
+    })()
+  );
 });
 
-// Respond to messages from the main thread but don't do anything with them
-self.addEventListener('message', (event) => {
-  // Just respond that the service worker is disabled
-  if (event.source && event.source.postMessage) {
-    event.source.postMessage({
-      type: 'SERVICE_WORKER_DISABLED',
-      message: 'The service worker is permanently disabled for application stability. Online connection required.'
-    });
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'clientUuid' });
+      store.createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runStore(db, mode, action) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = action(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function drainOutbox() {
+  const db = await openOutbox();
+  try {
+    const entries = await runStore(db, 'readonly', store => store.getAll());
+    const pending = entries
+      .filter(entry => entry.status === 'pending')
+      .sort((a, b) => a.clientCreatedAt.localeCompare(b.clientCreatedAt));
+
+    // Each batch names its patient; the server refuses batches for anyone but the signed-in user
+    const byUser = new Map();
+    for (const entry of pending) {
+      if (!byUser.has(entry.userId)) byUser.set(entry.userId, []);
+      byUser.get(entry.userId).push(entry);
+    }
+
+    let failed = false;
+    let settled = 0;
+    for (const [userId, userEntries] of byUser) {
+      for (let i = 0; i < userEntries.length; i += BATCH_SIZE) {
+        const batch = userEntries.slice(i, i + BATCH_SIZE);
+        const response = await fetch('/api/sync/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            userId,
+            operations: batch.map(({ clientUuid, entityType, clientCreatedAt, data, resolution }) => ({
+              clientUuid, entityType, clientCreatedAt, data, resolution
+            }))
+          })
+        });
+
+        if (!response.ok) {
+          // 401/403: not this user's session - leave the entries for when they next sign in
+          if (response.status !== 401 && response.status !== 403) failed = true;
+          break;
+        }
+
+        const body = await response.json();
+        for (const result of body.results) {
+          const entry = batch.find(e => e.clientUuid === result.clientUuid);
+          if (!entry) continue;
+
+          if (result.status === 'conflict') {
+            await runStore(db, 'readwrite', store => store.put({
+              ...entry,
+              status: 'conflict',
+              serverEntity: result.serverEntity,
+              attempts: entry.attempts + 1
+            }));
+          } else {
+            await runStore(db, 'readwrite', store => store.delete(entry.clientUuid));
+          }
+          settled++;
+        }
+      }
+    }
+
+    if (settled > 0) {
+      // Let open tabs refresh their pending counts and show any merge prompts
+      const clients = await self.clients.matchAll({ type: 'window' });
+      clients.forEach(client => client.postMessage({ type: 'OUTBOX_SYNCED', settled }));
+    }
+
+    if (failed) {
+      throw new Error('Outbox sync incomplete');
+    }
+  } finally {
+    db.close();
   }
-});
\ No newline at end of file
+}
@@ -26,6 +26,7 @@ import HealthSnapshots from "@/pages/health-snapshots";
 import ProgressMilestones from "@/pages/progress-milestones";
 import FoodDatabase from "@/pages/food-database";
 import DailySelfScores from "@/pages/daily-self-scores";
+import SecureMessages from "@/pages/secure-messages";
 
 // Router with authentication integration
 function Router() {
@@ -110,6 +111,9 @@ function Router() {
           <DailySelfScores />
         </Layout>
       </Route>
+      <Route path="/messages/:threadId?">
+        {(params) => <SecureMessages threadId={params.threadId} />}
+      </Route>
       <Route path="/chatbot">
         <Layout>
           <EnhancedChatbot />
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { ArrowRight } from 'lucide-react';
@@ -30,6 +30,8 @@ export const KeepGoingButton: React.FC<KeepGoingButtonProps> = ({
   const [videoLoaded, setVideoLoaded] = useState(false);
   const [showPlayPrompt, setShowPlayPrompt] = useState(true);
   const isMobile = useIsMobile();
+  const sessionRef = useRef<Promise<number | null> | null>(null);
+  const videoPlayedRef = useRef(false);
 
   // Fetch user's motivational image
   const { data: savedImage } = useQuery({
@@ -77,30 +79,59 @@ export const KeepGoingButton: React.FC<KeepGoingButtonProps> = ({
     }
   }, [savedImage]);
 
-  // Record Keep Going usage for Supervisor Agent
-  const recordKeepGoingUsage = async () => {
+  // Start a Keep Going session for Supervisor Agent and PPR tracking; resolves to its ID
+  const startKeepGoingSession = async (): Promise<number | null> => {
     try {
-      const response = await fetch(`/api/users/${userId}/feature-usage`, {
+      const response = await fetch('/api/keep-going/sessions', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          featureName: 'KeepGoing'
+          deviceType: isMobile ? 'mobile' : 'desktop',
+          motivationalImageShown: !!overlayImage
         }),
       });
       
       if (!response.ok) {
-        console.warn('Failed to record Keep Going usage:', await response.text());
-      } else {
-        console.log('Keep Going usage recorded for PPR tracking');
+        console.warn('Failed to record Keep Going session:', await response.text());
+        return null;
       }
+      console.log('Keep Going session started for PPR tracking');
+      return (await response.json()).id;
     } catch (error) {
-      console.warn('Error recording Keep Going usage:', error);
+      console.warn('Error recording Keep Going session:', error);
       // Non-blocking - continue with video playback
+      return null;
     }
   };
 
+  // End the session with its duration once the video is dismissed
+  const endKeepGoingSession = () => {
+    const pendingSession = sessionRef.current;
+    if (!pendingSession) return;
+    sessionRef.current = null;
+    const videoPlayed = videoPlayedRef.current;
+    
+    pendingSession.then(sessionId => {
+      if (sessionId === null) return;
+      return fetch(`/api/keep-going/sessions/${sessionId}/end`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          videoPlayed,
+          motivationalImageShown: !!overlayImage
+        }),
+        keepalive: true,
+      });
+    }).catch(error => console.warn('Error ending Keep Going session:', error));
+  };
+
+  // Close an open session if the component unmounts mid-video
+  useEffect(() => () => endKeepGoingSession(), []);
+
   // Handle Keep Going button click
   const handleKeepGoingClick = async () => {
     try {
@@ -110,8 +141,9 @@ export const KeepGoingButton: React.FC<KeepGoingButtonProps> = ({
       setIsActive(true);
       createHapticFeedback(2000, true); // 2 seconds with sound
       
-      // Record usage in background (non-blocking)
-      recordKeepGoingUsage().catch(console.warn);
+      // Record the session in background (non-blocking)
+      videoPlayedRef.current = false;
+      sessionRef.current = startKeepGoingSession();
       
       // Show video with overlay
       setShowVideo(true);
@@ -129,6 +161,7 @@ export const KeepGoingButton: React.FC<KeepGoingButtonProps> = ({
 
   // Close video modal
   const closeVideo = () => {
+    endKeepGoingSession();
     setShowVideo(false);
     setVideoLoaded(false);
     setShowPlayPrompt(true);
@@ -233,7 +266,10 @@ export const KeepGoingButton: React.FC<KeepGoingButtonProps> = ({
                 }, 2000);
               }}
               onError={() => console.error('Local video failed to load')}
-              onPlay={() => console.log('Video started playing')}
+              onPlay={() => {
+                console.log('Video started playing');
+                videoPlayedRef.current = true;
+              }}
               onEnded={() => {
                 console.log('Video ended, closing modal');
                 setTimeout(() => closeVideo(), 1000);
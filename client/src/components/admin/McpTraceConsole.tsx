@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Activity, Play, Search } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// Mirrors TraceSummary / TraceDetail in server/mcp/tracing/traceService.ts
+interface TraceSummary {
+  id: number;
+  mcpSessionId: string;
+  method: string;
+  target: string | null;
+  callerId: number;
+  callerRole: string;
+  patientId: number | null;
+  status: string;
+  errorMessage: string | null;
+  durationMs: number;
+  correlationId: string | null;
+  hostQuery: string | null;
+  hostSelectedTools: string[] | null;
+  replayOfId: number | null;
+  createdAt: string;
+}
+
+interface Trace extends TraceSummary {
+  requestRedacted: string;
+  responseRedacted: string | null;
+}
+
+interface TraceDetail {
+  trace: Trace;
+  related: TraceSummary[];
+  replays: TraceSummary[];
+}
+
+interface ReplayResult {
+  replay: Trace;
+  comparison: { identical: boolean; changedKeys: string[] };
+}
+
+interface TraceFilters {
+  patientId: string;
+  tool: string;
+  status: string;
+  from: string;
+  to: string;
+}
+
+const TRACES_QUERY_KEY = '/api/admin/mcp-traces';
+const STATUSES = ['ok', 'tool_error', 'rpc_error', 'denied', 'cancelled'];
+const EMPTY_FILTERS: TraceFilters = { patientId: '', tool: '', status: 'all', from: '', to: '' };
+
+function searchUrl(filters: TraceFilters): string {
+  const params = new URLSearchParams();
+  if (filters.patientId) params.set('patientId', filters.patientId);
+  if (filters.tool) params.set('tool', filters.tool);
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.from) params.set('from', new Date(filters.from).toISOString());
+  if (filters.to) params.set('to', new Date(filters.to).toISOString());
+  const query = params.toString();
+  return query ? `${TRACES_QUERY_KEY}?${query}` : TRACES_QUERY_KEY;
+}
+
+// Traces are stored as JSON text; indent them for reading when they parse
+function prettyJson(text: string | null): string {
+  if (!text) {
+    return '(no response)';
+  }
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+const StatusBadge: React.FC<{ status: string }> = ({ status }) => (
+  <Badge variant={status === 'ok' ? 'secondary' : status === 'cancelled' ? 'outline' : 'destructive'}>
+    {status}
+  </Badge>
+);
+
+const McpTraceConsole: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<TraceFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<TraceFilters>(EMPTY_FILTERS);
+  const [selectedTraceId, setSelectedTraceId] = useState<number | null>(null);
+  const [replayResult, setReplayResult] = useState<ReplayResult | null>(null);
+
+  const { data: traces = [], isLoading } = useQuery<TraceSummary[]>({
+    queryKey: [searchUrl(filters)],
+  });
+
+  const { data: detail } = useQuery<TraceDetail>({
+    queryKey: [`${TRACES_QUERY_KEY}/${selectedTraceId}`],
+    enabled: selectedTraceId !== null,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (traceId: number) => {
+      return await apiRequest<ReplayResult>('POST', `${TRACES_QUERY_KEY}/${traceId}/replay`);
+    },
+    onSuccess: (result, traceId) => {
+      setReplayResult(result);
+      queryClient.invalidateQueries({ queryKey: [`${TRACES_QUERY_KEY}/${traceId}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Replay failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const selectTrace = (traceId: number) => {
+    setSelectedTraceId(traceId);
+    setReplayResult(null);
+  };
+
+  const canReplay = detail?.trace.method === 'tools/call' && detail.trace.patientId !== null;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            MCP Traces
+          </CardTitle>
+          <CardDescription>
+            Every request to the MCP server, with patient details redacted. Replay a tool call to see what it returns now.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+            onSubmit={(event) => {
+              event.preventDefault();
+              setFilters(draft);
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="trace-patient">Patient ID</Label>
+              <Input
+                id="trace-patient"
+                type="number"
+                min={1}
+                value={draft.patientId}
+                onChange={(event) => setDraft({ ...draft, patientId: event.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="trace-tool">Tool / resource / prompt</Label>
+              <Input
+                id="trace-tool"
+                placeholder="health-metrics"
+                value={draft.tool}
+                onChange={(event) => setDraft({ ...draft, tool: event.target.value.trim() })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={draft.status} onValueChange={(status) => setDraft({ ...draft, status })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any status</SelectItem>
+                  {STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="trace-from">From</Label>
+              <Input
+                id="trace-from"
+                type="datetime-local"
+                value={draft.from}
+                onChange={(event) => setDraft({ ...draft, from: event.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="trace-to">To</Label>
+              <Input
+                id="trace-to"
+                type="datetime-local"
+                value={draft.to}
+                onChange={(event) => setDraft({ ...draft, to: event.target.value })}
+              />
+            </div>
+            <Button type="submit">Search</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card>
+          <CardContent className="p-0">
+            <ScrollArea className="h-[560px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Request</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">ms</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {traces.map((trace) => (
+                    <TableRow
+                      key={trace.id}
+                      className={`cursor-pointer ${trace.id === selectedTraceId ? 'bg-muted' : ''}`}
+                      onClick={() => selectTrace(trace.id)}
+                    >
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {new Date(trace.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{trace.target ?? trace.method}</div>
+                        <div className="text-xs text-gray-500">
+                          {trace.method}{trace.replayOfId !== null && ` · replay of #${trace.replayOfId}`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{trace.patientId ?? '-'}</TableCell>
+                      <TableCell><StatusBadge status={trace.status} /></TableCell>
+                      <TableCell className="text-right">{trace.durationMs}</TableCell>
+                    </TableRow>
+                  ))}
+                  {!isLoading && traces.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-gray-500 py-8">
+                        No traces match these filters
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Activity className="h-5 w-5" />
+                {detail ? `Trace #${detail.trace.id}` : 'Select a trace'}
+              </span>
+              {detail && canReplay && (
+                <Button
+                  size="sm"
+                  onClick={() => replayMutation.mutate(detail.trace.id)}
+                  disabled={replayMutation.isPending}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  {replayMutation.isPending ? 'Replaying...' : 'Replay'}
+                </Button>
+              )}
+            </CardTitle>
+            {detail && (
+              <CardDescription>
+                {detail.trace.callerRole} #{detail.trace.callerId} · session {detail.trace.mcpSessionId}
+              </CardDescription>
+            )}
+          </CardHeader>
+          {detail && (
+            <CardContent className="space-y-4 text-sm">
+              {detail.trace.errorMessage && (
+                <p className="text-red-600">{detail.trace.errorMessage}</p>
+              )}
+
+              {detail.trace.hostQuery && (
+                <div>
+                  <Label>Chat query</Label>
+                  <p className="mt-1 text-gray-700">{detail.trace.hostQuery}</p>
+                  {detail.trace.hostSelectedTools && (
+                    <p className="text-xs text-gray-500">
+                      Tools selected: {detail.trace.hostSelectedTools.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {replayResult && (
+                <div className="rounded border p-3 space-y-1">
+                  <div className="font-medium">
+                    Replay #{replayResult.replay.id}:{' '}
+                    {replayResult.comparison.identical ? 'same result as recorded' : 'result has changed'}
+                  </div>
+                  {replayResult.comparison.changedKeys.length > 0 && (
+                    <div className="text-xs text-gray-600">
+                      Changed: {replayResult.comparison.changedKeys.join(', ')}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <Label>Request</Label>
+                <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs">
+                  {prettyJson(detail.trace.requestRedacted)}
+                </pre>
+              </div>
+              <div>
+                <Label>{replayResult ? 'Recorded response' : 'Response'}</Label>
+                <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs">
+                  {prettyJson(detail.trace.responseRedacted)}
+                </pre>
+              </div>
+              {replayResult && (
+                <div>
+                  <Label>Replayed response</Label>
+                  <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs">
+                    {prettyJson(replayResult.replay.responseRedacted)}
+                  </pre>
+                </div>
+              )}
+
+              {[...detail.related, ...detail.replays].length > 0 && (
+                <div>
+                  <Label>Related traces</Label>
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {[...detail.related, ...detail.replays].map((trace) => (
+                      <Button key={trace.id} variant="outline" size="sm" onClick={() => selectTrace(trace.id)}>
+                        #{trace.id} {trace.target ?? trace.method}
+                        {trace.replayOfId === detail.trace.id && ' (replay)'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default McpTraceConsole;
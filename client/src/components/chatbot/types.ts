@@ -31,7 +31,6 @@ export interface Memory {
   content: string;
   context?: any;
   importance: number;
-  embeddings?: string;
   lastAccessed?: Date;
   accessCount: number;
   expiresAt?: Date;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ShieldAlert } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { DataDeletionMode } from '@shared/schema';
+
+// Mirrors DeletionRequestListItem in server/services/patientDataRightsService.ts as serialised by the API
+interface DeletionRequest {
+  id: number;
+  patientId: number;
+  patientName: string;
+  patientUin: string | null;
+  mode: DataDeletionMode;
+  reason: string | null;
+  requestedAt: string;
+  certificateNumber: string | null;
+}
+
+const DataDeletionRequestsPanel: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const { data: requests = [] } = useQuery<DeletionRequest[]>({
+    queryKey: ['/api/patient-data/deletion-requests?status=pending'],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ requestId, decision }: { requestId: number; decision: 'approve' | 'reject' }) => {
+      return await apiRequest<DeletionRequest>('POST', `/api/patient-data/deletion-requests/${requestId}/review`, {
+        decision,
+        notes: notes[requestId] || undefined
+      });
+    },
+    onSuccess: (request, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-data/deletion-requests?status=pending'] });
+      toast({
+        title: decision === 'approve' ? 'Request completed' : 'Request rejected',
+        description: decision === 'approve'
+          ? `Certificate ${request.certificateNumber} issued.`
+          : 'The patient can see your reason.',
+      });
+      if (decision === 'approve') {
+        window.open(`/api/patient-data/deletion-requests/${request.id}/certificate`, '_blank', 'noopener');
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to review request: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Data deletion requests
+        </CardTitle>
+        <CardDescription>
+          Approving erases or de-identifies the patient's data straight away and closes their account. This cannot be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {requests.map(request => (
+          <div key={request.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{request.patientName} <span className="text-gray-500 font-normal">{request.patientUin}</span></span>
+              <Badge variant={request.mode === 'delete' ? 'destructive' : 'secondary'}>
+                {request.mode === 'delete' ? 'Delete' : 'De-identify'}
+              </Badge>
+            </div>
+            <p className="text-sm text-gray-600">
+              Requested {format(parseISO(request.requestedAt), 'd MMM yyyy')}
+              {request.reason && ` - "${request.reason}"`}
+            </p>
+            <Textarea
+              placeholder="Notes (required to reject)"
+              value={notes[request.id] ?? ''}
+              onChange={(e) => setNotes(current => ({ ...current, [request.id]: e.target.value }))}
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={reviewMutation.isPending}
+                onClick={() => reviewMutation.mutate({ requestId: request.id, decision: 'approve' })}
+              >
+                Approve
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={reviewMutation.isPending || !notes[request.id]}
+                onClick={() => reviewMutation.mutate({ requestId: request.id, decision: 'reject' })}
+              >
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DataDeletionRequestsPanel;
@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, ArrowUp, Download, TrendingDown, Users } from 'lucide-react';
+import type { CpdCategory } from '@shared/schema';
+
+type SortField = 'name' | 'adherence' | 'engagement' | 'alerts' | 'lastPpr';
+
+// Mirrors CohortPatient / CohortAnalytics in server/services/populationAnalyticsService.ts
+interface CohortPatient {
+  patientId: number;
+  name: string;
+  uin: string | null;
+  activeCpdCategories: CpdCategory[];
+  daysScored: number;
+  adherencePercent: number | null;
+  trend: 'declining' | 'improving' | 'stable' | 'insufficient_data';
+  decliningCategories: CpdCategory[];
+  engagementScore: number;
+  unreadAlerts: number;
+  unresolvedAlerts: number;
+  openEmergencyAlerts: number;
+  lastPprDate: string | null;
+  pprOverdue: boolean;
+}
+
+interface CohortAnalytics {
+  summary: {
+    patientCount: number;
+    adherenceDistribution: Record<string, number>;
+    medianAdherencePercent: number | null;
+    trendingDown: number;
+    averageEngagement: number | null;
+    unresolvedAlerts: number;
+    openEmergencyAlerts: number;
+    pprOverdue: number;
+  };
+  patients: CohortPatient[];
+}
+
+interface PopulationAnalyticsPanelProps {
+  onSelectPatient?: (patientId: number) => void;
+}
+
+const categoryLabels: Record<CpdCategory, string> = {
+  diet: 'Diet',
+  exercise: 'Exercise',
+  medication: 'Medication'
+};
+
+const distributionBands = ['0-19', '20-39', '40-59', '60-79', '80-100'];
+
+const columns: { field: SortField | null; label: string }[] = [
+  { field: 'name', label: 'Patient' },
+  { field: 'adherence', label: 'Adherence' },
+  { field: null, label: 'Trend' },
+  { field: 'engagement', label: 'Engagement' },
+  { field: 'alerts', label: 'Alerts' },
+  { field: 'lastPpr', label: 'Last PPR' }
+];
+
+/**
+ * Whole-panel view for doctors: adherence spread, who is trending down, engagement,
+ * alert backlog and PPR review status, with the filtered list downloadable as CSV.
+ */
+const PopulationAnalyticsPanel: React.FC<PopulationAnalyticsPanelProps> = ({ onSelectPatient }) => {
+  const [days, setDays] = useState('30');
+  const [category, setCategory] = useState<CpdCategory | 'all'>('all');
+  const [trendingDown, setTrendingDown] = useState(false);
+  const [pprOverdue, setPprOverdue] = useState(false);
+  const [sort, setSort] = useState<SortField>('adherence');
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+
+  const params = new URLSearchParams({ days, sort, order });
+  if (category !== 'all') params.set('category', category);
+  if (trendingDown) params.set('trendingDown', 'true');
+  if (pprOverdue) params.set('pprOverdue', 'true');
+  const queryString = params.toString();
+
+  const { data, isLoading, error } = useQuery<CohortAnalytics>({
+    queryKey: [`/api/doctor/population?${queryString}`],
+  });
+
+  const handleSort = (field: SortField) => {
+    if (field === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(field);
+      setOrder(field === 'name' ? 'asc' : 'desc');
+    }
+  };
+
+  const summary = data?.summary;
+  const largestBand = Math.max(1, ...Object.values(summary?.adherenceDistribution ?? {}));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <CardTitle className="text-[#2E8BC0] flex items-center">
+              <Users className="h-5 w-5 mr-2" />
+              Patient Panel Overview
+            </CardTitle>
+            <CardDescription>Adherence, engagement and review status across all your patients</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/doctor/population/export.csv?${queryString}`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 pt-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="14">Last 14 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={category} onValueChange={(value) => setCategory(value as CpdCategory | 'all')}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All CPD categories</SelectItem>
+              {(Object.keys(categoryLabels) as CpdCategory[]).map(value => (
+                <SelectItem key={value} value={value}>{categoryLabels[value]} CPD</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Switch id="cohort-trending-down" checked={trendingDown} onCheckedChange={setTrendingDown} />
+            <Label htmlFor="cohort-trending-down">Trending down</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="cohort-ppr-overdue" checked={pprOverdue} onCheckedChange={setPprOverdue} />
+            <Label htmlFor="cohort-ppr-overdue">PPR overdue</Label>
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {isLoading && <div className="text-sm text-gray-500">Loading patient panel...</div>}
+        {error && <div className="text-sm text-red-600">Could not load the patient panel overview.</div>}
+
+        {summary && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="rounded-md border p-4">
+              <div className="text-sm font-medium mb-2">Adherence distribution</div>
+              <div className="space-y-1">
+                {distributionBands.map(band => (
+                  <div key={band} className="flex items-center text-xs">
+                    <span className="w-14 text-gray-500">{band}%</span>
+                    <div className="flex-1 bg-gray-100 rounded h-3 mr-2">
+                      <div
+                        className="bg-[#2E8BC0] h-3 rounded"
+                        style={{ width: `${(summary.adherenceDistribution[band] / largestBand) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-right">{summary.adherenceDistribution[band]}</span>
+                  </div>
+                ))}
+                <div className="text-xs text-gray-500 pt-1">
+                  {summary.adherenceDistribution.no_data} with no scores in this period
+                </div>
+              </div>
+            </div>
+            <div className="rounded-md border p-4 space-y-2 text-sm">
+              <div className="flex justify-between"><span>Patients</span><span className="font-medium">{summary.patientCount}</span></div>
+              <div className="flex justify-between">
+                <span>Median adherence</span>
+                <span className="font-medium">{summary.medianAdherencePercent ?? '-'}{summary.medianAdherencePercent !== null && '%'}</span>
+              </div>
+              <div className="flex justify-between"><span>Trending down</span><span className="font-medium text-red-600">{summary.trendingDown}</span></div>
+              <div className="flex justify-between"><span>Average engagement</span><span className="font-medium">{summary.averageEngagement ?? '-'}</span></div>
+            </div>
+            <div className="rounded-md border p-4 space-y-2 text-sm">
+              <div className="flex justify-between"><span>Unresolved alerts</span><span className="font-medium">{summary.unresolvedAlerts}</span></div>
+              <div className="flex justify-between"><span>Open emergency alerts</span><span className="font-medium text-red-600">{summary.openEmergencyAlerts}</span></div>
+              <div className="flex justify-between"><span>PPR overdue</span><span className="font-medium text-amber-600">{summary.pprOverdue}</span></div>
+            </div>
+          </div>
+        )}
+
+        {data && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map(({ field, label }) => (
+                  <TableHead key={label}>
+                    {field ? (
+                      <button className="flex items-center font-medium" onClick={() => handleSort(field)}>
+                        {label}
+                        {sort === field && (order === 'asc'
+                          ? <ArrowUp className="h-3 w-3 ml-1" />
+                          : <ArrowDown className="h-3 w-3 ml-1" />)}
+                      </button>
+                    ) : label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.patients.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={columns.length} className="text-center text-gray-500">
+                    No patients match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+              {data.patients.map(patient => (
+                <TableRow
+                  key={patient.patientId}
+                  className={onSelectPatient ? 'cursor-pointer' : undefined}
+                  onClick={() => onSelectPatient?.(patient.patientId)}
+                >
+                  <TableCell>
+                    <div className="font-medium">{patient.name}</div>
+                    <div className="text-xs text-gray-500">{patient.uin}</div>
+                  </TableCell>
+                  <TableCell>
+                    {patient.adherencePercent === null ? (
+                      <span className="text-gray-400">No scores</span>
+                    ) : (
+                      <span>{patient.adherencePercent}% <span className="text-xs text-gray-500">({patient.daysScored} days)</span></span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {patient.trend === 'declining' ? (
+                      <Badge variant="destructive" className="flex w-fit items-center">
+                        <TrendingDown className="h-3 w-3 mr-1" />
+                        {patient.decliningCategories.map(c => categoryLabels[c]).join(', ')}
+                      </Badge>
+                    ) : (
+                      <span className="text-sm text-gray-600 capitalize">{patient.trend.replace('_', ' ')}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{patient.engagementScore}</TableCell>
+                  <TableCell>
+                    {patient.openEmergencyAlerts > 0 && (
+                      <Badge variant="destructive" className="mr-1">{patient.openEmergencyAlerts} emergency</Badge>
+                    )}
+                    {patient.unresolvedAlerts > 0 ? (
+                      <span className="text-sm">{patient.unresolvedAlerts} open ({patient.unreadAlerts} unread)</span>
+                    ) : patient.openEmergencyAlerts === 0 && <span className="text-sm text-gray-400">None</span>}
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-sm">
+                      {patient.lastPprDate ? format(parseISO(patient.lastPprDate), 'd MMM yyyy') : 'Never'}
+                    </span>
+                    {patient.pprOverdue && <Badge variant="outline" className="ml-2 border-amber-500 text-amber-600">Overdue</Badge>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PopulationAnalyticsPanel;
@@ -6,7 +6,8 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { createHapticFeedback } from "@/lib/hapticFeedback";
-import { apiRequest } from "@/lib/queryClient";
+import { useOfflineOutbox } from "@/hooks/useOfflineOutbox";
+import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { ModelContextProtocol } from "@/components/chatbot/ModelContextProtocol";
@@ -28,6 +29,7 @@ const DailyHealthScore: React.FC<DailyHealthScoreProps> = ({
   const isMobile = useIsMobile();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const { submit: submitOffline } = useOfflineOutbox(userId || metric.userId);
   
   // State for slider values
   const [medicationScore, setMedicationScore] = useState<number>(metric.medicationScore);
@@ -43,7 +45,7 @@ const DailyHealthScore: React.FC<DailyHealthScoreProps> = ({
   useEffect(() => {
     const lastSubmitDate = localStorage.getItem('lastScoreSubmitDate');
     if (lastSubmitDate) {
-      const today = new Date().toISOString().split('T')[0];
+      const today = format(new Date(), 'yyyy-MM-dd');
       if (lastSubmitDate === today) {
         setIsSubmitted(true);
       }
@@ -60,23 +62,22 @@ const DailyHealthScore: React.FC<DailyHealthScoreProps> = ({
     createHapticFeedback(500, false);
     
     try {
-      // Submit to server using correct endpoint
+      // Queue in the offline outbox and sync straight away when online. The score is
+      // dated with the patient's local day so an entry synced tomorrow still counts for today.
       const actualUserId = userId || metric.userId;
-      await apiRequest(
-        'POST',
-        '/api/patient-scores',
-        {
-          patientId: actualUserId,
-          scoreDate: new Date().toISOString(),
-          exerciseSelfScore: exerciseScore,
-          mealPlanSelfScore: dietScore,
-          medicationSelfScore: medicationScore,
-          notes: ''
-        }
-      );
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const result = await submitOffline('patient_score', {
+        scoreDate: today,
+        exerciseSelfScore: exerciseScore,
+        mealPlanSelfScore: dietScore,
+        medicationSelfScore: medicationScore
+      });
+      
+      if (result?.status === 'rejected') {
+        throw new Error(result.error);
+      }
       
       // Record submission date in local storage
-      const today = new Date().toISOString().split('T')[0];
       localStorage.setItem('lastScoreSubmitDate', today);
       
       // Save health metrics for chatbot conversation
@@ -89,10 +90,19 @@ const DailyHealthScore: React.FC<DailyHealthScoreProps> = ({
       
       setIsSubmitted(true);
       
-      toast({
-        title: "Scores submitted successfully",
-        description: "Your daily health scores have been recorded.",
-      });
+      if (result?.status === 'conflict') {
+        toast({
+          title: "Scores already recorded today",
+          description: "Choose which scores to keep in the prompt that follows.",
+        });
+      } else {
+        toast({
+          title: result ? "Scores submitted successfully" : "Scores saved offline",
+          description: result
+            ? "Your daily health scores have been recorded."
+            : "Your scores will sync when you are back online.",
+        });
+      }
       
       // Mark this feature usage in MCP
       ModelContextProtocol.getInstance(actualUserId).recordFeatureUsage('health-metrics');
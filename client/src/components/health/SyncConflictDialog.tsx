@@ -0,0 +1,115 @@
+import React, { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { format, parseISO } from "date-fns";
+import type { PatientScore, SyncConflictResolution } from "@shared/schema";
+import { useOfflineOutbox } from "@/hooks/useOfflineOutbox";
+import { useToast } from "@/hooks/use-toast";
+
+interface SyncConflictDialogProps {
+  userId?: number;
+}
+
+interface ScoreSet {
+  medicationSelfScore?: number | null;
+  mealPlanSelfScore?: number | null;
+  exerciseSelfScore?: number | null;
+}
+
+const scoreRows: { key: keyof ScoreSet; label: string }[] = [
+  { key: "medicationSelfScore", label: "Medication" },
+  { key: "mealPlanSelfScore", label: "Diet" },
+  { key: "exerciseSelfScore", label: "Exercise" },
+];
+
+/**
+ * Merge prompt for daily self-scores entered offline on a day that already has scores
+ * on the server (one score per day). The saved scores stay until the patient chooses.
+ */
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ userId }) => {
+  const { conflicts, resolveConflict, isSyncing } = useOfflineOutbox(userId);
+  const { toast } = useToast();
+  const [resolving, setResolving] = useState(false);
+
+  const conflict = conflicts.find(entry => entry.entityType === "patient_score");
+  if (!conflict) {
+    return null;
+  }
+
+  const offlineScores = conflict.data as unknown as ScoreSet & { scoreDate: string };
+  const savedScores = (conflict.serverEntity ?? {}) as Partial<PatientScore>;
+
+  const handleResolve = async (resolution: SyncConflictResolution) => {
+    setResolving(true);
+    try {
+      await resolveConflict(conflict, resolution);
+      toast({
+        title: "Scores updated",
+        description: resolution === "keep_local"
+          ? "Your offline scores have replaced the saved ones."
+          : "Your saved scores have been kept.",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not sync your choice",
+        description: "We'll ask again when you're back online.",
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Two sets of scores for one day</AlertDialogTitle>
+          <AlertDialogDescription>
+            You entered scores offline for {format(parseISO(offlineScores.scoreDate), "EEEE d MMMM")}, but
+            scores for that day were already saved. Only one set can be kept.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div />
+          <div className="font-medium text-center">Saved</div>
+          <div className="font-medium text-center">Entered offline</div>
+          {scoreRows.map(({ key, label }) => (
+            <React.Fragment key={key}>
+              <div>{label}</div>
+              <div className="text-center">{savedScores[key] ?? "-"}</div>
+              <div className="text-center">{offlineScores[key] ?? "-"}</div>
+            </React.Fragment>
+          ))}
+        </div>
+
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            disabled={resolving || isSyncing}
+            onClick={() => handleResolve("keep_server")}
+          >
+            Keep saved scores
+          </Button>
+          <Button
+            className="bg-[#2E8BC0] hover:bg-[#267cad]"
+            disabled={resolving || isSyncing}
+            onClick={() => handleResolve("keep_local")}
+          >
+            Use offline scores
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SyncConflictDialog;
@@ -11,6 +11,8 @@ import kgcLogoPath from "@/assets/KGC Logo2 Nov24_1744113864434.jpg";
 import Sidebar from "./Sidebar";
 import { SidebarProvider } from "./SidebarContext";
 import UserHeader from "./UserHeader";
+import SyncConflictDialog from "@/components/health/SyncConflictDialog";
+import { useAuth } from "@/context/auth-context";
 
 
 interface LayoutProps {
@@ -23,6 +25,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [logoAnimating, setLogoAnimating] = useState(false);
   const [showOrientationVideo, setShowOrientationVideo] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { user } = useAuth();
   
   // Effect to trigger logo animation when any page loads or changes
   useEffect(() => {
@@ -144,6 +147,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           {/* Side menu - now imported from separate component */}
           <Sidebar sidebarOpen={sidebarOpen} toggleSidebar={toggleSidebar} />
         </div>
+        
+        {/* Merge prompt for offline entries that clash with what's already saved */}
+        {user?.role === 'patient' && <SyncConflictDialog userId={user.id} />}
       </div>
     </SidebarProvider>
   );
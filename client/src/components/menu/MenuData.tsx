@@ -17,7 +17,8 @@ import {
   UserPlus,
   Apple,
   Watch,
-  FileText
+  FileText,
+  Mail
 } from "lucide-react";
 
 // Define menu item type
@@ -42,7 +43,8 @@ export const getMenuItems = (): MenuItem[] => {
     { icon: <BarChart className="h-6 w-6 icon-metallic" />, label: "Health Snapshots", path: "/health-snapshots" },
     { icon: <Trophy className="h-6 w-6 icon-metallic" />, label: "Progress Milestones", path: "/progress-milestones" },
     { icon: <Apple className="h-6 w-6 icon-metallic" />, label: "Food Database", path: "/food-database" },
-    { icon: <MessageCircle className="h-6 w-6 icon-metallic" />, label: "Chatbot", path: "/chatbot" }
+    { icon: <MessageCircle className="h-6 w-6 icon-metallic" />, label: "Chatbot", path: "/chatbot" },
+    { icon: <Mail className="h-6 w-6 icon-metallic" />, label: "Messages", path: "/messages" }
   ];
 };
 
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Clock } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// Mirrors MessagingSettings in server/services/secureMessagingService.ts
+interface MessagingSettings {
+  responseTimeHours: number;
+  availabilityNote: string | null;
+}
+
+const SETTINGS_QUERY_KEY = '/api/secure-messages/settings';
+
+const DoctorMessagingSettingsCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<MessagingSettings | null>(null);
+
+  const { data: settings } = useQuery<MessagingSettings>({
+    queryKey: [SETTINGS_QUERY_KEY],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: MessagingSettings) => {
+      return await apiRequest<MessagingSettings>('PUT', SETTINGS_QUERY_KEY, {
+        responseTimeHours: updates.responseTimeHours,
+        availabilityNote: updates.availabilityNote || null,
+      });
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([SETTINGS_QUERY_KEY], saved);
+      toast({ title: 'Messaging settings saved' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save settings: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!draft) {
+    return null;
+  }
+
+  const validHours = Number.isInteger(draft.responseTimeHours) && draft.responseTimeHours >= 1 && draft.responseTimeHours <= 168;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Message Response Time
+        </CardTitle>
+        <CardDescription>
+          Patients see this before they write to you. Unanswered messages past this time are flagged as overdue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="response-time-hours">Reply within (hours, up to 168)</Label>
+          <Input
+            id="response-time-hours"
+            type="number"
+            min={1}
+            max={168}
+            value={draft.responseTimeHours}
+            onChange={(e) => setDraft({ ...draft, responseTimeHours: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="availability-note">Note for patients (optional)</Label>
+          <Textarea
+            id="availability-note"
+            placeholder="e.g. I reply to messages on weekdays"
+            maxLength={500}
+            value={draft.availabilityNote ?? ''}
+            onChange={(e) => setDraft({ ...draft, availabilityNote: e.target.value })}
+          />
+        </div>
+        <Button disabled={!validHours || saveMutation.isPending} onClick={() => saveMutation.mutate(draft)}>
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DoctorMessagingSettingsCard;
@@ -0,0 +1,435 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowLeft, CheckCheck, Clock, Mail, Paperclip, Plus, Send, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { SecureMessageAttachmentType } from '@shared/schema';
+
+// Mirrors the types in server/services/secureMessagingService.ts as serialised by the API
+interface ThreadSummary {
+  id: number;
+  patientId: number;
+  doctorId: number;
+  subject: string;
+  status: 'open' | 'closed';
+  lastMessageAt: string;
+  replyDueAt: string | null;
+  patientName: string;
+  doctorName: string;
+  unreadCount: number;
+  lastMessagePreview: string | null;
+  overdue: boolean;
+}
+
+interface AttachmentInfo {
+  id: number;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+interface Message {
+  id: number;
+  senderId: number;
+  body: string;
+  readAt: string | null;
+  createdAt: string;
+  attachments: AttachmentInfo[];
+}
+
+interface ThreadDetail {
+  thread: ThreadSummary;
+  messages: Message[];
+}
+
+interface CareTeamDoctor {
+  doctorId: number;
+  name: string;
+  responseTimeHours: number;
+  availabilityNote: string | null;
+}
+
+interface MessageablePatient {
+  patientId: number;
+  name: string;
+}
+
+interface SendResult {
+  thread: ThreadSummary;
+  emergency: { severity: string; alertMessage?: string } | null;
+}
+
+interface AttachmentUpload {
+  filename: string;
+  mimeType: SecureMessageAttachmentType;
+  data: string;
+}
+
+interface SecureMessagingPanelProps {
+  role: 'doctor' | 'patient';
+  userId: number;
+  initialThreadId?: number;
+}
+
+const THREADS_QUERY_KEY = '/api/secure-messages/threads';
+const POLL_INTERVAL_MS = 30 * 1000;
+const MAX_ATTACHMENTS = 3;
+const MAX_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+// Phone photos are scaled down before upload so they fit the attachment limit
+const MAX_IMAGE_DIMENSION = 1600;
+
+const acceptedTypes: SecureMessageAttachmentType[] = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+function formatHours(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? '' : 's'}` : `${hours} hours`;
+}
+
+function readAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function downscaleImage(file: File): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not read the image'))), 'image/jpeg', 0.85);
+  });
+}
+
+async function toAttachment(file: File): Promise<AttachmentUpload> {
+  if (!acceptedTypes.includes(file.type as SecureMessageAttachmentType)) {
+    throw new Error(`${file.name}: only photos (JPEG, PNG, WebP, HEIC) and PDFs can be attached`);
+  }
+
+  // HEIC can't be drawn by most browsers, so it is sent as is
+  const shrink = file.type !== 'application/pdf' && file.type !== 'image/heic';
+  const content = shrink ? await downscaleImage(file) : file;
+  if (content.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than 2 MB`);
+  }
+
+  return {
+    filename: shrink ? file.name.replace(/\.[^.]+$/, '') + '.jpg' : file.name,
+    mimeType: shrink ? 'image/jpeg' : file.type as SecureMessageAttachmentType,
+    data: await readAsBase64(content),
+  };
+}
+
+const SecureMessagingPanel: React.FC<SecureMessagingPanelProps> = ({ role, userId, initialThreadId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedThreadId, setSelectedThreadId] = useState<number | null>(initialThreadId ?? null);
+  const [composingNew, setComposingNew] = useState(false);
+  const [recipientId, setRecipientId] = useState<string>('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<AttachmentUpload[]>([]);
+  const [emergencyNotice, setEmergencyNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { data: threads = [] } = useQuery<ThreadSummary[]>({
+    queryKey: [THREADS_QUERY_KEY],
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: detail } = useQuery<ThreadDetail>({
+    queryKey: [`${THREADS_QUERY_KEY}/${selectedThreadId}`],
+    enabled: selectedThreadId !== null,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const { data: careTeam = [] } = useQuery<CareTeamDoctor[]>({
+    queryKey: ['/api/secure-messages/care-team'],
+    enabled: role === 'patient',
+  });
+
+  const { data: patients = [] } = useQuery<MessageablePatient[]>({
+    queryKey: ['/api/secure-messages/patients'],
+    enabled: role === 'doctor',
+  });
+
+  // Opening a thread marks it read, so the list's unread counts change
+  useEffect(() => {
+    if (detail) {
+      queryClient.invalidateQueries({ queryKey: [THREADS_QUERY_KEY] });
+    }
+  }, [detail?.thread.id, queryClient]);
+
+  const resetComposer = () => {
+    setBody('');
+    setSubject('');
+    setAttachments([]);
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      if (composingNew) {
+        return await apiRequest<SendResult>('POST', THREADS_QUERY_KEY, {
+          subject,
+          body,
+          attachments,
+          ...(role === 'patient' ? { doctorId: Number(recipientId) } : { patientId: Number(recipientId) }),
+        });
+      }
+      return await apiRequest<SendResult>('POST', `${THREADS_QUERY_KEY}/${selectedThreadId}/messages`, { body, attachments });
+    },
+    onSuccess: (result) => {
+      resetComposer();
+      setComposingNew(false);
+      setSelectedThreadId(result.thread.id);
+      setEmergencyNotice(result.emergency?.alertMessage ?? null);
+      queryClient.invalidateQueries({ queryKey: [THREADS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [`${THREADS_QUERY_KEY}/${result.thread.id}`] });
+    },
+    onError: (error) => {
+      toast({ title: 'Message not sent', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: 'open' | 'closed') => {
+      return await apiRequest('PATCH', `${THREADS_QUERY_KEY}/${selectedThreadId}`, { status });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [THREADS_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: [`${THREADS_QUERY_KEY}/${selectedThreadId}`] });
+    },
+    onError: (error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    try {
+      const added = await Promise.all(Array.from(files).map(toAttachment));
+      const combined = [...attachments, ...added];
+      if (combined.length > MAX_ATTACHMENTS) {
+        throw new Error(`Up to ${MAX_ATTACHMENTS} attachments per message`);
+      }
+      setAttachments(combined);
+    } catch (error) {
+      toast({ title: 'Attachment not added', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const selectedDoctor = careTeam.find(doctor => doctor.doctorId === (detail?.thread.doctorId ?? Number(recipientId)));
+  const canSend = body.trim().length > 0 && (!composingNew || (subject.trim().length > 0 && recipientId !== ''));
+  const threadClosed = detail?.thread.status === 'closed';
+
+  const composer = (
+    <div className="space-y-2">
+      <Textarea
+        placeholder="Write your message"
+        value={body}
+        maxLength={5000}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment, index) => (
+            <Badge key={index} variant="secondary" className="flex items-center gap-1">
+              {attachment.filename}
+              <button onClick={() => setAttachments(attachments.filter((_, i) => i !== index))} aria-label="Remove attachment">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center justify-between">
+        <input
+          ref={fileInput}
+          type="file"
+          accept={acceptedTypes.join(',')}
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={attachments.length >= MAX_ATTACHMENTS}>
+          <Paperclip className="h-4 w-4 mr-1" />
+          Attach photo or PDF
+        </Button>
+        <Button size="sm" onClick={() => sendMutation.mutate()} disabled={!canSend || sendMutation.isPending}>
+          <Send className="h-4 w-4 mr-1" />
+          Send
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Secure Messages
+        </CardTitle>
+        <CardDescription>
+          {role === 'patient'
+            ? 'Message your doctor about your care. Not for emergencies - if you need urgent help call 000.'
+            : 'Messages from your patients. Overdue replies are listed first.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {emergencyNotice && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{emergencyNotice}</AlertDescription>
+          </Alert>
+        )}
+
+        {selectedThreadId === null && !composingNew && (
+          <div className="space-y-2">
+            <Button size="sm" onClick={() => { resetComposer(); setComposingNew(true); }}>
+              <Plus className="h-4 w-4 mr-1" />
+              New message
+            </Button>
+            {threads.length === 0 && <p className="text-sm text-gray-600">No messages yet.</p>}
+            {threads.map(thread => (
+              <div
+                key={thread.id}
+                className="cursor-pointer rounded-md border p-3 hover:bg-gray-50"
+                onClick={() => { setEmergencyNotice(null); setSelectedThreadId(thread.id); }}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{thread.subject}</span>
+                  <div className="flex items-center gap-1">
+                    {thread.overdue && role === 'doctor' && <Badge variant="destructive">Reply overdue</Badge>}
+                    {thread.status === 'closed' && <Badge variant="outline">Closed</Badge>}
+                    {thread.unreadCount > 0 && <Badge>{thread.unreadCount} new</Badge>}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {role === 'patient' ? `Dr. ${thread.doctorName}` : thread.patientName}
+                  {' - '}
+                  {formatDistanceToNow(parseISO(thread.lastMessageAt), { addSuffix: true })}
+                </p>
+                {thread.lastMessagePreview && <p className="text-sm text-gray-500 truncate">{thread.lastMessagePreview}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {composingNew && (
+          <div className="space-y-3">
+            <Button variant="ghost" size="sm" onClick={() => setComposingNew(false)}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            <Select value={recipientId} onValueChange={setRecipientId}>
+              <SelectTrigger>
+                <SelectValue placeholder={role === 'patient' ? 'Choose your doctor' : 'Choose a patient'} />
+              </SelectTrigger>
+              <SelectContent>
+                {role === 'patient'
+                  ? careTeam.map(doctor => (
+                    <SelectItem key={doctor.doctorId} value={String(doctor.doctorId)}>Dr. {doctor.name}</SelectItem>
+                  ))
+                  : patients.map(patient => (
+                    <SelectItem key={patient.patientId} value={String(patient.patientId)}>{patient.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {role === 'patient' && selectedDoctor && (
+              <p className="text-sm text-gray-600 flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                Dr. {selectedDoctor.name} usually replies within {formatHours(selectedDoctor.responseTimeHours)}.
+                {selectedDoctor.availabilityNote && ` ${selectedDoctor.availabilityNote}`}
+              </p>
+            )}
+            <Input placeholder="Subject" value={subject} maxLength={200} onChange={(e) => setSubject(e.target.value)} />
+            {composer}
+          </div>
+        )}
+
+        {selectedThreadId !== null && detail && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Button variant="ghost" size="sm" onClick={() => { setSelectedThreadId(null); setEmergencyNotice(null); }}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                All messages
+              </Button>
+              {role === 'doctor' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={statusMutation.isPending}
+                  onClick={() => statusMutation.mutate(threadClosed ? 'open' : 'closed')}
+                >
+                  {threadClosed ? 'Reopen' : 'Close conversation'}
+                </Button>
+              )}
+            </div>
+            <div>
+              <h3 className="font-medium">{detail.thread.subject}</h3>
+              <p className="text-sm text-gray-600">
+                {role === 'patient' ? `With Dr. ${detail.thread.doctorName}` : `With ${detail.thread.patientName}`}
+                {detail.thread.replyDueAt && ` - reply expected by ${format(parseISO(detail.thread.replyDueAt), 'd MMM, h:mm a')}`}
+              </p>
+            </div>
+
+            <div className="space-y-2 max-h-[420px] overflow-y-auto">
+              {detail.messages.map(message => {
+                const mine = message.senderId === userId;
+                return (
+                  <div key={message.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[80%] rounded-lg p-3 ${mine ? 'bg-[#2E8BC0] text-white' : 'bg-gray-100'}`}>
+                      <p className="whitespace-pre-wrap text-sm">{message.body}</p>
+                      {message.attachments.map(attachment => (
+                        <a
+                          key={attachment.id}
+                          href={`/api/secure-messages/attachments/${attachment.id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="mt-1 flex items-center gap-1 text-xs underline"
+                        >
+                          <Paperclip className="h-3 w-3" />
+                          {attachment.filename}
+                        </a>
+                      ))}
+                      <p className={`mt-1 text-xs ${mine ? 'text-white/80' : 'text-gray-500'} flex items-center gap-1`}>
+                        {format(parseISO(message.createdAt), 'd MMM, h:mm a')}
+                        {mine && message.readAt && (
+                          <>
+                            <CheckCheck className="h-3 w-3" />
+                            Read {format(parseISO(message.readAt), 'h:mm a')}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {threadClosed
+              ? <p className="text-sm text-gray-600">This conversation is closed. Start a new message if you need to follow up.</p>
+              : composer}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SecureMessagingPanel;
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { ToastAction } from '@/components/ui/toast';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+// Mirrors Notification in shared/schema.ts as serialised by the API (in-app fields only)
+interface InAppNotification {
+  id: number;
+  subject: string | null;
+  body: string;
+  url: string | null;
+  createdAt: string;
+}
+
+const UNREAD_QUERY_KEY = '/api/notifications?unread=true';
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Shows the signed-in user's unread in-app notifications (7 PM reminders, badges...)
+ * as toasts, and marks each one read once it has been shown.
+ */
+export function InAppNotificationToaster() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const shownIds = useRef(new Set<number>());
+
+  const { data: unread = [] } = useQuery<InAppNotification[]>({
+    queryKey: [UNREAD_QUERY_KEY],
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  useEffect(() => {
+    for (const notification of unread) {
+      if (shownIds.current.has(notification.id)) {
+        continue;
+      }
+      shownIds.current.add(notification.id);
+
+      toast({
+        title: notification.subject ?? 'Keep Going Care',
+        description: notification.body,
+        duration: 10000,
+        action: notification.url ? (
+          <ToastAction altText="Open" onClick={() => setLocation(notification.url!)}>
+            Open
+          </ToastAction>
+        ) : undefined,
+      });
+
+      apiRequest('POST', `/api/notifications/${notification.id}/read`)
+        .then(() => queryClient.invalidateQueries({ queryKey: [UNREAD_QUERY_KEY] }))
+        .catch(error => console.error('Failed to mark notification read:', error));
+    }
+  }, [unread, toast, setLocation, queryClient]);
+
+  // This component doesn't render anything visible
+  return null;
+}
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Bell, Smartphone } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import {
+  isPushSupported,
+  getDevicePushSubscription,
+  enablePushOnThisDevice,
+  disablePushOnThisDevice,
+} from '@/lib/pushNotifications';
+import { useToast } from '@/hooks/use-toast';
+
+// Mirrors NotificationPreferenceSettings in server/services/notificationService.ts
+interface NotificationPreferences {
+  smsEnabled: boolean;
+  emailEnabled: boolean;
+  inAppEnabled: boolean;
+  webPushEnabled: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  locale: string;
+}
+
+type ChannelField = 'inAppEnabled' | 'webPushEnabled' | 'emailEnabled' | 'smsEnabled';
+
+const channelOptions: { field: ChannelField; label: string }[] = [
+  { field: 'inAppEnabled', label: 'In the app' },
+  { field: 'webPushEnabled', label: 'Push notifications' },
+  { field: 'emailEnabled', label: 'Email' },
+  { field: 'smsEnabled', label: 'SMS' },
+];
+
+const NotificationPreferencesCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+  const [devicePushEnabled, setDevicePushEnabled] = useState(false);
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/notifications/preferences'],
+  });
+
+  useEffect(() => {
+    if (preferences) {
+      setDraft(preferences);
+    }
+  }, [preferences]);
+
+  useEffect(() => {
+    getDevicePushSubscription()
+      .then(subscription => setDevicePushEnabled(!!subscription))
+      .catch(error => console.error('Failed to read push subscription:', error));
+  }, []);
+
+  const devicePushMutation = useMutation({
+    mutationFn: async (enable: boolean) => {
+      if (enable) {
+        await enablePushOnThisDevice();
+      } else {
+        await disablePushOnThisDevice();
+      }
+      return enable;
+    },
+    onSuccess: (enabled) => {
+      setDevicePushEnabled(enabled);
+      toast({ title: enabled ? 'Push notifications on for this device' : 'Push notifications off for this device' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update push notifications: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: NotificationPreferences) => {
+      return await apiRequest<NotificationPreferences>('PUT', '/api/notifications/preferences', {
+        smsEnabled: updates.smsEnabled,
+        emailEnabled: updates.emailEnabled,
+        inAppEnabled: updates.inAppEnabled,
+        webPushEnabled: updates.webPushEnabled,
+        quietHoursStart: updates.quietHoursStart || null,
+        quietHoursEnd: updates.quietHoursEnd || null,
+      });
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], saved);
+      toast({ title: 'Notification preferences saved' });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save preferences: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!draft) {
+    return null;
+  }
+
+  const quietHoursIncomplete = !draft.quietHoursStart !== !draft.quietHoursEnd;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose how Keep Going Care reaches you. Urgent safety alerts are always sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {channelOptions.map(({ field, label }) => (
+          <div key={field} className="flex items-center justify-between">
+            <Label htmlFor={`notify-${field}`}>{label}</Label>
+            <Switch
+              id={`notify-${field}`}
+              checked={draft[field]}
+              onCheckedChange={(checked) => setDraft({ ...draft, [field]: checked })}
+            />
+          </div>
+        ))}
+
+        {isPushSupported() && (
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div className="flex items-center gap-2">
+              <Smartphone className="h-4 w-4 text-gray-600" />
+              <span className="text-sm">
+                Push on this device: {devicePushEnabled ? 'on' : 'off'}
+              </span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={devicePushMutation.isPending}
+              onClick={() => devicePushMutation.mutate(!devicePushEnabled)}
+            >
+              {devicePushEnabled ? 'Turn off' : 'Turn on'}
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Quiet hours</Label>
+          <p className="text-sm text-gray-600">
+            SMS and push notifications wait until quiet hours end.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={draft.quietHoursStart ?? ''}
+              onChange={(e) => setDraft({ ...draft, quietHoursStart: e.target.value || null })}
+            />
+            <span className="text-sm text-gray-600">to</span>
+            <Input
+              type="time"
+              value={draft.quietHoursEnd ?? ''}
+              onChange={(e) => setDraft({ ...draft, quietHoursEnd: e.target.value || null })}
+            />
+          </div>
+        </div>
+
+        <Button
+          disabled={saveMutation.isPending || quietHoursIncomplete}
+          onClick={() => saveMutation.mutate(draft)}
+        >
+          Save preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferencesCard;
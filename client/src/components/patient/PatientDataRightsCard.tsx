@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Download, FileCheck, ShieldCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { DataDeletionMode, DataDeletionStatus } from '@shared/schema';
+
+// Mirrors DataDeletionRequest in shared/schema.ts as serialised by the API
+interface DeletionRequest {
+  id: number;
+  mode: DataDeletionMode;
+  status: DataDeletionStatus;
+  reason: string | null;
+  requestedAt: string;
+  reviewedAt: string | null;
+  reviewNotes: string | null;
+  completedAt: string | null;
+  certificateNumber: string | null;
+}
+
+const modeLabels: Record<DataDeletionMode, string> = {
+  delete: 'Delete my data',
+  deidentify: 'De-identify my data'
+};
+
+const statusVariants: Record<DataDeletionStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  completed: 'secondary',
+  rejected: 'destructive',
+  cancelled: 'outline'
+};
+
+const PatientDataRightsCard: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<DataDeletionMode>('delete');
+  const [reason, setReason] = useState('');
+
+  const { data: requests = [] } = useQuery<DeletionRequest[]>({
+    queryKey: ['/api/patient-data/deletion-requests'],
+  });
+  const pending = requests.find(request => request.status === 'pending');
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/patient-data/deletion-requests', { mode, reason: reason || undefined });
+    },
+    onSuccess: () => {
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-data/deletion-requests'] });
+      toast({
+        title: 'Request sent',
+        description: 'Your doctor will review your request before anything is changed.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to send request: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (requestId: number) => {
+      await apiRequest('POST', `/api/patient-data/deletion-requests/${requestId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/patient-data/deletion-requests'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to cancel request: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Your data and privacy
+        </CardTitle>
+        <CardDescription>
+          Download a copy of everything Keep Going Care holds about you, or ask for it to be deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            The download is a ZIP file with your scores, health metrics, care plan, journal, chat memory,
+            favourites, badges and shared progress reports, plus a report you can open in a browser and print.
+          </p>
+          <Button variant="outline" asChild>
+            <a href="/api/patient-data/export" download>
+              <Download className="h-4 w-4 mr-2" />
+              Download my data
+            </a>
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="font-medium">Delete my data</h3>
+          {pending ? (
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <p className="text-sm">
+                {modeLabels[pending.mode]} requested on {format(parseISO(pending.requestedAt), 'd MMM yyyy')} - awaiting review.
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={cancelMutation.isPending}
+                onClick={() => cancelMutation.mutate(pending.id)}
+              >
+                Withdraw
+              </Button>
+            </div>
+          ) : (
+            <>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as DataDeletionMode)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="delete" id="deletion-mode-delete" />
+                  <Label htmlFor="deletion-mode-delete" className="font-normal">
+                    <span className="font-medium">Delete</span> - erase your records and close your account.
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="deidentify" id="deletion-mode-deidentify" />
+                  <Label htmlFor="deletion-mode-deidentify" className="font-normal">
+                    <span className="font-medium">De-identify</span> - remove your name, contact details and personal
+                    notes, keep your scores and measurements without anything that identifies you, and close your account.
+                  </Label>
+                </div>
+              </RadioGroup>
+              <Textarea
+                placeholder="Reason (optional)"
+                value={reason}
+                maxLength={2000}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Your doctor reviews the request first. The security audit log and emergency alert records are kept
+                as required by law, linked only to your account number.
+              </p>
+              <Button
+                variant="destructive"
+                disabled={requestMutation.isPending}
+                onClick={() => requestMutation.mutate()}
+              >
+                Request {mode === 'delete' ? 'deletion' : 'de-identification'}
+              </Button>
+            </>
+          )}
+        </div>
+
+        {requests.some(request => request.status !== 'pending') && (
+          <div className="space-y-2 border-t pt-4">
+            <h3 className="font-medium">Previous requests</h3>
+            {requests.filter(request => request.status !== 'pending').map(request => (
+              <div key={request.id} className="flex items-center justify-between gap-4 text-sm">
+                <div>
+                  {modeLabels[request.mode]} · {format(parseISO(request.requestedAt), 'd MMM yyyy')}
+                  {request.reviewNotes && <p className="text-gray-500">{request.reviewNotes}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={statusVariants[request.status]}>{request.status}</Badge>
+                  {request.status === 'completed' && (
+                    <Button variant="link" size="sm" asChild>
+                      <a href={`/api/patient-data/deletion-requests/${request.id}/certificate`} target="_blank" rel="noreferrer">
+                        <FileCheck className="h-4 w-4 mr-1" />
+                        Certificate
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PatientDataRightsCard;
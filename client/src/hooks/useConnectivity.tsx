@@ -71,44 +71,8 @@ export function useConnectivity() {
           });
         }
         
-        // For patient self-scoring, allow offline data to be stored locally
-        if (url.includes('/api/patient/scores') && init?.method === 'POST') {
-          try {
-            // Store the submission in a pending queue
-            const pendingSubmissions = JSON.parse(localStorage.getItem('kgc_pending_submissions') || '[]');
-            
-            // Get the request body
-            const body = init.body instanceof FormData 
-              ? Object.fromEntries(Array.from(init.body.entries()))
-              : typeof init.body === 'string' 
-                ? JSON.parse(init.body) 
-                : {};
-            
-            // Add timestamp for later submission
-            pendingSubmissions.push({
-              url,
-              body,
-              timestamp: new Date().toISOString(),
-              method: init.method
-            });
-            
-            // Store for later synchronization
-            localStorage.setItem('kgc_pending_submissions', JSON.stringify(pendingSubmissions));
-            
-            // Return success response to prevent app errors
-            return new Response(JSON.stringify({
-              success: true,
-              message: 'Your scores have been saved and will be synchronized when you are back online.',
-              offline: true,
-              pendingSync: true
-            }), {
-              status: 200,
-              headers: { 'Content-Type': 'application/json' }
-            });
-          } catch (error) {
-            console.error('Error storing offline submission:', error);
-          }
-        }
+        // Patient inputs (self-scores, milestones, journal drafts) are queued in the
+        // IndexedDB outbox (lib/offlineOutbox.ts) rather than intercepted here
         
         // Special case for the chatbot when offline - return supportive cached responses
         if (url.includes('/api/mcp/generate')) {
@@ -188,50 +152,6 @@ export function useConnectivity() {
           }
         }
         
-        // Process any pending submissions if we are back online
-        if (connectivityLevel === ConnectivityLevel.FULL && url.includes('/api/sync')) {
-          try {
-            const pendingSubmissions = JSON.parse(localStorage.getItem('kgc_pending_submissions') || '[]');
-            if (pendingSubmissions.length > 0) {
-              // Process in background to avoid blocking
-              setTimeout(async () => {
-                const successfulSubmissions = [];
-                
-                for (const submission of pendingSubmissions) {
-                  try {
-                    // Attempt to submit
-                    await originalFetch.current!(submission.url, {
-                      method: submission.method,
-                      headers: { 'Content-Type': 'application/json' },
-                      body: JSON.stringify(submission.body)
-                    });
-                    successfulSubmissions.push(submission);
-                  } catch (error) {
-                    console.error('Error syncing submission:', error);
-                  }
-                }
-                
-                // Remove successful submissions
-                const remaining = pendingSubmissions.filter(
-                  sub => !successfulSubmissions.includes(sub)
-                );
-                localStorage.setItem('kgc_pending_submissions', JSON.stringify(remaining));
-                
-                // Notify user if we synced data
-                if (successfulSubmissions.length > 0) {
-                  toast({
-                    title: "Data synchronized",
-                    description: `Successfully synced ${successfulSubmissions.length} offline submissions.`,
-                    variant: "default",
-                  });
-                }
-              }, 100);
-            }
-          } catch (error) {
-            console.error('Error processing pending submissions:', error);
-          }
-        }
-        
         return response;
       } catch (error) {
         console.error('Fetch error:', error);
@@ -307,9 +227,7 @@ export function useConnectivity() {
         });
         // Update last notification timestamp and type
         lastNotificationRef.current = {time: now, type: 'online'};
-        
-        // Auto-sync data when coming back online
-        fetch('/api/sync', { method: 'POST' }).catch(() => {}); // Ignore errors
+        // The offline outbox flushes itself on reconnect (useOfflineOutbox)
       }
     }
   }, [connectivityLevel, toast]);
@@ -330,19 +248,6 @@ export function useConnectivity() {
       localStorage.setItem('kgc_connectivity_level', ConnectivityLevel.OFFLINE.toString());
     }
     
-    // Check for pending submissions when coming back online
-    if (navigator.onLine) {
-      try {
-        const pendingSubmissions = JSON.parse(localStorage.getItem('kgc_pending_submissions') || '[]');
-        if (pendingSubmissions.length > 0) {
-          // Trigger a sync request in the background
-          fetch('/api/sync', { method: 'POST' }).catch(() => {}); // Ignore errors
-        }
-      } catch (error) {
-        console.error('Error checking pending submissions:', error);
-      }
-    }
-    
     // Set up event listeners
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
@@ -5,19 +5,20 @@
  * with the KGC MCP server to provide enhanced patient experiences.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
 
-// MCP Protocol Types
+// MCP Protocol Types (JSON-RPC 2.0, see server/mcp/core/jsonRpc.ts)
 export interface MCPRequest {
+  jsonrpc: '2.0';
   id: string;
   method: string;
   params?: any;
 }
 
 export interface MCPResponse {
-  id: string;
+  jsonrpc: '2.0';
+  id: string | null;
   result?: any;
   error?: {
     code: number;
@@ -26,6 +27,9 @@ export interface MCPResponse {
   };
 }
 
+const MCP_ENDPOINT = '/api/mcp';
+const MCP_PROTOCOL_VERSION = '2025-06-18';
+
 export interface MCPTool {
   name: string;
   description: string;
@@ -40,17 +44,16 @@ export interface MCPResource {
 }
 
 export interface MCPCapabilities {
-  tools?: boolean;
-  resources?: boolean;
-  prompts?: boolean;
-  sampling?: boolean;
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
 }
 
 export interface MCPServerInfo {
-  name: string;
-  version: string;
-  description: string;
+  protocolVersion: string;
   capabilities: MCPCapabilities;
+  serverInfo: { name: string; title?: string; version: string };
+  instructions?: string;
 }
 
 export interface MCPHostState {
@@ -74,6 +77,8 @@ export function useMCPHost(userId: number) {
   });
   
   const [requestCounter, setRequestCounter] = useState(0);
+  // Issued by the server on initialize and sent back on every later message
+  const sessionIdRef = useRef<string | null>(null);
   const { toast } = useToast();
 
   /**
@@ -84,28 +89,63 @@ export function useMCPHost(userId: number) {
     return `mcp-${Date.now()}-${requestCounter}`;
   }, [requestCounter]);
 
+  /**
+   * Post a JSON-RPC message to the MCP endpoint
+   */
+  const postMCPMessage = useCallback(async (message: object): Promise<Response> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      // No progress is needed here, so plain JSON responses are enough
+      Accept: 'application/json',
+      'MCP-Protocol-Version': MCP_PROTOCOL_VERSION
+    };
+    if (sessionIdRef.current) {
+      headers['Mcp-Session-Id'] = sessionIdRef.current;
+    }
+
+    const res = await fetch(MCP_ENDPOINT, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(message),
+      credentials: 'include'
+    });
+
+    if (res.status === 404 && sessionIdRef.current) {
+      // The server dropped our session; start again on the next initialize
+      sessionIdRef.current = null;
+      setState(prev => ({ ...prev, isConnected: false, isInitialized: false, error: 'MCP session expired' }));
+    }
+    return res;
+  }, []);
+
   /**
    * Send MCP request to server
    */
   const sendMCPRequest = useCallback(async (method: string, params?: any): Promise<MCPResponse> => {
     const request: MCPRequest = {
+      jsonrpc: '2.0',
       id: generateRequestId(),
       method,
       params
     };
 
     try {
-      const response = await apiRequest('POST', '/api/mcp', {
-        request,
-        userId
-      });
-      
-      return response as MCPResponse;
+      const res = await postMCPMessage(request);
+      const sessionId = res.headers.get('Mcp-Session-Id');
+      if (sessionId) {
+        sessionIdRef.current = sessionId;
+      }
+
+      const body = await res.json();
+      if (!res.ok && !body?.jsonrpc) {
+        throw new Error(`${res.status}: ${body?.error || res.statusText}`);
+      }
+      return body as MCPResponse;
     } catch (error) {
       console.error('[MCP Host] Request failed:', error);
       throw new Error(`MCP request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [generateRequestId, userId]);
+  }, [generateRequestId, postMCPMessage]);
 
   /**
    * Initialize MCP connection
@@ -114,19 +154,14 @@ export function useMCPHost(userId: number) {
     try {
       setState(prev => ({ ...prev, error: undefined }));
       
-      // Send initialize request
+      // Send initialize request on a fresh session
+      sessionIdRef.current = null;
       const response = await sendMCPRequest('initialize', {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          tools: true,
-          resources: true,
-          prompts: true,
-          sampling: false
-        },
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
         clientInfo: {
           name: 'KGC Patient Dashboard',
-          version: '1.0.0',
-          description: 'Keep Going Care patient dashboard MCP client'
+          version: '1.0.0'
         }
       });
 
@@ -135,6 +170,7 @@ export function useMCPHost(userId: number) {
       }
 
       const serverInfo = response.result;
+      await postMCPMessage({ jsonrpc: '2.0', method: 'notifications/initialized' });
       
       // Get available tools
       const toolsResponse = await sendMCPRequest('tools/list');
@@ -166,12 +202,13 @@ export function useMCPHost(userId: number) {
         error: error instanceof Error ? error.message : 'Initialization failed'
       }));
     }
-  }, [sendMCPRequest]);
+  }, [sendMCPRequest, postMCPMessage]);
 
   /**
-   * Call an MCP tool
+   * Call an MCP tool. `meta` is sent as params._meta; the server records the
+   * kgc/* keys on the call's trace.
    */
-  const callTool = useCallback(async (toolName: string, args: any = {}) => {
+  const callTool = useCallback(async (toolName: string, args: any = {}, meta?: Record<string, unknown>) => {
     if (!state.isConnected) {
       throw new Error('MCP server not connected');
     }
@@ -179,14 +216,24 @@ export function useMCPHost(userId: number) {
     try {
       const response = await sendMCPRequest('tools/call', {
         name: toolName,
-        arguments: { ...args, userId }
+        arguments: { ...args, userId },
+        ...(meta && { _meta: meta })
       });
 
       if (response.error) {
         throw new Error(response.error.message);
       }
 
-      return response.result;
+      // Tools answer with a JSON document in a text content block
+      const text = response.result?.content?.[0]?.text ?? '';
+      if (response.result?.isError) {
+        throw new Error(text || 'Tool execution failed');
+      }
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
     } catch (error) {
       console.error(`[MCP Host] Tool call failed for ${toolName}:`, error);
       throw error;
@@ -230,6 +277,13 @@ export function useMCPHost(userId: number) {
       console.log('[MCP Host] Processing patient query:', query);
       console.log('[MCP Host] Relevant tools identified:', relevantTools);
 
+      // Lets an admin find every tool call made for this query in the MCP trace console
+      const traceMeta = {
+        'kgc/correlationId': crypto.randomUUID(),
+        'kgc/hostQuery': query,
+        'kgc/selectedTools': relevantTools
+      };
+
       // Gather context from resources
       const healthMetrics = await readResource('kgc://patient/health-metrics').catch(() => null);
       const carePlanDirectives = await readResource('kgc://patient/care-plan-directives').catch(() => null);
@@ -244,7 +298,7 @@ export function useMCPHost(userId: number) {
               healthMetrics: healthMetrics?.contents?.[0] ? JSON.parse(healthMetrics.contents[0].text) : null,
               carePlanDirectives: carePlanDirectives?.contents?.[0] ? JSON.parse(carePlanDirectives.contents[0].text) : null
             }
-          });
+          }, traceMeta);
           return { tool: toolName, result };
         })
       );
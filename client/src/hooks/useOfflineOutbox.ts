@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import type { SyncConflictResolution, SyncEntityType, SyncOperationResult } from '@shared/schema';
+import {
+  OutboxEntry,
+  OUTBOX_CHANGED_EVENT,
+  enqueueOperation,
+  flushOutbox,
+  getOutboxEntries,
+  resolveConflict as resolveOutboxConflict
+} from '@/lib/offlineOutbox';
+
+// Query keys refreshed after a sync settles something for each entity type
+const invalidatedQueryKeys: Record<SyncEntityType, (userId: number) => unknown[][]> = {
+  patient_score: (userId) => [['/api/patient-scores', userId], [`/api/users/${userId}/patient-scores`]],
+  progress_milestone: (userId) => [['/api/users', userId, 'progress-milestones']],
+  journal_entry: (userId) => [[`/api/users/${userId}/journal-entries`]]
+};
+
+function settledTypes(results: SyncOperationResult[]): SyncEntityType[] {
+  return results.filter(result => result.status === 'applied').map(result => result.entityType);
+}
+
+/**
+ * Offline-first submission of patient inputs. submit() always writes to the outbox
+ * and, when online, syncs straight away so the caller gets the server's answer
+ * (including a conflict) in the same call. Pending entries are retried on reconnect.
+ */
+export function useOfflineOutbox(userId?: number) {
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setEntries(await getOutboxEntries(userId));
+    } catch (error) {
+      console.error('[Outbox] Failed to read outbox:', error);
+    }
+  }, [userId]);
+
+  const invalidate = useCallback((entityTypes: SyncEntityType[]) => {
+    if (!userId) return;
+    new Set(entityTypes).forEach(entityType => {
+      invalidatedQueryKeys[entityType](userId).forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+    });
+  }, [userId, queryClient]);
+
+  const sync = useCallback(async (): Promise<SyncOperationResult[]> => {
+    if (!userId || !navigator.onLine) return [];
+    setIsSyncing(true);
+    try {
+      const results = await flushOutbox(userId);
+      invalidate(settledTypes(results));
+      return results;
+    } catch (error) {
+      console.warn('[Outbox] Sync deferred:', error);
+      return [];
+    } finally {
+      setIsSyncing(false);
+      await refresh();
+    }
+  }, [userId, invalidate, refresh]);
+
+  /**
+   * Queue an input and try to sync it. Returns the server's result, or null if it
+   * stays queued (offline or server unreachable).
+   */
+  const submit = useCallback(async (
+    entityType: SyncEntityType,
+    data: Record<string, unknown>
+  ): Promise<SyncOperationResult | null> => {
+    if (!userId) {
+      throw new Error('Cannot queue an offline entry without a user');
+    }
+
+    const entry = await enqueueOperation(userId, entityType, data);
+    const results = await sync();
+    return results.find(result => result.clientUuid === entry.clientUuid) ?? null;
+  }, [userId, sync]);
+
+  const resolveConflict = useCallback(async (
+    entry: OutboxEntry,
+    resolution: SyncConflictResolution
+  ): Promise<SyncOperationResult | undefined> => {
+    setIsSyncing(true);
+    try {
+      const result = await resolveOutboxConflict(entry, resolution);
+      if (result) invalidate(settledTypes([result]));
+      return result;
+    } finally {
+      setIsSyncing(false);
+      await refresh();
+    }
+  }, [invalidate, refresh]);
+
+  // Keep counts current as entries are added here, in other components, or by the service worker
+  useEffect(() => {
+    refresh();
+
+    const handleServiceWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'OUTBOX_SYNCED') {
+        refresh();
+        invalidate(Object.keys(invalidatedQueryKeys) as SyncEntityType[]);
+      }
+    };
+
+    window.addEventListener(OUTBOX_CHANGED_EVENT, refresh);
+    navigator.serviceWorker?.addEventListener('message', handleServiceWorkerMessage);
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, refresh);
+      navigator.serviceWorker?.removeEventListener('message', handleServiceWorkerMessage);
+    };
+  }, [refresh, invalidate]);
+
+  // Flush on load and whenever connectivity returns (browsers without Background Sync rely on this)
+  useEffect(() => {
+    if (!userId) return;
+    sync();
+    const handleOnline = () => { sync(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [userId, sync]);
+
+  return {
+    pendingCount: entries.filter(entry => entry.status === 'pending').length,
+    conflicts: entries.filter(entry => entry.status === 'conflict'),
+    isSyncing,
+    submit,
+    sync,
+    resolveConflict
+  };
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import axios from 'axios';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useConnectivity } from './useConnectivity';
+import { enqueueOperation, flushOutbox } from '@/lib/offlineOutbox';
 
 // Define milestone types
 export interface ProgressMilestone {
@@ -21,6 +22,21 @@ export interface ProgressMilestone {
   lastSyncedAt?: Date | null;
 }
 
+// Outbox payload for a milestone changed offline; the server keeps whichever copy has the later updatedAt
+const toSyncData = (milestone: ProgressMilestone) => ({
+  id: milestone.id,
+  localUuid: milestone.localUuid,
+  title: milestone.title,
+  description: milestone.description,
+  category: milestone.category,
+  progress: milestone.progress,
+  completed: milestone.completed,
+  targetDate: milestone.targetDate ?? null,
+  completedDate: milestone.completedDate ?? null,
+  iconType: milestone.iconType ?? 'Trophy',
+  updatedAt: milestone.updatedAt ?? new Date(),
+});
+
 export const useProgressMilestones = (userId: number) => {
   const { connectivityLevel, isOffline } = useConnectivity();
   const queryClient = useQueryClient();
@@ -72,6 +88,7 @@ export const useProgressMilestones = (userId: number) => {
         
         const localMilestones = getLocalMilestones();
         saveLocalMilestones([...localMilestones, newMilestone]);
+        await enqueueOperation(userId, 'progress_milestone', toSyncData(newMilestone));
         return newMilestone;
       } else {
         // Online creation
@@ -94,18 +111,26 @@ export const useProgressMilestones = (userId: number) => {
       
       if (isOffline) {
         // Handle offline update
+        const updated: ProgressMilestone = {
+          ...milestone,
+          localUuid: milestone.localUuid ?? crypto.randomUUID(),
+          updatedAt: new Date()
+        };
         const localMilestones = getLocalMilestones();
-        const updatedMilestones = localMilestones.map(m => {
-          if (milestone.localUuid && m.localUuid === milestone.localUuid) {
-            return { ...milestone, updatedAt: new Date() };
-          } else if (milestone.id && m.id === milestone.id) {
-            return { ...milestone, updatedAt: new Date() };
-          }
-          return m;
-        });
+        const isLocal = localMilestones.some(m =>
+          (milestone.localUuid && m.localUuid === milestone.localUuid) || (milestone.id && m.id === milestone.id)
+        );
+        const updatedMilestones = isLocal
+          ? localMilestones.map(m =>
+              (milestone.localUuid && m.localUuid === milestone.localUuid) || (milestone.id && m.id === milestone.id)
+                ? updated
+                : m
+            )
+          : [...localMilestones, updated];
         
         saveLocalMilestones(updatedMilestones);
-        return milestone;
+        await enqueueOperation(userId, 'progress_milestone', toSyncData(updated));
+        return updated;
       } else {
         // Online update
         if (milestone.id) {
@@ -161,23 +186,25 @@ export const useProgressMilestones = (userId: number) => {
     },
   });
   
-  // Sync local milestones with server when back online
+  // Sync offline changes (queued in the outbox) with the server when back online
   const syncMutation = useMutation({
     mutationFn: async () => {
-      const localMilestones = getLocalMilestones();
-      if (localMilestones.length === 0) return { synced: { created: [], updated: [], unchanged: [] }, allMilestones: [] };
+      const results = await flushOutbox(userId);
       
-      const response = await axios.post(`/api/users/${userId}/progress-milestones/sync`, {
-        localMilestones
-      });
+      // Milestones saved offline before the outbox existed are only in localStorage. The
+      // legacy sync endpoint matches on localUuid, so anything the outbox just sent is left unchanged.
+      const localMilestones = getLocalMilestones().filter(m => m.localUuid);
+      if (localMilestones.length > 0) {
+        await axios.post(`/api/users/${userId}/progress-milestones/sync`, { localMilestones });
+      }
       
-      // Clear local storage after successful sync
+      // The local copies were only for display while offline; the server list is now current
       saveLocalMilestones([]);
       
-      return response.data;
+      return results;
     },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['/api/users', userId, 'progress-milestones'], data.allMilestones);
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'progress-milestones'] });
     },
   });
   
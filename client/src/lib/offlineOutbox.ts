@@ -0,0 +1,198 @@
+// Offline outbox for patient inputs (daily self-scores, milestones, journal drafts)
+//
+// Every change is written to IndexedDB first and then sent to POST /api/sync/batch.
+// Entries stay queued until the server settles them, so nothing is lost if the
+// patient closes the app while offline. The service worker drains the same store
+// through Background Sync (see public/service-worker.js), which is why the database
+// and store names below must match the worker.
+
+import type {
+  SyncConflictResolution,
+  SyncEntityType,
+  SyncOperationResult
+} from '@shared/schema';
+
+export const OUTBOX_DB_NAME = 'kgc-offline-outbox';
+export const OUTBOX_STORE = 'operations';
+export const OUTBOX_SYNC_TAG = 'kgc-outbox-sync';
+export const OUTBOX_CHANGED_EVENT = 'kgc-outbox-changed';
+
+const OUTBOX_DB_VERSION = 1;
+const BATCH_SIZE = 100; // Server limit per batch
+
+export interface OutboxEntry {
+  clientUuid: string;
+  userId: number;
+  entityType: SyncEntityType;
+  clientCreatedAt: string;
+  data: Record<string, unknown>;
+  resolution?: SyncConflictResolution;
+  status: 'pending' | 'conflict';
+  serverEntity?: unknown; // Server copy the entry conflicts with
+  attempts: number;
+  lastError?: string;
+}
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'clientUuid' });
+      store.createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(OUTBOX_STORE, mode);
+      const request = action(transaction.objectStore(OUTBOX_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyOutboxChanged(): void {
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT));
+}
+
+// Ask the service worker to drain the outbox when connectivity returns, even if the app is closed
+async function requestBackgroundSync(): Promise<void> {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }).sync;
+    await sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    // Background Sync isn't available everywhere (e.g. Safari); the app flushes on reconnect instead
+    console.warn('[Outbox] Background sync unavailable:', error);
+  }
+}
+
+export async function getOutboxEntries(userId: number): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.index('userId').getAll(userId));
+  return entries.sort((a, b) => a.clientCreatedAt.localeCompare(b.clientCreatedAt));
+}
+
+export async function enqueueOperation(
+  userId: number,
+  entityType: SyncEntityType,
+  data: Record<string, unknown>
+): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    clientUuid: crypto.randomUUID(),
+    userId,
+    entityType,
+    clientCreatedAt: new Date().toISOString(),
+    data,
+    status: 'pending',
+    attempts: 0
+  };
+
+  await withStore('readwrite', store => store.put(entry));
+  notifyOutboxChanged();
+  void requestBackgroundSync();
+  return entry;
+}
+
+let activeFlush: Promise<SyncOperationResult[]> | null = null;
+
+/**
+ * Send the user's pending entries to the server. Settled entries leave the outbox;
+ * conflicts stay with the server's copy attached until the patient resolves them.
+ * Throws if the server can't be reached so callers can keep showing "saved offline".
+ */
+export function flushOutbox(userId: number): Promise<SyncOperationResult[]> {
+  if (!activeFlush) {
+    activeFlush = runFlush(userId).finally(() => {
+      activeFlush = null;
+    });
+  }
+  return activeFlush;
+}
+
+async function runFlush(userId: number): Promise<SyncOperationResult[]> {
+  const pending = (await getOutboxEntries(userId)).filter(entry => entry.status === 'pending');
+  const results: SyncOperationResult[] = [];
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const response = await fetch('/api/sync/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({
+        userId,
+        operations: batch.map(({ clientUuid, entityType, clientCreatedAt, data, resolution }) => ({
+          clientUuid, entityType, clientCreatedAt, data, resolution
+        }))
+      })
+    });
+
+    if (!response.ok) {
+      const message = `Sync failed with status ${response.status}`;
+      await Promise.all(batch.map(entry =>
+        withStore('readwrite', store => store.put({ ...entry, attempts: entry.attempts + 1, lastError: message }))
+      ));
+      notifyOutboxChanged();
+      throw new Error(message);
+    }
+
+    const body: { results: SyncOperationResult[] } = await response.json();
+    for (const result of body.results) {
+      const entry = batch.find(e => e.clientUuid === result.clientUuid);
+      if (!entry) continue;
+
+      if (result.status === 'conflict') {
+        await withStore('readwrite', store => store.put({
+          ...entry,
+          status: 'conflict',
+          serverEntity: result.serverEntity,
+          attempts: entry.attempts + 1
+        }));
+      } else {
+        if (result.status === 'rejected') {
+          console.warn(`[Outbox] ${entry.entityType} ${entry.clientUuid} rejected:`, result.error);
+        }
+        await withStore('readwrite', store => store.delete(entry.clientUuid));
+      }
+      results.push(result);
+    }
+  }
+
+  if (pending.length > 0) {
+    notifyOutboxChanged();
+  }
+  return results;
+}
+
+/**
+ * Record the patient's choice from the merge prompt and resend the entry
+ */
+export async function resolveConflict(
+  entry: OutboxEntry,
+  resolution: SyncConflictResolution
+): Promise<SyncOperationResult | undefined> {
+  await withStore('readwrite', store => store.put({
+    ...entry,
+    status: 'pending',
+    resolution,
+    serverEntity: undefined
+  }));
+  notifyOutboxChanged();
+
+  // A flush already in flight read the outbox before this change; let it finish first
+  await activeFlush?.catch(() => undefined);
+  const results = await flushOutbox(entry.userId);
+  return results.find(result => result.clientUuid === entry.clientUuid);
+}
@@ -0,0 +1,98 @@
+// Web Push on this device
+//
+// Subscribes the service worker's PushManager with the server's VAPID key and
+// registers the subscription at /api/notifications/push/subscriptions, so reminders,
+// new care plan directives, badges and shared reports arrive while the app is closed.
+// Showing the notification and deep-linking on click happen in public/service-worker.js.
+
+import { apiRequest } from '@/lib/queryClient';
+
+// Mirrors PushSubscriptionRecord in shared/schema.ts as returned by the API (keys omitted)
+export interface PushDevice {
+  id: number;
+  endpoint: string;
+  deviceLabel: string | null;
+  createdAt: string;
+  lastSuccessAt: string | null;
+}
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + '='.repeat((4 - value.length % 4) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return new Uint8Array(Array.from(atob(base64), char => char.charCodeAt(0)));
+}
+
+function describeDevice(): string {
+  const agent = navigator.userAgent;
+  const browser = /Edg\//.test(agent) ? 'Edge'
+    : /Chrome\//.test(agent) ? 'Chrome'
+    : /Firefox\//.test(agent) ? 'Firefox'
+    : /Safari\//.test(agent) ? 'Safari'
+    : 'Browser';
+  const platform = /iPhone|iPad/.test(agent) ? 'iOS'
+    : /Android/.test(agent) ? 'Android'
+    : /Mac OS X/.test(agent) ? 'macOS'
+    : /Windows/.test(agent) ? 'Windows'
+    : 'device';
+  return `${browser} on ${platform}`;
+}
+
+/**
+ * This device's current push subscription, or null if it has none
+ */
+export async function getDevicePushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) {
+    return null;
+  }
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Ask for notification permission, subscribe this device and register it with the server
+ */
+export async function enablePushOnThisDevice(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site in your browser settings');
+  }
+
+  const { publicKey } = await apiRequest<{ publicKey: string }>('GET', '/api/notifications/push/public-key');
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(publicKey)
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  await apiRequest('POST', '/api/notifications/push/subscriptions', {
+    endpoint,
+    keys,
+    deviceLabel: describeDevice()
+  });
+}
+
+/**
+ * Remove this device from the server and unsubscribe it in the browser
+ */
+export async function disablePushOnThisDevice(): Promise<void> {
+  const subscription = await getDevicePushSubscription();
+  if (!subscription) {
+    return;
+  }
+
+  const devices = await apiRequest<PushDevice[]>('GET', '/api/notifications/push/subscriptions');
+  const device = devices.find(candidate => candidate.endpoint === subscription.endpoint);
+  if (device) {
+    await apiRequest('DELETE', `/api/notifications/push/subscriptions/${device.id}`);
+  }
+  await subscription.unsubscribe();
+}
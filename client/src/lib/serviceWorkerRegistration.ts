@@ -1,20 +1,41 @@
 // Service Worker Registration for KGC Progressive Web App
-// 
-// NOTE: The Service Worker implementation has been completely disabled
-// to ensure application stability. The app now requires full internet connectivity.
-// 
-// This file is being kept as a placeholder for future reference, but all service
-// worker functionality has been removed.
+//
+// The service worker no longer caches pages or intercepts requests; that offline
+// mode was removed for stability and the app still needs a connection to browse.
+// It is registered to run Background Sync for the patient input outbox
+// (see lib/offlineOutbox.ts) and to show Web Push notifications
+// (see lib/pushNotifications.ts and public/service-worker.js).
 
 type Config = {
   onSuccess?: (registration: ServiceWorkerRegistration) => void;
   onUpdate?: (registration: ServiceWorkerRegistration) => void;
 };
 
-// Dummy register function that doesn't actually register a service worker
-export function register(_config?: Config): void {
-  console.log('Service worker registration is disabled to ensure application stability.');
-  return;
+// Register the sync and push service worker
+export function register(config?: Config): void {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+
+  navigator.serviceWorker.register('/service-worker.js')
+    .then(registration => {
+      registration.onupdatefound = () => {
+        const installing = registration.installing;
+        if (!installing) return;
+        installing.onstatechange = () => {
+          if (installing.state === 'installed') {
+            if (navigator.serviceWorker.controller) {
+              config?.onUpdate?.(registration);
+            } else {
+              config?.onSuccess?.(registration);
+            }
+          }
+        };
+      };
+    })
+    .catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
 }
 
 // Special unregister function that will actually attempt to unregister any existing workers
@@ -24,7 +45,7 @@ export function unregister(): void {
     // Aggressively unregister all service workers
     navigator.serviceWorker.getRegistrations().then(registrations => {
       console.log(`Found ${registrations.length} service worker registrations to remove`);
-      
+
       for (const registration of registrations) {
         registration.unregister().then(success => {
           if (success) {
@@ -40,8 +61,9 @@ export function unregister(): void {
 
 // Audio caching functions removed as part of Mood Booster feature removal
 
-// Dummy update function that doesn't actually update any service worker
+// Check for a newer sync worker
 export function updateServiceWorker(): void {
-  console.log('Service worker updates are disabled to ensure application stability.');
-  return;
-}
\ No newline at end of file
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.getRegistration().then(registration => registration?.update());
+  }
+}
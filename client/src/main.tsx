@@ -13,8 +13,6 @@ createRoot(document.getElementById("root")!).render(
   </React.StrictMode>
 );
 
-// PERMANENTLY DISABLED: Service worker has been completely removed
-// The application now requires an internet connection to function properly
-// This was done to ensure application stability after multiple issues with offline mode
-console.log('Service worker permanently disabled for application stability');
-serviceWorkerRegistration.unregister();
+// Page caching stays disabled (the app needs a connection to browse); the service worker
+// is registered only to sync the offline outbox of patient inputs in the background
+serviceWorkerRegistration.register();
@@ -6,6 +6,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import McpTraceConsole from "@/components/admin/McpTraceConsole";
 
 // UI Components
 import {
@@ -102,7 +103,8 @@ import {
   Server,
   GitCommit,
   Timer,
-  LogOut
+  LogOut,
+  Search
 } from "lucide-react";
 
 // Validation schemas
@@ -605,7 +607,7 @@ export default function AdminDashboard() {
       </div>
 
       <Tabs value={currentTab} onValueChange={setCurrentTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview" className="flex items-center">
             <BarChart4 className="h-4 w-4 mr-2" />
             <span>Overview</span>
@@ -622,6 +624,10 @@ export default function AdminDashboard() {
             <UserCog className="h-4 w-4 mr-2" />
             <span>Contacts</span>
           </TabsTrigger>
+          <TabsTrigger value="mcp-traces" className="flex items-center">
+            <Search className="h-4 w-4 mr-2" />
+            <span>MCP Traces</span>
+          </TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -1696,6 +1702,11 @@ export default function AdminDashboard() {
           </Card>
         </TabsContent>
 
+        {/* MCP Trace Tab */}
+        <TabsContent value="mcp-traces" className="space-y-4">
+          <McpTraceConsole />
+        </TabsContent>
+
         {/* Contact Edit Dialog */}
         <Dialog open={!!contactToEdit} onOpenChange={() => setContactToEdit(null)}>
           <DialogContent className="sm:max-w-[425px]">
@@ -18,6 +18,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import PatientAlertsPanel from "@/components/doctor/PatientAlertsPanel";
 import { PatientAlertBadge } from "@/components/doctor/PatientAlertBadge";
 import PPRHealthSnapshots from "@/components/doctor/PPRHealthSnapshots";
+import PopulationAnalyticsPanel from "@/components/doctor/PopulationAnalyticsPanel";
+import DataDeletionRequestsPanel from "@/components/doctor/DataDeletionRequestsPanel";
+import SecureMessagingPanel from "@/components/messaging/SecureMessagingPanel";
+import DoctorMessagingSettingsCard from "@/components/messaging/DoctorMessagingSettingsCard";
 import { format } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -1041,6 +1045,65 @@ export default function DoctorDashboard() {
                             </div>
                           </div>
 
+                          {/* Medication self-score vs logged doses */}
+                          {reportDetails?.medicationAdherence && (
+                            <div className="border rounded-md p-4">
+                              <h4 className="text-md font-medium mb-3 flex items-center">
+                                <Pill className="h-5 w-5 mr-2 text-[#2E8BC0]" />
+                                Medication: Self-Score vs Logged Doses
+                              </h4>
+                              <div className="grid grid-cols-3 gap-4">
+                                <Card className="bg-gray-50">
+                                  <CardContent className="pt-6">
+                                    <div className="text-center">
+                                      <Badge className={`mb-2 ${getScoreColor(reportDetails.medicationAdherence.selfScoreAverage || 0)}`}>
+                                        {reportDetails.medicationAdherence.selfScoreAverage?.toFixed(1) || "N/A"}
+                                      </Badge>
+                                      <span className="text-sm font-medium block">Avg. Self-Score</span>
+                                    </div>
+                                  </CardContent>
+                                </Card>
+                                <Card className="bg-gray-50">
+                                  <CardContent className="pt-6">
+                                    <div className="text-center">
+                                      <div className="text-2xl font-bold mb-2 text-[#2E8BC0]">
+                                        {reportDetails.medicationAdherence.adherencePercent != null
+                                          ? `${reportDetails.medicationAdherence.adherencePercent}%`
+                                          : "N/A"}
+                                      </div>
+                                      <span className="text-sm font-medium">Doses Taken</span>
+                                    </div>
+                                  </CardContent>
+                                </Card>
+                                <Card className="bg-gray-50">
+                                  <CardContent className="pt-6">
+                                    <div className="text-center">
+                                      <div className="text-2xl font-bold mb-2 text-[#2E8BC0]">
+                                        {reportDetails.medicationAdherence.missed + reportDetails.medicationAdherence.skipped}
+                                      </div>
+                                      <span className="text-sm font-medium">
+                                        Missed / Skipped of {reportDetails.medicationAdherence.expectedDoses}
+                                      </span>
+                                    </div>
+                                  </CardContent>
+                                </Card>
+                              </div>
+                              {reportDetails.medicationAdherence.byMedication?.length > 0 && (
+                                <ul className="mt-3 space-y-1 text-sm text-gray-600">
+                                  {reportDetails.medicationAdherence.byMedication.map((med: any) => (
+                                    <li key={med.medicationId} className="flex justify-between">
+                                      <span>{med.name} {med.strength}</span>
+                                      <span>
+                                        {med.adherencePercent != null ? `${med.adherencePercent}%` : "N/A"}
+                                        {med.late > 0 && ` (${med.late} late)`}
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          )}
+
                           {/* Keep Going Button Usage */}
                           <div className="border rounded-md p-4">
                             <h4 className="text-md font-medium mb-3 flex items-center">
@@ -1069,6 +1132,26 @@ export default function DoctorDashboard() {
                                 </CardContent>
                               </Card>
                             </div>
+                            {reportDetails?.keepGoingAnalytics?.totalSessions > 0 && (
+                              <div className="mt-3 space-y-1 text-sm text-gray-600">
+                                <p>
+                                  Mostly used in the {reportDetails.keepGoingAnalytics.preferredTimeOfDay.toLowerCase()} (
+                                  {Object.entries(reportDetails.keepGoingAnalytics.timeOfDay)
+                                    .map(([period, count]) => `${period}: ${count}`)
+                                    .join(", ")}
+                                  )
+                                </p>
+                                <p>
+                                  {reportDetails.keepGoingAnalytics.afterLowScore.count} of {reportDetails.keepGoingAnalytics.totalSessions} presses
+                                  ({reportDetails.keepGoingAnalytics.afterLowScore.percent}%) followed a self-score of 4 or below
+                                  {reportDetails.keepGoingAnalytics.afterLowScore.count > 0 &&
+                                    ` (diet ${reportDetails.keepGoingAnalytics.afterLowScore.byCategory.diet}, exercise ${reportDetails.keepGoingAnalytics.afterLowScore.byCategory.exercise}, medication ${reportDetails.keepGoingAnalytics.afterLowScore.byCategory.medication})`}
+                                </p>
+                                {reportDetails.keepGoingAnalytics.averageDurationSeconds != null && (
+                                  <p>Average session {Math.round(reportDetails.keepGoingAnalytics.averageDurationSeconds)}s; video played in {reportDetails.keepGoingAnalytics.videoPlayedRate}% of sessions</p>
+                                )}
+                              </div>
+                            )}
                           </div>
 
                           {/* Health Snapshots - Comprehensive Visual Analysis */}
@@ -1240,6 +1323,26 @@ export default function DoctorDashboard() {
         </Card>
       </div>
 
+      {/* Patient Panel Overview */}
+      <div className="mt-6">
+        <PopulationAnalyticsPanel onSelectPatient={setSelectedPatient} />
+      </div>
+
+      {/* Secure messages from patients (the doctor's own inbox; not shown while an admin impersonates) */}
+      {userContext?.userRole === 'doctor' && userContext.doctorId && (
+        <div className="mt-6 grid gap-6 lg:grid-cols-3">
+          <div className="lg:col-span-2">
+            <SecureMessagingPanel role="doctor" userId={userContext.doctorId} />
+          </div>
+          <DoctorMessagingSettingsCard />
+        </div>
+      )}
+
+      {/* Patient data deletion requests awaiting review (hidden when there are none) */}
+      <div className="mt-6">
+        <DataDeletionRequestsPanel />
+      </div>
+
       {/* Settings Dialog */}
       <Dialog open={currentTab === 'settings'} onOpenChange={(open) => !open && setCurrentTab('patients')}>
         <DialogContent className="sm:max-w-[600px]">
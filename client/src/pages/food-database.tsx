@@ -1,12 +1,13 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { Utensils, Info, AlertTriangle, CloudOff, Loader2 } from "lucide-react";
+import { Utensils, Info, AlertTriangle, CloudOff, Loader2, ScanBarcode, Camera, X, Star } from "lucide-react";
 import { useLocation } from "wouter";
 
 import { useCPD } from "@/hooks/useCPD";
@@ -52,6 +53,65 @@ interface FoodStandardsSearchResult {
   };
 }
 
+// Barcode scan result from the product catalogue
+interface BarcodeScanResult {
+  found: boolean;
+  barcode?: string;
+  message?: string;
+  suggestion?: string;
+  productInfo?: {
+    barcode: string;
+    productName: string;
+    brand: string | null;
+    category: string | null;
+    nutritionFacts: {
+      per100g: {
+        energyKj: number | null;
+        protein: number | null;
+        fatTotal: number | null;
+        saturatedFat: number | null;
+        carbohydrate: number | null;
+        sugars: number | null;
+        fibre: number | null;
+        sodiumMg: number | null;
+      };
+      servingSizeGrams: number | null;
+    };
+    ingredients: string | null;
+    allergens: string[];
+    healthStarRating: number | null;
+  };
+  cpdAnalysis?: {
+    overallRating: string;
+    priorityNutrients: string[];
+    dietDirectives: string[];
+  };
+  healthAlerts?: {
+    type: 'warning' | 'caution' | 'info';
+    nutrient: string;
+    message: string;
+    relatedDirective?: string;
+  }[];
+  alternatives?: {
+    barcode: string;
+    productName: string;
+    brand: string | null;
+    healthStarRating: number | null;
+    reason: string;
+  }[];
+}
+
+// Minimal typing for the Shape Detection API's BarcodeDetector (not yet in lib.dom)
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+};
+
+const RETAIL_BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e'];
+
 const FoodDatabase = () => {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
@@ -161,6 +221,9 @@ const FoodDatabase = () => {
         </AlertDescription>
       </Alert>
       
+      {/* Barcode lookup */}
+      <BarcodeLookup userId={userId} isOnline={isOnline} />
+      
       {/* Australian Food Standards Authority Notice */}
       {isOnline && cpdAlignedData?.summary && (
         <div className="bg-green-50 border border-green-200 rounded-md p-4 mb-6">
@@ -362,4 +425,236 @@ const FoodStandardsCard = ({ food }: { food: FoodStandardsSearchResult }) => {
   );
 };
 
-export default FoodDatabase;
\ No newline at end of file
+export default FoodDatabase;
+
+// Barcode entry and camera scanning backed by the local product catalogue
+const BarcodeLookup = ({ userId, isOnline }: { userId: number; isOnline: boolean }) => {
+  const { toast } = useToast();
+  const [barcodeInput, setBarcodeInput] = useState("");
+  const [lookupBarcode, setLookupBarcode] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const BarcodeDetectorApi = (window as any).BarcodeDetector as BarcodeDetectorConstructor | undefined;
+  const canUseCamera = !!BarcodeDetectorApi && !!navigator.mediaDevices?.getUserMedia;
+
+  const { data: scanResult, isFetching } = useQuery<BarcodeScanResult>({
+    queryKey: [`/api/food-database/barcode/${userId}/${lookupBarcode}`],
+    enabled: isOnline && !!lookupBarcode,
+  });
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  // Release the camera if the page is left mid-scan
+  useEffect(() => stopCamera, [stopCamera]);
+
+  useEffect(() => {
+    if (!isScanning || !BarcodeDetectorApi) return;
+
+    let cancelled = false;
+    const detector = new BarcodeDetectorApi({ formats: RETAIL_BARCODE_FORMATS });
+
+    const detectFrame = async () => {
+      if (cancelled || !videoRef.current) return;
+
+      try {
+        const barcodes = await detector.detect(videoRef.current);
+        if (barcodes.length > 0) {
+          const code = barcodes[0].rawValue;
+          setBarcodeInput(code);
+          setLookupBarcode(code);
+          stopCamera();
+          return;
+        }
+      } catch {
+        // Video frame not ready yet - try again on the next frame
+      }
+
+      requestAnimationFrame(detectFrame);
+    };
+
+    const startCamera = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        detectFrame();
+      } catch (error) {
+        toast({
+          title: "Camera unavailable",
+          description: "Please allow camera access or type the barcode number instead.",
+          variant: "destructive"
+        });
+        stopCamera();
+      }
+    };
+
+    startCamera();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isScanning]);
+
+  const submitBarcode = () => {
+    const code = barcodeInput.replace(/[\s-]/g, "");
+    if (!/^\d{8}$|^\d{12,14}$/.test(code)) {
+      toast({
+        title: "Invalid barcode",
+        description: "Barcodes are 8, 12, 13 or 14 digits long.",
+        variant: "destructive"
+      });
+      return;
+    }
+    setLookupBarcode(code);
+  };
+
+  const getAlertColor = (type: string) => {
+    if (type === 'warning') return 'bg-red-50 border-red-200 text-red-800';
+    if (type === 'caution') return 'bg-yellow-50 border-yellow-200 text-yellow-800';
+    return 'bg-green-50 border-green-200 text-green-800';
+  };
+
+  const formatNutrient = (value: number | null, unit: string = 'g') => {
+    if (value === null || value === undefined) return 'N/A';
+    return `${value}${unit}`;
+  };
+
+  const product = scanResult?.productInfo;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-md flex items-center gap-2">
+          <ScanBarcode className="h-5 w-5 text-green-600" />
+          Check a Product
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={barcodeInput}
+            onChange={(e) => setBarcodeInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && submitBarcode()}
+            placeholder="Enter the barcode number, e.g. 9300633603178"
+            inputMode="numeric"
+            disabled={!isOnline}
+          />
+          <Button onClick={submitBarcode} disabled={!isOnline || isFetching} className="bg-green-600 hover:bg-green-700">
+            {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Look up"}
+          </Button>
+          {canUseCamera && (
+            <Button
+              variant="outline"
+              onClick={() => isScanning ? stopCamera() : setIsScanning(true)}
+              disabled={!isOnline}
+              className="flex items-center gap-2"
+            >
+              {isScanning ? <X className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+              {isScanning ? "Stop" : "Scan"}
+            </Button>
+          )}
+        </div>
+
+        {isScanning && (
+          <video
+            ref={videoRef}
+            className="mt-3 w-full max-w-md rounded-md border"
+            muted
+            playsInline
+          />
+        )}
+
+        {scanResult && !scanResult.found && (
+          <Alert className="mt-4">
+            <Info className="h-4 w-4" />
+            <AlertTitle>Product not found</AlertTitle>
+            <AlertDescription>
+              {scanResult.message} {scanResult.suggestion}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {product && scanResult?.cpdAnalysis && (
+          <div className="mt-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <h3 className="font-semibold">{product.productName}</h3>
+                <p className="text-sm text-muted-foreground">
+                  {[product.brand, product.category].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              <div className="text-right">
+                <Badge variant="secondary">{scanResult.cpdAnalysis.overallRating}</Badge>
+                {product.healthStarRating !== null && (
+                  <p className="mt-1 text-xs text-muted-foreground flex items-center justify-end gap-1">
+                    <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                    {product.healthStarRating} Health Star Rating
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {scanResult.healthAlerts && scanResult.healthAlerts.length > 0 && (
+              <div className="space-y-2">
+                {scanResult.healthAlerts.map(alert => (
+                  <div key={alert.nutrient} className={`border rounded-md p-2 text-sm ${getAlertColor(alert.type)}`}>
+                    {alert.message}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="bg-gray-50 rounded-md p-3">
+              <h4 className="font-medium text-sm mb-2">Nutrition per 100g</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-1 text-xs">
+                <div>Energy: {formatNutrient(product.nutritionFacts.per100g.energyKj, 'kJ')}</div>
+                <div>Protein: {formatNutrient(product.nutritionFacts.per100g.protein)}</div>
+                <div>Fat: {formatNutrient(product.nutritionFacts.per100g.fatTotal)}</div>
+                <div>Sat. fat: {formatNutrient(product.nutritionFacts.per100g.saturatedFat)}</div>
+                <div>Carbs: {formatNutrient(product.nutritionFacts.per100g.carbohydrate)}</div>
+                <div>Sugars: {formatNutrient(product.nutritionFacts.per100g.sugars)}</div>
+                <div>Fibre: {formatNutrient(product.nutritionFacts.per100g.fibre)}</div>
+                <div>Sodium: {formatNutrient(product.nutritionFacts.per100g.sodiumMg, 'mg')}</div>
+              </div>
+            </div>
+
+            {product.ingredients && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium">Ingredients:</span> {product.ingredients}
+              </p>
+            )}
+
+            {scanResult.alternatives && scanResult.alternatives.length > 0 && (
+              <div>
+                <h4 className="font-medium text-sm mb-1">Better choices</h4>
+                <ul className="space-y-1 text-sm">
+                  {scanResult.alternatives.map(alternative => (
+                    <li key={alternative.barcode}>
+                      <span className="font-medium">{alternative.productName}</span>
+                      {alternative.brand && ` (${alternative.brand})`}
+                      <span className="text-muted-foreground"> - {alternative.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,58 +1,167 @@
 import React, { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Calendar } from "@/components/ui/calendar";
-import { format } from "date-fns";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { format, parseISO } from "date-fns";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useOfflineOutbox } from "@/hooks/useOfflineOutbox";
 import { cn } from "@/lib/utils";
-import { Save, BookOpen, CalendarDays } from "lucide-react";
+import { Save, BookOpen, CalendarDays, Pencil, Trash2, X } from "lucide-react";
 import { createHapticFeedback } from "@/lib/soundEffects";
+import { User } from "@shared/schema";
 
 interface JournalEntry {
   id: number;
-  date: Date;
-  content: string;
+  userId: number;
+  entryText: string;
+  category: string;
+  mood: string;
+  entryDate: string; // YYYY-MM-DD
+  createdAt: string;
+  updatedAt: string;
 }
 
+const CATEGORY_OPTIONS = [
+  { value: "general", label: "General" },
+  { value: "medication", label: "Medication" },
+  { value: "diet", label: "Diet" },
+  { value: "exercise", label: "Exercise" },
+  { value: "emotional", label: "Feelings" },
+  { value: "goals", label: "Goals" },
+];
+
+const MOOD_OPTIONS = [
+  { value: "excellent", label: "Excellent" },
+  { value: "good", label: "Good" },
+  { value: "neutral", label: "Okay" },
+  { value: "challenging", label: "Challenging" },
+  { value: "difficult", label: "Difficult" },
+];
+
 const Journaling: React.FC = () => {
   const isMobile = useIsMobile();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [date, setDate] = useState<Date>(new Date());
   const [currentEntry, setCurrentEntry] = useState<string>("");
-  const [entries, setEntries] = useState<JournalEntry[]>([
-    {
-      id: 1,
-      date: new Date(Date.now() - 86400000 * 2), // 2 days ago
-      content: "Started my new diet plan today. Feel motivated to stick with it."
+  const [category, setCategory] = useState<string>("general");
+  const [mood, setMood] = useState<string>("neutral");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState<string>("");
+  const [activeTab, setActiveTab] = useState<string>("write");
+
+  // Entries load once the signed-in patient is known
+  const { data: user } = useQuery<User>({
+    queryKey: ["/api/user"],
+  });
+
+  const userId = user?.id;
+  const entriesQueryKey = [`/api/users/${userId}/journal-entries`];
+
+  const { data: entries = [], isLoading: isLoadingEntries } = useQuery<JournalEntry[]>({
+    queryKey: entriesQueryKey,
+    enabled: !!userId,
+  });
+
+  const { submit: submitOffline } = useOfflineOutbox(userId);
+
+  // New entries go through the offline outbox so drafts written without signal aren't lost
+  const createEntryMutation = useMutation({
+    mutationFn: async (data: { entryText: string; category: string; mood: string; entryDate: string }) => {
+      const result = await submitOffline("journal_entry", data);
+      if (result?.status === "rejected") {
+        throw new Error(result.error || "Entry was rejected");
+      }
+      return result;
+    },
+    onSuccess: (result) => {
+      setCurrentEntry("");
+      queryClient.invalidateQueries({ queryKey: entriesQueryKey });
+      toast({
+        title: result ? "Entry saved" : "Entry saved offline",
+        description: result
+          ? "Your journal entry has been saved."
+          : "Your journal entry will sync when you are back online.",
+      });
     },
-    {
-      id: 2,
-      date: new Date(Date.now() - 86400000), // 1 day ago
-      content: "Exercise was difficult today but I pushed through it. Proud of myself for not giving up."
+    onError: (error) => {
+      toast({
+        title: "Could not save entry",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
     }
-  ]);
-  const [activeTab, setActiveTab] = useState<string>("write");
+  });
+
+  const updateEntryMutation = useMutation({
+    mutationFn: ({ id, entryText }: { id: number; entryText: string }) => {
+      return apiRequest<JournalEntry>("PATCH", `/api/journal-entries/${id}`, { entryText });
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      setEditingText("");
+      queryClient.invalidateQueries({ queryKey: entriesQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not update entry",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (id: number) => {
+      return apiRequest("DELETE", `/api/journal-entries/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: entriesQueryKey });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could not delete entry",
+        description: error.message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  });
 
   const saveEntry = () => {
     if (currentEntry.trim() === "") return;
-    
+
     createHapticFeedback();
 
-    const newEntry: JournalEntry = {
-      id: Date.now(),
-      date: date,
-      content: currentEntry
-    };
+    createEntryMutation.mutate({
+      entryText: currentEntry,
+      category,
+      mood,
+      entryDate: format(date, "yyyy-MM-dd"),
+    });
+  };
 
-    setEntries([...entries, newEntry]);
-    setCurrentEntry("");
+  const startEditing = (entry: JournalEntry) => {
+    setEditingId(entry.id);
+    setEditingText(entry.entryText);
+  };
+
+  const saveEdit = () => {
+    if (editingId === null || editingText.trim() === "") return;
+    updateEntryMutation.mutate({ id: editingId, entryText: editingText });
   };
 
   const selectedDateEntries = entries.filter(
-    entry => format(entry.date, "yyyy-MM-dd") === format(date, "yyyy-MM-dd")
+    entry => entry.entryDate === format(date, "yyyy-MM-dd")
   );
 
+  const entryDates = entries.map(entry => parseISO(entry.entryDate));
+
   return (
     <div className="space-y-6">
       <Card className="bg-[#fdfdfd] border-[#2E8BC0]/20">
@@ -63,8 +172,8 @@ const Journaling: React.FC = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <Tabs 
-            defaultValue="write" 
+          <Tabs
+            defaultValue="write"
             value={activeTab}
             onValueChange={setActiveTab}
             className="w-full"
@@ -73,7 +182,7 @@ const Journaling: React.FC = () => {
               <TabsTrigger value="write" className="text-[#676767]">Write Entry</TabsTrigger>
               <TabsTrigger value="history" className="text-[#676767]">View History</TabsTrigger>
             </TabsList>
-            
+
             <TabsContent value="write" className="space-y-4">
               <div className="flex flex-col space-y-4">
                 <div className="flex items-center space-x-2">
@@ -82,24 +191,49 @@ const Journaling: React.FC = () => {
                     {format(date, "MMMM d, yyyy")}
                   </span>
                 </div>
-                
+
+                <div className={cn("grid gap-4", isMobile ? "grid-cols-1" : "grid-cols-2")}>
+                  <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger className="border-[#2E8BC0]/20 text-[#676767]">
+                      <SelectValue placeholder="What is this entry about?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CATEGORY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={mood} onValueChange={setMood}>
+                    <SelectTrigger className="border-[#2E8BC0]/20 text-[#676767]">
+                      <SelectValue placeholder="How are you feeling?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOOD_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <Textarea
                   value={currentEntry}
                   onChange={(e) => setCurrentEntry(e.target.value)}
                   placeholder="Write your thoughts, feelings, and reflections here..."
                   className="min-h-[200px] border-[#2E8BC0]/20 text-[#676767]"
                 />
-                
-                <Button 
+
+                <Button
                   onClick={saveEntry}
+                  disabled={createEntryMutation.isPending || !userId}
                   className="bg-[#2E8BC0] hover:bg-[#267cad] text-white"
                 >
                   <Save className="w-4 h-4 mr-2" />
-                  Save Entry
+                  {createEntryMutation.isPending ? "Saving..." : "Save Entry"}
                 </Button>
               </div>
             </TabsContent>
-            
+
             <TabsContent value="history" className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
@@ -108,21 +242,85 @@ const Journaling: React.FC = () => {
                     mode="single"
                     selected={date}
                     onSelect={(date) => date && setDate(date)}
+                    modifiers={{ hasEntry: entryDates }}
+                    modifiersClassNames={{ hasEntry: "font-bold text-[#2E8BC0]" }}
                     className="rounded-md border border-[#2E8BC0]/20"
                   />
                 </div>
-                
+
                 <div>
                   <h3 className="text-lg font-medium mb-2 text-[#676767]">
                     Entries for {format(date, "MMMM d, yyyy")}
                   </h3>
-                  
-                  {selectedDateEntries.length > 0 ? (
+
+                  {isLoadingEntries ? (
+                    <p className="text-[#a4a4a4] italic">Loading entries...</p>
+                  ) : selectedDateEntries.length > 0 ? (
                     <div className="space-y-2">
                       {selectedDateEntries.map((entry) => (
                         <Card key={entry.id} className="border-[#2E8BC0]/20">
-                          <CardContent className="p-4">
-                            <p className="text-[#676767]">{entry.content}</p>
+                          <CardContent className="p-4 space-y-2">
+                            <div className="flex items-center justify-between text-xs text-[#a4a4a4]">
+                              <span>
+                                {CATEGORY_OPTIONS.find(option => option.value === entry.category)?.label || entry.category}
+                                {" · "}
+                                {MOOD_OPTIONS.find(option => option.value === entry.mood)?.label || entry.mood}
+                              </span>
+                              {editingId !== entry.id && (
+                                <div className="flex space-x-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-[#2E8BC0]"
+                                    onClick={() => startEditing(entry)}
+                                    aria-label="Edit entry"
+                                  >
+                                    <Pencil className="w-4 h-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-red-500"
+                                    onClick={() => deleteEntryMutation.mutate(entry.id)}
+                                    disabled={deleteEntryMutation.isPending}
+                                    aria-label="Delete entry"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              )}
+                            </div>
+
+                            {editingId === entry.id ? (
+                              <div className="space-y-2">
+                                <Textarea
+                                  value={editingText}
+                                  onChange={(e) => setEditingText(e.target.value)}
+                                  className="min-h-[120px] border-[#2E8BC0]/20 text-[#676767]"
+                                />
+                                <div className="flex space-x-2">
+                                  <Button
+                                    size="sm"
+                                    onClick={saveEdit}
+                                    disabled={updateEntryMutation.isPending}
+                                    className="bg-[#2E8BC0] hover:bg-[#267cad] text-white"
+                                  >
+                                    <Save className="w-4 h-4 mr-1" />
+                                    Save
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setEditingId(null)}
+                                  >
+                                    <X className="w-4 h-4 mr-1" />
+                                    Cancel
+                                  </Button>
+                                </div>
+                              </div>
+                            ) : (
+                              <p className="text-[#676767] whitespace-pre-wrap">{entry.entryText}</p>
+                            )}
                           </CardContent>
                         </Card>
                       ))}
@@ -140,4 +338,4 @@ const Journaling: React.FC = () => {
   );
 };
 
-export default Journaling;
\ No newline at end of file
+export default Journaling;
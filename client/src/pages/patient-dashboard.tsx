@@ -31,7 +31,7 @@ import {
   Info
 } from 'lucide-react';
 import { useMCPHost } from '@/hooks/useMCPHost';
-import { DailyScoreReminderToast } from '@/components/patient/DailyScoreReminderToast';
+import { InAppNotificationToaster } from '@/components/notifications/InAppNotificationToaster';
 import { apiRequest } from '@/lib/queryClient';
 import OrientationVideo from '@/components/orientation/OrientationVideo';
 
@@ -504,8 +504,8 @@ export default function PatientDashboard() {
         </div>
       )}
 
-      {/* Daily Score Reminder Toast Component */}
-      <DailyScoreReminderToast userId={2} enabled={true} />
+      {/* In-app notifications (7 PM reminder, badges) as toasts */}
+      <InAppNotificationToaster />
     </div>
   );
 }
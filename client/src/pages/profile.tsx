@@ -3,6 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import PatientProfile from "@/components/patient/PatientProfile";
+import PatientDataRightsCard from "@/components/patient/PatientDataRightsCard";
+import NotificationPreferencesCard from "@/components/notifications/NotificationPreferencesCard";
 import HealthProgressChart from "@/components/health/HealthProgressChart";
 import DailyHealthScore from "@/components/health/DailyHealthScore";
 import HealthInspiration from "@/components/health/HealthInspiration";
@@ -108,6 +110,10 @@ const Profile: React.FC = () => {
       )}
       
       <DailyHealthScore metric={healthMetrics[0]} />
+
+      <NotificationPreferencesCard />
+
+      <PatientDataRightsCard />
     </div>
   );
 };
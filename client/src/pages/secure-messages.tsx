@@ -0,0 +1,50 @@
+import React from "react";
+import { Link } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import Layout from "@/components/layout/Layout";
+import SecureMessagingPanel from "@/components/messaging/SecureMessagingPanel";
+import { useAuth } from "@/context/auth-context";
+
+interface SecureMessagesProps {
+  threadId?: string;
+}
+
+// Patients read messages inside the app layout; doctors arrive here from a notification
+const SecureMessages: React.FC<SecureMessagesProps> = ({ threadId }) => {
+  const { user } = useAuth();
+
+  if (!user || user.role === 'admin') {
+    return null;
+  }
+
+  const initialThreadId = threadId ? parseInt(threadId) : undefined;
+  const panel = (
+    <SecureMessagingPanel
+      role={user.role}
+      userId={user.id}
+      initialThreadId={initialThreadId && !isNaN(initialThreadId) ? initialThreadId : undefined}
+    />
+  );
+
+  if (user.role === 'doctor') {
+    return (
+      <div className="container mx-auto max-w-4xl p-4 space-y-4">
+        <Link href="/doctor-dashboard" className="flex items-center gap-1 text-sm text-[#2E8BC0]">
+          <ArrowLeft className="h-4 w-4" />
+          Doctor Dashboard
+        </Link>
+        {panel}
+      </div>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto max-w-4xl p-4">
+        {panel}
+      </div>
+    </Layout>
+  );
+};
+
+export default SecureMessages;
@@ -3,8 +3,8 @@ import { createHapticFeedback, createMenuFeedback } from '../lib/hapticFeedback'
 
 // Websocket connection for real-time feature usage tracking
 let socket: WebSocket | null = null;
-let keepGoingSessionStartTime: number | null = null;
-let keepGoingActiveTimer: NodeJS.Timeout | null = null;
+// Server-side keep_going_events ID of the active session, once the start request resolves
+let keepGoingSession: Promise<number | null> | null = null;
 let reconnectAttempts = 0;
 const MAX_RECONNECT_ATTEMPTS = 5;
 const RECONNECT_DELAY = 4000; // 4 seconds between reconnection attempts
@@ -68,78 +68,50 @@ export function initializeKeepGoingMonitor(userId: number) {
 }
 
 /**
- * Records Keep Going feature usage via WebSocket
+ * Starts a Keep Going session; the server records its start time and the patient's latest scores
  */
-export function recordKeepGoingUsage(userId: number, duration?: number) {
-  if (socket && socket.readyState === WebSocket.OPEN) {
-    socket.send(JSON.stringify({
-      type: 'record_feature_usage',
-      userId,
-      featureName: 'keep-going',
-      metadata: duration ? { duration } : undefined
-    }));
-    
-    console.log('Recorded Keep Going feature usage');
-  } else {
-    console.warn('WebSocket not connected, reconnecting...');
-    initializeKeepGoingMonitor(userId);
-    
-    // Retry after a short delay
-    setTimeout(() => {
-      if (socket && socket.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify({
-          type: 'record_feature_usage',
-          userId,
-          featureName: 'keep-going',
-          metadata: duration ? { duration } : undefined
-        }));
-      }
-    }, 1000);
-  }
-}
-
-/**
- * Starts tracking an active Keep Going session
- */
-export function startKeepGoingSession(userId: number) {
+export function startKeepGoingSession(userId: number, details: { motivationalImageShown?: boolean } = {}) {
   // Create haptic feedback when starting session (vibration + sound for 2 seconds)
   createHapticFeedback(2000);
   
-  // Record the start of the session
-  keepGoingSessionStartTime = Date.now();
-  
-  // Record initial usage
-  recordKeepGoingUsage(userId);
+  if (keepGoingSession) {
+    endKeepGoingSession(userId);
+  }
   
-  // Set up timer to record ongoing usage every 30 seconds for long sessions
-  keepGoingActiveTimer = setInterval(() => {
-    if (keepGoingSessionStartTime) {
-      const sessionDuration = Math.floor((Date.now() - keepGoingSessionStartTime) / 1000);
-      recordKeepGoingUsage(userId, sessionDuration);
-    }
-  }, 30000); // Record ongoing usage every 30 seconds
+  keepGoingSession = fetch('/api/keep-going/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      deviceType: window.matchMedia('(max-width: 767px)').matches ? 'mobile' : 'desktop',
+      motivationalImageShown: details.motivationalImageShown ?? false
+    })
+  })
+    .then(async response => (response.ok ? (await response.json()).id as number : null))
+    .catch(error => {
+      console.warn('Error starting Keep Going session:', error);
+      return null;
+    });
 }
 
 /**
- * Ends tracking for an active Keep Going session
+ * Ends the active Keep Going session; the server calculates its duration
  */
-export function endKeepGoingSession(userId: number) {
-  if (keepGoingSessionStartTime) {
-    // Calculate session duration in seconds
-    const sessionDuration = Math.floor((Date.now() - keepGoingSessionStartTime) / 1000);
-    
-    // Record final usage with duration
-    recordKeepGoingUsage(userId, sessionDuration);
-    
-    // Reset tracking
-    keepGoingSessionStartTime = null;
+export function endKeepGoingSession(userId: number, details: { videoPlayed?: boolean } = {}) {
+  const session = keepGoingSession;
+  if (!session) {
+    return;
   }
+  keepGoingSession = null;
   
-  // Clear the active timer if it exists
-  if (keepGoingActiveTimer) {
-    clearInterval(keepGoingActiveTimer);
-    keepGoingActiveTimer = null;
-  }
+  session.then(sessionId => {
+    if (sessionId === null) return;
+    return fetch(`/api/keep-going/sessions/${sessionId}/end`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ videoPlayed: details.videoPlayed ?? false }),
+      keepalive: true
+    });
+  }).catch(error => console.warn(`Error ending Keep Going session for user ${userId}:`, error));
 }
 
 /**
@@ -163,15 +135,15 @@ export function useKeepGoingMonitor(userId: number) {
       window.removeEventListener('keepGoingRecommendation', handleRecommendation as EventListener);
       
       // Clean up session if component unmounts during active session
-      if (keepGoingSessionStartTime) {
+      if (keepGoingSession) {
         endKeepGoingSession(userId);
       }
     };
   }, [userId]);
   
   return {
-    startKeepGoingSession: () => startKeepGoingSession(userId),
-    endKeepGoingSession: () => endKeepGoingSession(userId),
+    startKeepGoingSession: (details?: { motivationalImageShown?: boolean }) => startKeepGoingSession(userId, details),
+    endKeepGoingSession: (details?: { videoPlayed?: boolean }) => endKeepGoingSession(userId, details),
     recommendations,
     clearRecommendations: () => setRecommendations([])
   };
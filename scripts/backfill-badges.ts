@@ -0,0 +1,46 @@
+import { badgeRuleService } from '../server/services/badgeRuleEngine';
+
+/**
+ * Re-evaluate historical patient_scores against the current badge rules and award
+ * any badges they now grant, dated when they were earned. Run after changing rules.
+ *
+ * Usage: npx tsx scripts/backfill-badges.ts [--program=<key>] [--patient=<id>] [--dry-run]
+ *
+ * Badges are never revoked; any the rules no longer support are listed for review.
+ */
+async function backfillBadges() {
+  const options = process.argv.slice(2);
+  const optionValue = (name: string) => options.find(option => option.startsWith(`--${name}=`))?.split('=')[1];
+
+  const programKey = optionValue('program');
+  const patientOption = optionValue('patient');
+  const patientId = patientOption ? parseInt(patientOption) : undefined;
+  const dryRun = options.includes('--dry-run');
+
+  if (patientOption && isNaN(patientId!)) {
+    console.error(`Invalid patient ID "${patientOption}"`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`Backfilling badges${programKey ? ` for program ${programKey}` : ''}${patientId ? ` for patient ${patientId}` : ''}${dryRun ? ' (dry run)' : ''}...`);
+
+  const result = await badgeRuleService.backfillBadges({ programKey, patientId, dryRun });
+
+  console.log(`Evaluated ${result.patientsEvaluated} patients, ${dryRun ? 'would award' : 'awarded'} ${result.badgesAwarded} badges`);
+  for (const badge of result.awarded) {
+    console.log(`  + patient ${badge.patientId}: ${badge.badgeLevel} ${badge.badgeType} (earned ${badge.earnedDate.toISOString().split('T')[0]})`);
+  }
+  for (const badge of result.noLongerMet) {
+    console.warn(`  ! patient ${badge.patientId}: ${badge.badgeLevel} ${badge.badgeType} no longer meets the current rules`);
+  }
+}
+
+// Execute the backfill
+backfillBadges()
+  .then(() => console.log('Badge backfill completed'))
+  .catch(err => {
+    console.error('Failed to backfill badges:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
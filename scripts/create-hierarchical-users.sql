@@ -6,7 +6,8 @@ INSERT INTO user_roles (name, description)
 VALUES 
   ('admin', 'Administrator role for KGC system'),
   ('doctor', 'Doctor role for KGC system'),
-  ('patient', 'Patient role for KGC system')
+  ('patient', 'Patient role for KGC system'),
+  ('practice_manager', 'Practice manager role for KGC system') -- Added last: role IDs 1-3 are assumed in code
 ON CONFLICT (name) DO NOTHING;
 
 -- Get role IDs
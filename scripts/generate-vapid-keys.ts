@@ -0,0 +1,19 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a VAPID key pair for Web Push and print it as environment variables.
+ *
+ * Usage: npx tsx scripts/generate-vapid-keys.ts
+ *
+ * Generate once per environment and keep the pair stable: changing it invalidates
+ * every device subscription, and patients have to turn push on again.
+ */
+function generateVapidKeys() {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+
+  console.log(`VAPID_PUBLIC_KEY=${ecdh.getPublicKey().toString('base64url')}`);
+  console.log(`VAPID_PRIVATE_KEY=${ecdh.getPrivateKey().toString('base64url')}`);
+}
+
+generateVapidKeys();
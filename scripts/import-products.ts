@@ -0,0 +1,56 @@
+import { readFileSync } from 'fs';
+import { extname, basename } from 'path';
+import { productCatalogueService } from '../server/services/productCatalogueService';
+
+/**
+ * Bulk import packaged products into the product catalogue.
+ *
+ * Usage: npx tsx scripts/import-products.ts <file.csv|file.json> [--source=<name>]
+ *
+ * CSV files need a header row; JSON files may be an array of products or
+ * { "products": [...] }. Common column names (gtin/ean/barcode/code, product_name,
+ * sodium_mg, sugars_100g, health_star_rating, ...) are mapped automatically.
+ * Existing products are updated in place by GTIN.
+ */
+async function importProducts() {
+  const [filePath, ...options] = process.argv.slice(2);
+
+  if (!filePath) {
+    console.error('Usage: npx tsx scripts/import-products.ts <file.csv|file.json> [--source=<name>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const extension = extname(filePath).toLowerCase();
+  if (extension !== '.csv' && extension !== '.json') {
+    console.error(`Unsupported file type "${extension}" - expected .csv or .json`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const sourceOption = options.find(option => option.startsWith('--source='));
+  const source = sourceOption ? sourceOption.slice('--source='.length) : basename(filePath, extension);
+
+  console.log(`Importing products from ${filePath}...`);
+
+  const content = readFileSync(filePath, 'utf-8');
+  const result = await productCatalogueService.importProductDump(
+    content,
+    extension === '.csv' ? 'csv' : 'json',
+    source
+  );
+
+  console.log(`Imported ${result.imported} products (${result.skipped} skipped)`);
+  for (const error of result.errors) {
+    console.warn(`  ${error}`);
+  }
+}
+
+// Execute the import
+importProducts()
+  .then(() => console.log('Product import completed'))
+  .catch(err => {
+    console.error('Failed to import products:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
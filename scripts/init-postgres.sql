@@ -4,6 +4,7 @@
 
 -- Create extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS vector; -- pgvector, for chat_memory.embedding
 
 -- Create schemas
 -- (optional - if you want to organize tables in separate schemas)
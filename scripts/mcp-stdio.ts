@@ -0,0 +1,49 @@
+/**
+ * Run the KGC MCP server over stdio for local MCP hosts (Claude Desktop, MCP Inspector).
+ *
+ * Usage: KGC_MCP_USER_ID=<user id> npx tsx scripts/mcp-stdio.ts
+ *
+ * Every tool call acts as the configured user with that user's role, so point it at a
+ * test account outside development. stdout carries protocol messages only; logs go to stderr.
+ */
+
+// Server modules log with console.log at import time, which would corrupt the protocol stream
+console.log = console.error;
+console.info = console.error;
+
+async function runStdioServer() {
+  const userId = parseInt(process.env.KGC_MCP_USER_ID || '');
+  if (isNaN(userId)) {
+    console.error('KGC_MCP_USER_ID must be set to the id of the user the server acts as');
+    process.exitCode = 1;
+    return;
+  }
+
+  const { eq, and } = await import('drizzle-orm');
+  const { db } = await import('../server/db');
+  const { users, userRoles } = await import('@shared/schema');
+  const { toMCPUserRole } = await import('../server/mcp/core/context');
+  const { startStdioTransport } = await import('../server/mcp/transport/stdio');
+
+  const [user] = await db
+    .select({ role: userRoles.name })
+    .from(users)
+    .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+    .where(and(eq(users.id, userId), eq(users.isActive, true)));
+  if (!user) {
+    console.error(`No active user with id ${userId}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.error(`[KGC MCP stdio] Serving as user ${userId} (${user.role})`);
+  await startStdioTransport({ userId, userRole: toMCPUserRole(user.role) });
+}
+
+// Execute the server until stdin closes and the requests already read are answered
+runStdioServer()
+  .catch(err => {
+    console.error('KGC MCP stdio server failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,25 @@
+import { practiceService } from '../server/services/practiceService';
+
+/**
+ * Practice tenancy migration: creates the practice_manager role and a default
+ * practice, then moves every doctor and patient without a practice into it.
+ * Run once after `npm run db:push` adds the practices table; safe to re-run.
+ *
+ * Usage: npx tsx scripts/migrate-default-practice.ts
+ */
+async function migrateDefaultPractice() {
+  console.log('Migrating existing users into the default practice...');
+
+  const { practice, usersMigrated } = await practiceService.ensureDefaultPractice();
+
+  console.log(`Default practice "${practice.name}" (id ${practice.id}): ${usersMigrated} users migrated`);
+}
+
+// Execute the migration
+migrateDefaultPractice()
+  .then(() => console.log('Practice migration completed'))
+  .catch(err => {
+    console.error('Failed to migrate users into the default practice:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,85 @@
+import { db } from '../server/db';
+import { chatMemory } from '@shared/schema';
+import { and, asc, eq, gt, isNull, ne, or, sql } from 'drizzle-orm';
+import { embeddingProvider } from '../server/ai/embeddingProvider';
+
+/**
+ * Embed chat memories with the configured provider (EMBEDDING_PROVIDER): rows never
+ * embedded, and rows embedded by a different model, so every memory can be found by
+ * vector search again after the provider or model changes.
+ *
+ * Usage: npx tsx scripts/reembed-chat-memory.ts [--batch-size=N] [--dry-run]
+ *
+ * Run after `npx drizzle-kit push` has added chat_memory.embedding (needs the pgvector
+ * extension). Safe to stop and re-run; finished rows are skipped. --dry-run only counts.
+ */
+async function reembedChatMemory() {
+  const options = process.argv.slice(2);
+  const batchSize = parseInt(options.find(option => option.startsWith('--batch-size='))?.split('=')[1] || '32');
+  if (isNaN(batchSize) || batchSize < 1) {
+    console.error('--batch-size must be a positive number');
+    process.exitCode = 1;
+    return;
+  }
+  if (!embeddingProvider) {
+    console.error('Embeddings are disabled; set EMBEDDING_PROVIDER to local or openai');
+    process.exitCode = 1;
+    return;
+  }
+
+  const { model } = embeddingProvider;
+  const needsEmbedding = or(isNull(chatMemory.embeddingModel), ne(chatMemory.embeddingModel, model));
+
+  const [{ pending }] = await db
+    .select({ pending: sql<number>`count(*)::int` })
+    .from(chatMemory)
+    .where(needsEmbedding);
+  console.log(`${pending} memories to embed with ${embeddingProvider.name} model ${model}`);
+  if (options.includes('--dry-run') || pending === 0) {
+    return;
+  }
+
+  let lastId = 0;
+  let embedded = 0;
+  let failed = 0;
+  for (;;) {
+    const batch = await db
+      .select({ id: chatMemory.id, content: chatMemory.content })
+      .from(chatMemory)
+      .where(and(needsEmbedding, gt(chatMemory.id, lastId)))
+      .orderBy(asc(chatMemory.id))
+      .limit(batchSize);
+    if (batch.length === 0) {
+      break;
+    }
+    lastId = batch[batch.length - 1].id;
+
+    try {
+      const embeddings = await embeddingProvider.embed(batch.map(memory => memory.content));
+      for (const [index, memory] of batch.entries()) {
+        await db.update(chatMemory)
+          .set({ embedding: embeddings[index], embeddingModel: model })
+          .where(eq(chatMemory.id, memory.id));
+      }
+      embedded += batch.length;
+    } catch (error) {
+      // Leave the batch for the next run rather than stopping the migration
+      console.error(`  ! Memories ${batch[0].id}-${lastId} failed:`, error);
+      failed += batch.length;
+    }
+    console.log(`  ${embedded}/${pending} embedded`);
+  }
+
+  console.log(`Embedded ${embedded} memories${failed > 0 ? `; ${failed} failed, re-run to retry them` : ''}`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Execute the migration
+reembedChatMemory()
+  .catch(err => {
+    console.error('Failed to re-embed chat memories:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,66 @@
+import { auditChainService } from '../server/services/auditChainService';
+
+/**
+ * Walk the audit_log hash chain and its signed daily anchors and report any break:
+ * edited rows, removed rows, re-linked chains, and missing or forged anchors.
+ *
+ * Usage: npx tsx scripts/verify-audit-chain.ts [--from=YYYY-MM-DD] [--to=YYYY-MM-DD] [--anchor]
+ *
+ * Dates are UTC days; the default is everything from the first chained day to today.
+ * --anchor first signs anchors for any closed days the scheduler has not reached yet.
+ * Exits with code 1 when the chain is broken.
+ */
+async function verifyAuditChain() {
+  const options = process.argv.slice(2);
+  const optionValue = (name: string) => options.find(option => option.startsWith(`--${name}=`))?.split('=')[1];
+
+  const from = optionValue('from');
+  const to = optionValue('to');
+  for (const value of [from, to]) {
+    if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      console.error(`Invalid date "${value}", expected YYYY-MM-DD`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  if (options.includes('--anchor')) {
+    const { anchored, through } = await auditChainService.anchorClosedDays();
+    console.log(`Signed ${anchored} new anchors${through ? ` (anchored through ${through})` : ''}`);
+  }
+
+  const report = await auditChainService.verify(from, to);
+  if (!report.from) {
+    console.log('No chained audit entries yet');
+    return;
+  }
+
+  console.log(`Verified ${report.entriesChecked} entries over ${report.days.length} days (${report.from} to ${report.to})`);
+  const unanchored = report.days.filter(day => !day.anchored).map(day => day.chainDate);
+  if (unanchored.length > 0) {
+    console.log(`  Not yet anchored: ${unanchored.join(', ')}`);
+  }
+  if (report.unchainedEntries > 0) {
+    console.log(`  ${report.unchainedEntries} entries predate the hash chain and were not checked`);
+  }
+
+  for (const problem of report.breaks) {
+    const position = problem.entryId ? ` entry ${problem.entryId} (#${problem.sequence})` : '';
+    console.error(`  ! ${problem.chainDate}${position}: ${problem.problem}`);
+  }
+
+  if (!report.valid) {
+    console.error(`Audit chain BROKEN: ${report.breaks.length} problems found`);
+    process.exitCode = 1;
+  } else {
+    console.log('Audit chain intact');
+  }
+}
+
+// Execute the verification
+verifyAuditChain()
+  .catch(err => {
+    console.error('Failed to verify the audit chain:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
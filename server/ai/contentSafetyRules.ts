@@ -0,0 +1,313 @@
+/**
+ * Content Safety Rules
+ *
+ * Deterministic, offline layer of the content validator. Each rule pairs a kind of
+ * care plan directive (e.g. low sodium, joint protection) with the content claims that
+ * conflict with it (e.g. bacon and soy sauce, box jumps) and the claims that show the
+ * content has been adapted for it (e.g. "reduced salt", "low impact").
+ */
+
+import type { CpdCategory } from '@shared/schema';
+
+export type ContentDomain = 'diet' | 'exercise';
+export type ConflictSeverity = 'high' | 'medium' | 'low';
+
+export interface ContentSafetyRule {
+  id: string;
+  label: string; // Directive kind as shown to patients, e.g. "low-sodium"
+  domain: ContentDomain; // Kind of content the rule applies to
+  directiveCategories: CpdCategory[];
+  severity: ConflictSeverity;
+  directivePatterns: RegExp[];
+  conflictPatterns: RegExp[];
+  adaptedPatterns: RegExp[];
+}
+
+export interface ContentDirective {
+  id: number;
+  category: string;
+  directive: string;
+}
+
+export interface ContentConflict {
+  ruleId: string;
+  label: string;
+  severity: ConflictSeverity;
+  directiveId: number;
+  directive: string;
+  evidence: string[]; // Terms found in the content
+}
+
+export interface ContentSupport {
+  ruleId: string;
+  label: string;
+  directiveId: number;
+  evidence: string[];
+}
+
+export interface RulesValidationResult {
+  isValid: boolean;
+  score: number;
+  reasons: string[];
+  conflicts: ContentConflict[];
+  supports: ContentSupport[];
+}
+
+// Below this score, or with any high-severity conflict, content is not valid for the patient
+export const VALID_SCORE_THRESHOLD = 0.5;
+
+const SEVERITY_PENALTY: Record<ConflictSeverity, number> = { high: 0.45, medium: 0.25, low: 0.1 };
+const SUPPORT_BONUS = 0.05;
+const BASE_SCORE = 0.9;
+
+export const CONTENT_SAFETY_RULES: ContentSafetyRule[] = [
+  {
+    id: 'low_sodium',
+    label: 'low-sodium',
+    domain: 'diet',
+    directiveCategories: ['diet'],
+    severity: 'high',
+    directivePatterns: [
+      /\b(low|reduced?|limit(ed)?|less|cut (down|back) on|avoid)\b[\w\s-]{0,20}\b(salt|sodium)\b/i,
+      /\bsalt[- ]free\b/i,
+      /\bDASH\b/,
+      /\b(blood pressure|hypertension)\b/i
+    ],
+    conflictPatterns: [
+      /\b(salty|salted|cured|bacon|ham|salami|prosciutto|chorizo|pepperoni|corned beef|processed meats?)\b/i,
+      /\b(soy sauce|fish sauce|anchov(y|ies)|pickled|brined?|stock cubes?|instant noodles?|ramen|high[- ]sodium)\b/i
+    ],
+    adaptedPatterns: [/\b(low|reduced|no|less)[- ](salt|sodium)\b/i, /\b(salt[- ]free|unsalted|no added salt)\b/i]
+  },
+  {
+    id: 'low_sugar',
+    label: 'low-sugar',
+    domain: 'diet',
+    directiveCategories: ['diet'],
+    severity: 'medium',
+    directivePatterns: [
+      /\b(low|reduced?|limit(ed)?|less|cut (down|back) on|avoid)\b[\w\s-]{0,20}\b(sugars?|sweets|refined carbs?|carbohydrates?)\b/i,
+      /\b(diabet(es|ic)|blood (sugar|glucose)|HbA1c|pre-?diabet(es|ic))\b/i
+    ],
+    conflictPatterns: [
+      /\b(cakes?|cupcakes?|cookies|brownies?|desserts?|doughnuts?|donuts?|pastr(y|ies)|fudge|lollies|candy)\b/i,
+      /\b(syrup|caramel|frosting|icing|milkshakes?|soft drinks?|soda|sugary|sweetened)\b/i
+    ],
+    adaptedPatterns: [/\b(sugar[- ]free|no added sugar|low[- ](sugar|carb|GI)|unsweetened|diabetic[- ]friendly)\b/i]
+  },
+  {
+    id: 'low_saturated_fat',
+    label: 'low saturated fat',
+    domain: 'diet',
+    directiveCategories: ['diet'],
+    severity: 'medium',
+    directivePatterns: [
+      /\b(low|reduced?|limit(ed)?|less|cut (down|back) on|avoid)\b[\w\s-]{0,20}\b(saturated fats?|fats?|fatty|fried)\b/i,
+      /\b(cholesterol|LDL|heart[- ]healthy)\b/i
+    ],
+    conflictPatterns: [
+      /\b(deep[- ]fried|fried chicken|battered|lard|ghee|crackling|pork belly|sausages?|fatty)\b/i,
+      /\b(butter|cream|creamy|carbonara|triple cheese|cheesy)\b/i
+    ],
+    adaptedPatterns: [/\b(low[- ]fat|reduced[- ]fat|fat[- ]free|lean|air[- ]fried|skim)\b/i]
+  },
+  {
+    id: 'calorie_control',
+    label: 'weight-management',
+    domain: 'diet',
+    directiveCategories: ['diet'],
+    severity: 'low',
+    directivePatterns: [/\b(weight loss|lose weight|weight management|reduce weight|calories|calorie|kilojoules?|portion control|BMI)\b/i],
+    conflictPatterns: [
+      /\b(indulgent|decadent|loaded|supersized?|all[- ]you[- ]can[- ]eat|high[- ]calorie|thickshake|bulking|mass gainer)\b/i,
+      /\b(double (bacon|cheese)|deep[- ]fried)\b/i
+    ],
+    adaptedPatterns: [/\b(low[- ]calorie|lighter|portion[- ]controlled|under \d+ (calories|cal|kj))\b/i]
+  },
+  {
+    id: 'alcohol_avoidance',
+    label: 'alcohol-free',
+    domain: 'diet',
+    directiveCategories: ['diet', 'medication'],
+    severity: 'medium',
+    directivePatterns: [
+      /\b(no|avoid|limit|reduce|cut (down|back) on|abstain from)\b[\w\s-]{0,20}\b(alcohol|drinking|wine|beer)\b/i,
+      /\balcohol[- ]free\b/i
+    ],
+    conflictPatterns: [/\b(wine|beer|vodka|rum|whiske?y|gin|brandy|liqueur|cocktails?|sangria|margaritas?|boozy|spirits)\b/i],
+    adaptedPatterns: [/\b(non[- ]alcoholic|alcohol[- ]free|mocktails?|zero[- ]alcohol)\b/i]
+  },
+  {
+    id: 'joint_protection',
+    label: 'joint-protection',
+    domain: 'exercise',
+    directiveCategories: ['exercise'],
+    severity: 'high',
+    directivePatterns: [
+      /\b(low[- ]impact|joints?|knees?|hips?|arthritis|osteoarthritis)\b/i,
+      /\bavoid\b[\w\s-]{0,20}\b(running|jumping|high[- ]impact)\b/i
+    ],
+    conflictPatterns: [
+      /\b(high[- ]impact|plyometrics?|burpees?|box jumps?|jump squats|jumping jacks|tuck jumps|skipping|jump rope)\b/i,
+      /\b(sprints?|sprinting|running|jogging|crossfit)\b/i
+    ],
+    adaptedPatterns: [/\b(low[- ]impact|no[- ]jump(ing)?|joint[- ]friendly|seated|chair|aqua|water aerobics|swimming|modified)\b/i]
+  },
+  {
+    id: 'moderate_intensity',
+    label: 'moderate-intensity',
+    domain: 'exercise',
+    directiveCategories: ['exercise'],
+    severity: 'high',
+    directivePatterns: [
+      /\b(moderate|gentle|light)\b[\w\s-]{0,20}\b(intensity|exercise|activity|walking)\b/i,
+      /\b(cardiac rehab(ilitation)?|heart (failure|condition)|angina)\b/i,
+      /\bavoid\b[\w\s-]{0,20}\b(strenuous|vigorous|intense)\b/i
+    ],
+    conflictPatterns: [
+      /\b(HIIT|high[- ]intensity|tabata|vigorous|extreme|insane|intense|all[- ]out|max(imum)? effort|to failure)\b/i
+    ],
+    adaptedPatterns: [/\b(beginners?|gentle|low[- ]intensity|moderate[- ]intensity|cardiac rehab(ilitation)?)\b/i]
+  },
+  {
+    id: 'lifting_restriction',
+    label: 'lifting-restriction',
+    domain: 'exercise',
+    directiveCategories: ['exercise'],
+    severity: 'medium',
+    directivePatterns: [/\b(lower back|back pain|spinal|spine|hernia|heavy lifting|lifting restrictions?)\b/i],
+    conflictPatterns: [
+      /\b(deadlifts?|heavy (lifting|weights?)|powerlifting|1RM|one[- ]rep max|olympic lifts?|clean and jerk|snatch|kettlebell swings?)\b/i
+    ],
+    adaptedPatterns: [/\b(light weights|resistance bands?|bodyweight|back[- ]friendly|core stability)\b/i]
+  },
+  {
+    id: 'falls_prevention',
+    label: 'falls-prevention',
+    domain: 'exercise',
+    directiveCategories: ['exercise'],
+    severity: 'medium',
+    directivePatterns: [/\b(falls?|balance|dizz(y|iness)|osteoporosis|unsteady)\b/i],
+    conflictPatterns: [
+      /\b(box jumps?|trail running|plyometrics?|agility|bosu|balance board|hot yoga|inversions?|headstands?)\b/i
+    ],
+    adaptedPatterns: [/\b(chair|seated|supported|with support|wall[- ]supported|falls prevention|tai chi)\b/i]
+  }
+];
+
+/**
+ * Which rules apply to a content type (e.g. 'diet_recipe', 'exercise_video'); unknown types get all
+ */
+export function getContentDomains(contentType?: string | null): ContentDomain[] {
+  const type = (contentType ?? '').toLowerCase();
+  if (/recipe|diet|meal|cook|food|nutrition/.test(type)) {
+    return ['diet'];
+  }
+  if (/exercise|workout|fitness|wellness|ew_|yoga/.test(type)) {
+    return ['exercise'];
+  }
+  return ['diet', 'exercise'];
+}
+
+/**
+ * Title, description and tag-like text of a search result, favourite or video
+ */
+export function extractContentText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!content || typeof content !== 'object') {
+    return '';
+  }
+
+  const record = content as Record<string, unknown>;
+  const metadata = record.metadata && typeof record.metadata === 'object' ? record.metadata as Record<string, unknown> : {};
+  const fields = [
+    record.title, record.contentTitle, record.description, record.contentDescription, record.content,
+    record.tags, record.ingredients, metadata.description, metadata.tags, metadata.ingredients
+  ];
+
+  return fields
+    .flatMap(field => (Array.isArray(field) ? field : [field]))
+    .filter((field): field is string => typeof field === 'string' && field.trim() !== '')
+    .join('\n');
+}
+
+/**
+ * Check content text against the patient's directives with the rules for its domains
+ */
+export function evaluateContentRules(
+  text: string,
+  directives: ContentDirective[],
+  domains: ContentDomain[] = ['diet', 'exercise']
+): RulesValidationResult {
+  const conflicts: ContentConflict[] = [];
+  const supports: ContentSupport[] = [];
+
+  for (const rule of CONTENT_SAFETY_RULES) {
+    if (!domains.includes(rule.domain)) {
+      continue;
+    }
+
+    const directive = directives.find(d =>
+      (rule.directiveCategories as string[]).includes(d.category.toLowerCase())
+      && rule.directivePatterns.some(pattern => pattern.test(d.directive))
+    );
+    if (!directive) {
+      continue;
+    }
+
+    const adapted = findTerms(text, rule.adaptedPatterns);
+    if (adapted.length > 0) {
+      supports.push({ ruleId: rule.id, label: rule.label, directiveId: directive.id, evidence: adapted });
+      continue;
+    }
+
+    const evidence = findTerms(text, rule.conflictPatterns);
+    if (evidence.length > 0) {
+      conflicts.push({
+        ruleId: rule.id,
+        label: rule.label,
+        severity: rule.severity,
+        directiveId: directive.id,
+        directive: directive.directive,
+        evidence
+      });
+    }
+  }
+
+  const penalty = conflicts.reduce((sum, conflict) => sum + SEVERITY_PENALTY[conflict.severity], 0);
+  const bonus = supports.length * SUPPORT_BONUS;
+  const score = Math.round(Math.min(1, Math.max(0, BASE_SCORE - penalty + bonus)) * 100) / 100;
+
+  const reasons = [
+    ...conflicts.map(conflict =>
+      `Conflicts with your ${conflict.label} directive (${conflict.severity}): mentions ${conflict.evidence.join(', ')}`),
+    ...supports.map(support =>
+      `Suits your ${support.label} directive: ${support.evidence.join(', ')}`)
+  ];
+  if (reasons.length === 0) {
+    reasons.push(directives.length > 0
+      ? 'No conflicts found with your care plan directives'
+      : 'No active care plan directives to check against');
+  }
+
+  return {
+    isValid: score >= VALID_SCORE_THRESHOLD && !conflicts.some(conflict => conflict.severity === 'high'),
+    score,
+    reasons,
+    conflicts,
+    supports
+  };
+}
+
+function findTerms(text: string, patterns: RegExp[]): string[] {
+  const terms = new Set<string>();
+  for (const pattern of patterns) {
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+    for (const match of Array.from(text.matchAll(global))) {
+      terms.add(match[0].toLowerCase());
+    }
+  }
+  return Array.from(terms);
+}
@@ -0,0 +1,114 @@
+/**
+ * Embedding providers for chat memory retrieval
+ *
+ * EMBEDDING_PROVIDER chooses where memory text is embedded:
+ * - local (default): a sentence-transformer model run on CPU in this process, so no
+ *   patient text leaves our infrastructure (the model files are downloaded once and cached)
+ * - openai: the OpenAI embeddings API
+ * - none: no embeddings; memory search is keyword-only
+ *
+ * Every provider returns unit vectors of CHAT_MEMORY_EMBEDDING_DIMENSIONS so they share the
+ * chat_memory.embedding column. Rows record the model that embedded them and are only
+ * compared with vectors from the same model; scripts/reembed-chat-memory.ts re-embeds
+ * rows after the provider or model changes.
+ */
+
+import { OpenAI } from 'openai';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { CHAT_MEMORY_EMBEDDING_DIMENSIONS } from '@shared/schema';
+
+export interface EmbeddingProvider {
+  name: 'local' | 'openai';
+  model: string; // Stored in chat_memory.embedding_model
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// all-MiniLM-L6-v2 produces 384-dimension vectors; a replacement model must match
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+function checkDimensions(vectors: number[][], model: string): number[][] {
+  const wrongLength = vectors.find(vector => vector.length !== CHAT_MEMORY_EMBEDDING_DIMENSIONS);
+  if (wrongLength) {
+    throw new Error(`${model} produced ${wrongLength.length}-dimension embeddings; chat_memory stores ${CHAT_MEMORY_EMBEDDING_DIMENSIONS}`);
+  }
+  return vectors;
+}
+
+/**
+ * Runs a transformers.js feature-extraction model on the CPU. The model is loaded on
+ * first use, so servers that never embed don't pay for it.
+ */
+class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = process.env.EMBEDDING_LOCAL_MODEL || DEFAULT_LOCAL_MODEL;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const extractor = await this.loadExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return checkDimensions(output.tolist() as number[][], this.model);
+  }
+
+  private loadExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      this.extractor = import('@huggingface/transformers').then(({ pipeline, env }) => {
+        if (process.env.EMBEDDING_MODEL_CACHE_DIR) {
+          env.cacheDir = process.env.EMBEDDING_MODEL_CACHE_DIR;
+        }
+        console.log(`[Embeddings] Loading local model ${this.model}`);
+        // pipeline() is typed over every task, a union too large for tsc; name the one used here
+        const createExtractor = pipeline as (
+          task: 'feature-extraction',
+          model: string,
+          options: { device: 'cpu'; dtype: 'fp32' }
+        ) => Promise<FeatureExtractionPipeline>;
+        return createExtractor('feature-extraction', this.model, { device: 'cpu', dtype: 'fp32' });
+      });
+      // Let the next call try again if the model could not be loaded
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+}
+
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model = OPENAI_EMBEDDING_MODEL;
+
+  constructor(private client: OpenAI) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: CHAT_MEMORY_EMBEDDING_DIMENSIONS
+    });
+    return checkDimensions(response.data.map(item => item.embedding), this.model);
+  }
+}
+
+function createEmbeddingProvider(): EmbeddingProvider | null {
+  const provider = process.env.EMBEDDING_PROVIDER || 'local';
+
+  switch (provider) {
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        console.warn('EMBEDDING_PROVIDER is openai but OPENAI_API_KEY is not set; memory search is keyword-only.');
+        return null;
+      }
+      return new OpenAIEmbeddingProvider(new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+    case 'none':
+      return null;
+    default:
+      console.warn(`Unknown EMBEDDING_PROVIDER "${provider}"; memory search is keyword-only.`);
+      return null;
+  }
+}
+
+// Null when embeddings are disabled
+export const embeddingProvider = createEmbeddingProvider();
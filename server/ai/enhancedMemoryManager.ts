@@ -8,20 +8,9 @@
 
 import { db } from '../db';
 import { ChatMemory, InsertChatMemory, chatMemory } from '@shared/schema';
-import { eq, and, lt, desc, sql } from 'drizzle-orm';
+import { eq, and, lt, desc, sql, cosineDistance, SQL } from 'drizzle-orm';
 import type { QueryResult } from 'drizzle-orm';
-import { OpenAI } from 'openai';
-import type { APIError } from 'openai';
-
-// Initialize OpenAI client for embeddings
-let openai: OpenAI;
-if (process.env.OPENAI_API_KEY) {
-  openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-  });
-} else {
-  console.warn('OPENAI_API_KEY not provided, vector embeddings will not work.');
-}
+import { embeddingProvider } from './embeddingProvider';
 
 // Memory System types
 export enum MemorySystem {
@@ -30,6 +19,9 @@ export enum MemorySystem {
   EPISODIC = 'episodic'    // Past experiences and interactions
 }
 
+// Results per search when the query sets no limit
+const DEFAULT_SEARCH_LIMIT = 10;
+
 // Memory Importance levels
 export enum ImportanceLevel {
   LOW = 0.2,
@@ -56,6 +48,12 @@ export interface MemoryQuery {
   includeExpired?: boolean;
 }
 
+// A memory with its relevance to a search (higher is more relevant)
+export interface ScoredMemory {
+  memory: ChatMemory;
+  score: number;
+}
+
 // Utility for working with offline sync
 export interface OfflineSyncOperation {
   type: 'create' | 'update' | 'delete';
@@ -101,21 +99,18 @@ export class EnhancedMemoryManager {
    */
   public async createMemory(memory: InsertChatMemory): Promise<ChatMemory> {
     try {
-      // Add embeddings if text search is enabled and we're online
-      if (this.isOnline && openai && memory.content) {
-        const embeddings = await this.generateEmbeddings(memory.content);
-        memory.embeddings = JSON.stringify(embeddings);
-      }
-
-      // If we're online, store in the database
+      // If we're online, embed the content for similarity search and store in the database
       if (this.isOnline) {
-        const [createdMemory] = await db.insert(chatMemory).values(memory).returning();
+        const embedding = await this.embedContent(memory.content);
+        const [createdMemory] = await db.insert(chatMemory).values({ ...memory, ...embedding }).returning();
         return createdMemory;
       } else {
         // Otherwise, store in the offline cache
         const offlineMemory: ChatMemory = {
           id: Date.now(), // Temporary ID
           ...memory,
+          embedding: null,
+          embeddingModel: null,
           createdAt: new Date(),
           accessCount: 0,
           lastAccessed: null
@@ -162,6 +157,111 @@ export class EnhancedMemoryManager {
    * Get memories from database when online
    */
   private async getOnlineMemories(query: MemoryQuery): Promise<ChatMemory[]> {
+    // With a text query, memories embedded by the active model come first, nearest first
+    const queryEmbedding = query.text ? await this.generateEmbedding(query.text) : null;
+    const ordering = queryEmbedding
+      ? [sql`${this.embeddingDistance(queryEmbedding)} ASC NULLS LAST`, desc(chatMemory.createdAt)]
+      : [desc(chatMemory.createdAt)];
+
+    let dbQuery = db.select()
+      .from(chatMemory)
+      .where(and(...this.filterConditions(query)))
+      .orderBy(...ordering);
+    
+    if (query.limit) {
+      dbQuery = dbQuery.limit(query.limit);
+    }
+    
+    const memories = await dbQuery;
+    await this.recordAccess(memories);
+    
+    return memories;
+  }
+
+  /**
+   * Memories nearest to a text by embedding (pgvector cosine distance, served by the
+   * HNSW index), scored by cosine similarity. Only memories embedded by the active model
+   * are compared; empty when offline or embeddings are disabled.
+   */
+  public async searchSimilarMemories(query: MemoryQuery & { text: string }): Promise<ScoredMemory[]> {
+    if (!this.isOnline || !embeddingProvider) {
+      return [];
+    }
+
+    const queryEmbedding = await this.generateEmbedding(query.text);
+    if (!queryEmbedding) {
+      return [];
+    }
+
+    const distance = cosineDistance(chatMemory.embedding, queryEmbedding);
+    const rows = await db.select({ memory: chatMemory, distance })
+      .from(chatMemory)
+      .where(and(...this.filterConditions(query), eq(chatMemory.embeddingModel, embeddingProvider.model)))
+      .orderBy(distance)
+      .limit(query.limit || DEFAULT_SEARCH_LIMIT);
+
+    return rows.map(row => ({ memory: row.memory, score: 1 - Number(row.distance) }));
+  }
+
+  /**
+   * Memories sharing words with a text (Postgres full-text search, any word matches),
+   * scored by ts_rank. Offline, cached memories are matched word by word instead.
+   */
+  public async searchKeywordMemories(query: MemoryQuery & { text: string }): Promise<ScoredMemory[]> {
+    const limit = query.limit || DEFAULT_SEARCH_LIMIT;
+
+    if (!this.isOnline) {
+      const words = query.text.toLowerCase().split(/\W+/).filter(word => word.length > 2);
+      return this.getOfflineMemories({ ...query, limit: undefined })
+        .map(memory => ({
+          memory,
+          score: words.filter(word => memory.content.toLowerCase().includes(word)).length / (words.length || 1)
+        }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+
+    const document = sql`to_tsvector('english', ${chatMemory.content})`;
+    // plainto_tsquery requires every word; swapping & for | matches memories with any of them
+    const tsQuery = sql`replace(plainto_tsquery('english', ${query.text})::text, '&', '|')::tsquery`;
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery})`;
+
+    const rows = await db.select({ memory: chatMemory, rank })
+      .from(chatMemory)
+      .where(and(...this.filterConditions(query), sql`${document} @@ ${tsQuery}`))
+      .orderBy(desc(rank))
+      .limit(limit);
+
+    return rows.map(row => ({ memory: row.memory, score: Number(row.rank) }));
+  }
+
+  /**
+   * Record that memories were retrieved (last accessed time and access count)
+   */
+  public async recordAccess(memories: ChatMemory[]): Promise<void> {
+    const memoryIds = memories.map(m => m.id);
+    if (memoryIds.length === 0 || !this.isOnline) {
+      return;
+    }
+
+    // Use proper parameterized query with the "in" operator from drizzle-orm
+    // This avoids SQL injection and incorrect string conversion issues
+    await db.update(chatMemory)
+      .set({ 
+        lastAccessed: new Date(),
+        accessCount: sql`${chatMemory.accessCount} + 1`
+      })
+      .where(
+        // Use the SQL template properly to handle array of IDs
+        sql`${chatMemory.id} IN (${sql.join(memoryIds, sql`, `)})`
+      );
+  }
+
+  /**
+   * Database conditions for a memory query's filters (everything except the text)
+   */
+  private filterConditions(query: MemoryQuery): SQL[] {
     const conditions = [eq(chatMemory.userId, query.userId)];
     
     // Apply filters
@@ -180,53 +280,18 @@ export class EnhancedMemoryManager {
     // Don't return expired memories unless specifically requested
     if (!query.includeExpired) {
       conditions.push(
-        sql`${chatMemory.expiresAt} IS NULL OR ${chatMemory.expiresAt} > NOW()`
+        sql`(${chatMemory.expiresAt} IS NULL OR ${chatMemory.expiresAt} > NOW())`
       );
     }
-    
-    // Apply vector similarity search if text query is provided and we have OpenAI API
-    if (query.text && openai) {
-      const embeddings = await this.generateEmbeddings(query.text);
-      // For PostgreSQL with pgvector extension, we would use:
-      // sql`embeddings <-> ${JSON.stringify(embeddings)}`
-      // But for now, we'll just fetch and do client-side filtering
-    }
-    
-    let dbQuery = db.select()
-      .from(chatMemory)
-      .where(and(...conditions))
-      .orderBy(desc(chatMemory.createdAt));
-    
-    if (query.limit) {
-      dbQuery = dbQuery.limit(query.limit);
-    }
-    
-    const memories = await dbQuery;
-    
-    // Update access counts for retrieved memories
-    const memoryIds = memories.map(m => m.id);
-    if (memoryIds.length > 0) {
-      // Use proper parameterized query with the "in" operator from drizzle-orm
-      // This avoids SQL injection and incorrect string conversion issues
-      await db.update(chatMemory)
-        .set({ 
-          lastAccessed: new Date(),
-          accessCount: sql`${chatMemory.accessCount} + 1`
-        })
-        .where(
-          // Use the SQL template properly to handle array of IDs
-          sql`${chatMemory.id} IN (${sql.join(memoryIds, sql`, `)})`
-        );
-    }
-    
-    // If we did a text search and have embeddings, sort by similarity
-    if (query.text && openai) {
-      const queryEmbeddings = await this.generateEmbeddings(query.text);
-      // Sort by cosine similarity (client-side)
-      return this.sortBySimilarity(memories, queryEmbeddings);
-    }
-    
-    return memories;
+
+    return conditions;
+  }
+
+  /**
+   * Cosine distance from a query embedding; null for memories not embedded by the active model
+   */
+  private embeddingDistance(queryEmbedding: number[]): SQL {
+    return sql`CASE WHEN ${chatMemory.embeddingModel} = ${embeddingProvider!.model} THEN ${cosineDistance(chatMemory.embedding, queryEmbedding)} END`;
   }
 
   /**
@@ -319,12 +384,9 @@ export class EnhancedMemoryManager {
     for (const operation of sortedOperations) {
       try {
         if (operation.type === 'create') {
-          const memory = operation.memory as InsertChatMemory;
-          if (!memory.embeddings && memory.content && openai) {
-            const embeddings = await this.generateEmbeddings(memory.content);
-            memory.embeddings = JSON.stringify(embeddings);
-          }
-          await db.insert(chatMemory).values(memory);
+          const { id, ...memory } = operation.memory as ChatMemory; // The temporary ID is not kept
+          const embedding = await this.embedContent(memory.content);
+          await db.insert(chatMemory).values({ ...memory, ...embedding });
         }
         // Other operation types like 'update' and 'delete' would be handled here
       } catch (error) {
@@ -338,80 +400,29 @@ export class EnhancedMemoryManager {
   }
 
   /**
-   * Generate embeddings for a text using OpenAI
-   */
-  private async generateEmbeddings(text: string): Promise<number[]> {
-    if (!openai) {
-      return [];
-    }
-    
-    try {
-      const response = await openai.embeddings.create({
-        model: "text-embedding-ada-002",
-        input: text
-      });
-      
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error('Error generating embeddings:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Sort memories by similarity to query embeddings
+   * Embedding columns for a memory's content; empty when embeddings are disabled or fail,
+   * leaving the memory for scripts/reembed-chat-memory.ts
    */
-  private sortBySimilarity(memories: ChatMemory[], queryEmbeddings: number[]): ChatMemory[] {
-    // Calculate cosine similarity for each memory
-    const memoriesWithSimilarity = memories.map(memory => {
-      let similarity = 0;
-      
-      // Parse embeddings if available
-      try {
-        if (memory.embeddings) {
-          const memoryEmbeddings = JSON.parse(memory.embeddings);
-          similarity = this.calculateCosineSimilarity(queryEmbeddings, memoryEmbeddings);
-        }
-      } catch (error) {
-        console.error('Error parsing memory embeddings:', error);
-      }
-      
-      return { memory, similarity };
-    });
-    
-    // Sort by similarity (highest first)
-    memoriesWithSimilarity.sort((a, b) => b.similarity - a.similarity);
-    
-    // Return just the memories
-    return memoriesWithSimilarity.map(m => m.memory);
+  private async embedContent(content: string): Promise<{ embedding?: number[]; embeddingModel?: string }> {
+    const embedding = await this.generateEmbedding(content);
+    return embedding && embeddingProvider ? { embedding, embeddingModel: embeddingProvider.model } : {};
   }
 
   /**
-   * Calculate cosine similarity between two vectors
+   * Generate an embedding for a text with the configured provider
    */
-  private calculateCosineSimilarity(vecA: number[], vecB: number[]): number {
-    if (vecA.length === 0 || vecB.length === 0 || vecA.length !== vecB.length) {
-      return 0;
-    }
-    
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < vecA.length; i++) {
-      dotProduct += vecA[i] * vecB[i];
-      normA += vecA[i] * vecA[i];
-      normB += vecB[i] * vecB[i];
+  private async generateEmbedding(text: string): Promise<number[] | null> {
+    if (!embeddingProvider) {
+      return null;
     }
     
-    normA = Math.sqrt(normA);
-    normB = Math.sqrt(normB);
-    
-    if (normA === 0 || normB === 0) {
-      return 0;
+    try {
+      const [embedding] = await embeddingProvider.embed([text]);
+      return embedding;
+    } catch (error) {
+      console.error('Error generating embeddings:', error);
+      return null;
     }
-    
-    return dotProduct / (normA * normB);
   }
 
   /**
@@ -1,7 +1,8 @@
 import { db } from "../db";
-import { healthMetrics, patientScores, patientBadges, featureUsage, chatMemory, progressMilestones } from "@shared/schema";
+import { healthMetrics, patientScores, patientBadges, featureUsage, chatMemory, progressMilestones, cpdCategories, PatientScore, FeatureUsage, CpdCategory } from "@shared/schema";
 import { eq, and, between, desc, gte, lte, avg, count, max, min } from "drizzle-orm";
 import { generateSystemRecommendations } from "./mcpService";
+import { cpdVersionService, CpdSchedule } from "../services/cpdVersionService";
 import OpenAI from "openai";
 
 // Initialize OpenAI API client
@@ -49,47 +50,55 @@ export async function analyzeScorePatterns(
       )
       .orderBy(patientScores.scoreDate);
     
-    if (!scores.length) {
-      return {
-        patternFound: false,
-        description: "Insufficient data to identify patterns",
-        consistency: 0,
-        dayOfWeekAnalysis: {},
-        weekendVsWeekday: { weekend: 0, weekday: 0 },
-        volatility: 0
-      };
-    }
-
-    // Calculate score statistics
-    const medicationScores = scores.map(s => s.medicationSelfScore).filter(Boolean) as number[];
-    const dietScores = scores.map(s => s.mealPlanSelfScore).filter(Boolean) as number[];
-    const exerciseScores = scores.map(s => s.exerciseSelfScore).filter(Boolean) as number[];
-    
-    // Process the scores to identify patterns
-    const dayOfWeekAnalysis = calculateDayOfWeekScores(scores);
-    const weekendVsWeekday = compareWeekendWeekdayScores(scores);
-    const volatility = calculateScoreVolatility([...medicationScores, ...dietScores, ...exerciseScores]);
-    const consistency = calculateConsistency(scores);
-    
-    // Deeper pattern analysis 
-    const trends = identifyScoreTrends(scores);
-    const patternFound = volatility < 2.0 || trends.hasConsistentPattern;
-    
-    return {
-      patternFound,
-      description: generatePatternDescription(trends, volatility, consistency, dayOfWeekAnalysis, weekendVsWeekday),
-      consistency,
-      dayOfWeekAnalysis,
-      weekendVsWeekday,
-      volatility,
-      trends
-    };
+    return summarizeScorePatterns(scores);
   } catch (error) {
     console.error("Error analyzing score patterns:", error);
     throw error;
   }
 }
 
+/**
+ * Pattern analysis over one patient's scores, ordered by date. Split out so the
+ * population view can analyse scores fetched for a whole panel in one query.
+ */
+export function summarizeScorePatterns(scores: PatientScore[]) {
+  if (!scores.length) {
+    return {
+      patternFound: false,
+      description: "Insufficient data to identify patterns",
+      consistency: 0,
+      dayOfWeekAnalysis: {},
+      weekendVsWeekday: { weekend: 0, weekday: 0 },
+      volatility: 0
+    };
+  }
+
+  // Calculate score statistics
+  const medicationScores = scores.map(s => s.medicationSelfScore).filter(Boolean) as number[];
+  const dietScores = scores.map(s => s.mealPlanSelfScore).filter(Boolean) as number[];
+  const exerciseScores = scores.map(s => s.exerciseSelfScore).filter(Boolean) as number[];
+  
+  // Process the scores to identify patterns
+  const dayOfWeekAnalysis = calculateDayOfWeekScores(scores);
+  const weekendVsWeekday = compareWeekendWeekdayScores(scores);
+  const volatility = calculateScoreVolatility([...medicationScores, ...dietScores, ...exerciseScores]);
+  const consistency = calculateConsistency(scores);
+  
+  // Deeper pattern analysis 
+  const trends = identifyScoreTrends(scores);
+  const patternFound = volatility < 2.0 || trends.hasConsistentPattern;
+  
+  return {
+    patternFound,
+    description: generatePatternDescription(trends, volatility, consistency, dayOfWeekAnalysis, weekendVsWeekday),
+    consistency,
+    dayOfWeekAnalysis,
+    weekendVsWeekday,
+    volatility,
+    trends
+  };
+}
+
 // Calculate average scores by day of week
 function calculateDayOfWeekScores(scores: any[]) {
   const dayScores: Record<string, { count: number, total: Record<string, number>, avg: Record<string, number> }> = {
@@ -359,38 +368,61 @@ export async function calculateAdherenceRate(
     
     if (!scores.length) return 0;
     
-    let totalScores = 0;
-    let totalPossibleScores = scores.length * 3; // 3 categories per day
-    let scoreSum = 0;
-    
-    scores.forEach(score => {
-      if (score.medicationSelfScore) {
-        totalScores++;
-        scoreSum += score.medicationSelfScore;
-      }
-      if (score.mealPlanSelfScore) {
-        totalScores++;
-        scoreSum += score.mealPlanSelfScore;
-      }
-      if (score.exerciseSelfScore) {
-        totalScores++;
-        scoreSum += score.exerciseSelfScore;
-      }
-    });
-    
-    if (totalScores === 0) return 0;
-    
-    // Calculate adherence: average score / 10 (max score) * reporting consistency
-    const averageScore = scoreSum / totalScores;
-    const reportingConsistency = totalScores / totalPossibleScores;
-    
-    return (averageScore / 10) * reportingConsistency;
+    // Each day is scored against the directive version in force that day, not today's
+    const schedule = await cpdVersionService.getSchedule(patientId);
+    return computeAdherenceRate(scores, schedule);
   } catch (error) {
     console.error("Error calculating adherence rate:", error);
     throw error;
   }
 }
 
+/**
+ * Adherence (0-1) from scores and a directive schedule already loaded, optionally for
+ * some CPD categories only. Used directly by the population view.
+ */
+export function computeAdherenceRate(
+  scores: PatientScore[],
+  schedule: CpdSchedule,
+  categories: readonly CpdCategory[] = cpdCategories
+): number {
+  let totalScores = 0;
+  let totalPossibleScores = 0;
+  let adherenceSum = 0;
+  
+  scores.forEach(score => {
+    const dailyScores = [
+      ['medication', score.medicationSelfScore],
+      ['diet', score.mealPlanSelfScore],
+      ['exercise', score.exerciseSelfScore]
+    ] as const;
+    
+    for (const [category, value] of dailyScores) {
+      if (!categories.includes(category)) continue;
+      
+      const directive = schedule.inForce(String(score.scoreDate), category);
+      
+      // Categories without a directive that day don't count (all do for patients with no CPDs at all)
+      if (!directive && schedule.hasHistory) continue;
+      
+      totalPossibleScores++;
+      if (value) {
+        totalScores++;
+        // Meeting the directive's target counts as full adherence; otherwise the 10-point scale
+        adherenceSum += directive?.targetValue ? Math.min(value / directive.targetValue, 1) : value / 10;
+      }
+    }
+  });
+  
+  if (totalScores === 0) return 0;
+  
+  // Calculate adherence: average adherence per score * reporting consistency
+  const averageAdherence = adherenceSum / totalScores;
+  const reportingConsistency = totalScores / totalPossibleScores;
+  
+  return averageAdherence * reportingConsistency;
+}
+
 // Calculate consistency metrics across different dimensions
 export async function calculateConsistencyMetrics(
   patientId: number, 
@@ -821,56 +853,70 @@ export async function calculateEngagementScore(
         )
       );
     
-    // Calculate days in the period
-    const totalDays = Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-    
-    // Calculate score components
-    
-    // 1. Daily score reporting consistency (30 points max)
-    const distinctScoreDates = new Set(scores.map(s => new Date(s.scoreDate).toISOString().split('T')[0])).size;
-    const scoringConsistency = Math.min(1, distinctScoreDates / totalDays);
-    const scoringScore = scoringConsistency * 30;
-    
-    // 2. Feature usage diversity and frequency (30 points max)
-    const distinctFeatures = new Set(featureUsageData.map(f => f.featureName)).size;
-    const totalFeatureUsage = featureUsageData.reduce((sum, f) => sum + f.usageCount, 0);
-    const featureUsageScore = Math.min(30, distinctFeatures * 3 + Math.min(15, totalFeatureUsage / 10));
-    
-    // 3. Chatbot interaction frequency (20 points max)
-    const chatFrequency = Math.min(20, chatHistoryCount[0]?.count || 0);
-    
-    // 4. Score levels (20 points max)
-    let totalScoreValue = 0;
-    let scoreCount = 0;
-    
-    scores.forEach(score => {
-      if (score.medicationSelfScore) {
-        totalScoreValue += score.medicationSelfScore;
-        scoreCount++;
-      }
-      if (score.mealPlanSelfScore) {
-        totalScoreValue += score.mealPlanSelfScore;
-        scoreCount++;
-      }
-      if (score.exerciseSelfScore) {
-        totalScoreValue += score.exerciseSelfScore;
-        scoreCount++;
-      }
-    });
-    
-    const averageScore = scoreCount > 0 ? totalScoreValue / scoreCount : 0;
-    const scoreValue = Math.min(20, averageScore * 2);
-    
-    // Calculate total engagement score (0-100)
-    const engagementScore = scoringScore + featureUsageScore + chatFrequency + scoreValue;
-    
-    return Math.round(engagementScore);
+    return computeEngagementScore(scores, featureUsageData, chatHistoryCount[0]?.count || 0, startDate, endDate);
   } catch (error) {
     console.error("Error calculating engagement score:", error);
     throw error;
   }
 }
 
+/**
+ * Engagement score (0-100) from data already loaded for the period; used by the
+ * population view, which loads the whole panel's data in a few queries.
+ */
+export function computeEngagementScore(
+  scores: PatientScore[],
+  featureUsageData: FeatureUsage[],
+  chatMessageCount: number,
+  startDate: Date,
+  endDate: Date
+): number {
+  // Calculate days in the period
+  const totalDays = Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  
+  // Calculate score components
+  
+  // 1. Daily score reporting consistency (30 points max)
+  const distinctScoreDates = new Set(scores.map(s => new Date(s.scoreDate).toISOString().split('T')[0])).size;
+  const scoringConsistency = Math.min(1, distinctScoreDates / totalDays);
+  const scoringScore = scoringConsistency * 30;
+  
+  // 2. Feature usage diversity and frequency (30 points max)
+  const distinctFeatures = new Set(featureUsageData.map(f => f.featureName)).size;
+  const totalFeatureUsage = featureUsageData.reduce((sum, f) => sum + f.usageCount, 0);
+  const featureUsageScore = Math.min(30, distinctFeatures * 3 + Math.min(15, totalFeatureUsage / 10));
+  
+  // 3. Chatbot interaction frequency (20 points max)
+  const chatFrequency = Math.min(20, chatMessageCount);
+  
+  // 4. Score levels (20 points max)
+  let totalScoreValue = 0;
+  let scoreCount = 0;
+  
+  scores.forEach(score => {
+    if (score.medicationSelfScore) {
+      totalScoreValue += score.medicationSelfScore;
+      scoreCount++;
+    }
+    if (score.mealPlanSelfScore) {
+      totalScoreValue += score.mealPlanSelfScore;
+      scoreCount++;
+    }
+    if (score.exerciseSelfScore) {
+      totalScoreValue += score.exerciseSelfScore;
+      scoreCount++;
+    }
+  });
+  
+  const averageScore = scoreCount > 0 ? totalScoreValue / scoreCount : 0;
+  const scoreValue = Math.min(20, averageScore * 2);
+  
+  // Calculate total engagement score (0-100)
+  const engagementScore = scoringScore + featureUsageScore + chatFrequency + scoreValue;
+  
+  return Math.round(engagementScore);
+}
+
 // Generate health trends data for visualizations
 export async function generateHealthTrends(
   patientId: number, 
@@ -9,9 +9,15 @@
  * enabling the agent to self-manage its memory.
  */
 
-import { enhancedMemoryManager, MemorySystem, MemoryType, ImportanceLevel } from './enhancedMemoryManager';
+import { enhancedMemoryManager, MemorySystem, MemoryType, ImportanceLevel, ScoredMemory } from './enhancedMemoryManager';
 import { ChatMemory } from '@shared/schema';
 
+const DEFAULT_SEARCH_LIMIT = 10;
+// Each search ranks this many candidates per requested result before they are merged
+const CANDIDATES_PER_RESULT = 3;
+// Reciprocal rank fusion constant; larger values flatten the gap between neighbouring ranks
+const RRF_K = 60;
+
 /**
  * Search memory tool parameters
  */
@@ -57,70 +63,54 @@ export interface ManageMemoryResult {
 }
 
 /**
- * Tool for searching memories
+ * Merge ranked search results by reciprocal rank fusion: each ranking adds 1 / (RRF_K + rank)
+ * to a memory's score, so a memory both searches found outranks one only found by either.
+ * The fused score is weighted by importance (half to full weight).
+ */
+export function fuseRankings(rankings: ScoredMemory[][]): ChatMemory[] {
+  const fused = new Map<number, ScoredMemory>();
+
+  for (const ranking of rankings) {
+    ranking.forEach(({ memory }, index) => {
+      const entry = fused.get(memory.id) ?? { memory, score: 0 };
+      entry.score += 1 / (RRF_K + index + 1);
+      fused.set(memory.id, entry);
+    });
+  }
+
+  return Array.from(fused.values())
+    .map(({ memory, score }) => ({ memory, score: score * (0.5 + (memory.importance ?? 0.5) / 2) }))
+    .sort((a, b) => b.score - a.score)
+    .map(({ memory }) => memory);
+}
+
+/**
+ * Tool for searching memories: hybrid of vector similarity (pgvector) and keyword
+ * (full-text) search, merged by reciprocal rank fusion
  */
 export async function searchMemory(params: SearchMemoryParams): Promise<SearchMemoryResult> {
   try {
     // When memorySystem is not specified, prioritize semantic for general queries
     const system = params.memorySystem || MemorySystem.SEMANTIC;
+    const limit = params.limit || DEFAULT_SEARCH_LIMIT;
     
     // Check if the query is related to food or diet
     const isFoodRelatedQuery = /food|diet|eat|meal|nutrition|breakfast|lunch|dinner|snack|vegetable|fruit|protein|carb|fat|cook|recipe/i.test(params.query);
     
-    let memories: ChatMemory[] = [];
+    const searchQuery = {
+      userId: params.userId,
+      text: params.query,
+      memorySystem: system,
+      type: params.type,
+      minImportance: params.minImportance,
+      limit: limit * CANDIDATES_PER_RESULT
+    };
+    const [vectorMatches, keywordMatches] = await Promise.all([
+      enhancedMemoryManager.searchSimilarMemories(searchQuery),
+      enhancedMemoryManager.searchKeywordMemories(searchQuery)
+    ]);
     
-    // Search based on the memory system
-    switch (system) {
-      case MemorySystem.SEMANTIC:
-        memories = await enhancedMemoryManager.getSemanticMemories(
-          params.userId,
-          params.query,
-          params.minImportance,
-          params.limit
-        );
-        break;
-      case MemorySystem.PROCEDURAL:
-        memories = await enhancedMemoryManager.getProceduralMemories(
-          params.userId,
-          params.query,
-          params.minImportance,
-          params.limit
-        );
-        break;
-      case MemorySystem.EPISODIC:
-        memories = await enhancedMemoryManager.getEpisodicMemories(
-          params.userId,
-          params.query,
-          params.minImportance,
-          params.limit
-        );
-        break;
-      default:
-        // Search all memory systems if none specified
-        const semanticMemories = await enhancedMemoryManager.getSemanticMemories(
-          params.userId,
-          params.query,
-          params.minImportance,
-          params.limit ? Math.ceil(params.limit / 3) : undefined
-        );
-        
-        const proceduralMemories = await enhancedMemoryManager.getProceduralMemories(
-          params.userId,
-          params.query,
-          params.minImportance,
-          params.limit ? Math.ceil(params.limit / 3) : undefined
-        );
-        
-        const episodicMemories = await enhancedMemoryManager.getEpisodicMemories(
-          params.userId,
-          params.query,
-          params.minImportance,
-          params.limit ? Math.ceil(params.limit / 3) : undefined
-        );
-        
-        // Combine results
-        memories = [...semanticMemories, ...proceduralMemories, ...episodicMemories];
-    }
+    let memories = fuseRankings([vectorMatches, keywordMatches]);
     
     // If this is a food-related query, fetch additional food-specific memories and prioritize them
     if (isFoodRelatedQuery) {
@@ -156,23 +146,14 @@ export async function searchMemory(params: SearchMemoryParams): Promise<SearchMe
           
           // Add unique food memories to the beginning of the result array
           memories = [...uniqueFoodMemories, ...memories];
-          
-          // Respect the original limit parameter
-          if (params.limit && memories.length > params.limit) {
-            memories = memories.slice(0, params.limit);
-          }
         }
       } catch (error) {
         // Log error but continue with original memories if food-specific search fails
         console.error('Error fetching food-specific memories:', error);
       }
     }
-    // Sort by importance and limit total results
-    memories.sort((a, b) => (b.importance || 0.5) - (a.importance || 0.5));
-    
-    if (params.limit) {
-      memories = memories.slice(0, params.limit);
-    }
+    memories = memories.slice(0, limit);
+    await enhancedMemoryManager.recordAccess(memories);
     
     return {
       memories,
@@ -1,29 +1,144 @@
 /**
  * Validates content against user's care plan directives (CPDs)
- * 
- * This implementation provides a placeholder that gives positive validation
- * In a real implementation, this would check content against the user's CPDs
+ *
+ * The deterministic rules in contentSafetyRules.ts always run and work offline.
+ * When enabled (CONTENT_SAFETY_LLM=true and an OpenAI key), single-item validations
+ * also ask an LLM for a second opinion; it can lower the score and add reasons but
+ * never clears a conflict the rules found.
  */
-export async function validateContent(content: any, userId: number): Promise<{
+
+import { openai } from './openai';
+import { cpdValidationService } from '../services/cpdValidationService';
+import {
+  evaluateContentRules,
+  extractContentText,
+  getContentDomains,
+  ContentConflict,
+  ContentDirective,
+  ContentSupport,
+  VALID_SCORE_THRESHOLD
+} from './contentSafetyRules';
+
+export interface ContentValidation {
   isValid: boolean;
   score: number;
   reasons: string[];
-}> {
-  console.log(`Validating content for user ${userId}`, content);
-  
-  // In a real implementation, we would:
-  // 1. Get the user's active CPDs
-  // 2. Extract key terms from the content
-  // 3. Use LLM to check if content aligns with CPDs
-  // 4. Return validation results
-  
+  conflicts: ContentConflict[];
+  supports: ContentSupport[];
+  source: 'rules' | 'rules+llm';
+}
+
+export interface ValidateContentOptions {
+  contentType?: string;
+  useLlm?: boolean; // Defaults to CONTENT_SAFETY_LLM
+}
+
+const LLM_TIMEOUT_MS = 8000;
+
+export async function validateContent(
+  content: any,
+  userId: number,
+  options: ValidateContentOptions = {}
+): Promise<ContentValidation> {
+  const directives = await getDirectives(userId);
+  const useLlm = options.useLlm ?? process.env.CONTENT_SAFETY_LLM === 'true';
+  return await validateAgainstDirectives(content, directives, { ...options, useLlm });
+}
+
+/**
+ * Validate a batch of results (e.g. one search) against a single CPD lookup. Rules only
+ * unless `useLlm` is passed explicitly, to keep searches fast.
+ */
+export async function validateContents(
+  contents: any[],
+  userId: number,
+  options: ValidateContentOptions = {}
+): Promise<ContentValidation[]> {
+  const directives = await getDirectives(userId);
+  return await Promise.all(contents.map(content =>
+    validateAgainstDirectives(content, directives, { ...options, useLlm: options.useLlm ?? false })
+  ));
+}
+
+async function validateAgainstDirectives(
+  content: any,
+  directives: ContentDirective[],
+  options: ValidateContentOptions
+): Promise<ContentValidation> {
+  const text = extractContentText(content);
+  const contentType = options.contentType ?? content?.contentType;
+  const rules = evaluateContentRules(text, directives, getContentDomains(contentType));
+  const validation: ContentValidation = { ...rules, source: 'rules' };
+
+  if (!options.useLlm || !process.env.OPENAI_API_KEY || directives.length === 0 || !text) {
+    return validation;
+  }
+
+  const opinion = await getLlmOpinion(text, directives);
+  if (!opinion) {
+    return validation;
+  }
+
+  const score = Math.round(Math.min(rules.score, (rules.score + opinion.score) / 2) * 100) / 100;
   return {
-    isValid: true,
-    score: 1.0,
-    reasons: ['Content validated automatically']
+    ...validation,
+    isValid: validation.isValid && score >= VALID_SCORE_THRESHOLD,
+    score,
+    reasons: [...validation.reasons, ...opinion.concerns.map(concern => `Second opinion: ${concern}`)],
+    source: 'rules+llm'
   };
 }
 
+async function getDirectives(userId: number): Promise<ContentDirective[]> {
+  const cpds = await cpdValidationService.getLatestActiveCPDs(userId);
+  return cpds.map(cpd => ({ id: cpd.id, category: cpd.category, directive: cpd.directive }));
+}
+
+async function getLlmOpinion(text: string, directives: ContentDirective[]): Promise<{ score: number; concerns: string[] } | null> {
+  const prompt = `Patient care plan directives:
+${directives.map(d => `- (${d.category}) ${d.directive}`).join('\n')}
+
+Content the patient is viewing or saving:
+"""${text.slice(0, 2000)}"""
+
+Does this content conflict with any directive? Respond with JSON only:
+{ "score": number from 0 (unsafe for this patient) to 1 (fully consistent), "concerns": ["short concern naming the directive"] }`;
+
+  try {
+    const response = await Promise.race([
+      openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: "You check health content against a patient's doctor-set care plan directives. You are non-diagnostic and only flag conflicts. Return a JSON object only."
+          },
+          { role: "user", content: prompt }
+        ],
+        temperature: 0,
+        ...({"response_format": { "type": "json_object" }} as any),
+      }),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), LLM_TIMEOUT_MS))
+    ]);
+
+    const parsed = response ? JSON.parse(response.choices[0]?.message?.content || '{}') : null;
+    if (!parsed || typeof parsed.score !== 'number') {
+      return null;
+    }
+
+    return {
+      score: Math.min(1, Math.max(0, parsed.score)),
+      concerns: Array.isArray(parsed.concerns)
+        ? parsed.concerns.filter((concern: unknown): concern is string => typeof concern === 'string').slice(0, 5)
+        : []
+    };
+  } catch (error) {
+    console.error('[Content Validator] LLM second opinion failed:', error);
+    return null;
+  }
+}
+
 export default {
-  validateContent
-};
\ No newline at end of file
+  validateContent,
+  validateContents
+};
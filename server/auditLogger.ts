@@ -4,8 +4,7 @@
  */
 
 import { envManager } from './environmentConfig';
-import { db } from './db';
-import { auditLog } from '@shared/schema';
+import { auditChainService } from './services/auditChainService';
 
 export interface AuditEvent {
   eventType: 'LOGIN' | 'LOGOUT' | 'DATA_ACCESS' | 'DATA_MODIFY' | 'UNAUTHORIZED_ACCESS' | 'ADMIN_ACCESS' | 'PHI_ACCESS';
@@ -40,9 +39,8 @@ class AuditLogger {
   }
 
   async logSecurityEvent(event: AuditEvent): Promise<void> {
-    const auditEntry = {
+    const auditInput = {
       eventId: crypto.randomUUID(),
-      timestamp: new Date(),
       eventType: event.eventType,
       severity: event.severity,
       userId: event.userId || null,
@@ -55,8 +53,8 @@ class AuditLogger {
     };
 
     try {
-      // Always log to database
-      await db.insert(auditLog).values(auditEntry);
+      // Always log to database, appended to the tamper-evident hash chain
+      const auditEntry = await auditChainService.append(auditInput);
 
       // Environment-specific additional logging
       switch (this.config.alerting) {
@@ -88,7 +86,7 @@ class AuditLogger {
     } catch (error) {
       console.error('Failed to log audit event:', error);
       // Fallback to console logging if database fails
-      console.log('[AUDIT FALLBACK]', auditEntry);
+      console.log('[AUDIT FALLBACK]', { ...auditInput, timestamp: new Date() });
     }
   }
 
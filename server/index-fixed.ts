@@ -163,13 +163,22 @@ const initializeApp = async () => {
   }, async () => {
     log(`serving on port ${port}`);
     
-    // Start patient engagement monitoring service
+    // Start scheduled jobs: 7PM reminders, missed-score checks and weekly PPRs
     try {
-      const { alertMonitorService } = await import("./services/alertMonitorService");
-      alertMonitorService.startMonitoring();
-      console.log('🔔 Patient Alert Monitor started: tracking daily submissions and 7PM reminders');
+      const { jobSchedulerService } = await import("./services/jobSchedulerService");
+      await jobSchedulerService.start();
+      console.log('🔔 Job Scheduler started: daily submission checks, 7PM reminders and weekly PPRs');
     } catch (error) {
-      console.error('Failed to start alert monitoring service:', error);
+      console.error('Failed to start job scheduler:', error);
+    }
+
+    // Re-escalate unacknowledged emergency alerts along practice escalation chains
+    try {
+      const { emergencyEscalationService } = await import("./services/emergencyEscalationService");
+      emergencyEscalationService.startMonitoring();
+      console.log('🚨 Emergency Escalation Monitor started: re-escalating unacknowledged alerts');
+    } catch (error) {
+      console.error('Failed to start emergency escalation monitoring:', error);
     }
   });
 };
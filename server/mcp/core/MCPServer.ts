@@ -7,32 +7,49 @@
  */
 
 import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 import { z } from 'zod';
 import { CarePlanDirective, HealthMetric } from '@shared/schema';
 import { auditLogger } from '../../auditLogger';
 import { privacyProtectionAgent } from '../../services/privacyProtectionAgent';
-
-// MCP Protocol Types
-export interface MCPRequest {
-  id: string;
-  method: string;
-  params?: any;
-}
-
-export interface MCPResponse {
-  id: string;
-  result?: any;
-  error?: {
-    code: number;
-    message: string;
-    data?: any;
-  };
-}
+import {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcParams,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcError,
+  JSON_RPC_ERRORS,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  jsonRpcError,
+  jsonRpcResult
+} from './jsonRpc';
+import { zodToJsonSchema } from './zodJsonSchema';
+import { mcpPromptRegistry } from '../prompts/promptRegistry';
+import { authorizeToolCall, ToolRateLimit } from './toolAccess';
+import { scopeContextToPatient } from './context';
+
+// Newest first; initialize answers with the client's version when it is in this list
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const SERVER_INFO = {
+  name: 'kgc-healthcare',
+  title: 'KGC Healthcare MCP Server',
+  version: '1.1.0'
+};
 
 export interface MCPTool {
   name: string;
   description: string;
   inputSchema: z.ZodSchema;
+  access: {
+    roles: MCPContext['userRole'][]; // Roles that may call the tool
+    dataType: string; // Recorded in the audit log
+    writeActions?: string[]; // Values of the `action` argument audited as writes
+    rateLimit?: ToolRateLimit; // Defaults to DEFAULT_TOOL_RATE_LIMIT
+  };
   handler: (params: any, context: MCPContext) => Promise<any>;
 }
 
@@ -52,29 +69,75 @@ export interface MCPContext {
   sessionId: string;
   ipAddress: string;
   userAgent: string;
+  signal?: AbortSignal; // Aborted when the client cancels the request
+  reportProgress?: (progress: number, total?: number, message?: string) => void;
 }
 
-export interface MCPCapabilities {
-  tools?: boolean;
-  resources?: boolean;
-  prompts?: boolean;
-  sampling?: boolean;
+/**
+ * Protocol state for one client connection, kept by the transport
+ */
+export interface MCPSession {
+  id: string;
+  userId: number;
+  protocolVersion: string | null; // Set by initialize
+  initialized: boolean; // Set by notifications/initialized
+  clientInfo: { name: string; version: string } | null;
+  inFlight: Map<JsonRpcId, AbortController>;
+}
+
+export type MCPNotify = (notification: JsonRpcNotification) => void;
+
+// What a request acted on, filled in by the method handlers for its trace
+export interface MCPTraceDraft {
+  target: string | null; // Tool name, resource URI or prompt name
+  patientId: number | null;
+}
+
+/**
+ * Emitted as 'trace' after every request except ping (see server/mcp/tracing)
+ */
+export interface MCPTraceEvent extends MCPTraceDraft {
+  request: JsonRpcRequest;
+  response: JsonRpcResponse | null; // Null when the client cancelled the request
+  session: MCPSession;
+  context: MCPContext;
+  durationMs: number;
+}
+
+export type ToolReplayResult =
+  | { status: 'replayed'; result: Record<string, unknown>; durationMs: number }
+  | { status: 'not_replayable'; reason: string };
+
+export function createMCPSession(id: string, userId: number): MCPSession {
+  return { id, userId, protocolVersion: null, initialized: false, clientInfo: null, inFlight: new Map() };
 }
 
 export class KGCMCPServer extends EventEmitter {
   private tools: Map<string, MCPTool> = new Map();
   private resources: Map<string, MCPResource> = new Map();
-  private capabilities: MCPCapabilities = {
-    tools: true,
-    resources: true,
-    prompts: true,
-    sampling: false
+  private capabilities = {
+    tools: { listChanged: false },
+    resources: { subscribe: false, listChanged: false },
+    prompts: { listChanged: false }
   };
+  // Tools load asynchronously; requests wait for them
+  private ready: Promise<void>;
 
   constructor() {
     super();
-    this.initializeKGCTools();
-    this.initializeKGCResources();
+    this.ready = Promise.all([this.initializeKGCTools(), this.initializeKGCResources()]).then(() => undefined);
+  }
+
+  get toolCount(): number {
+    return this.tools.size;
+  }
+
+  get resourceCount(): number {
+    return this.resources.size;
+  }
+
+  getCapabilities() {
+    return this.capabilities;
   }
 
   /**
@@ -164,168 +227,296 @@ export class KGCMCPServer extends EventEmitter {
   }
 
   /**
-   * Handle incoming MCP requests
+   * Handle one JSON-RPC message from a transport. Returns the response for a request,
+   * or null for notifications, responses and cancelled requests (which get no reply).
+   * `notify` sends notifications (progress) back on the transport the request came in on.
    */
-  public async handleRequest(request: MCPRequest, context: MCPContext): Promise<MCPResponse> {
+  public async handleMessage(
+    message: JsonRpcMessage,
+    session: MCPSession,
+    context: MCPContext,
+    notify: MCPNotify
+  ): Promise<JsonRpcResponse | null> {
+    await this.ready;
+
+    if (isJsonRpcNotification(message)) {
+      this.handleNotification(message, session);
+      return null;
+    }
+    if (!isJsonRpcRequest(message)) {
+      // We never send requests to clients, so there are no responses to match
+      return null;
+    }
+
+    const controller = new AbortController();
+    const trace: MCPTraceDraft = { target: null, patientId: null };
+    const startedAt = Date.now();
+    session.inFlight.set(message.id, controller);
+
+    let response: JsonRpcResponse | null;
     try {
-      // Log the request for audit purposes
-      await auditLogger.logDataAccess({
-        userId: context.userId,
-        dataType: 'mcp_request',
-        operation: request.method,
-        ipAddress: context.ipAddress,
-        userAgent: context.userAgent,
-        details: { 
-          method: request.method, 
-          toolName: request.params?.name,
-          sessionId: context.sessionId
-        }
-      });
+      const result = await this.dispatch(message, session, { ...context, signal: controller.signal }, notify, trace);
+      response = controller.signal.aborted ? null : jsonRpcResult(message.id, result);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        response = null;
+      } else if (error instanceof JsonRpcError) {
+        response = jsonRpcError(message.id, error.code, error.message, error.data);
+      } else {
+        console.error('[KGC MCP Server] Error handling request:', error);
+        response = jsonRpcError(
+          message.id,
+          JSON_RPC_ERRORS.internalError,
+          'Internal error',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      }
+    } finally {
+      session.inFlight.delete(message.id);
+    }
 
-      switch (request.method) {
-        case 'initialize':
-          return this.handleInitialize(request);
-        
-        case 'tools/list':
-          return this.handleToolsList(request);
-        
-        case 'tools/call':
-          return await this.handleToolCall(request, context);
-        
-        case 'resources/list':
-          return this.handleResourcesList(request);
-        
-        case 'resources/read':
-          return await this.handleResourceRead(request, context);
-        
-        default:
-          return {
-            id: request.id,
-            error: {
-              code: -32601,
-              message: `Method not found: ${request.method}`
-            }
-          };
+    if (message.method !== 'ping') {
+      const event: MCPTraceEvent = { request: message, response, session, context, ...trace, durationMs: Date.now() - startedAt };
+      this.emit('trace', event);
+    }
+    return response;
+  }
+
+  private async dispatch(
+    request: JsonRpcRequest,
+    session: MCPSession,
+    context: MCPContext,
+    notify: MCPNotify,
+    trace: MCPTraceDraft
+  ): Promise<Record<string, unknown>> {
+    const params = request.params ?? {};
+
+    if (request.method === 'ping') {
+      return {};
+    }
+    if (request.method === 'initialize') {
+      return this.handleInitialize(params, session);
+    }
+    if (!session.protocolVersion) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'Send initialize before other requests');
+    }
+
+    switch (request.method) {
+      case 'tools/list':
+        return this.handleToolsList(context);
+
+      case 'tools/call':
+        return await this.handleToolCall(params, context, notify, trace);
+
+      case 'resources/list':
+        return this.handleResourcesList();
+
+      case 'resources/read':
+        return await this.handleResourceRead(params, context, trace);
+
+      case 'prompts/list':
+        return await this.handlePromptsList();
+
+      case 'prompts/get':
+        return await this.handlePromptGet(params, context, trace);
+
+      default:
+        throw new JsonRpcError(JSON_RPC_ERRORS.methodNotFound, `Method not found: ${request.method}`);
+    }
+  }
+
+  private handleNotification(notification: JsonRpcNotification, session: MCPSession): void {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        session.initialized = true;
+        break;
+
+      case 'notifications/cancelled': {
+        // The response is dropped; tools that watch context.signal can also stop early
+        const requestId = notification.params?.requestId;
+        session.inFlight.get(requestId)?.abort();
+        break;
       }
-    } catch (error) {
-      console.error('[KGC MCP Server] Error handling request:', error);
-      return {
-        id: request.id,
-        error: {
-          code: -32603,
-          message: 'Internal error',
-          data: error instanceof Error ? error.message : 'Unknown error'
-        }
-      };
+
+      default:
+        // Unknown notifications are ignored, as JSON-RPC requires
+        break;
     }
   }
 
   /**
-   * Handle MCP initialize request
+   * Handle MCP initialize request: agree a protocol version and declare capabilities
    */
-  private handleInitialize(request: MCPRequest): MCPResponse {
+  private handleInitialize(params: JsonRpcParams, session: MCPSession): Record<string, unknown> {
+    const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : null;
+    // Answer with the client's version when we support it, otherwise our latest
+    const protocolVersion = requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : SUPPORTED_PROTOCOL_VERSIONS[0];
+
+    session.protocolVersion = protocolVersion;
+    session.clientInfo = params.clientInfo && typeof params.clientInfo.name === 'string'
+      ? { name: params.clientInfo.name, version: String(params.clientInfo.version ?? '') }
+      : null;
+
     return {
-      id: request.id,
-      result: {
-        protocolVersion: '2024-11-05',
-        capabilities: this.capabilities,
-        serverInfo: {
-          name: 'KGC Healthcare MCP Server',
-          version: '1.0.0',
-          description: 'Model Context Protocol server for Keep Going Care healthcare platform'
-        }
-      }
+      protocolVersion,
+      capabilities: this.capabilities,
+      serverInfo: SERVER_INFO,
+      instructions: 'Keep Going Care tools act on behalf of the signed-in user. Patient tools only return that patient\'s own data, and answers should follow the patient\'s Care Plan Directives.'
     };
   }
 
   /**
    * Handle tools list request
    */
-  private handleToolsList(request: MCPRequest): MCPResponse {
-    const toolsList = Array.from(this.tools.values()).map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema.shape ? 
-        this.zodSchemaToJsonSchema(tool.inputSchema) : 
-        tool.inputSchema
-    }));
+  private handleToolsList(context: MCPContext): Record<string, unknown> {
+    // Only the tools the caller's role may use
+    const available = Array.from(this.tools.values()).filter(tool => tool.access.roles.includes(context.userRole));
+    const toolsList = available.map(tool => {
+      const schema = zodToJsonSchema(tool.inputSchema);
+      return {
+        name: tool.name,
+        description: tool.description,
+        // MCP requires an object schema at the top level
+        inputSchema: schema.type === 'object' ? schema : { type: 'object', properties: {} }
+      };
+    });
 
-    return {
-      id: request.id,
-      result: {
-        tools: toolsList
+    return { tools: toolsList };
+  }
+
+  /**
+   * Handle tool call request. Unknown tools and invalid arguments are protocol errors;
+   * a tool that fails returns an isError result so the model can see what went wrong.
+   */
+  private async handleToolCall(
+    params: JsonRpcParams,
+    context: MCPContext,
+    notify: MCPNotify,
+    trace: MCPTraceDraft
+  ): Promise<Record<string, unknown>> {
+    const { name, arguments: args } = params;
+    trace.target = typeof name === 'string' ? name : null;
+
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidParams, `Tool not found: ${name}`);
+    }
+
+    // Tools act on the patient in their userId argument; callers acting for themselves may leave it out
+    const input = { userId: context.userId, ...(args ?? {}) };
+    const parsed = tool.inputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidParams, `Invalid arguments for ${name}`, parsed.error.errors);
+    }
+
+    const patientId = typeof parsed.data.userId === 'number' ? parsed.data.userId : context.userId;
+    trace.patientId = patientId;
+    const decision = await authorizeToolCall(tool, patientId, parsed.data.action, context);
+    if (decision.status === 'denied') {
+      throw new JsonRpcError(JSON_RPC_ERRORS.accessDenied, `Access denied: ${decision.reason}`);
+    }
+    if (decision.status === 'rate_limited') {
+      throw new JsonRpcError(JSON_RPC_ERRORS.rateLimited, `Too many ${name} calls; try again shortly`, {
+        retryAfterMs: decision.retryAfterMs
+      });
+    }
+
+    // A doctor acting for a patient gets that patient's directives and metrics
+    const toolContext = patientId === context.userId ? context : await scopeContextToPatient(context, patientId);
+
+    // Progress goes to the client only when it asked for it with a progress token
+    const progressToken = params._meta?.progressToken;
+    const reportProgress = (progress: number, total?: number, message?: string) => {
+      if (progressToken !== undefined && !context.signal?.aborted) {
+        notify({
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: { progressToken, progress, ...(total !== undefined ? { total } : {}), ...(message ? { message } : {}) }
+        });
       }
     };
+
+    reportProgress(0, 1, `Running ${name}`);
+    const result = await this.executeTool(tool, parsed.data, { ...toolContext, reportProgress });
+    if (!result.isError) {
+      reportProgress(1, 1);
+    }
+    return result;
   }
 
   /**
-   * Handle tool call request
+   * Re-run a recorded tool call against current data (admin trace replay). The original
+   * caller's access is checked again, as it may have changed since; calls that write are
+   * never replayed.
    */
-  private async handleToolCall(request: MCPRequest, context: MCPContext): Promise<MCPResponse> {
-    const { name, arguments: args } = request.params;
-    
+  public async replayToolCall(name: string, args: unknown, context: MCPContext): Promise<ToolReplayResult> {
+    await this.ready;
+
     const tool = this.tools.get(name);
     if (!tool) {
-      return {
-        id: request.id,
-        error: {
-          code: -32602,
-          message: `Tool not found: ${name}`
-        }
-      };
+      return { status: 'not_replayable', reason: `Tool ${name} no longer exists` };
     }
 
+    const parsed = tool.inputSchema.safeParse(args);
+    if (!parsed.success) {
+      return { status: 'not_replayable', reason: 'The recorded arguments no longer match the tool\'s input schema' };
+    }
+    if ((tool.access.writeActions ?? []).includes(parsed.data.action)) {
+      return { status: 'not_replayable', reason: `${name} ${parsed.data.action} changes patient data` };
+    }
+
+    const patientId = typeof parsed.data.userId === 'number' ? parsed.data.userId : context.userId;
+    const decision = await authorizeToolCall(tool, patientId, parsed.data.action, context);
+    if (decision.status === 'denied') {
+      return { status: 'not_replayable', reason: `The original caller no longer has access: ${decision.reason}` };
+    }
+    if (decision.status === 'rate_limited') {
+      return { status: 'not_replayable', reason: `The original caller is rate limited for ${name}; try again shortly` };
+    }
+
+    const startedAt = Date.now();
+    const result = await this.executeTool(tool, parsed.data, context);
+    return { status: 'replayed', result, durationMs: Date.now() - startedAt };
+  }
+
+  /**
+   * Run a tool handler with privacy protection. Handler errors become an isError result.
+   */
+  private async executeTool(tool: MCPTool, args: unknown, context: MCPContext): Promise<Record<string, unknown>> {
+    const privacySession = randomUUID();
     try {
-      // Validate input parameters
-      const validatedArgs = tool.inputSchema.parse(args);
-      
-      // Apply privacy protection if needed
-      const protectedArgs = await privacyProtectionAgent.anonymizeData(
-        JSON.stringify(validatedArgs),
-        context.userId,
-        `mcp-tool-${name}`
-      );
-      
+      // Apply privacy protection to the arguments
+      const { anonymizedText } = privacyProtectionAgent.anonymize(JSON.stringify(args), privacySession);
+
       // Execute the tool
-      const result = await tool.handler(
-        JSON.parse(protectedArgs.anonymizedData), 
-        context
-      );
+      const result = await tool.handler(JSON.parse(anonymizedText), context);
 
-      // De-anonymize the result if needed
-      const finalResult = protectedArgs.hasPersonalData ? 
-        await privacyProtectionAgent.deanonymizeData(
-          JSON.stringify(result),
-          protectedArgs.sessionId
-        ) : result;
+      // De-anonymize the result
+      const text = privacyProtectionAgent.deAnonymize(
+        typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+        privacySession
+      );
 
       return {
-        id: request.id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: typeof finalResult === 'string' ? finalResult : JSON.stringify(finalResult, null, 2)
-            }
-          ]
-        }
+        content: [{ type: 'text', text }]
       };
     } catch (error) {
-      console.error(`[KGC MCP Server] Error executing tool ${name}:`, error);
+      console.error(`[KGC MCP Server] Error executing tool ${tool.name}:`, error);
       return {
-        id: request.id,
-        error: {
-          code: -32603,
-          message: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
+        content: [{ type: 'text', text: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+        isError: true
       };
+    } finally {
+      privacyProtectionAgent.clearSession(privacySession);
     }
   }
 
   /**
    * Handle resources list request
    */
-  private handleResourcesList(request: MCPRequest): MCPResponse {
+  private handleResourcesList(): Record<string, unknown> {
     const resourcesList = Array.from(this.resources.values()).map(resource => ({
       uri: resource.uri,
       name: resource.name,
@@ -333,87 +524,109 @@ export class KGCMCPServer extends EventEmitter {
       mimeType: resource.mimeType
     }));
 
-    return {
-      id: request.id,
-      result: {
-        resources: resourcesList
-      }
-    };
+    return { resources: resourcesList };
   }
 
   /**
    * Handle resource read request
    */
-  private async handleResourceRead(request: MCPRequest, context: MCPContext): Promise<MCPResponse> {
-    const { uri } = request.params;
-    
-    const resource = this.resources.get(uri);
+  private async handleResourceRead(params: JsonRpcParams, context: MCPContext, trace: MCPTraceDraft): Promise<Record<string, unknown>> {
+    const { uri } = params;
+    trace.target = typeof uri === 'string' ? uri : null;
+    trace.patientId = context.userId;
+
+    const resource = typeof uri === 'string' ? this.resources.get(uri) : undefined;
     if (!resource) {
-      return {
-        id: request.id,
-        error: {
-          code: -32602,
-          message: `Resource not found: ${uri}`
-        }
-      };
+      throw new JsonRpcError(JSON_RPC_ERRORS.resourceNotFound, `Resource not found: ${uri}`, { uri });
     }
 
+    await this.auditAccess(context, `mcp_resource:${uri}`);
+
     try {
       const data = await resource.handler(uri, context);
-      
+
       return {
-        id: request.id,
-        result: {
-          contents: [
-            {
-              uri,
-              mimeType: resource.mimeType,
-              text: JSON.stringify(data, null, 2)
-            }
-          ]
-        }
+        contents: [
+          {
+            uri,
+            mimeType: resource.mimeType,
+            text: JSON.stringify(data, null, 2)
+          }
+        ]
       };
     } catch (error) {
       console.error(`[KGC MCP Server] Error reading resource ${uri}:`, error);
-      return {
-        id: request.id,
-        error: {
-          code: -32603,
-          message: `Resource read failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }
-      };
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.internalError,
+        `Resource read failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
   /**
-   * Convert Zod schema to JSON Schema (simplified)
+   * Handle prompts list request
    */
-  private zodSchemaToJsonSchema(schema: z.ZodSchema): any {
-    // This is a simplified conversion - in production you'd use a library like zod-to-json-schema
-    if (schema instanceof z.ZodObject) {
-      const properties: any = {};
-      const shape = schema.shape;
-      
-      for (const [key, value] of Object.entries(shape)) {
-        if (value instanceof z.ZodString) {
-          properties[key] = { type: 'string' };
-        } else if (value instanceof z.ZodNumber) {
-          properties[key] = { type: 'number' };
-        } else if (value instanceof z.ZodBoolean) {
-          properties[key] = { type: 'boolean' };
-        } else {
-          properties[key] = { type: 'string' }; // fallback
-        }
-      }
-      
-      return {
-        type: 'object',
-        properties,
-        required: Object.keys(shape)
-      };
+  private async handlePromptsList(): Promise<Record<string, unknown>> {
+    const prompts = await mcpPromptRegistry.listPrompts();
+
+    return {
+      prompts: prompts.map(prompt => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+    };
+  }
+
+  /**
+   * Handle prompt get request: render the current version with the caller's Care Plan Directives
+   */
+  private async handlePromptGet(params: JsonRpcParams, context: MCPContext, trace: MCPTraceDraft): Promise<Record<string, unknown>> {
+    const { name, arguments: args = {} } = params;
+    trace.target = typeof name === 'string' ? name : null;
+    trace.patientId = context.userId;
+
+    if (typeof args !== 'object' || args === null || Object.values(args).some(value => typeof value !== 'string')) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidParams, 'Prompt arguments must be strings');
+    }
+
+    const result = await mcpPromptRegistry.renderPrompt(name, args, context.carePlanDirectives);
+    if (result.status === 'not_found') {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidParams, `Prompt not found: ${name}`);
+    }
+    if (result.status === 'missing_arguments') {
+      throw new JsonRpcError(
+        JSON_RPC_ERRORS.invalidParams,
+        `Missing required arguments for ${name}: ${result.missing.join(', ')}`,
+        { missing: result.missing }
+      );
     }
-    
-    return { type: 'object' }; // fallback
+
+    await this.auditAccess(context, `mcp_prompt:${name}`);
+
+    return {
+      description: result.prompt.description,
+      messages: [
+        { role: 'user', content: { type: 'text', text: result.text } }
+      ],
+      _meta: { version: result.prompt.version }
+    };
+  }
+
+  /**
+   * Log resource reads and prompt renders for audit purposes (tool calls are audited by authorizeToolCall)
+   */
+  private async auditAccess(context: MCPContext, dataType: string): Promise<void> {
+    await auditLogger.logDataAccess({
+      userId: context.userId,
+      accessedBy: context.userId,
+      dataType,
+      action: 'read',
+      isAdminAccess: context.userRole === 'admin',
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    });
   }
 
   /**
@@ -0,0 +1,54 @@
+/**
+ * MCP context building
+ *
+ * Both transports build the tool context the same way: the caller's identity plus the
+ * patient's active Care Plan Directives and latest health metrics, which KGC tools use
+ * to keep answers CPD-aligned.
+ */
+
+import { storage } from '../../storage';
+import { MCPContext } from './MCPServer';
+
+export type MCPUserRole = MCPContext['userRole'];
+
+export interface MCPCaller {
+  userId: number;
+  userRole: MCPUserRole;
+  sessionId: string;
+  ipAddress: string;
+  userAgent: string;
+}
+
+export async function buildMCPContext(caller: MCPCaller): Promise<MCPContext> {
+  const carePlanDirectives = await storage.getActiveCarePlanDirectives(caller.userId);
+  const healthMetrics = await storage.getLatestHealthMetricsForUser(caller.userId);
+
+  return {
+    ...caller,
+    carePlanDirectives: carePlanDirectives || [],
+    healthMetrics
+  };
+}
+
+/**
+ * Context for a tool acting on another patient (a doctor's patient): that patient's
+ * directives and metrics replace the caller's. Access must already be authorised.
+ */
+export async function scopeContextToPatient(context: MCPContext, patientId: number): Promise<MCPContext> {
+  const carePlanDirectives = await storage.getActiveCarePlanDirectives(patientId);
+  const healthMetrics = await storage.getLatestHealthMetricsForUser(patientId);
+
+  return {
+    ...context,
+    carePlanDirectives: carePlanDirectives || [],
+    healthMetrics
+  };
+}
+
+/**
+ * Map an application role onto the roles MCP tools understand; practice managers
+ * and unknown roles get the most restricted view
+ */
+export function toMCPUserRole(role: string | undefined | null): MCPUserRole {
+  return role === 'doctor' || role === 'admin' ? role : 'patient';
+}
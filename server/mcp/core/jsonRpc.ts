@@ -0,0 +1,131 @@
+/**
+ * JSON-RPC 2.0 message types and validation for the MCP transports
+ *
+ * MCP frames every message as JSON-RPC 2.0: requests carry an id and expect exactly one
+ * response, notifications carry no id and get none. Both the Streamable HTTP and the
+ * stdio transport parse incoming messages here before handing them to KGCMCPServer.
+ */
+
+export type JsonRpcId = string | number;
+export type JsonRpcParams = Record<string, any>;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: JsonRpcParams;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: JsonRpcParams;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcSuccessResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null; // Null when the request id could not be read
+  error: JsonRpcErrorObject;
+}
+
+export type JsonRpcResponse = JsonRpcSuccessResponse | JsonRpcErrorResponse;
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export const JSON_RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  resourceNotFound: -32002, // MCP-specific
+  // KGC server errors (JSON-RPC reserves -32000 to -32099 for these)
+  accessDenied: -32003,
+  rateLimited: -32004
+} as const;
+
+/**
+ * Thrown by method handlers to answer with a specific JSON-RPC error
+ */
+export class JsonRpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message;
+}
+
+export function isJsonRpcNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return 'method' in message && !('id' in message);
+}
+
+export function isJsonRpcResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+  return !('method' in message);
+}
+
+/**
+ * Validate one decoded message. Throws JsonRpcError(invalidRequest) when it is not JSON-RPC 2.0.
+ */
+export function parseJsonRpcMessage(value: unknown): JsonRpcMessage {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'Expected a JSON-RPC message object');
+  }
+
+  const message = value as Record<string, unknown>;
+  if (message.jsonrpc !== '2.0') {
+    throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'jsonrpc must be "2.0"');
+  }
+
+  const hasId = 'id' in message;
+  // MCP does not allow null ids on requests
+  if (hasId && typeof message.id !== 'string' && typeof message.id !== 'number'
+    && !(message.id === null && 'error' in message)) {
+    throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'id must be a string or number');
+  }
+
+  if ('method' in message) {
+    if (typeof message.method !== 'string' || message.method.length === 0) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'method must be a non-empty string');
+    }
+    if (message.params !== undefined && (typeof message.params !== 'object' || message.params === null || Array.isArray(message.params))) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'params must be an object');
+    }
+    return message as unknown as JsonRpcRequest | JsonRpcNotification;
+  }
+
+  if (hasId && ('result' in message || 'error' in message)) {
+    return message as unknown as JsonRpcResponse;
+  }
+
+  throw new JsonRpcError(JSON_RPC_ERRORS.invalidRequest, 'Expected a request, notification or response');
+}
+
+/**
+ * The id of a message that failed validation, if it had a usable one
+ */
+export function readRequestId(value: unknown): JsonRpcId | null {
+  const id = value && typeof value === 'object' ? (value as Record<string, unknown>).id : undefined;
+  return typeof id === 'string' || typeof id === 'number' ? id : null;
+}
+
+export function jsonRpcResult(id: JsonRpcId, result: Record<string, unknown>): JsonRpcSuccessResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+export function jsonRpcError(id: JsonRpcId | null, code: number, message: string, data?: unknown): JsonRpcErrorResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
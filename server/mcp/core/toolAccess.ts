@@ -0,0 +1,120 @@
+/**
+ * MCP tool call authorisation
+ *
+ * Every tools/call passes through here before the tool runs:
+ * 1. The caller's role must be in the tool's access.roles
+ * 2. Calls per user per tool are rate limited (sliding window)
+ * 3. The target patient (the tool's userId argument, defaulting to the caller) must be
+ *    the caller themself, or a patient in the calling doctor's care (dashboard_relationships)
+ *
+ * Each decision, allowed or not, is written to the audit log.
+ */
+
+import { auditLogger } from '../../auditLogger';
+import { isPatientOfDoctor } from '../../services/doctorPatientAccess';
+import type { MCPContext, MCPTool } from './MCPServer';
+
+export interface ToolRateLimit {
+  maxCalls: number;
+  windowMs: number;
+}
+
+export type ToolAccessDecision =
+  | { status: 'allowed'; patientId: number }
+  | { status: 'denied'; reason: string }
+  | { status: 'rate_limited'; retryAfterMs: number };
+
+export const DEFAULT_TOOL_RATE_LIMIT: ToolRateLimit = { maxCalls: 30, windowMs: 60 * 1000 };
+
+// Call timestamps per `${userId}:${toolName}`, pruned to the tool's window on each call
+const recentCalls = new Map<string, number[]>();
+
+function checkRateLimit(tool: MCPTool, userId: number): number | null {
+  const { maxCalls, windowMs } = tool.access.rateLimit ?? DEFAULT_TOOL_RATE_LIMIT;
+  const key = `${userId}:${tool.name}`;
+  const now = Date.now();
+  const calls = (recentCalls.get(key) ?? []).filter(calledAt => calledAt > now - windowMs);
+
+  if (calls.length >= maxCalls) {
+    recentCalls.set(key, calls);
+    return calls[0] + windowMs - now;
+  }
+
+  calls.push(now);
+  recentCalls.set(key, calls);
+  return null;
+}
+
+async function decide(tool: MCPTool, patientId: number, context: MCPContext): Promise<ToolAccessDecision> {
+  if (!tool.access.roles.includes(context.userRole)) {
+    return { status: 'denied', reason: `Role ${context.userRole} may not use ${tool.name}` };
+  }
+
+  const retryAfterMs = checkRateLimit(tool, context.userId);
+  if (retryAfterMs !== null) {
+    return { status: 'rate_limited', retryAfterMs };
+  }
+
+  if (patientId === context.userId) {
+    return { status: 'allowed', patientId };
+  }
+  if (context.userRole === 'doctor' && await isPatientOfDoctor(context.userId, patientId)) {
+    return { status: 'allowed', patientId };
+  }
+  if (context.userRole === 'admin') {
+    return { status: 'allowed', patientId };
+  }
+  return { status: 'denied', reason: 'Patient is not in the caller\'s care' };
+}
+
+/**
+ * Decide whether the caller may run a tool for a patient, and audit the decision
+ */
+export async function authorizeToolCall(
+  tool: MCPTool,
+  patientId: number,
+  action: string | undefined,
+  context: MCPContext
+): Promise<ToolAccessDecision> {
+  const decision = await decide(tool, patientId, context);
+  const isWrite = action !== undefined && (tool.access.writeActions ?? []).includes(action);
+  const details = {
+    source: 'mcp',
+    tool: tool.name,
+    toolAction: action ?? null,
+    dataType: tool.access.dataType,
+    action: isWrite ? 'write' : 'read',
+    role: context.userRole,
+    mcpSessionId: context.sessionId,
+    decision: decision.status
+  };
+
+  if (decision.status === 'allowed') {
+    const isAdminAccess = context.userRole === 'admin';
+    await auditLogger.logSecurityEvent({
+      eventType: isAdminAccess ? 'ADMIN_ACCESS' : 'DATA_ACCESS',
+      severity: isAdminAccess ? 'MEDIUM' : 'LOW',
+      userId: context.userId,
+      targetUserId: patientId !== context.userId ? patientId : undefined,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      details: { ...details, isAdminAccess },
+      complianceStandards: ['HIPAA', 'TGA_SaMD', 'APP']
+    });
+  } else {
+    await auditLogger.logSecurityEvent({
+      eventType: 'UNAUTHORIZED_ACCESS',
+      // Reaching for another patient's data is more serious than a wrong role or too many calls
+      severity: decision.status === 'denied' && patientId !== context.userId ? 'HIGH' : 'MEDIUM',
+      userId: context.userId,
+      targetUserId: patientId !== context.userId ? patientId : undefined,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      details: decision.status === 'denied'
+        ? { ...details, reason: decision.reason }
+        : { ...details, retryAfterMs: decision.retryAfterMs }
+    });
+  }
+
+  return decision;
+}
@@ -0,0 +1,69 @@
+/**
+ * Zod to JSON Schema conversion for MCP tool input schemas
+ *
+ * MCP hosts read each tool's inputSchema as JSON Schema. This covers the Zod types the
+ * KGC tools use (objects, strings, numbers, booleans, enums, arrays, optional and
+ * defaulted fields, descriptions); anything else is described as an unconstrained value.
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return { ...zodToJsonSchema(schema.unwrap()), ...description };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue(), ...description };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...zodToJsonSchema(schema.innerType()), ...description };
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      ...description
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    return { type: 'string', ...description };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number', ...description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value, ...description };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(schema.element), ...description };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema), ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema), ...description };
+  }
+
+  return { ...description };
+}
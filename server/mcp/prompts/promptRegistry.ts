@@ -0,0 +1,261 @@
+/**
+ * MCP prompt registry
+ *
+ * Resolves each prompt to its current version (the newest stored version, else the
+ * built-in template), renders it with the caller's arguments and Care Plan Directives,
+ * and records admin edits as new versions. Serves MCP prompts/list and prompts/get
+ * and the supervisor agent's system prompt.
+ */
+
+import { db } from '../../db';
+import { mcpPromptVersions, McpPromptVersion, PublishMcpPrompt, CarePlanDirective } from '@shared/schema';
+import { desc, eq } from 'drizzle-orm';
+import { BUILT_IN_PROMPTS, PromptDefinition } from './builtInPrompts';
+
+export interface PromptSummary extends PromptDefinition {
+  source: 'built_in' | 'stored';
+  updatedAt: Date | null;
+}
+
+export type PromptArguments = Record<string, string | undefined>;
+
+export type PromptRenderResult =
+  | { status: 'rendered'; prompt: PromptDefinition; text: string }
+  | { status: 'not_found' }
+  | { status: 'missing_arguments'; missing: string[] };
+
+export type PromptPublishResult =
+  | { status: 'published'; prompt: McpPromptVersion }
+  | { status: 'invalid_template'; reason: string };
+
+// Filled from the caller's Care Plan Directives; available to every template
+export const PROMPT_CONTEXT_VARIABLES = ['carePlanDirectives', 'dietDirective', 'exerciseDirective', 'medicationDirective'];
+
+const NO_DIRECTIVE = 'No directive set; focus on general wellness';
+// Stored versions are re-read at most this often, so edits reach every instance quickly
+const CACHE_TTL_MS = 60 * 1000;
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}\n?/g;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Template variables for a patient's active CPDs. Directives are grouped by
+ * category ('diet', 'exercise', 'medication').
+ */
+export function buildDirectiveVariables(directives: Pick<CarePlanDirective, 'category' | 'directive'>[]): Record<string, string> {
+  const forCategory = (category: string) => {
+    const matching = directives.filter(cpd => cpd.category.toLowerCase() === category);
+    return matching.length > 0 ? matching.map(cpd => cpd.directive).join('; ') : NO_DIRECTIVE;
+  };
+
+  return {
+    carePlanDirectives: directives.length > 0
+      ? directives.map(cpd => `- ${cpd.category.toUpperCase()}: ${cpd.directive}`).join('\n')
+      : `- ${NO_DIRECTIVE}`,
+    dietDirective: forCategory('diet'),
+    exerciseDirective: forCategory('exercise'),
+    medicationDirective: forCategory('medication')
+  };
+}
+
+/**
+ * Fill a template. Optional sections are dropped when their argument is empty;
+ * an optional argument used outside a section renders as nothing.
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string | undefined>): string {
+  return template
+    .replace(SECTION_PATTERN, (_, name: string, body: string) => (values[name]?.trim() ? body : ''))
+    .replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Check that every placeholder in a template is a declared argument or a context variable
+ */
+export function validatePromptTemplate(template: string, argumentNames: string[]): string | null {
+  const known = new Set([...argumentNames, ...PROMPT_CONTEXT_VARIABLES]);
+  const clash = argumentNames.find(name => PROMPT_CONTEXT_VARIABLES.includes(name));
+  if (clash) {
+    return `"${clash}" is filled from the patient's care plan and cannot be an argument`;
+  }
+
+  const withoutSections = template.replace(SECTION_PATTERN, (_, name: string, body: string) => `{{${name}}}${body}`);
+  if (/\{\{[#/]/.test(withoutSections)) {
+    return 'Every {{#section}} needs a matching {{/section}}';
+  }
+
+  for (const [, name] of Array.from(withoutSections.matchAll(PLACEHOLDER_PATTERN))) {
+    if (!known.has(name)) {
+      return `Unknown placeholder {{${name}}}`;
+    }
+  }
+  return null;
+}
+
+export class MCPPromptRegistry {
+  private cache: { loadedAt: number; latest: Map<string, McpPromptVersion> } | null = null;
+
+  /**
+   * Current version of every prompt, built-in and admin-created
+   */
+  async listPrompts(): Promise<PromptSummary[]> {
+    const latest = await this.getLatestStored();
+    const summaries: PromptSummary[] = BUILT_IN_PROMPTS.map(prompt => {
+      const stored = latest.get(prompt.name);
+      return stored ? this.fromStored(stored) : { ...prompt, source: 'built_in', updatedAt: null };
+    });
+
+    for (const stored of Array.from(latest.values())) {
+      if (!BUILT_IN_PROMPTS.some(prompt => prompt.name === stored.name)) {
+        summaries.push(this.fromStored(stored));
+      }
+    }
+    return summaries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPrompt(name: string): Promise<PromptDefinition | null> {
+    const stored = (await this.getLatestStored()).get(name);
+    return stored ? this.fromStored(stored) : BUILT_IN_PROMPTS.find(prompt => prompt.name === name) ?? null;
+  }
+
+  /**
+   * Every version of a prompt, newest first; the built-in template is listed last
+   */
+  async listVersions(name: string): Promise<PromptSummary[]> {
+    const stored = await db.select()
+      .from(mcpPromptVersions)
+      .where(eq(mcpPromptVersions.name, name))
+      .orderBy(desc(mcpPromptVersions.version));
+
+    const versions = stored.map(row => this.fromStored(row));
+    const builtIn = BUILT_IN_PROMPTS.find(prompt => prompt.name === name);
+    if (builtIn) {
+      versions.push({ ...builtIn, source: 'built_in', updatedAt: null });
+    }
+    return versions;
+  }
+
+  /**
+   * Render the current version of a prompt for a patient
+   */
+  async renderPrompt(
+    name: string,
+    args: PromptArguments,
+    directives: Pick<CarePlanDirective, 'category' | 'directive'>[]
+  ): Promise<PromptRenderResult> {
+    const prompt = await this.getPrompt(name);
+    if (!prompt) {
+      return { status: 'not_found' };
+    }
+
+    const missing = prompt.arguments
+      .filter(argument => argument.required && !args[argument.name]?.trim())
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      return { status: 'missing_arguments', missing };
+    }
+
+    // Only declared arguments reach the template; CPD context cannot be overridden
+    const values: Record<string, string | undefined> = {};
+    for (const argument of prompt.arguments) {
+      values[argument.name] = args[argument.name];
+    }
+    const text = renderPromptTemplate(prompt.template, { ...values, ...buildDirectiveVariables(directives) });
+
+    return { status: 'rendered', prompt, text };
+  }
+
+  /**
+   * Publish an edited prompt as its next version (or create a new prompt)
+   */
+  async publishVersion(name: string, input: PublishMcpPrompt, authorId: number): Promise<PromptPublishResult> {
+    const reason = validatePromptTemplate(input.template, input.arguments.map(argument => argument.name));
+    if (reason) {
+      return { status: 'invalid_template', reason };
+    }
+
+    const [current] = await db.select({ version: mcpPromptVersions.version })
+      .from(mcpPromptVersions)
+      .where(eq(mcpPromptVersions.name, name))
+      .orderBy(desc(mcpPromptVersions.version))
+      .limit(1);
+    const builtInVersion = BUILT_IN_PROMPTS.find(prompt => prompt.name === name)?.version ?? 0;
+
+    const [created] = await db.insert(mcpPromptVersions)
+      .values({
+        name,
+        version: Math.max(current?.version ?? 0, builtInVersion) + 1,
+        title: input.title,
+        description: input.description,
+        arguments: input.arguments,
+        template: input.template,
+        changeNote: input.changeNote ?? null,
+        authorId
+      })
+      .returning();
+
+    this.cache = null;
+    return { status: 'published', prompt: created };
+  }
+
+  /**
+   * Make an earlier version current again by publishing a copy of it
+   */
+  async restoreVersion(name: string, version: number, authorId: number): Promise<PromptPublishResult | null> {
+    const previous = (await this.listVersions(name)).find(prompt => prompt.version === version);
+    if (!previous) {
+      return null;
+    }
+
+    return await this.publishVersion(name, {
+      title: previous.title,
+      description: previous.description,
+      arguments: previous.arguments,
+      template: previous.template,
+      changeNote: `Restored version ${version}`
+    }, authorId);
+  }
+
+  private async getLatestStored(): Promise<Map<string, McpPromptVersion>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CACHE_TTL_MS) {
+      return this.cache.latest;
+    }
+
+    let rows: McpPromptVersion[];
+    try {
+      rows = await db.select()
+        .from(mcpPromptVersions)
+        .orderBy(desc(mcpPromptVersions.version));
+    } catch (error) {
+      // The chat assistant depends on these prompts; keep serving the built-ins
+      console.error('[MCP Prompts] Error loading stored prompt versions:', error);
+      return this.cache?.latest ?? new Map();
+    }
+
+    const latest = new Map<string, McpPromptVersion>();
+    for (const row of rows) {
+      if (!latest.has(row.name)) {
+        latest.set(row.name, row);
+      }
+    }
+
+    this.cache = { loadedAt: Date.now(), latest };
+    return latest;
+  }
+
+  private fromStored(row: McpPromptVersion): PromptSummary {
+    return {
+      name: row.name,
+      version: row.version,
+      title: row.title,
+      description: row.description,
+      arguments: row.arguments,
+      template: row.template,
+      source: 'stored',
+      updatedAt: row.createdAt
+    };
+  }
+}
+
+export const mcpPromptRegistry = new MCPPromptRegistry();
@@ -8,7 +8,8 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
+import { cpdVersionService, DEFAULT_DIRECTIVE_TARGET } from '../../services/cpdVersionService';
+import type { CpdCategory } from '@shared/schema';
 
 // Input schema for Care Plan Directives tool
 const carePlanDirectivesInputSchema = z.object({
@@ -25,25 +26,13 @@ export const carePlanDirectivesTool: MCPTool = {
   name: 'care-plan-directives',
   description: 'Access and analyze Care Plan Directives with compliance support using CBT and MI techniques',
   inputSchema: carePlanDirectivesInputSchema,
+  access: {
+    roles: ['patient', 'doctor'],
+    dataType: 'care_plan_directives'
+  },
   handler: async (params: z.infer<typeof carePlanDirectivesInputSchema>, context: MCPContext) => {
     const { userId, action, category, includeHistory } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s care plan directives');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'care_plan_directives',
-      action: 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'get_status':
@@ -228,40 +217,63 @@ async function analyzeOverallCompliance(userId: number, cpds: any[]) {
     };
   }
 
-  const medicationCPDs = cpds.filter(cpd => cpd.category.toLowerCase().includes('medication'));
-  const dietCPDs = cpds.filter(cpd => cpd.category.toLowerCase().includes('diet'));
-  const exerciseCPDs = cpds.filter(cpd => cpd.category.toLowerCase().includes('exercise'));
+  // Each day is scored against the directive version in force that day, so a changed
+  // directive doesn't rewrite how earlier days are judged
+  const schedule = await cpdVersionService.getSchedule(userId);
+  const scoreKeys = { medication: 'medicationScore', diet: 'dietScore', exercise: 'exerciseScore' } as const;
+
+  const meetsDirective = (metric: any, category: CpdCategory) => {
+    const directive = schedule.inForce(metric.date, category);
+    return metric[scoreKeys[category]] >= (directive?.targetValue ?? DEFAULT_DIRECTIVE_TARGET);
+  };
+
+  const analyzeCategory = (category: CpdCategory) => {
+    const scores: number[] = recentMetrics.map(m => m[scoreKeys[category]]);
+    const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const directedDays = recentMetrics.filter(m => schedule.inForce(m.date, category));
+    const daysMeetingDirective = directedDays.filter(m => meetsDirective(m, category)).length;
+    const versionsInForce = new Set(directedDays.map(m => {
+      const directive = schedule.inForce(m.date, category)!;
+      return `${directive.directiveId}:${directive.version}`;
+    }));
+
+    // Share of days meeting that day's directive; the score average when no directive applied
+    const compliance = directedDays.length > 0
+      ? complianceFromRate(daysMeetingDirective / directedDays.length)
+      : average >= 8 ? 'excellent' : average >= 7 ? 'good' : average >= 6 ? 'moderate' : 'needs_improvement';
+
+    return {
+      hasDirectives: directedDays.length > 0 || cpds.some(cpd => cpd.category.toLowerCase().includes(category)),
+      averageScore: Number(average.toFixed(1)),
+      daysWithDirective: directedDays.length,
+      daysMeetingDirective,
+      directiveVersionsInForce: versionsInForce.size,
+      compliance
+    };
+  };
 
-  const avgMedication = recentMetrics.reduce((sum, m) => sum + m.medicationScore, 0) / recentMetrics.length;
-  const avgDiet = recentMetrics.reduce((sum, m) => sum + m.dietScore, 0) / recentMetrics.length;
-  const avgExercise = recentMetrics.reduce((sum, m) => sum + m.exerciseScore, 0) / recentMetrics.length;
+  const medication = analyzeCategory('medication');
+  const diet = analyzeCategory('diet');
+  const exercise = analyzeCategory('exercise');
 
   return {
-    medication: {
-      hasDirectives: medicationCPDs.length > 0,
-      averageScore: Number(avgMedication.toFixed(1)),
-      compliance: avgMedication >= 8 ? 'excellent' : avgMedication >= 7 ? 'good' : avgMedication >= 6 ? 'moderate' : 'needs_improvement'
-    },
-    diet: {
-      hasDirectives: dietCPDs.length > 0,
-      averageScore: Number(avgDiet.toFixed(1)),
-      compliance: avgDiet >= 8 ? 'excellent' : avgDiet >= 7 ? 'good' : avgDiet >= 6 ? 'moderate' : 'needs_improvement'
-    },
-    exercise: {
-      hasDirectives: exerciseCPDs.length > 0,
-      averageScore: Number(avgExercise.toFixed(1)),
-      compliance: avgExercise >= 8 ? 'excellent' : avgExercise >= 7 ? 'good' : avgExercise >= 6 ? 'moderate' : 'needs_improvement'
-    },
+    medication,
+    diet,
+    exercise,
     overall: {
-      averageScore: Number(((avgMedication + avgDiet + avgExercise) / 3).toFixed(1)),
+      averageScore: Number(((medication.averageScore + diet.averageScore + exercise.averageScore) / 3).toFixed(1)),
       daysTracked: recentMetrics.length,
-      excellentDays: recentMetrics.filter(m => 
-        m.medicationScore >= 8 && m.dietScore >= 8 && m.exerciseScore >= 8
+      excellentDays: recentMetrics.filter(m =>
+        meetsDirective(m, 'medication') && meetsDirective(m, 'diet') && meetsDirective(m, 'exercise')
       ).length
     }
   };
 }
 
+function complianceFromRate(rate: number): string {
+  return rate >= 0.8 ? 'excellent' : rate >= 0.6 ? 'good' : rate >= 0.4 ? 'moderate' : 'needs_improvement';
+}
+
 function generateCPDMotivation(cpds: any[], compliance: any) {
   if (compliance.overall && compliance.overall.averageScore >= 8) {
     return "Excellent work! You're consistently following your care plan directives. Your commitment to your health goals is inspiring.";
@@ -8,7 +8,6 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
 
 // Input schema for E&W Support tool
 const ewSupportInputSchema = z.object({
@@ -27,25 +26,13 @@ export const ewSupportTool: MCPTool = {
   name: 'ew-support',
   description: 'Exercise and wellness support for finding local fitness options aligned with Care Plan Directives',
   inputSchema: ewSupportInputSchema,
+  access: {
+    roles: ['patient'],
+    dataType: 'exercise_wellness'
+  },
   handler: async (params: z.infer<typeof ewSupportInputSchema>, context: MCPContext) => {
     const { userId, action, location, activityType, fitnessLevel, currentScore } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s exercise data');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'exercise_wellness',
-      action: 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'search_fitness':
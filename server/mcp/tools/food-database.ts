@@ -8,7 +8,7 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
+import { productCatalogueService } from '../../services/productCatalogueService';
 
 // Input schema for Food Database tool
 const foodDatabaseInputSchema = z.object({
@@ -27,25 +27,13 @@ export const foodDatabaseTool: MCPTool = {
   name: 'food-database',
   description: 'Australian food database with nutritional information and FoodSwitch integration for CPD-aligned food choices',
   inputSchema: foodDatabaseInputSchema,
+  access: {
+    roles: ['patient'],
+    dataType: 'food_database'
+  },
   handler: async (params: z.infer<typeof foodDatabaseInputSchema>, context: MCPContext) => {
     const { userId, action, foodName, barcode, mealDescription, comparisonFoods } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s food data');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'food_database',
-      action: 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'search_food':
@@ -204,13 +192,13 @@ async function compareFoods(userId: number, context: MCPContext, comparisonFoods
 }
 
 /**
- * Scan barcode for product information
+ * Scan barcode for product information from the local product catalogue
  */
 async function scanBarcode(userId: number, context: MCPContext, barcode?: string) {
   if (!barcode) {
     return {
       message: "Please provide a barcode number for product lookup.",
-      suggestion: "Use the FoodSwitch app to scan barcodes for detailed product information"
+      suggestion: "Enter the number printed under the barcode or scan it with the camera on the Food Database page"
     };
   }
 
@@ -219,25 +207,7 @@ async function scanBarcode(userId: number, context: MCPContext, barcode?: string
     cpd.category.toLowerCase().includes('nutrition')
   );
 
-  return {
-    productInfo: {
-      barcode: barcode,
-      productName: "Sample Australian Product",
-      brand: "Australian Brand",
-      nutritionFacts: generateBarcodeNutrition(),
-      ingredients: ["Ingredient 1", "Ingredient 2", "Ingredient 3"],
-      healthStarRating: 4.0,
-      foodSwitchRating: "Good Choice"
-    },
-    cpdAnalysis: analyzeBarcodeProductForCPDs(barcode, dietCPDs),
-    healthAlerts: generateProductHealthAlerts(barcode, dietCPDs),
-    alternatives: suggestBetterProducts(barcode, dietCPDs),
-    kgcFeatureSuggestions: [{
-      feature: "FoodSwitch App Integration",
-      reason: "Scan more products for comprehensive nutrition information",
-      urgency: "low"
-    }]
-  };
+  return await productCatalogueService.scanBarcode(barcode, dietCPDs);
 }
 
 /**
@@ -557,41 +527,3 @@ function generateComparisonTips(foods: string[]): string[] {
     "Factor in your personal taste preferences and dietary needs"
   ];
 }
-
-function generateBarcodeNutrition() {
-  return {
-    per100g: {
-      energy: "1200 kJ",
-      protein: "8.5g",
-      totalFat: "3.2g",
-      carbohydrate: "45g",
-      sodium: "280mg"
-    }
-  };
-}
-
-function analyzeBarcodeProductForCPDs(barcode: string, dietCPDs: any[]) {
-  return {
-    overallRating: "Suitable with modifications",
-    specificNotes: "Consider portion size in relation to your dietary goals"
-  };
-}
-
-function generateProductHealthAlerts(barcode: string, dietCPDs: any[]) {
-  return [
-    {
-      type: "info",
-      message: "Moderate sodium content - be mindful of total daily intake"
-    }
-  ];
-}
-
-function suggestBetterProducts(barcode: string, dietCPDs: any[]) {
-  return [
-    {
-      productName: "Lower sodium alternative",
-      reason: "Better aligns with heart-healthy goals",
-      availability: "Available at major supermarkets"
-    }
-  ];
-}
\ No newline at end of file
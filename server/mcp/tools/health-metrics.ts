@@ -8,7 +8,6 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
 
 // Input schema for health metrics tool
 const healthMetricsInputSchema = z.object({
@@ -26,25 +25,13 @@ export const healthMetricsTool: MCPTool = {
   name: 'health-metrics',
   description: 'Access patient daily self-scores and health tracking data with trend analysis',
   inputSchema: healthMetricsInputSchema,
+  access: {
+    roles: ['patient', 'doctor'],
+    dataType: 'health_metrics'
+  },
   handler: async (params: z.infer<typeof healthMetricsInputSchema>, context: MCPContext) => {
     const { userId, action, startDate, endDate, period } = params;
 
-    // Ensure user can only access their own data (unless admin/doctor with proper access)
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s health metrics');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'health_metrics',
-      action: 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'get_latest':
@@ -8,7 +8,6 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
 
 // Input schema for Inspiration Machine D tool
 const inspirationMachineDInputSchema = z.object({
@@ -33,25 +32,13 @@ export const inspirationMachineDTool: MCPTool = {
   name: 'inspiration-machine-d',
   description: 'Personalized meal planning and recipe suggestions aligned with Care Plan Directives using CBT and MI techniques',
   inputSchema: inspirationMachineDInputSchema,
+  access: {
+    roles: ['patient'],
+    dataType: 'meal_planning'
+  },
   handler: async (params: z.infer<typeof inspirationMachineDInputSchema>, context: MCPContext) => {
     const { userId, action, mealType, preferences, currentScore, challengeArea, motivationLevel } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s meal planning data');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logSecurityEvent({
-      eventType: 'DATA_ACCESS',
-      severity: 'LOW',
-      userId: context.userId,
-      targetUserId: userId,
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent,
-      details: { action, mealType, currentScore, dataType: 'meal_planning' }
-    });
-
     try {
       switch (action) {
         case 'get_ideas':
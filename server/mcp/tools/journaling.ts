@@ -8,18 +8,45 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
+import { journalCategories, journalMoods, type JournalEntry } from '@shared/schema';
+import { sentimentService, type SentimentResult, type Emotion } from '../../services/sentimentService';
+
+type JournalCategory = typeof journalCategories[number];
+type JournalMood = typeof journalMoods[number];
 
 // Input schema for Journaling tool
 const journalingInputSchema = z.object({
   userId: z.number(),
   action: z.enum(['create_entry', 'get_entries', 'analyze_patterns', 'guided_reflection']),
   entryText: z.string().optional(),
-  category: z.enum(['general', 'medication', 'diet', 'exercise', 'emotional', 'goals']).optional(),
-  mood: z.enum(['excellent', 'good', 'neutral', 'challenging', 'difficult']).optional(),
+  category: z.enum(journalCategories).optional(),
+  mood: z.enum(journalMoods).optional(),
   timePeriod: z.enum(['week', 'month', 'quarter']).optional().default('month')
 });
 
+const PERIOD_DAYS: Record<string, number> = {
+  week: 7,
+  month: 30,
+  quarter: 90
+};
+
+// Ordinal mood scale used for trend and variability calculations
+const MOOD_SCORES: Record<string, number> = {
+  excellent: 5,
+  good: 4,
+  neutral: 3,
+  challenging: 2,
+  difficult: 1
+};
+
+// Reflection themes surfaced for each emotion the sentiment engine detects
+const EMOTIONAL_THEMES: Record<Emotion, string> = {
+  joy: 'achievement and pride',
+  sadness: 'low mood and fatigue',
+  anger: 'frustration and challenges',
+  anxiety: 'stress management'
+};
+
 /**
  * Journaling Tool Implementation
  */
@@ -27,25 +54,14 @@ export const journalingTool: MCPTool = {
   name: 'journaling',
   description: 'Health journey documentation with CBT and MI techniques for self-reflection and progress tracking',
   inputSchema: journalingInputSchema,
+  access: {
+    roles: ['patient'],
+    dataType: 'journaling',
+    writeActions: ['create_entry']
+  },
   handler: async (params: z.infer<typeof journalingInputSchema>, context: MCPContext) => {
     const { userId, action, entryText, category, mood, timePeriod } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s journal entries');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'journaling',
-      action: action === 'create_entry' ? 'write' : 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'create_entry':
@@ -73,7 +89,7 @@ export const journalingTool: MCPTool = {
 /**
  * Create a new journal entry
  */
-async function createJournalEntry(userId: number, context: MCPContext, entryText?: string, category?: string, mood?: string) {
+async function createJournalEntry(userId: number, context: MCPContext, entryText?: string, category?: JournalCategory, mood?: JournalMood) {
   if (!entryText) {
     return {
       message: "Please provide text for your journal entry.",
@@ -86,25 +102,24 @@ async function createJournalEntry(userId: number, context: MCPContext, entryText
     };
   }
 
-  // Store journal entry (simplified - would use actual storage)
-  const journalEntry = {
-    id: Date.now(),
+  const sentiment = await sentimentService.analyze(entryText);
+
+  const journalEntry = await storage.createJournalEntry({
     userId,
     entryText,
     category: category || 'general',
     mood: mood || 'neutral',
-    createdAt: new Date().toISOString(),
-    cpdAlignment: analyzeCPDAlignment(entryText, context.carePlanDirectives)
-  };
+    cpdAlignment: await analyzeCPDAlignment(entryText, context.carePlanDirectives, sentiment)
+  });
 
   return {
     success: true,
     entryId: journalEntry.id,
     entryPreview: entryText.substring(0, 100) + (entryText.length > 100 ? '...' : ''),
-    cbtInsights: generateCBTInsightsFromEntry(entryText, category),
+    cbtInsights: generateCBTInsightsFromEntry(sentiment, category),
     reflectionPrompts: generateReflectionPrompts(entryText, category, context.carePlanDirectives),
-    emotionalAwareness: generateEmotionalAwareness(entryText, mood),
-    nextSteps: generateNextStepsFromEntry(entryText, category, context.carePlanDirectives)
+    emotionalAwareness: generateEmotionalAwareness(sentiment, mood),
+    nextSteps: generateNextStepsFromEntry(sentiment, category, context.carePlanDirectives)
   };
 }
 
@@ -112,38 +127,28 @@ async function createJournalEntry(userId: number, context: MCPContext, entryText
  * Get journal entries with filtering
  */
 async function getJournalEntries(userId: number, context: MCPContext, category?: string, timePeriod?: string) {
-  // Mock journal entries - would retrieve from actual storage
-  const mockEntries = [
-    {
-      id: 1,
-      entryText: "Today I successfully took all my medications on time and felt really good about it.",
-      category: 'medication',
-      mood: 'good',
-      createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-    },
-    {
-      id: 2,
-      entryText: "Struggled with my diet today. Had fast food for lunch but made a healthy dinner.",
-      category: 'diet',
-      mood: 'challenging',
-      createdAt: new Date(Date.now() - 48 * 60 * 60 * 1000).toISOString()
-    }
-  ];
-
-  const filteredEntries = category ? 
-    mockEntries.filter(entry => entry.category === category) : 
-    mockEntries;
+  const entries = await storage.getJournalEntries(userId, {
+    category,
+    since: getPeriodStartDate(timePeriod)
+  });
 
   return {
-    entries: filteredEntries,
+    entries: entries.map(entry => ({
+      id: entry.id,
+      entryText: entry.entryText,
+      category: entry.category,
+      mood: entry.mood,
+      entryDate: entry.entryDate,
+      createdAt: entry.createdAt.toISOString()
+    })),
     summary: {
-      totalEntries: filteredEntries.length,
-      categoryBreakdown: generateCategoryBreakdown(filteredEntries),
-      moodTrends: generateMoodTrends(filteredEntries),
-      cpdProgress: analyzeCPDProgressFromEntries(filteredEntries, context.carePlanDirectives)
+      totalEntries: entries.length,
+      categoryBreakdown: generateCategoryBreakdown(entries),
+      moodTrends: generateMoodTrends(entries),
+      cpdProgress: analyzeCPDProgressFromEntries(entries, context.carePlanDirectives)
     },
-    insights: generateJournalInsights(filteredEntries),
-    encouragement: generateEncouragementFromEntries(filteredEntries)
+    insights: generateJournalInsights(entries),
+    encouragement: generateEncouragementFromEntries(entries)
   };
 }
 
@@ -151,34 +156,73 @@ async function getJournalEntries(userId: number, context: MCPContext, category?:
  * Analyze patterns in journal entries
  */
 async function analyzeJournalPatterns(userId: number, context: MCPContext, timePeriod?: string) {
-  // Mock analysis - would analyze actual entries
+  const periodDays = PERIOD_DAYS[timePeriod || 'month'] || PERIOD_DAYS.month;
+  const entries = await storage.getJournalEntries(userId, {
+    since: getPeriodStartDate(timePeriod)
+  });
+
+  if (entries.length === 0) {
+    return {
+      patterns: null,
+      message: `No journal entries found in the last ${periodDays} days. Writing a few entries will let us reflect on patterns together.`,
+      guidedPrompts: generateGuidedPrompts(undefined, context.carePlanDirectives)
+    };
+  }
+
+  // Oldest first so the halves compare earlier vs later writing
+  const chronological = [...entries].sort((a, b) => toEntryTime(a) - toEntryTime(b));
+  const midpoint = Math.floor(chronological.length / 2);
+  const earlier = chronological.slice(0, midpoint);
+  const later = chronological.slice(midpoint);
+
+  const moodScores = entries.map(entry => MOOD_SCORES[entry.mood] ?? MOOD_SCORES.neutral);
+  const meanMood = moodScores.reduce((sum, score) => sum + score, 0) / moodScores.length;
+  const moodStdDev = Math.sqrt(moodScores.reduce((sum, score) => sum + Math.pow(score - meanMood, 2), 0) / moodScores.length);
+
+  const positiveCount = entries.filter(entry => entry.mood === 'excellent' || entry.mood === 'good').length;
+  const challengingCount = entries.filter(entry => entry.mood === 'challenging' || entry.mood === 'difficult').length;
+  const distinctDays = new Set(entries.map(entry => entry.entryDate)).size;
+
+  const categoryCounts = generateCategoryBreakdown(entries);
+  const rankedCategories = journalCategories
+    .map(cat => ({ category: cat, count: categoryCounts[cat] || 0 }))
+    .sort((a, b) => b.count - a.count);
+  const earlierCounts = generateCategoryBreakdown(earlier);
+  const laterCounts = generateCategoryBreakdown(later);
+  const emerging = journalCategories
+    .map(cat => ({ category: cat, growth: (laterCounts[cat] || 0) - (earlierCounts[cat] || 0) }))
+    .sort((a, b) => b.growth - a.growth)[0];
+
+  const cpdProgress = analyzeCPDProgressFromEntries(entries, context.carePlanDirectives);
+
   const patterns = {
     writingFrequency: {
-      averageEntriesPerWeek: 3.5,
-      trend: 'increasing',
-      consistency: 'good'
+      averageEntriesPerWeek: Math.round((entries.length / (periodDays / 7)) * 10) / 10,
+      trend: later.length > earlier.length ? 'increasing' : later.length < earlier.length ? 'decreasing' : 'stable',
+      consistency: distinctDays / periodDays >= 0.4 ? 'good' : distinctDays / periodDays >= 0.15 ? 'moderate' : 'low'
     },
     emotionalPatterns: {
-      dominantMood: 'good',
-      moodVariability: 'moderate',
-      positiveEntries: 65,
-      challengingEntries: 35
+      dominantMood: generateMoodTrends(entries).predominantMood,
+      moodVariability: moodStdDev >= 1.25 ? 'high' : moodStdDev >= 0.6 ? 'moderate' : 'low',
+      positiveEntries: Math.round((positiveCount / entries.length) * 100),
+      challengingEntries: Math.round((challengingCount / entries.length) * 100)
     },
     topicFocus: {
-      mostDiscussed: 'medication adherence',
-      leastDiscussed: 'exercise motivation',
-      emerging: 'emotional eating patterns'
+      mostDiscussed: rankedCategories[0].category,
+      leastDiscussed: rankedCategories[rankedCategories.length - 1].category,
+      emerging: emerging && emerging.growth > 0 ? emerging.category : null
     },
     cpdAlignment: {
-      medicationMentions: 8,
-      dietMentions: 5,
-      exerciseMentions: 3,
-      overallAlignment: 'good'
+      medicationMentions: cpdProgress.medicationMentions,
+      dietMentions: cpdProgress.dietMentions,
+      exerciseMentions: cpdProgress.exerciseMentions,
+      overallAlignment: cpdProgress.overallEngagement
     }
   };
 
   return {
     patterns,
+    entriesAnalyzed: entries.length,
     cbtInsights: generatePatternCBTInsights(patterns),
     miReflections: generatePatternMIReflections(patterns),
     recommendations: generatePatternRecommendations(patterns, context.carePlanDirectives),
@@ -239,7 +283,11 @@ function generateGuidedPrompts(category?: string, cpds?: any[]): string[] {
   return prompts;
 }
 
-function analyzeCPDAlignment(entryText: string, cpds: any[]): any {
+/**
+ * Work out which care plan directives an entry touches on.
+ * Exported so entries written through the REST API are tagged the same way.
+ */
+export async function analyzeCPDAlignment(entryText: string, cpds: any[], sentiment?: SentimentResult): Promise<any> {
   const alignment = [];
   
   for (const cpd of cpds) {
@@ -248,10 +296,13 @@ function analyzeCPDAlignment(entryText: string, cpds: any[]): any {
     
     if (entryText.toLowerCase().includes(category) || 
         entryText.toLowerCase().includes(directive.split(' ')[0])) {
+      if (!sentiment) {
+        sentiment = await sentimentService.analyze(entryText);
+      }
       alignment.push({
         category: cpd.category,
         mentioned: true,
-        sentiment: analyzeTextSentiment(entryText)
+        sentiment: sentiment.label
       });
     }
   }
@@ -259,28 +310,14 @@ function analyzeCPDAlignment(entryText: string, cpds: any[]): any {
   return alignment;
 }
 
-function analyzeTextSentiment(text: string): 'positive' | 'neutral' | 'negative' {
-  const positiveWords = ['good', 'great', 'excellent', 'proud', 'success', 'happy', 'better'];
-  const negativeWords = ['difficult', 'struggle', 'hard', 'challenging', 'failed', 'worried'];
-  
-  const textLower = text.toLowerCase();
-  const positiveCount = positiveWords.filter(word => textLower.includes(word)).length;
-  const negativeCount = negativeWords.filter(word => textLower.includes(word)).length;
-  
-  if (positiveCount > negativeCount) return 'positive';
-  if (negativeCount > positiveCount) return 'negative';
-  return 'neutral';
-}
-
-function generateCBTInsightsFromEntry(entryText: string, category?: string): string[] {
+function generateCBTInsightsFromEntry(sentiment: SentimentResult, category?: string): string[] {
   const insights = [];
-  const sentiment = analyzeTextSentiment(entryText);
   
-  if (sentiment === 'negative') {
+  if (sentiment.label === 'negative') {
     insights.push("Notice any 'all or nothing' thinking patterns in your entry");
     insights.push("Consider what evidence supports or challenges negative thoughts");
     insights.push("Reframe setbacks as learning opportunities rather than failures");
-  } else if (sentiment === 'positive') {
+  } else if (sentiment.label === 'positive') {
     insights.push("Recognize this positive experience as evidence of your capability");
     insights.push("Consider what specific actions contributed to this success");
     insights.push("How can you replicate these positive patterns?");
@@ -305,28 +342,20 @@ function generateReflectionPrompts(entryText: string, category?: string, cpds?:
   return prompts;
 }
 
-function generateEmotionalAwareness(entryText: string, mood?: string): any {
+function generateEmotionalAwareness(sentiment: SentimentResult, mood?: string): any {
   return {
     identifiedMood: mood || 'neutral',
-    emotionalThemes: extractEmotionalThemes(entryText),
+    emotionalThemes: extractEmotionalThemes(sentiment),
     copingStrategies: generateCopingStrategies(mood),
     emotionalGrowth: "Regular journaling builds emotional intelligence and self-awareness"
   };
 }
 
-function extractEmotionalThemes(text: string): string[] {
-  const themes = [];
-  const textLower = text.toLowerCase();
-  
-  if (textLower.includes('stress') || textLower.includes('anxious')) {
-    themes.push('stress management');
-  }
-  if (textLower.includes('proud') || textLower.includes('accomplish')) {
-    themes.push('achievement and pride');
-  }
-  if (textLower.includes('frustrated') || textLower.includes('difficult')) {
-    themes.push('frustration and challenges');
-  }
+function extractEmotionalThemes(sentiment: SentimentResult): string[] {
+  const themes = (Object.keys(EMOTIONAL_THEMES) as Emotion[])
+    .filter(emotion => sentiment.emotions[emotion] > 0)
+    .sort((a, b) => sentiment.emotions[b] - sentiment.emotions[a])
+    .map(emotion => EMOTIONAL_THEMES[emotion]);
   
   return themes.length > 0 ? themes : ['general reflection'];
 }
@@ -355,14 +384,13 @@ function generateCopingStrategies(mood?: string): string[] {
   ];
 }
 
-function generateNextStepsFromEntry(entryText: string, category?: string, cpds?: any[]): string[] {
+function generateNextStepsFromEntry(sentiment: SentimentResult, category?: string, cpds?: any[]): string[] {
   const steps = [];
-  const sentiment = analyzeTextSentiment(entryText);
   
-  if (sentiment === 'negative') {
+  if (sentiment.label === 'negative') {
     steps.push("Identify one small action to improve tomorrow");
     steps.push("Consider what support or resources might help");
-  } else if (sentiment === 'positive') {
+  } else if (sentiment.label === 'positive') {
     steps.push("Plan how to maintain this positive momentum");
     steps.push("Consider sharing this success with your healthcare team");
   }
@@ -372,8 +400,17 @@ function generateNextStepsFromEntry(entryText: string, category?: string, cpds?:
   return steps;
 }
 
-function generateCategoryBreakdown(entries: any[]): any {
-  const breakdown: any = {};
+function getPeriodStartDate(timePeriod?: string): Date {
+  const days = PERIOD_DAYS[timePeriod || 'month'] || PERIOD_DAYS.month;
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+function toEntryTime(entry: JournalEntry): number {
+  return new Date(entry.entryDate).getTime() || entry.createdAt.getTime();
+}
+
+function generateCategoryBreakdown(entries: JournalEntry[]): Record<string, number> {
+  const breakdown: Record<string, number> = {};
   
   entries.forEach(entry => {
     breakdown[entry.category] = (breakdown[entry.category] || 0) + 1;
@@ -382,38 +419,92 @@ function generateCategoryBreakdown(entries: any[]): any {
   return breakdown;
 }
 
-function generateMoodTrends(entries: any[]): any {
-  const moodCounts: any = {};
+function generateMoodTrends(entries: JournalEntry[]): any {
+  const moodCounts: Record<string, number> = {};
   
   entries.forEach(entry => {
     moodCounts[entry.mood] = (moodCounts[entry.mood] || 0) + 1;
   });
+
+  // Compare average mood of the earlier half of entries with the later half
+  const chronological = [...entries].sort((a, b) => toEntryTime(a) - toEntryTime(b));
+  const midpoint = Math.floor(chronological.length / 2);
+  const averageMood = (slice: JournalEntry[]) =>
+    slice.reduce((sum, entry) => sum + (MOOD_SCORES[entry.mood] ?? MOOD_SCORES.neutral), 0) / slice.length;
+
+  let trend = 'stable';
+  if (midpoint > 0) {
+    const change = averageMood(chronological.slice(midpoint)) - averageMood(chronological.slice(0, midpoint));
+    if (change >= 0.5) trend = 'improving';
+    else if (change <= -0.5) trend = 'declining';
+  }
+  
+  const moodEntries = Object.entries(moodCounts);
   
   return {
     distribution: moodCounts,
-    trend: 'stable', // Would calculate actual trend
-    predominantMood: Object.entries(moodCounts).reduce((a, b) => moodCounts[a[0]] > moodCounts[b[0]] ? a : b)[0]
+    trend,
+    predominantMood: moodEntries.length > 0 ? moodEntries.reduce((a, b) => b[1] > a[1] ? b : a)[0] : null
   };
 }
 
-function analyzeCPDProgressFromEntries(entries: any[], cpds: any[]): any {
+function analyzeCPDProgressFromEntries(entries: JournalEntry[], cpds: any[]): any {
+  // An entry counts towards a CPD category if it was filed under it or mentioned it when written
+  const mentions = (cpdCategory: string) => entries.filter(entry =>
+    entry.category === cpdCategory ||
+    (Array.isArray(entry.cpdAlignment) &&
+      entry.cpdAlignment.some((alignment: any) => alignment?.category?.toLowerCase() === cpdCategory))
+  ).length;
+
+  const activeCategories = Array.from(new Set((cpds || []).map(cpd => String(cpd.category).toLowerCase())));
+  const alignedEntries = entries.filter(entry =>
+    activeCategories.includes(entry.category) ||
+    (Array.isArray(entry.cpdAlignment) && entry.cpdAlignment.length > 0)
+  ).length;
+  const alignmentRatio = entries.length > 0 ? alignedEntries / entries.length : 0;
+
   return {
-    medicationMentions: entries.filter(e => e.category === 'medication').length,
-    dietMentions: entries.filter(e => e.category === 'diet').length,
-    exerciseMentions: entries.filter(e => e.category === 'exercise').length,
-    overallEngagement: 'active'
+    medicationMentions: mentions('medication'),
+    dietMentions: mentions('diet'),
+    exerciseMentions: mentions('exercise'),
+    alignedEntries,
+    overallEngagement: entries.length === 0 ? 'none' :
+      alignmentRatio >= 0.5 ? 'good' :
+      alignmentRatio >= 0.2 ? 'moderate' : 'limited'
   };
 }
 
-function generateJournalInsights(entries: any[]): string[] {
-  return [
-    "Your journaling shows consistent self-reflection and awareness",
-    "You're actively engaging with your health journey through writing",
-    "Regular journaling can help identify patterns and track progress"
-  ];
+function generateJournalInsights(entries: JournalEntry[]): string[] {
+  if (entries.length === 0) {
+    return ["You haven't written any journal entries for this period yet - even a few lines can help you notice patterns"];
+  }
+
+  const insights = [];
+  const moodTrends = generateMoodTrends(entries);
+  const breakdown = generateCategoryBreakdown(entries);
+  const topCategory = Object.entries(breakdown).reduce((a, b) => b[1] > a[1] ? b : a)[0];
+
+  insights.push(`You've written ${entries.length} journal ${entries.length === 1 ? 'entry' : 'entries'} in this period`);
+
+  if (moodTrends.trend === 'improving') {
+    insights.push("Your recorded mood has been lifting across your recent entries");
+  } else if (moodTrends.trend === 'declining') {
+    insights.push("Your recent entries reflect a tougher time than earlier ones - that's worth noticing and being kind to yourself about");
+  }
+
+  if (topCategory !== 'general') {
+    insights.push(`Most of your reflections focus on ${topCategory}`);
+  }
+
+  insights.push("Regular journaling can help identify patterns and track progress");
+  
+  return insights;
 }
 
-function generateEncouragementFromEntries(entries: any[]): string {
+function generateEncouragementFromEntries(entries: JournalEntry[]): string {
+  if (entries.length === 0) {
+    return "Starting a journal is a great step. Try writing a few sentences about today's health choices.";
+  }
   return "Your commitment to journaling shows dedication to understanding and improving your health journey. Keep reflecting and growing!";
 }
 
@@ -444,6 +535,10 @@ function generatePatternRecommendations(patterns: any, cpds: any[]): string[] {
     recommendations.push("Try writing more about your physical activity experiences");
   }
   
+  if (patterns.writingFrequency.consistency === 'low') {
+    recommendations.push("Try writing at the same time each day to build a steadier journaling habit");
+  }
+  
   recommendations.push("Continue regular journaling to maintain self-awareness");
   
   return recommendations;
@@ -8,7 +8,7 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
+import { medicationService } from '../../services/medicationService';
 
 // Input schema for MBP Wizard tool
 const mbpWizardInputSchema = z.object({
@@ -27,24 +27,13 @@ export const mbpWizardTool: MCPTool = {
   name: 'mbp-wizard',
   description: 'Medication price comparison and pharmacy services with adherence support using CBT and MI techniques',
   inputSchema: mbpWizardInputSchema,
+  access: {
+    roles: ['patient'],
+    dataType: 'medication_search'
+  },
   handler: async (params: z.infer<typeof mbpWizardInputSchema>, context: MCPContext) => {
     const { userId, action, medicationName, location, currentScore, adherenceChallenge } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s medication data');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      dataType: 'medication_search',
-      action: 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'search_medication':
@@ -78,8 +67,9 @@ async function searchMedication(userId: number, context: MCPContext, medicationN
     cpd.category.toLowerCase().includes('medication') || 
     cpd.category.toLowerCase().includes('medicine')
   );
+  const medications = await medicationService.listMedications(userId);
 
-  if (!medicationName && medicationCPDs.length === 0) {
+  if (!medicationName && medications.length === 0 && medicationCPDs.length === 0) {
     return {
       message: "No medication specified and no medication care plan directives found.",
       suggestion: "Please specify a medication name or check with your doctor for medication directives.",
@@ -91,8 +81,9 @@ async function searchMedication(userId: number, context: MCPContext, medicationN
     };
   }
 
-  // Extract medication from CPDs if not provided
-  const searchMedication = medicationName || extractMedicationFromCPDs(medicationCPDs);
+  // Fall back to the patient's medication list, then to guessing from CPDs
+  const searchMedication = medicationName
+    || (medications.length > 0 ? `${medications[0].name} ${medications[0].strength}` : extractMedicationFromCPDs(medicationCPDs));
 
   return {
     searchResults: {
@@ -180,7 +171,34 @@ async function analyzeMedicationAdherence(userId: number, context: MCPContext, c
     cpd.category.toLowerCase().includes('medication')
   );
 
-  if (recentMetrics.length === 0) {
+  const [doseAdherence, refills] = await Promise.all([
+    medicationService.calculateRecentAdherence(userId, 14),
+    medicationService.getRefillEstimates(userId)
+  ]);
+  const loggedDoses = doseAdherence.expectedDoses > 0 ? {
+    adherencePercent: doseAdherence.adherencePercent,
+    onTimePercent: doseAdherence.onTimePercent,
+    expectedDoses: doseAdherence.expectedDoses,
+    taken: doseAdherence.taken,
+    late: doseAdherence.late,
+    skipped: doseAdherence.skipped,
+    missed: doseAdherence.missed,
+    byMedication: doseAdherence.byMedication.map(med => ({
+      medication: `${med.name} ${med.strength}`,
+      adherencePercent: med.adherencePercent,
+      missed: med.missed,
+      skipped: med.skipped
+    }))
+  } : null;
+  const refillsDue = refills
+    .filter(refill => refill.refillSoon)
+    .map(refill => ({
+      medication: `${refill.name} ${refill.strength}`,
+      daysRemaining: refill.daysRemaining,
+      refillDueDate: refill.refillDueDate
+    }));
+
+  if (recentMetrics.length === 0 && !loggedDoses) {
     return {
       message: "No recent medication scores found for analysis.",
       suggestion: "Start tracking your daily medication adherence scores for personalized insights.",
@@ -192,16 +210,24 @@ async function analyzeMedicationAdherence(userId: number, context: MCPContext, c
     };
   }
 
-  const avgScore = recentMetrics.reduce((sum, m) => sum + m.medicationScore, 0) / recentMetrics.length;
+  // Logged doses are the objective measure; without self-scores, express them on the 1-10 scale
+  const avgScore = recentMetrics.length > 0
+    ? recentMetrics.reduce((sum, m) => sum + m.medicationScore, 0) / recentMetrics.length
+    : Math.max(1, (loggedDoses!.adherencePercent ?? 0) / 10);
   const scoreToAnalyze = currentScore || avgScore;
 
   return {
     adherenceAnalysis: {
       currentScore: Number(scoreToAnalyze.toFixed(1)),
       scoreJustification: generateMedicationScoreJustification(scoreToAnalyze),
-      adherencePattern: analyzeMedicationPattern(recentMetrics),
-      identifiedBarriers: identifyAdherenceBarriers(scoreToAnalyze, recentMetrics)
+      adherencePattern: recentMetrics.length > 0 ? analyzeMedicationPattern(recentMetrics) : 'No recent self-scores',
+      identifiedBarriers: identifyAdherenceBarriers(scoreToAnalyze, recentMetrics),
+      loggedDoses,
+      selfScoreVsLoggedDoses: loggedDoses && recentMetrics.length > 0
+        ? compareSelfScoreToLoggedDoses(avgScore, loggedDoses.adherencePercent)
+        : null
     },
+    refillsDue,
     cbtInterventions: generateMedicationCBT(scoreToAnalyze, recentMetrics),
     motivationalInterviewing: generateMedicationMI(scoreToAnalyze, medicationCPDs),
     practicalSolutions: generatePracticalSolutions(scoreToAnalyze),
@@ -261,6 +287,19 @@ function extractMedicationFromCPDs(medicationCPDs: any[]): string {
   return 'paracetamol'; // Default fallback
 }
 
+function compareSelfScoreToLoggedDoses(selfScore: number, adherencePercent: number | null): string | null {
+  if (adherencePercent === null) return null;
+
+  const gap = selfScore * 10 - adherencePercent;
+  if (gap >= 20) {
+    return `Self-scores (${selfScore.toFixed(1)}/10) are higher than logged doses suggest (${adherencePercent}% taken) - check for doses taken but not logged, or missed doses`;
+  }
+  if (gap <= -20) {
+    return `Logged doses (${adherencePercent}% taken) are better than self-scores suggest (${selfScore.toFixed(1)}/10) - you may be underrating your routine`;
+  }
+  return `Self-scores (${selfScore.toFixed(1)}/10) are consistent with logged doses (${adherencePercent}% taken)`;
+}
+
 function generateMedicationScoreJustification(score: number): string {
   if (score >= 9) {
     return "Excellent medication adherence - you're consistently taking medications as prescribed";
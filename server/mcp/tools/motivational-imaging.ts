@@ -8,7 +8,6 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
 
 // Input schema for Motivational Imaging tool
 const motivationalImagingInputSchema = z.object({
@@ -27,25 +26,15 @@ export const motivationalImagingTool: MCPTool = {
   name: 'motivational-imaging',
   description: 'Motivational image processing and enhancement integrated with Keep Going button and patient motivation',
   inputSchema: motivationalImagingInputSchema,
+  access: {
+    roles: ['patient'],
+    dataType: 'motivational_images',
+    writeActions: ['upload_image'],
+    rateLimit: { maxCalls: 10, windowMs: 60 * 1000 }
+  },
   handler: async (params: z.infer<typeof motivationalImagingInputSchema>, context: MCPContext) => {
     const { userId, action, imageId, imageData, motivationalTheme, personalMessage } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s motivational images');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'motivational_images',
-      action: action === 'upload_image' ? 'write' : 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'upload_image':
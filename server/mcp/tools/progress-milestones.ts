@@ -8,7 +8,6 @@
 import { z } from 'zod';
 import { MCPTool, MCPContext } from '../core/MCPServer';
 import { storage } from '../../storage';
-import { auditLogger } from '../../auditLogger';
 
 // Input schema for Progress Milestones tool
 const progressMilestonesInputSchema = z.object({
@@ -25,25 +24,13 @@ export const progressMilestonesTool: MCPTool = {
   name: 'progress-milestones',
   description: 'Track patient achievements, rewards, and progress milestones with motivational support',
   inputSchema: progressMilestonesInputSchema,
+  access: {
+    roles: ['patient', 'doctor'],
+    dataType: 'progress_milestones'
+  },
   handler: async (params: z.infer<typeof progressMilestonesInputSchema>, context: MCPContext) => {
     const { userId, action, includeRewards, timePeriod } = params;
 
-    // Ensure user can only access their own data
-    if (context.userRole === 'patient' && context.userId !== userId) {
-      throw new Error('Access denied: Cannot access other patient\'s progress data');
-    }
-
-    // Log the access for audit purposes
-    await auditLogger.logDataAccess({
-      userId: context.userId,
-      accessedBy: context.userId,
-      dataType: 'progress_milestones',
-      action: 'read',
-      isAdminAccess: context.userRole === 'admin',
-      ipAddress: context.ipAddress,
-      userAgent: context.userAgent
-    });
-
     try {
       switch (action) {
         case 'get_status':
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { McpTrace } from '@shared/schema';
+
+const { storedTraces, replayToolCall } = vi.hoisted(() => ({
+  storedTraces: [] as unknown[],
+  replayToolCall: vi.fn()
+}));
+
+// Replay reads the recorded trace and hands the call to the MCP server; keep both in memory
+vi.mock('../../db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: async () => storedTraces }) })
+  }
+}));
+vi.mock('../core/MCPServer', () => ({ kgcMCPServer: { on: vi.fn(), replayToolCall } }));
+vi.mock('../../services/privacyProtectionAgent', () => ({
+  privacyProtectionAgent: { anonymize: (text: string) => ({ anonymizedText: text }), clearSession: vi.fn() }
+}));
+vi.mock('../core/context', () => ({ scopeContextToPatient: vi.fn(async context => context) }));
+
+const { mcpTraceService } = await import('./traceService');
+
+const requester = { userId: 1, ipAddress: '127.0.0.1', userAgent: 'vitest' };
+
+function recordedToolCall(overrides: Partial<McpTrace>): McpTrace {
+  return {
+    id: 7,
+    mcpSessionId: 'session-1',
+    requestId: '1',
+    method: 'tools/call',
+    target: 'health-metrics',
+    callerId: 12,
+    callerRole: 'doctor',
+    patientId: 34,
+    status: 'ok',
+    errorMessage: null,
+    requestRedacted: JSON.stringify({ name: 'health-metrics', arguments: { userId: 34 } }),
+    responseRedacted: null,
+    durationMs: 5,
+    correlationId: null,
+    hostQuery: null,
+    hostSelectedTools: null,
+    replayOfId: null,
+    createdAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('trace replay', () => {
+  beforeEach(() => {
+    storedTraces.length = 0;
+    replayToolCall.mockReset();
+  });
+
+  it.each(['denied', 'rpc_error', 'cancelled'] as const)('refuses to replay a %s tool call', async (status) => {
+    storedTraces.push(recordedToolCall({ status, errorMessage: 'Access denied: not this doctor\'s patient' }));
+
+    const result = await mcpTraceService.replay(7, requester);
+
+    expect(result.status).toBe('not_replayable');
+    expect(replayToolCall).not.toHaveBeenCalled();
+  });
+
+  it('passes a refusal from the MCP server back to the admin', async () => {
+    storedTraces.push(recordedToolCall({ status: 'ok' }));
+    replayToolCall.mockResolvedValue({ status: 'not_replayable', reason: 'The original caller no longer has access' });
+
+    const result = await mcpTraceService.replay(7, requester);
+
+    expect(replayToolCall).toHaveBeenCalledWith('health-metrics', { userId: 34 }, expect.objectContaining({ userId: 12 }));
+    expect(result).toEqual({ status: 'not_replayable', reason: 'The original caller no longer has access' });
+  });
+});
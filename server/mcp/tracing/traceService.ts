@@ -0,0 +1,313 @@
+/**
+ * MCP Trace Service - What the MCP server was asked and what it answered
+ *
+ * Listens for KGCMCPServer 'trace' events and stores one mcp_traces row per request:
+ * 1. Params and the result or error, PII-redacted by the privacy protection agent
+ * 2. Timing, outcome and the patient the request acted on
+ * 3. The chat query and tool selection the host sent in `_meta`, so a strange chatbot
+ *    answer can be traced back to the tools it was built from
+ *
+ * Admins can replay a recorded read-only tool call against current data and compare.
+ */
+
+import { db } from '../../db';
+import { mcpTraces, McpTrace, McpTraceStatus } from '@shared/schema';
+import { and, desc, eq, gte, lt, lte } from 'drizzle-orm';
+import { privacyProtectionAgent } from '../../services/privacyProtectionAgent';
+import { kgcMCPServer, MCPContext, MCPTraceEvent } from '../core/MCPServer';
+import { JsonRpcResponse, JSON_RPC_ERRORS } from '../core/jsonRpc';
+import { scopeContextToPatient } from '../core/context';
+
+// Keys MCP hosts can set in params._meta to describe why a call was made
+export const TRACE_META_KEYS = {
+  correlationId: 'kgc/correlationId',
+  hostQuery: 'kgc/hostQuery',
+  selectedTools: 'kgc/selectedTools'
+};
+
+// Longer params or results are cut so one trace cannot bloat the table
+const MAX_TRACE_TEXT_LENGTH = 20000;
+const DEFAULT_RETENTION_DAYS = 30;
+const REPLAYABLE_STATUSES: McpTraceStatus[] = ['ok', 'tool_error'];
+
+export interface TraceSearchFilters {
+  patientId?: number;
+  target?: string;
+  status?: McpTraceStatus;
+  correlationId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+export type TraceSummary = Omit<McpTrace, 'requestRedacted' | 'responseRedacted'>;
+
+export interface TraceDetail {
+  trace: McpTrace;
+  related: TraceSummary[]; // Other calls made for the same chat query
+  replays: TraceSummary[];
+}
+
+export interface ReplayComparison {
+  identical: boolean;
+  changedKeys: string[]; // Top-level keys of the tool output that differ
+}
+
+export type TraceReplayResult =
+  | { status: 'not_found' }
+  | { status: 'not_replayable'; reason: string }
+  | { status: 'replayed'; original: McpTrace; replay: McpTrace; comparison: ReplayComparison };
+
+export interface ReplayRequester {
+  userId: number;
+  ipAddress: string;
+  userAgent: string;
+}
+
+const summaryColumns = {
+  id: mcpTraces.id,
+  mcpSessionId: mcpTraces.mcpSessionId,
+  requestId: mcpTraces.requestId,
+  method: mcpTraces.method,
+  target: mcpTraces.target,
+  callerId: mcpTraces.callerId,
+  callerRole: mcpTraces.callerRole,
+  patientId: mcpTraces.patientId,
+  status: mcpTraces.status,
+  errorMessage: mcpTraces.errorMessage,
+  durationMs: mcpTraces.durationMs,
+  correlationId: mcpTraces.correlationId,
+  hostQuery: mcpTraces.hostQuery,
+  hostSelectedTools: mcpTraces.hostSelectedTools,
+  replayOfId: mcpTraces.replayOfId,
+  createdAt: mcpTraces.createdAt
+};
+
+/**
+ * Serialise a value and replace PII with placeholders
+ */
+export function redactForTrace(value: unknown): string {
+  const privacySession = `trace-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  try {
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? null);
+    const { anonymizedText } = privacyProtectionAgent.anonymize(text, privacySession);
+    return anonymizedText.length > MAX_TRACE_TEXT_LENGTH
+      ? `${anonymizedText.slice(0, MAX_TRACE_TEXT_LENGTH)}... [truncated]`
+      : anonymizedText;
+  } finally {
+    privacyProtectionAgent.clearSession(privacySession);
+  }
+}
+
+function traceStatus(response: JsonRpcResponse | null): McpTraceStatus {
+  if (!response) {
+    return 'cancelled';
+  }
+  if ('error' in response) {
+    const { code } = response.error;
+    return code === JSON_RPC_ERRORS.accessDenied || code === JSON_RPC_ERRORS.rateLimited ? 'denied' : 'rpc_error';
+  }
+  return response.result.isError ? 'tool_error' : 'ok';
+}
+
+function traceError(response: JsonRpcResponse | null, result?: Record<string, unknown>): string | null {
+  if (response && 'error' in response) {
+    return response.error.message;
+  }
+  const content = (result?.content as { text?: string }[] | undefined)?.[0];
+  return result?.isError ? content?.text ?? 'Tool execution failed' : null;
+}
+
+/**
+ * The tool's own output: tool results carry it as JSON text in the first content block
+ */
+function toolOutput(responseText: string | null): unknown {
+  try {
+    const response = responseText ? JSON.parse(responseText) : null;
+    const text = response?.content?.[0]?.text;
+    return typeof text === 'string' ? JSON.parse(text) : text ?? response;
+  } catch {
+    return responseText;
+  }
+}
+
+export function compareToolOutputs(originalText: string | null, replayText: string | null): ReplayComparison {
+  const original = toolOutput(originalText);
+  const replay = toolOutput(replayText);
+  if (JSON.stringify(original) === JSON.stringify(replay)) {
+    return { identical: true, changedKeys: [] };
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+  if (!isObject(original) || !isObject(replay)) {
+    return { identical: false, changedKeys: [] };
+  }
+
+  const keys = Array.from(new Set([...Object.keys(original), ...Object.keys(replay)]));
+  return {
+    identical: false,
+    changedKeys: keys.filter(key => JSON.stringify(original[key]) !== JSON.stringify(replay[key]))
+  };
+}
+
+export class MCPTraceService {
+  constructor() {
+    kgcMCPServer.on('trace', (event: MCPTraceEvent) => {
+      this.recordEvent(event).catch(error => {
+        console.error('[MCP Trace] Error recording trace:', error);
+      });
+    });
+  }
+
+  async search(filters: TraceSearchFilters): Promise<TraceSummary[]> {
+    const conditions = [
+      filters.patientId !== undefined ? eq(mcpTraces.patientId, filters.patientId) : undefined,
+      filters.target ? eq(mcpTraces.target, filters.target) : undefined,
+      filters.status ? eq(mcpTraces.status, filters.status) : undefined,
+      filters.correlationId ? eq(mcpTraces.correlationId, filters.correlationId) : undefined,
+      filters.from ? gte(mcpTraces.createdAt, filters.from) : undefined,
+      filters.to ? lte(mcpTraces.createdAt, filters.to) : undefined
+    ];
+
+    return await db.select(summaryColumns)
+      .from(mcpTraces)
+      .where(and(...conditions))
+      .orderBy(desc(mcpTraces.createdAt))
+      .limit(filters.limit)
+      .offset(filters.offset);
+  }
+
+  async getTrace(traceId: number): Promise<TraceDetail | null> {
+    const [trace] = await db.select().from(mcpTraces).where(eq(mcpTraces.id, traceId));
+    if (!trace) {
+      return null;
+    }
+
+    const related = trace.correlationId
+      ? await db.select(summaryColumns)
+        .from(mcpTraces)
+        .where(eq(mcpTraces.correlationId, trace.correlationId))
+        .orderBy(mcpTraces.createdAt)
+      : [];
+    const replays = await db.select(summaryColumns)
+      .from(mcpTraces)
+      .where(eq(mcpTraces.replayOfId, trace.id))
+      .orderBy(desc(mcpTraces.createdAt));
+
+    return { trace, related: related.filter(row => row.id !== trace.id), replays };
+  }
+
+  /**
+   * Re-run a recorded tool call as the original caller, against the patient's current
+   * data, and record the outcome as a new trace linked to the original
+   */
+  async replay(traceId: number, requester: ReplayRequester): Promise<TraceReplayResult> {
+    const [original] = await db.select().from(mcpTraces).where(eq(mcpTraces.id, traceId));
+    if (!original) {
+      return { status: 'not_found' };
+    }
+    if (original.method !== 'tools/call' || !original.target || original.patientId === null) {
+      return { status: 'not_replayable', reason: 'Only tool calls can be replayed' };
+    }
+    // Denied, rejected and cancelled calls never ran the tool; replaying them would run it now
+    if (!REPLAYABLE_STATUSES.includes(original.status as McpTraceStatus)) {
+      return { status: 'not_replayable', reason: `Only tool calls that ran can be replayed; this one was ${original.status}` };
+    }
+
+    let params: { arguments?: Record<string, unknown> };
+    try {
+      params = JSON.parse(original.requestRedacted);
+    } catch {
+      return { status: 'not_replayable', reason: 'The recorded request is no longer valid JSON (truncated or redacted)' };
+    }
+
+    // Arguments are the redacted ones: PII placeholders are replayed as placeholders
+    const args = { userId: original.patientId, ...(params.arguments ?? {}) };
+    const context: MCPContext = await scopeContextToPatient({
+      userId: original.callerId,
+      userRole: original.callerRole as MCPContext['userRole'],
+      carePlanDirectives: [],
+      sessionId: `replay-${original.id}`,
+      ipAddress: requester.ipAddress,
+      userAgent: requester.userAgent
+    }, original.patientId);
+
+    const outcome = await kgcMCPServer.replayToolCall(original.target, args, context);
+    if (outcome.status === 'not_replayable') {
+      return outcome;
+    }
+
+    const responseRedacted = redactForTrace(outcome.result);
+    const [replay] = await db.insert(mcpTraces)
+      .values({
+        mcpSessionId: context.sessionId,
+        requestId: `replay-by-${requester.userId}`,
+        method: original.method,
+        target: original.target,
+        callerId: original.callerId,
+        callerRole: original.callerRole,
+        patientId: original.patientId,
+        status: outcome.result.isError ? 'tool_error' : 'ok',
+        errorMessage: traceError(null, outcome.result),
+        requestRedacted: redactForTrace({ name: original.target, arguments: args }),
+        responseRedacted,
+        durationMs: outcome.durationMs,
+        replayOfId: original.id
+      })
+      .returning();
+
+    return {
+      status: 'replayed',
+      original,
+      replay,
+      comparison: compareToolOutputs(original.responseRedacted, responseRedacted)
+    };
+  }
+
+  /**
+   * Delete traces older than MCP_TRACE_RETENTION_DAYS (default 30)
+   */
+  async purgeExpired(): Promise<Record<string, unknown>> {
+    const retentionDays = parseInt(process.env.MCP_TRACE_RETENTION_DAYS || '') || DEFAULT_RETENTION_DAYS;
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+    const deleted = await db.delete(mcpTraces)
+      .where(lt(mcpTraces.createdAt, cutoff))
+      .returning({ id: mcpTraces.id });
+    return { deleted: deleted.length, retentionDays };
+  }
+
+  private async recordEvent(event: MCPTraceEvent): Promise<void> {
+    const { request, response, session, context } = event;
+    const meta = request.params?._meta ?? {};
+    const result = response && 'result' in response ? response.result : undefined;
+
+    const correlationId = meta[TRACE_META_KEYS.correlationId];
+    const hostQuery = meta[TRACE_META_KEYS.hostQuery];
+    const selectedTools = meta[TRACE_META_KEYS.selectedTools];
+
+    await db.insert(mcpTraces).values({
+      mcpSessionId: session.id,
+      requestId: String(request.id),
+      method: request.method,
+      target: event.target,
+      callerId: context.userId,
+      callerRole: context.userRole,
+      patientId: event.patientId,
+      status: traceStatus(response),
+      errorMessage: traceError(response, result),
+      requestRedacted: redactForTrace(request.params ?? {}),
+      responseRedacted: response ? redactForTrace('error' in response ? response.error : response.result) : null,
+      durationMs: event.durationMs,
+      correlationId: typeof correlationId === 'string' ? correlationId.slice(0, 100) : null,
+      hostQuery: typeof hostQuery === 'string' ? redactForTrace(hostQuery.slice(0, 2000)) : null,
+      hostSelectedTools: Array.isArray(selectedTools)
+        ? selectedTools.filter((tool): tool is string => typeof tool === 'string').slice(0, 20)
+        : null
+    });
+  }
+}
+
+export const mcpTraceService = new MCPTraceService();
@@ -0,0 +1,97 @@
+/**
+ * MCP stdio transport
+ *
+ * Newline-delimited JSON-RPC on stdin/stdout for local MCP hosts (Claude Desktop,
+ * MCP Inspector). stdout carries protocol messages only, so anything that logs must
+ * write to stderr. One process is one session, acting as a single configured user.
+ */
+
+import { createInterface } from 'readline';
+import { randomUUID } from 'crypto';
+import { kgcMCPServer, createMCPSession, MCPNotify } from '../core/MCPServer';
+import {
+  JsonRpcError,
+  JSON_RPC_ERRORS,
+  jsonRpcError,
+  parseJsonRpcMessage,
+  readRequestId
+} from '../core/jsonRpc';
+import { buildMCPContext, MCPUserRole } from '../core/context';
+// Records every request this transport handles to mcp_traces
+import '../tracing/traceService';
+
+export interface StdioIdentity {
+  userId: number;
+  userRole: MCPUserRole;
+}
+
+export function startStdioTransport(identity: StdioIdentity): Promise<void> {
+  const session = createMCPSession(randomUUID(), identity.userId);
+  const write = (payload: object) => process.stdout.write(`${JSON.stringify(payload)}\n`);
+  const notify: MCPNotify = notification => write(notification);
+
+  const handleRaw = async (raw: unknown) => {
+    let message;
+    try {
+      message = parseJsonRpcMessage(raw);
+    } catch (error) {
+      const rpcError = error as JsonRpcError;
+      return jsonRpcError(readRequestId(raw), rpcError.code, rpcError.message);
+    }
+
+    // Rebuilt per message so directive changes reach the next tool call
+    const context = await buildMCPContext({
+      ...identity,
+      sessionId: session.id,
+      ipAddress: 'stdio',
+      userAgent: session.clientInfo ? `${session.clientInfo.name}/${session.clientInfo.version}` : 'stdio'
+    });
+    return kgcMCPServer.handleMessage(message, session, context, notify);
+  };
+
+  const handleLine = async (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      write(jsonRpcError(null, JSON_RPC_ERRORS.parseError, 'Parse error'));
+      return;
+    }
+
+    if (Array.isArray(parsed)) {
+      const responses = (await Promise.all(parsed.map(handleRaw))).filter(response => response !== null);
+      if (responses.length > 0) {
+        write(responses);
+      }
+      return;
+    }
+
+    const response = await handleRaw(parsed);
+    if (response) {
+      write(response);
+    }
+  };
+
+  const input = createInterface({ input: process.stdin });
+  const pending = new Set<Promise<void>>();
+  // Lines are handled concurrently so a notifications/cancelled can reach a running tool call
+  input.on('line', line => {
+    const handled = handleLine(line)
+      .catch(error => {
+        console.error('[KGC MCP stdio] Error handling message:', error);
+      })
+      .finally(() => pending.delete(handled));
+    pending.add(handled);
+  });
+
+  // A host may close stdin straight after its last request; answer what was already sent
+  return new Promise(resolve => {
+    input.on('close', () => {
+      Promise.all(pending).then(() => resolve());
+    });
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * MCP Streamable HTTP transport
+ *
+ * Implements the MCP Streamable HTTP transport on a single endpoint:
+ * - POST carries one JSON-RPC message or a batch. Requests are answered with JSON, or with
+ *   an SSE stream when the client accepts one and a tool call may report progress.
+ * - initialize issues an Mcp-Session-Id; every later message must send it back.
+ * - DELETE ends the session. GET (server-initiated streams) is not offered.
+ *
+ * Sessions live in memory and belong to the signed-in user that initialized them.
+ */
+
+import { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import {
+  kgcMCPServer,
+  createMCPSession,
+  MCPSession,
+  MCPNotify,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from '../core/MCPServer';
+import {
+  JsonRpcMessage,
+  JsonRpcResponse,
+  JsonRpcError,
+  JSON_RPC_ERRORS,
+  isJsonRpcRequest,
+  jsonRpcError,
+  parseJsonRpcMessage,
+  readRequestId
+} from '../core/jsonRpc';
+import { buildMCPContext, MCPCaller } from '../core/context';
+// Records every request this transport handles to mcp_traces
+import '../tracing/traceService';
+
+export const MCP_SESSION_HEADER = 'Mcp-Session-Id';
+export const MCP_PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+// Version assumed when a client does not send the protocol version header
+const DEFAULT_HTTP_PROTOCOL_VERSION = '2025-03-26';
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+interface StoredSession {
+  session: MCPSession;
+  lastSeenAt: number;
+}
+
+const sessions = new Map<string, StoredSession>();
+
+setInterval(() => {
+  const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+  for (const [id, stored] of Array.from(sessions.entries())) {
+    if (stored.lastSeenAt < cutoff) {
+      sessions.delete(id);
+    }
+  }
+}, SESSION_SWEEP_INTERVAL_MS).unref();
+
+export function getActiveSessionCount(): number {
+  return sessions.size;
+}
+
+function sendTransportError(res: Response, status: number, message: string) {
+  return res.status(status).json(jsonRpcError(null, JSON_RPC_ERRORS.invalidRequest, message));
+}
+
+/**
+ * Browsers send Origin; only our own origins may drive the endpoint (DNS rebinding protection)
+ */
+function isAllowedOrigin(req: Request): boolean {
+  const origin = req.get('Origin');
+  if (!origin) {
+    return true;
+  }
+
+  const allowed = [
+    ...(process.env.CORS_ORIGIN?.split(',') ?? []),
+    ...(process.env.BASE_URL ? [process.env.BASE_URL] : [])
+  ].map(value => value.trim().replace(/\/$/, ''));
+  if (allowed.includes(origin)) {
+    return true;
+  }
+
+  try {
+    return new URL(origin).host === req.get('Host');
+  } catch {
+    return false;
+  }
+}
+
+function acceptsEventStream(req: Request): boolean {
+  return (req.get('Accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Find the caller's session. Sessions belonging to another user are reported as
+ * unknown so their ids cannot be probed.
+ */
+function resolveSession(req: Request, res: Response, userId: number): MCPSession | null {
+  const sessionId = req.get(MCP_SESSION_HEADER);
+  if (!sessionId) {
+    sendTransportError(res, 400, `Missing ${MCP_SESSION_HEADER} header`);
+    return null;
+  }
+
+  const stored = sessions.get(sessionId);
+  if (!stored || stored.session.userId !== userId) {
+    sendTransportError(res, 404, 'Session not found');
+    return null;
+  }
+
+  const version = req.get(MCP_PROTOCOL_VERSION_HEADER) || DEFAULT_HTTP_PROTOCOL_VERSION;
+  if (!SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    sendTransportError(res, 400, `Unsupported ${MCP_PROTOCOL_VERSION_HEADER}: ${version}`);
+    return null;
+  }
+
+  stored.lastSeenAt = Date.now();
+  return stored.session;
+}
+
+/**
+ * POST - deliver client messages
+ */
+export async function handleMCPPost(req: Request, res: Response, caller: Omit<MCPCaller, 'sessionId'>) {
+  if (!isAllowedOrigin(req)) {
+    return sendTransportError(res, 403, 'Origin not allowed');
+  }
+
+  const isBatch = Array.isArray(req.body);
+  const rawMessages: unknown[] = isBatch ? req.body : [req.body];
+  if (rawMessages.length === 0) {
+    return sendTransportError(res, 400, 'Empty batch');
+  }
+
+  // Messages that fail validation are answered in place; the rest are dispatched
+  const messages: JsonRpcMessage[] = [];
+  const invalid: JsonRpcResponse[] = [];
+  for (const raw of rawMessages) {
+    try {
+      messages.push(parseJsonRpcMessage(raw));
+    } catch (error) {
+      const rpcError = error as JsonRpcError;
+      invalid.push(jsonRpcError(readRequestId(raw), rpcError.code, rpcError.message));
+    }
+  }
+
+  const initializing = messages.some(message => isJsonRpcRequest(message) && message.method === 'initialize');
+  let session: MCPSession | null;
+  if (initializing) {
+    if (rawMessages.length > 1) {
+      return sendTransportError(res, 400, 'initialize must not be sent in a batch');
+    }
+    session = createMCPSession(randomUUID(), caller.userId);
+  } else {
+    session = resolveSession(req, res, caller.userId);
+    if (!session) {
+      return;
+    }
+  }
+
+  const requests = messages.filter(isJsonRpcRequest);
+  const context = await buildMCPContext({ ...caller, sessionId: session.id });
+
+  if (requests.length === 0 && invalid.length === 0) {
+    // Notifications and responses only: acknowledge without a body
+    for (const message of messages) {
+      await kgcMCPServer.handleMessage(message, session, context, () => undefined);
+    }
+    return res.status(202).end();
+  }
+
+  const useStream = acceptsEventStream(req) && requests.some(request => request.method === 'tools/call');
+
+  if (useStream) {
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const send = (payload: object) => {
+      if (!res.writableEnded) {
+        res.write(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+      }
+    };
+    const notify: MCPNotify = notification => send(notification);
+
+    invalid.forEach(send);
+    await Promise.all(messages.map(async message => {
+      const response = await kgcMCPServer.handleMessage(message, session!, context, notify);
+      if (response) {
+        send(response);
+      }
+    }));
+    return res.end();
+  }
+
+  // Plain JSON has no channel for progress, so notifications are dropped
+  const responses = await Promise.all(
+    messages.map(message => kgcMCPServer.handleMessage(message, session!, context, () => undefined))
+  );
+  const answered = [...invalid, ...responses.filter((response): response is JsonRpcResponse => response !== null)];
+
+  if (initializing && answered.some(response => 'result' in response)) {
+    sessions.set(session.id, { session, lastSeenAt: Date.now() });
+    res.set(MCP_SESSION_HEADER, session.id);
+  }
+
+  if (answered.length === 0) {
+    // Every request was cancelled while it ran
+    return res.status(202).end();
+  }
+  res.json(isBatch ? answered : answered[0]);
+}
+
+/**
+ * DELETE - end the session
+ */
+export function handleMCPDelete(req: Request, res: Response, userId: number) {
+  if (!isAllowedOrigin(req)) {
+    return sendTransportError(res, 403, 'Origin not allowed');
+  }
+
+  const session = resolveSession(req, res, userId);
+  if (!session) {
+    return;
+  }
+
+  session.inFlight.forEach(controller => controller.abort());
+  sessions.delete(session.id);
+  res.status(204).end();
+}
@@ -61,6 +61,7 @@ import {
   userFoodPreferences,
   progressMilestones,
   insertProgressMilestoneSchema,
+  insertJournalEntrySchema,
   userFavoriteVideos,
   patientScores,
   patientBadges,
@@ -106,7 +107,27 @@ import { DoctorAuthService } from './services/doctorAuthService';
 import aiIntegrationRoutes from './routes/ai-integration';
 import pprAnalysisRoutes from './routes/ppr-analysis';
 import doctorReportsRouter from './routes/doctorReports';
+import emergencyAlertsRouter from './routes/emergencyAlerts';
+import scheduledJobsRouter from './routes/scheduledJobs';
+import badgeRulesRouter from './routes/badgeRules';
+import cpdImportRouter from './routes/cpdImport';
+import medicationsRouter from './routes/medications';
+import keepGoingRouter from './routes/keepGoing';
+import syncRouter from './routes/sync';
+import populationAnalyticsRouter from './routes/populationAnalytics';
+import practicesRouter from './routes/practices';
+import patientDataRightsRouter from './routes/patientDataRights';
+import auditLogRouter from './routes/auditLog';
+import notificationsRouter from './routes/notifications';
+import secureMessagesRouter from './routes/secureMessages';
+import mcpRouter from './routes/mcp';
+import mcpPromptsRouter from './routes/mcpPrompts';
+import mcpTracesRouter from './routes/mcpTraces';
+import KeepGoingTracker from './services/keepGoingTracker';
+import { cpdVersionService, isCpdCategory } from './services/cpdVersionService';
 import { foodStandardsService } from './services/foodStandardsService';
+import { productCatalogueService } from './services/productCatalogueService';
+import { canAccessPatientRecord } from './services/doctorPatientAccess';
 import emailAuthRoutes from './routes/emailAuth';
 
 // Initialize UIN Service for unlimited scaling
@@ -156,13 +177,15 @@ function extractYoutubeVideoId(url: string): string | null {
   }
 }
 import { RecipeSearchResult } from './types/recipe';
-import { validateContent } from './ai/tavilyValidator';
+import { validateContent, validateContents } from './ai/tavilyValidator';
 // Import tavilyClient methods directly above
 import openaiService from './services/openai';
 import { insertSavedRecipeSchema } from '@shared/schema';
 import { foodDatabaseService, generateOpenAIFoodRecommendations } from './services/foodDatabaseService';
 import badgeService from './services/badgeService';
+import { notificationService } from './services/notificationService';
 import patientAlertService from './services/patientAlertService';
+import { analyzeCPDAlignment } from './mcp/tools/journaling';
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Public endpoint for shared logo - accessible by other applications
@@ -294,6 +317,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: emergencyResult.alertMessage,
           isEmergency: true,
           emergencyType: emergencyResult.emergencyType,
+          severity: emergencyResult.severity,
           provider: 'emergency_system',
           timestamp: new Date().toISOString()
         });
@@ -329,6 +353,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Doctor Reports (PPR) Routes
   app.use("/api/doctor/reports", doctorReportsRouter);
+
+  // Emergency Alert Acknowledgement & Escalation Routes
+  app.use("/api/emergency-alerts", emergencyAlertsRouter);
+
+  // Scheduled Job Monitoring Routes (admin)
+  app.use("/api/admin/jobs", scheduledJobsRouter);
+
+  // Badge Rule Configuration Routes (admin)
+  app.use("/api/admin/badge-rules", badgeRulesRouter);
+
+  // Care Plan Directive Import Routes (FHIR / CSV)
+  app.use("/api/care-plan-directives/import", cpdImportRouter);
+
+  // Medication Schedule & Dose Logging Routes
+  app.use("/api/medications", medicationsRouter);
+
+  // Keep Going Session Tracking & Analytics Routes
+  app.use("/api/keep-going", keepGoingRouter);
+
+  // Offline Outbox Batch Sync Routes
+  app.use("/api/sync", syncRouter);
+
+  // Doctor Population Analytics Routes
+  app.use("/api/doctor/population", populationAnalyticsRouter);
+
+  // Practice Tenancy Routes
+  app.use("/api/practices", practicesRouter);
+
+  // Patient Data Rights Routes (export, deletion requests)
+  app.use("/api/patient-data", patientDataRightsRouter);
+
+  // Audit Log Chain Verification & Export Routes
+  app.use("/api/admin/audit-log", auditLogRouter);
+
+  // Notification Routes (in-app inbox, preferences, outbox, delivery receipts)
+  app.use("/api/notifications", notificationsRouter);
+
+  // Secure Messaging Routes (doctor-patient threads, attachments, response-time settings)
+  app.use("/api/secure-messages", secureMessagesRouter);
+
+  // MCP Routes (JSON-RPC over Streamable HTTP at /api/mcp, server status)
+  app.use(mcpRouter);
+
+  // MCP Prompt Routes (admin: versioned prompt templates)
+  app.use("/api/admin/mcp-prompts", mcpPromptsRouter);
+
+  // MCP Trace Routes (admin: redacted request/response traces, replay)
+  app.use("/api/admin/mcp-traces", mcpTracesRouter);
   
   // Email Authentication Routes
   app.use("/api/email-auth", emailAuthRoutes);
@@ -745,7 +817,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/care-plan-directives", async (req, res) => {
     try {
       const directiveData = insertCarePlanDirectiveSchema.parse(req.body);
-      const newDirective = await storage.createCarePlanDirective(directiveData);
+      const session = req.session as any;
+      const newDirective = await storage.createCarePlanDirective(directiveData, {
+        authorId: session?.userId ?? null,
+        reason: typeof req.body.changeReason === 'string' ? req.body.changeReason : null
+      });
+      notificationService.notify(newDirective.userId, 'new_care_plan_directive', { category: newDirective.category.toLowerCase() })
+        .catch(error => console.error('Failed to notify patient of new care plan directive:', error));
       return res.status(201).json(newDirective);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -764,9 +842,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid directive ID format" });
       }
       
-      // Updates should be a subset of the insertable fields
+      // Updates should be a subset of the insertable fields; the previous text is kept as a version
       const updates = insertCarePlanDirectiveSchema.partial().parse(req.body);
-      const updatedDirective = await storage.updateCarePlanDirective(id, updates);
+      const session = req.session as any;
+      const updatedDirective = await storage.updateCarePlanDirective(id, updates, {
+        authorId: session?.userId ?? null,
+        reason: typeof req.body.changeReason === 'string' ? req.body.changeReason : null
+      });
       
       if (!updatedDirective) {
         return res.status(404).json({ message: "Care plan directive not found" });
@@ -790,7 +872,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid directive ID format" });
       }
       
-      const deactivatedDirective = await storage.deactivateCarePlanDirective(id);
+      const session = req.session as any;
+      const deactivatedDirective = await storage.deactivateCarePlanDirective(id, {
+        authorId: session?.userId ?? null,
+        reason: typeof req.body?.changeReason === 'string' ? req.body.changeReason : null
+      });
       
       if (!deactivatedDirective) {
         return res.status(404).json({ message: "Care plan directive not found" });
@@ -801,6 +887,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(500).json({ message: "Failed to deactivate care plan directive" });
     }
   });
+
+  // Directive history names who made each change and why; only the patient, their doctor and admins see it
+  const cpdHistoryAuth = securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']);
+
+  // Version timeline of a care plan directive, with text diffs between versions
+  app.get("/api/care-plan-directives/:id/versions", cpdHistoryAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid directive ID format" });
+      }
+      
+      const directive = await storage.getCarePlanDirectiveById(id);
+      
+      if (!directive) {
+        return res.status(404).json({ message: "Care plan directive not found" });
+      }
+      
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, directive.userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const timeline = await cpdVersionService.getDirectiveTimeline(id);
+      
+      if (!timeline) {
+        return res.status(404).json({ message: "Care plan directive not found" });
+      }
+      
+      return res.json(timeline);
+    } catch (error) {
+      console.error("Error retrieving care plan directive versions:", error);
+      return res.status(500).json({ message: "Failed to retrieve care plan directive versions" });
+    }
+  });
+
+  // Directive version timeline for a user by category (?category=diet), diffed within each category
+  app.get("/api/users/:userId/care-plan-directives/versions", cpdHistoryAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const category = req.query.category;
+      
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID format" });
+      }
+      if (category !== undefined && (typeof category !== 'string' || !isCpdCategory(category))) {
+        return res.status(400).json({ message: "Invalid category" });
+      }
+      
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const timeline = await cpdVersionService.getPatientTimeline(userId, category);
+      return res.json(timeline);
+    } catch (error) {
+      console.error("Error retrieving care plan directive versions:", error);
+      return res.status(500).json({ message: "Failed to retrieve care plan directive versions" });
+    }
+  });
   
   // ===== FEATURE USAGE =====
   
@@ -832,16 +978,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid user ID format" });
       }
       
-      // Get Keep Going feature usage data
-      const keepGoingUsage = await storage.getFeatureUsage(userId, 'KeepGoing');
-      
-      // Calculate stats for PPR reporting
+      // Calculate stats for PPR reporting from the Keep Going session log
+      const usage = await KeepGoingTracker.getUsageStats(userId);
       const stats = {
-        totalUsage: keepGoingUsage.length > 0 ? keepGoingUsage[0].usageCount : 0,
-        lastUsed: keepGoingUsage.length > 0 ? keepGoingUsage[0].lastUsed : null,
-        // Additional stats can be calculated here
-        averagePerWeek: 0, // This would need historical data
-        usageTrend: 'stable' // This would need trend analysis
+        totalUsage: usage.totalUsage,
+        lastUsed: usage.lastUsedDate,
+        averagePerWeek: usage.averagePerWeek,
+        weeklyTrend: usage.weeklyTrend,
+        usageTrend: usage.weeklyTrend > 10 ? 'increasing' : usage.weeklyTrend < -10 ? 'decreasing' : 'stable'
       };
       
       return res.json(stats);
@@ -1264,6 +1408,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===== JOURNAL ENTRIES =====
+  
+  // The patient, their doctor and admins can read a journal; only the patient writes in it
+  const journalReadAuth = securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']);
+  const journalWriteAuth = securityManager.createAuthMiddleware(['patient']);
+  
+  // Get journal entries for a user (optional ?category= and ?since=YYYY-MM-DD filters)
+  app.get("/api/users/:userId/journal-entries", journalReadAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const since = req.query.since ? new Date(req.query.since as string) : undefined;
+      
+      if (since && isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Invalid since date" });
+      }
+      
+      const entries = await storage.getJournalEntries(userId, {
+        category: req.query.category as string | undefined,
+        since
+      });
+      
+      return res.json(entries);
+    } catch (error) {
+      console.error("Error fetching journal entries:", error);
+      return res.status(500).json({ message: "Failed to fetch journal entries" });
+    }
+  });
+  
+  // Create a journal entry
+  app.post("/api/users/:userId/journal-entries", journalWriteAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const entryData = insertJournalEntrySchema.parse({
+        ...req.body,
+        userId
+      });
+      
+      // Tag the entry with the CPDs it mentions so journaling analysis can use it later
+      const activeDirectives = await storage.getActiveCarePlanDirectives(userId);
+      const entry = await storage.createJournalEntry({
+        ...entryData,
+        cpdAlignment: await analyzeCPDAlignment(entryData.entryText, activeDirectives)
+      });
+      
+      return res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error creating journal entry:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid journal entry data", 
+          errors: error.errors 
+        });
+      }
+      
+      return res.status(500).json({ message: "Failed to create journal entry" });
+    }
+  });
+  
+  // Edit a journal entry
+  app.patch("/api/journal-entries/:id", journalWriteAuth, async (req, res) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "Invalid journal entry ID" });
+      }
+      
+      const existingEntry = await storage.getJournalEntryById(entryId);
+      
+      if (!existingEntry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, existingEntry.userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Only the text, category, mood and date of an entry can be edited
+      const updates = insertJournalEntrySchema
+        .pick({ entryText: true, category: true, mood: true, entryDate: true })
+        .partial()
+        .parse(req.body);
+      
+      if (updates.entryText) {
+        const activeDirectives = await storage.getActiveCarePlanDirectives(existingEntry.userId);
+        Object.assign(updates, { cpdAlignment: await analyzeCPDAlignment(updates.entryText, activeDirectives) });
+      }
+      
+      const updatedEntry = await storage.updateJournalEntry(entryId, updates);
+      return res.json(updatedEntry);
+    } catch (error) {
+      console.error("Error updating journal entry:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid update data", errors: error.errors });
+      }
+      
+      return res.status(500).json({ message: "Failed to update journal entry" });
+    }
+  });
+  
+  // Delete a journal entry
+  app.delete("/api/journal-entries/:id", journalWriteAuth, async (req, res) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "Invalid journal entry ID" });
+      }
+      
+      const existingEntry = await storage.getJournalEntryById(entryId);
+      
+      if (!existingEntry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, existingEntry.userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const deleted = await storage.deleteJournalEntry(entryId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      
+      return res.json({ message: "Journal entry deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting journal entry:", error);
+      return res.status(500).json({ message: "Failed to delete journal entry" });
+    }
+  });
+
   // ===== CONTENT SERVICES (TAVILY INTEGRATION) =====
 
   // Health content search via Tavily (general search)
@@ -1327,16 +1623,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Validate the results with OpenAI
-      const validatedResults = await Promise.all(
-        searchResults.results.map(async (result: TavilySearchResult) => {
-          // const validation: { isValid: true, score: 1.0, reasons: [] } = await validateContent(result, userId);
-          return {
-            ...result,
-            validation: { isValid: true, score: 1.0, reasons: [] }
-          };
-        })
-      );
+      // Check the results against the patient's care plan directives
+      const validations = await validateContents(searchResults.results, userId, { contentType });
+      const validatedResults = searchResults.results.map((result: TavilySearchResult, index: number) => ({
+        ...result,
+        validation: validations[index]
+      }));
       
       // Extract important keywords to add as user preferences
       if (userId) {
@@ -1457,7 +1749,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId
       };
       
-      const validatedData = insertUserFavoriteSchema.parse(favoriteData);
+      const parsedData = insertUserFavoriteSchema.parse(favoriteData);
+      
+      // Score the favourite against the patient's CPDs rather than trusting the client
+      const validation = await validateContent(parsedData, userId, { contentType: parsedData.contentType });
+      const validatedData = {
+        ...parsedData,
+        validationScore: validation.score,
+        isValid: validation.isValid
+      };
       const favorite = await storage.saveUserFavorite(validatedData);
       
       // Record this interaction
@@ -1468,7 +1768,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         interactionType: "favorite"
       });
       
-      return res.status(201).json(favorite);
+      return res.status(201).json({ ...favorite, validation });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid favorite data", errors: error.errors });
@@ -1585,9 +1885,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
 
       
-      // Return basic results without analysis to speed up initial response
+      // Return basic results without analysis to speed up initial response;
+      // the CPD check is rules-only so it adds no API calls
+      const validations = await validateContents(recipeResults.results, userId, { contentType: 'diet_recipe' });
+      
       return res.json({ 
-        recipes: recipeResults.results,
+        recipes: recipeResults.results.map((recipe, index) => ({ ...recipe, validation: validations[index] })),
         query: recipeResults.query,
         answer: recipeResults.answer
       });
@@ -1854,6 +2157,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Look up a scanned barcode in the product catalogue with CPD-aware alerts
+  // (the alerts reveal the patient's diet directives, so only those who may see them can ask)
+  app.get("/api/food-database/barcode/:userId/:barcode", securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, userId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const activeDirectives = await storage.getActiveCarePlanDirectives(userId);
+      const dietCPDs = activeDirectives.filter(cpd =>
+        cpd.category.toLowerCase().includes('diet') ||
+        cpd.category.toLowerCase().includes('nutrition')
+      );
+
+      const result = await productCatalogueService.scanBarcode(req.params.barcode, dietCPDs);
+
+      return res.json(result);
+    } catch (error) {
+      console.error("[Product Catalogue API] Barcode lookup error:", error);
+      return res.status(500).json({ message: "Failed to look up barcode" });
+    }
+  });
+
   // Get user's favorite videos specifically for exercise-wellness
   app.get("/api/users/:userId/favorite-videos/exercise-wellness", async (req, res) => {
     try {
@@ -1921,7 +2253,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .returning();
       
-      return res.status(201).json(savedVideo);
+      const validation = await validateContent(savedVideo, userId);
+      
+      return res.status(201).json({ ...savedVideo, validation });
     } catch (error) {
       console.error('Error saving favorite video:', error);
       return res.status(500).json({ message: "Failed to save favorite video" });
@@ -1967,7 +2301,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
         .returning();
       
-      return res.status(201).json(savedVideo);
+      // Let the client warn when a saved workout conflicts with the patient's exercise CPD
+      const validation = await validateContent(savedVideo, userId, { contentType: 'exercise_video' });
+      
+      return res.status(201).json({ ...savedVideo, validation });
     } catch (error) {
       console.error('Error saving exercise-wellness favorite video:', error);
       return res.status(500).json({ message: "Failed to save favorite video" });
@@ -2095,8 +2432,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Selected ${videos.length} best cooking videos after combining results`);
       
+      const topVideos = videos.slice(0, 10); // Return top 10 results like E&W
+      const validations = await validateContents(topVideos, userId, { contentType: 'cooking_video' });
+      
       return res.json({ 
-        videos: videos.slice(0, 10), // Return top 10 results like E&W
+        videos: topVideos.map((video, index) => ({ ...video, validation: validations[index] })),
         query: videoResults.query,
         answer: videoResults.answer
       });
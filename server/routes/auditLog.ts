@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { auditChainService } from '../services/auditChainService';
+import { securityManager } from '../securityManager';
+import { auditLogger } from '../auditLogger';
+
+const router = Router();
+
+// Largest date range one request may verify or export
+const MAX_RANGE_DAYS = 366;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const rangeSchema = z.object({
+  from: isoDate,
+  to: isoDate,
+  patientId: z.coerce.number().int().positive().optional()
+}).refine(range => range.from <= range.to, { message: 'from must not be after to', path: ['to'] })
+  .refine(range => Date.parse(range.to) - Date.parse(range.from) < MAX_RANGE_DAYS * 24 * 60 * 60 * 1000, {
+    message: `Range must be at most ${MAX_RANGE_DAYS} days`,
+    path: ['to']
+  });
+
+// GET /api/admin/audit-log/verify?from=YYYY-MM-DD&to=YYYY-MM-DD - Walk the hash chain and anchors for a UTC date range
+router.get('/verify', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const { from, to } = rangeSchema.parse(req.query);
+    const report = await auditChainService.verify(from, to);
+    res.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid date range', details: error.errors });
+    }
+    console.error('Error verifying audit log:', error);
+    res.status(500).json({ error: 'Failed to verify audit log' });
+  }
+});
+
+// GET /api/admin/audit-log/export?from=&to=&patientId= - Verified audit slice (JSON download) for auditors
+router.get('/export', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const { from, to, patientId } = rangeSchema.parse(req.query);
+    const slice = await auditChainService.exportSlice(from, to, patientId);
+
+    await auditLogger.logSecurityEvent({
+      eventType: 'ADMIN_ACCESS',
+      severity: 'MEDIUM',
+      userId: req.session.userId!,
+      targetUserId: patientId,
+      ipAddress: req.ip || 'unknown',
+      userAgent: req.get('User-Agent') || 'unknown',
+      details: {
+        action: 'audit_log_export',
+        from,
+        to,
+        entries: slice.entries.length,
+        chainValid: slice.verification.valid
+      },
+      complianceStandards: ['HIPAA', 'TGA_SaMD', 'APP']
+    });
+
+    const filename = `kgc-audit-${from}-to-${to}${patientId ? `-patient-${patientId}` : ''}.json`;
+    res.type('application/json').attachment(filename).send(JSON.stringify(slice, null, 2));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid export filters', details: error.errors });
+    }
+    console.error('Error exporting audit log:', error);
+    res.status(500).json({ error: 'Failed to export audit log' });
+  }
+});
+
+export default router;
@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { insertBadgeRuleSchema } from '@shared/schema';
+import { badgeRuleService } from '../services/badgeRuleEngine';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const backfillSchema = z.object({
+  programKey: z.string().min(1).optional(),
+  patientId: z.number().int().positive().optional(),
+  dryRun: z.boolean().default(true)
+});
+
+// GET /api/admin/badge-rules - Stored badge rules, optionally for one program (?program=cardiac-rehab)
+router.get('/', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const programKey = typeof req.query.program === 'string' ? req.query.program : undefined;
+    const rules = await badgeRuleService.listRules(programKey);
+    res.json(rules);
+  } catch (error) {
+    console.error('Error fetching badge rules:', error);
+    res.status(500).json({ error: 'Failed to fetch badge rules' });
+  }
+});
+
+// POST /api/admin/badge-rules - Create a badge rule
+router.post('/', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const rule = insertBadgeRuleSchema.parse(req.body);
+    const created = await badgeRuleService.createRule(rule, req.session.userId!);
+    res.status(201).json(created);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid badge rule', details: error.errors });
+    }
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A rule for this program, metric and level already exists' });
+    }
+    console.error('Error creating badge rule:', error);
+    res.status(500).json({ error: 'Failed to create badge rule' });
+  }
+});
+
+// PUT /api/admin/badge-rules/:ruleId - Update a badge rule (run a backfill afterwards to apply it to history)
+router.put('/:ruleId', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const ruleId = parseInt(req.params.ruleId);
+    if (isNaN(ruleId)) {
+      return res.status(400).json({ error: 'Invalid rule ID' });
+    }
+
+    const updates = insertBadgeRuleSchema.partial().parse(req.body);
+    const updated = await badgeRuleService.updateRule(ruleId, updates, req.session.userId!);
+    if (!updated) {
+      return res.status(404).json({ error: 'Badge rule not found' });
+    }
+
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid badge rule', details: error.errors });
+    }
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'A rule for this program, metric and level already exists' });
+    }
+    console.error('Error updating badge rule:', error);
+    res.status(500).json({ error: 'Failed to update badge rule' });
+  }
+});
+
+// DELETE /api/admin/badge-rules/:ruleId - Delete a badge rule
+router.delete('/:ruleId', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const ruleId = parseInt(req.params.ruleId);
+    if (isNaN(ruleId)) {
+      return res.status(400).json({ error: 'Invalid rule ID' });
+    }
+
+    const deleted = await badgeRuleService.deleteRule(ruleId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Badge rule not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting badge rule:', error);
+    res.status(500).json({ error: 'Failed to delete badge rule' });
+  }
+});
+
+// POST /api/admin/badge-rules/backfill - Re-evaluate historical scores against the current rules (dry run by default)
+router.post('/backfill', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const options = backfillSchema.parse(req.body ?? {});
+    const result = await badgeRuleService.backfillBadges(options);
+    res.json({ dryRun: options.dryRun, ...result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid backfill request', details: error.errors });
+    }
+    console.error('Error backfilling badges:', error);
+    res.status(500).json({ error: 'Failed to backfill badges' });
+  }
+});
+
+export default router;
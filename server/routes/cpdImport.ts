@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { cpdImportService, CPD_CSV_TEMPLATE } from '../services/cpdImportService';
+import { isPatientOfDoctor } from '../services/doctorPatientAccess';
+import { notificationService } from '../services/notificationService';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const importSchema = z.object({
+  patientId: z.number().int().positive(),
+  format: z.enum(['fhir', 'csv']),
+  // CSV text, or a FHIR Bundle/CarePlan/Goal as JSON or a JSON string
+  content: z.union([z.string().min(1), z.record(z.unknown())])
+});
+
+const applySchema = importSchema.extend({
+  // activeDirectiveIds from the preview; the import is rejected if they no longer match
+  expectedActiveDirectiveIds: z.array(z.number().int()).optional()
+});
+
+// GET /api/care-plan-directives/import/template - CSV template for CPD imports
+router.get('/template', securityManager.createAuthMiddleware(['doctor']), (req, res) => {
+  res.type('text/csv')
+    .attachment('cpd-import-template.csv')
+    .send(CPD_CSV_TEMPLATE);
+});
+
+// POST /api/care-plan-directives/import/preview - Diff an import against the patient's active CPDs
+router.post('/preview', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const { patientId, format, content } = importSchema.parse(req.body);
+
+    if (!(await isPatientOfDoctor(req.session.userId!, patientId))) {
+      return res.status(403).json({ error: 'Patient is not under your care' });
+    }
+
+    const preview = await cpdImportService.preview(patientId, format, content);
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid import request', details: error.errors });
+    }
+    console.error('Error previewing CPD import:', error);
+    res.status(500).json({ error: 'Failed to preview care plan directive import' });
+  }
+});
+
+// POST /api/care-plan-directives/import - Apply an import, deactivating superseded CPDs
+router.post('/', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const { patientId, format, content, expectedActiveDirectiveIds } = applySchema.parse(req.body);
+    const doctorId = req.session.userId!;
+
+    if (!(await isPatientOfDoctor(doctorId, patientId))) {
+      return res.status(403).json({ error: 'Patient is not under your care' });
+    }
+
+    const preview = await cpdImportService.preview(patientId, format, content);
+    if (preview.issues.length > 0) {
+      return res.status(400).json({ error: 'Import has validation issues', issues: preview.issues });
+    }
+    if (expectedActiveDirectiveIds && !cpdImportService.isCurrent(preview, expectedActiveDirectiveIds)) {
+      return res.status(409).json({ error: "The patient's care plan directives changed since the preview", preview });
+    }
+
+    const result = await cpdImportService.apply(preview, doctorId);
+    if (result.created.length > 0) {
+      const categories = Array.from(new Set(result.created.map(cpd => cpd.category.toLowerCase())));
+      notificationService.notify(patientId, 'new_care_plan_directive', { category: categories.join(', ') })
+        .catch(error => console.error('Failed to notify patient of imported care plan directives:', error));
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid import request', details: error.errors });
+    }
+    console.error('Error importing CPDs:', error);
+    res.status(500).json({ error: 'Failed to import care plan directives' });
+  }
+});
+
+export default router;
@@ -6,6 +6,11 @@ import { eq, and, desc, gte, lte } from 'drizzle-orm';
 import * as enhancedPprAnalysisService from '../ai/enhancedPprAnalysisService';
 import { securityManager } from '../securityManager';
 import { sql } from 'drizzle-orm';
+import { fhirExportService } from '../services/fhirExportService';
+import { isPatientOfDoctor } from '../services/doctorPatientAccess';
+import { medicationService } from '../services/medicationService';
+import KeepGoingTracker from '../services/keepGoingTracker';
+import { notificationService } from '../services/notificationService';
 
 const router = Router();
 
@@ -175,6 +180,15 @@ router.post('/', securityManager.createAuthMiddleware(['doctor', 'admin']), asyn
     // Generate Health Snapshots data for charts
     const healthSnapshotsData = await generateHealthSnapshotsData(patientId, startDate, endDate);
 
+    // Logged-dose adherence to show beside the medication self-score
+    const medicationAdherence = await medicationService.getPprMedicationSummary(patientId, startDate, endDate, avgMedicationScore);
+
+    // Keep Going sessions in the period, with time-of-day and after-low-score patterns
+    const [keepGoingUsageCount, keepGoingAnalytics] = await Promise.all([
+      KeepGoingTracker.countSessions(patientId, startDate, endDate),
+      KeepGoingTracker.getUsagePatterns(patientId, startDate, endDate)
+    ]);
+
     // Create PPR record
     const [newReport] = await db
       .insert(patientProgressReports)
@@ -186,7 +200,7 @@ router.post('/', securityManager.createAuthMiddleware(['doctor', 'admin']), asyn
         avgMedicationScore,
         avgDietScore,
         avgExerciseScore,
-        keepGoingButtonUsageCount: enhancedAnalysis.keepGoingUsage || 0,
+        keepGoingButtonUsageCount: keepGoingUsageCount,
         chatSentimentScore: enhancedAnalysis.sentimentScore || 0,
         chatSentimentAnalysis: enhancedAnalysis.sentimentAnalysis || '',
         featureUsageSummary: enhancedAnalysis.featureUsage || {},
@@ -194,6 +208,8 @@ router.post('/', securityManager.createAuthMiddleware(['doctor', 'admin']), asyn
         newCpdSuggestions: healthSnapshotsData,
         doctorNotes: doctorNotes || '',
         scorePatterns: enhancedAnalysis.scorePatterns || {},
+        medicationAdherence,
+        keepGoingAnalytics,
         shared: false
       })
       .returning();
@@ -251,6 +267,62 @@ router.get('/patient/:patientId', securityManager.createAuthMiddleware(['doctor'
   }
 });
 
+// GET /api/doctor/reports/fhir/patient/:patientId - FHIR R4 Bundle of a patient's scores, CPDs and PPRs
+router.get('/fhir/patient/:patientId', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    const doctorId = req.session.userId!;
+
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+
+    if (!(await isPatientOfDoctor(doctorId, patientId))) {
+      return res.status(403).json({ error: 'Patient is not under your care' });
+    }
+
+    const bundle = await fhirExportService.exportPatientBundle(patientId, {
+      anonymised: req.query.anonymised === 'true'
+    });
+
+    res.type('application/fhir+json').send(JSON.stringify(bundle));
+
+  } catch (error) {
+    console.error('Error exporting FHIR bundle:', error);
+    res.status(500).json({ error: 'Failed to export FHIR bundle' });
+  }
+});
+
+// GET /api/doctor/reports/fhir/bulk - Anonymised FHIR Bundles for all of the doctor's patients (NDJSON)
+router.get('/fhir/bulk', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  const doctorId = req.session.userId!;
+  let exported = 0;
+
+  try {
+    for await (const bundle of fhirExportService.exportDoctorPatients(doctorId, { anonymised: true })) {
+      if (exported === 0) {
+        res.type('application/fhir+ndjson');
+      }
+      res.write(JSON.stringify(bundle) + '\n');
+      exported++;
+    }
+
+    if (exported === 0) {
+      res.type('application/fhir+ndjson');
+    }
+    res.end();
+
+  } catch (error) {
+    console.error('Error exporting bulk FHIR bundles:', error);
+    if (exported === 0) {
+      res.status(500).json({ error: 'Failed to export FHIR bundles' });
+    } else {
+      // Headers already sent - abort so the client sees an incomplete export
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+});
+
 // PATCH /api/doctor/reports/:reportId/share - Share/unshare a specific report
 router.patch('/:reportId/share', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
   try {
@@ -265,6 +337,15 @@ router.patch('/:reportId/share', securityManager.createAuthMiddleware(['doctor',
       return res.status(400).json({ error: 'Shared must be a boolean value' });
     }
 
+    const [existingReport] = await db
+      .select({ shared: patientProgressReports.shared })
+      .from(patientProgressReports)
+      .where(eq(patientProgressReports.id, reportId));
+
+    if (!existingReport) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
     // Update the report's shared status
     const [updatedReport] = await db
       .update(patientProgressReports)
@@ -276,6 +357,13 @@ router.patch('/:reportId/share', securityManager.createAuthMiddleware(['doctor',
       return res.status(404).json({ error: 'Report not found' });
     }
 
+    // Tell the patient only when the report is newly shared
+    if (shared && !existingReport.shared) {
+      const period = `${updatedReport.reportPeriodStartDate.toLocaleDateString('en-AU')} - ${updatedReport.reportPeriodEndDate.toLocaleDateString('en-AU')}`;
+      notificationService.notify(updatedReport.patientId, 'ppr_shared', { period })
+        .catch(error => console.error('Failed to notify patient of shared report:', error));
+    }
+
     res.json({ 
       success: true, 
       report: updatedReport,
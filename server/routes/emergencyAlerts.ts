@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { insertEmergencyEscalationPolicySchema } from '@shared/schema';
+import { emergencyEscalationService } from '../services/emergencyEscalationService';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const acknowledgeSchema = z.object({
+  notes: z.string().max(1000).optional()
+});
+
+// GET /api/emergency-alerts - Unacknowledged alerts for the doctor's patients (all alerts for admins)
+router.get('/', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
+  try {
+    const alerts = await emergencyEscalationService.getOpenAlerts(req.session.userId!, req.session.userRole!);
+    res.json(alerts);
+  } catch (error) {
+    console.error('Error fetching emergency alerts:', error);
+    res.status(500).json({ error: 'Failed to fetch emergency alerts' });
+  }
+});
+
+// GET /api/emergency-alerts/escalation-policy - The admin's practice escalation policy
+router.get('/escalation-policy', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const policy = await emergencyEscalationService.getPolicyForPracticeAdmin(req.session.userId!);
+    res.json(policy);
+  } catch (error) {
+    console.error('Error fetching escalation policy:', error);
+    res.status(500).json({ error: 'Failed to fetch escalation policy' });
+  }
+});
+
+// PUT /api/emergency-alerts/escalation-policy - Create or update the admin's practice escalation policy
+router.put('/escalation-policy', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const { practiceAdminId, ...updates } = insertEmergencyEscalationPolicySchema.parse(req.body);
+    const policy = await emergencyEscalationService.upsertPracticePolicy(req.session.userId!, updates);
+    res.json(policy);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid escalation policy', details: error.errors });
+    }
+    console.error('Error updating escalation policy:', error);
+    res.status(500).json({ error: 'Failed to update escalation policy' });
+  }
+});
+
+// GET /api/emergency-alerts/:alertId/timeline - Audit timeline of triage, notifications and acknowledgement
+router.get('/:alertId/timeline', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
+  try {
+    const alertId = parseInt(req.params.alertId);
+    if (isNaN(alertId)) {
+      return res.status(400).json({ error: 'Invalid alert ID' });
+    }
+
+    const alert = await emergencyEscalationService.getAlertById(alertId);
+    if (!alert) {
+      return res.status(404).json({ error: 'Emergency alert not found' });
+    }
+
+    if (!await emergencyEscalationService.canAccessAlert(alert, req.session.userId!, req.session.userRole!)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const timeline = await emergencyEscalationService.getAlertTimeline(alertId);
+    res.json({ alert, timeline });
+  } catch (error) {
+    console.error('Error fetching emergency alert timeline:', error);
+    res.status(500).json({ error: 'Failed to fetch emergency alert timeline' });
+  }
+});
+
+// POST /api/emergency-alerts/:alertId/acknowledge - Stop escalation for an alert
+router.post('/:alertId/acknowledge', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
+  try {
+    const alertId = parseInt(req.params.alertId);
+    if (isNaN(alertId)) {
+      return res.status(400).json({ error: 'Invalid alert ID' });
+    }
+
+    const { notes } = acknowledgeSchema.parse(req.body ?? {});
+
+    const alert = await emergencyEscalationService.getAlertById(alertId);
+    if (!alert) {
+      return res.status(404).json({ error: 'Emergency alert not found' });
+    }
+
+    if (!await emergencyEscalationService.canAccessAlert(alert, req.session.userId!, req.session.userRole!)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const acknowledged = await emergencyEscalationService.acknowledgeAlert(alertId, req.session.userId!, notes);
+    if (!acknowledged) {
+      return res.status(409).json({ error: 'Emergency alert has already been acknowledged' });
+    }
+
+    res.json({ success: true, alert: acknowledged });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid acknowledgement', details: error.errors });
+    }
+    console.error('Error acknowledging emergency alert:', error);
+    res.status(500).json({ error: 'Failed to acknowledge emergency alert' });
+  }
+});
+
+export default router;
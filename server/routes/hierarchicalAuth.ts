@@ -7,6 +7,7 @@ import { Router } from 'express';
 import { hierarchicalAuthService } from '../services/hierarchicalAuthService';
 import { userManagementService } from '../services/userManagementService';
 import { z } from 'zod';
+import { userRoleNames } from '@shared/schema';
 
 const router = Router();
 
@@ -24,7 +25,8 @@ const createUserSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   email: z.string().email('Valid email is required'),
   phoneNumber: z.string().min(10, 'Phone number must be at least 10 digits'),
-  role: z.enum(['admin', 'doctor', 'patient']),
+  role: z.enum(userRoleNames),
+  practiceId: z.number().int().positive().optional(),
   doctorLetter: z.string().optional(),
   patientNumber: z.number().min(1).max(5).optional(),
 });
@@ -211,10 +213,17 @@ router.post('/create-user', async (req, res) => {
     const userData = createUserSchema.parse(req.body);
 
     // Validate permissions
-    if (req.session.userRole === 'admin' && userData.role !== 'doctor') {
+    if (req.session.userRole === 'admin' && userData.role !== 'doctor' && userData.role !== 'practice_manager') {
       return res.status(403).json({
         success: false,
-        message: 'Admin can only create doctor accounts'
+        message: 'Admin can only create doctor and practice manager accounts'
+      });
+    }
+
+    if (req.session.userRole === 'practice_manager' && userData.role !== 'doctor') {
+      return res.status(403).json({
+        success: false,
+        message: 'Practice managers can only create doctor accounts'
       });
     }
 
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { startKeepGoingEventSchema, endKeepGoingEventSchema } from '@shared/schema';
+import KeepGoingTracker from '../services/keepGoingTracker';
+import { canAccessPatientRecord } from '../services/doctorPatientAccess';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+// POST /api/keep-going/sessions - Start a Keep Going session ({ deviceType, motivationalImageShown })
+router.post('/sessions', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const details = startKeepGoingEventSchema.parse(req.body ?? {});
+    const event = await KeepGoingTracker.startSession(req.session.userId!, details);
+    res.status(201).json(event);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid Keep Going session', details: error.errors });
+    }
+    console.error('Error starting Keep Going session:', error);
+    res.status(500).json({ error: 'Failed to start Keep Going session' });
+  }
+});
+
+// PUT /api/keep-going/sessions/:eventId/end - End a session ({ videoPlayed, motivationalImageShown? })
+router.put('/sessions/:eventId/end', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.eventId);
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+
+    const details = endKeepGoingEventSchema.parse(req.body);
+    const event = await KeepGoingTracker.endSession(req.session.userId!, eventId, details);
+    if (!event) {
+      return res.status(404).json({ error: 'Open Keep Going session not found' });
+    }
+
+    res.json(event);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid Keep Going session', details: error.errors });
+    }
+    console.error('Error ending Keep Going session:', error);
+    res.status(500).json({ error: 'Failed to end Keep Going session' });
+  }
+});
+
+// GET /api/keep-going/patient/:patientId/analytics - Usage stats and patterns (?days=30)
+router.get('/patient/:patientId/analytics', securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']), async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    const days = req.query.days ? parseInt(req.query.days as string) : 30;
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+    if (isNaN(days) || days < 1 || days > 365) {
+      return res.status(400).json({ error: 'days must be between 1 and 365' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+    const [stats, patterns, recentSessions] = await Promise.all([
+      KeepGoingTracker.getUsageStats(patientId),
+      KeepGoingTracker.getUsagePatterns(patientId, startDate, endDate),
+      KeepGoingTracker.getUsageHistory(patientId, 20)
+    ]);
+
+    res.json({ days, stats, patterns, recentSessions });
+  } catch (error) {
+    console.error('Error fetching Keep Going analytics:', error);
+    res.status(500).json({ error: 'Failed to fetch Keep Going analytics' });
+  }
+});
+
+export default router;
@@ -1,95 +1,63 @@
 /**
  * MCP Routes - Model Context Protocol endpoints
- * 
- * This file handles all MCP communication between the client-side host agent
- * and the server-side KGC tools for the patient dashboard experience.
+ *
+ * Serves the KGC MCP server over the MCP Streamable HTTP transport at /api/mcp.
+ * Callers act as the signed-in user only; the transport handles sessions and framing.
  */
 
 import { Router, Request, Response } from 'express';
-import { kgcMCPServer, MCPRequest, MCPContext } from '../mcp/core/MCPServer';
-import { storage } from '../storage';
+import { kgcMCPServer, SERVER_INFO, SUPPORTED_PROTOCOL_VERSIONS } from '../mcp/core/MCPServer';
+import { toMCPUserRole } from '../mcp/core/context';
+import { handleMCPPost, handleMCPDelete, getActiveSessionCount } from '../mcp/transport/streamableHttp';
 import { securityManager } from '../securityManager';
 
 const router = Router();
 
-// Helper to extract MCP context from request
-async function buildMCPContext(req: Request, userId: number): Promise<MCPContext> {
-  const session = req.session as any;
-  
-  // Get user's care plan directives
-  const carePlanDirectives = await storage.getActiveCarePlanDirectives(userId);
-  
-  // Get user's health metrics for context
-  const healthMetrics = await storage.getLatestHealthMetricsForUser(userId);
-  
-  return {
-    userId,
-    userRole: session.userRole || 'patient',
-    carePlanDirectives: carePlanDirectives || [],
-    healthMetrics,
-    sessionId: req.sessionID,
-    ipAddress: securityManager.getClientIP(req),
-    userAgent: req.get('User-Agent') || 'unknown'
-  };
-}
+const mcpRoles = ['patient', 'doctor', 'admin'];
 
-/**
- * Main MCP endpoint - handles all MCP protocol requests
- */
-router.post('/api/mcp', async (req: Request, res: Response) => {
+// POST /api/mcp - JSON-RPC messages from an MCP client (JSON or SSE response)
+router.post('/api/mcp', securityManager.createAuthMiddleware(mcpRoles), async (req: Request, res: Response) => {
   try {
-    const { request, userId } = req.body;
-    
-    if (!request || !userId) {
-      return res.status(400).json({
-        error: 'Missing required parameters: request and userId'
-      });
-    }
-    
-    // Validate MCP request structure
-    if (!request.id || !request.method) {
-      return res.status(400).json({
-        error: 'Invalid MCP request: missing id or method'
-      });
-    }
-    
-    // Build MCP context
-    const context = await buildMCPContext(req, userId);
-    
-    // Handle the MCP request
-    const response = await kgcMCPServer.handleRequest(request as MCPRequest, context);
-    
-    res.json(response);
-    
+    await handleMCPPost(req, res, {
+      userId: req.session.userId!,
+      userRole: toMCPUserRole(req.session.userRole),
+      ipAddress: securityManager.getClientIP(req),
+      userAgent: req.get('User-Agent') || 'unknown'
+    });
   } catch (error) {
     console.error('[MCP Route] Error processing request:', error);
-    res.status(500).json({
-      error: 'Internal server error processing MCP request',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Internal server error processing MCP request' });
+    } else {
+      res.end();
+    }
   }
 });
 
-/**
- * MCP Server Status endpoint
- */
+// GET /api/mcp - Server-initiated streams are not offered
+router.get('/api/mcp', (req: Request, res: Response) => {
+  res.set('Allow', 'POST, DELETE').status(405).json({ error: 'Method not allowed' });
+});
+
+// DELETE /api/mcp - End the MCP session named in Mcp-Session-Id
+router.delete('/api/mcp', securityManager.createAuthMiddleware(mcpRoles), (req: Request, res: Response) => {
+  handleMCPDelete(req, res, req.session.userId!);
+});
+
+// GET /api/mcp/status - MCP server status
 router.get('/api/mcp/status', async (req: Request, res: Response) => {
   try {
     res.json({
       status: 'active',
       serverInfo: {
-        name: 'KGC Healthcare MCP Server',
-        version: '1.0.0',
+        ...SERVER_INFO,
         description: 'Model Context Protocol server for Keep Going Care healthcare platform'
       },
-      capabilities: {
-        tools: true,
-        resources: true,
-        prompts: true,
-        sampling: false
-      },
-      toolCount: kgcMCPServer['tools'].size,
-      resourceCount: kgcMCPServer['resources'].size
+      protocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      capabilities: kgcMCPServer.getCapabilities(),
+      toolCount: kgcMCPServer.toolCount,
+      resourceCount: kgcMCPServer.resourceCount,
+      activeSessions: getActiveSessionCount()
     });
   } catch (error) {
     console.error('[MCP Route] Error getting status:', error);
@@ -99,4 +67,4 @@ router.get('/api/mcp/status', async (req: Request, res: Response) => {
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { publishMcpPromptSchema } from '@shared/schema';
+import { mcpPromptRegistry } from '../mcp/prompts/promptRegistry';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const promptNameSchema = z.string().regex(/^[a-z][a-z0-9_]{1,63}$/, "Use lowercase letters, numbers and '_'");
+
+const restoreSchema = z.object({
+  version: z.number().int().positive()
+});
+
+// GET /api/admin/mcp-prompts - Current version of every MCP prompt
+router.get('/', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const prompts = await mcpPromptRegistry.listPrompts();
+    res.json(prompts);
+  } catch (error) {
+    console.error('Error fetching MCP prompts:', error);
+    res.status(500).json({ error: 'Failed to fetch MCP prompts' });
+  }
+});
+
+// GET /api/admin/mcp-prompts/:name/versions - Every version of a prompt, newest first
+router.get('/:name/versions', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const versions = await mcpPromptRegistry.listVersions(req.params.name);
+    if (versions.length === 0) {
+      return res.status(404).json({ error: 'Prompt not found' });
+    }
+
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching MCP prompt versions:', error);
+    res.status(500).json({ error: 'Failed to fetch MCP prompt versions' });
+  }
+});
+
+// PUT /api/admin/mcp-prompts/:name - Publish a new version of a prompt (creates the prompt if new)
+router.put('/:name', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const name = promptNameSchema.parse(req.params.name);
+    const input = publishMcpPromptSchema.parse(req.body);
+    const result = await mcpPromptRegistry.publishVersion(name, input, req.session.userId!);
+    if (result.status === 'invalid_template') {
+      return res.status(400).json({ error: result.reason });
+    }
+
+    res.status(201).json(result.prompt);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid prompt', details: error.errors });
+    }
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'The prompt was changed at the same time; reload and try again' });
+    }
+    console.error('Error publishing MCP prompt:', error);
+    res.status(500).json({ error: 'Failed to publish MCP prompt' });
+  }
+});
+
+// POST /api/admin/mcp-prompts/:name/restore - Make an earlier version current again (as a new version)
+router.post('/:name/restore', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const { version } = restoreSchema.parse(req.body);
+    const result = await mcpPromptRegistry.restoreVersion(req.params.name, version, req.session.userId!);
+    if (!result) {
+      return res.status(404).json({ error: 'Prompt version not found' });
+    }
+    if (result.status === 'invalid_template') {
+      return res.status(400).json({ error: result.reason });
+    }
+
+    res.status(201).json(result.prompt);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid restore request', details: error.errors });
+    }
+    if ((error as { code?: string }).code === '23505') {
+      return res.status(409).json({ error: 'The prompt was changed at the same time; reload and try again' });
+    }
+    console.error('Error restoring MCP prompt:', error);
+    res.status(500).json({ error: 'Failed to restore MCP prompt' });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { mcpTraceStatuses } from '@shared/schema';
+import { mcpTraceService } from '../mcp/tracing/traceService';
+import { securityManager } from '../securityManager';
+import { auditLogger } from '../auditLogger';
+
+const router = Router();
+
+const searchSchema = z.object({
+  patientId: z.coerce.number().int().positive().optional(),
+  tool: z.string().max(200).optional(),
+  status: z.enum(mcpTraceStatuses).optional(),
+  correlationId: z.string().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+function requestContext(req: Request) {
+  return { ipAddress: req.ip || 'unknown', userAgent: req.get('User-Agent') || 'unknown' };
+}
+
+// Opening a trace shows (redacted) patient data, so it is audited against that patient
+async function auditTraceAccess(req: Request, patientId: number | null) {
+  if (patientId === null) {
+    return;
+  }
+  await auditLogger.logDataAccess({
+    userId: patientId,
+    accessedBy: req.session.userId!,
+    dataType: 'mcp_trace',
+    action: 'read',
+    isAdminAccess: true,
+    ...requestContext(req)
+  });
+}
+
+// GET /api/admin/mcp-traces - Search traces by patient, tool, status and time (newest first)
+router.get('/', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const { tool, ...filters } = searchSchema.parse(req.query);
+    const traces = await mcpTraceService.search({ ...filters, target: tool });
+    res.json(traces);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid search', details: error.errors });
+    }
+    console.error('Error searching MCP traces:', error);
+    res.status(500).json({ error: 'Failed to search MCP traces' });
+  }
+});
+
+// GET /api/admin/mcp-traces/:id - One trace with its redacted request/response, related calls and replays
+router.get('/:id', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const traceId = parseInt(req.params.id);
+    if (isNaN(traceId)) {
+      return res.status(400).json({ error: 'Invalid trace ID' });
+    }
+
+    const detail = await mcpTraceService.getTrace(traceId);
+    if (!detail) {
+      return res.status(404).json({ error: 'Trace not found' });
+    }
+
+    await auditTraceAccess(req, detail.trace.patientId);
+    res.json(detail);
+  } catch (error) {
+    console.error('Error fetching MCP trace:', error);
+    res.status(500).json({ error: 'Failed to fetch MCP trace' });
+  }
+});
+
+// POST /api/admin/mcp-traces/:id/replay - Re-run a recorded tool call against current data and compare
+router.post('/:id/replay', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const traceId = parseInt(req.params.id);
+    if (isNaN(traceId)) {
+      return res.status(400).json({ error: 'Invalid trace ID' });
+    }
+
+    const result = await mcpTraceService.replay(traceId, { userId: req.session.userId!, ...requestContext(req) });
+    switch (result.status) {
+      case 'not_found':
+        return res.status(404).json({ error: 'Trace not found' });
+      case 'not_replayable':
+        return res.status(409).json({ error: result.reason });
+    }
+
+    await auditTraceAccess(req, result.original.patientId);
+    res.status(201).json({ replay: result.replay, comparison: result.comparison });
+  } catch (error) {
+    console.error('Error replaying MCP trace:', error);
+    res.status(500).json({ error: 'Failed to replay MCP trace' });
+  }
+});
+
+export default router;
@@ -0,0 +1,217 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { insertPatientMedicationSchema, insertMedicationDoseLogSchema } from '@shared/schema';
+import { medicationService } from '../services/medicationService';
+import { canAccessPatientRecord } from '../services/doctorPatientAccess';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+const auth = securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']);
+
+const refillSchema = z.object({
+  quantity: z.number().positive(),
+  refillDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').optional()
+});
+
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// GET /api/medications/patient/:patientId - Medication list (?includeInactive=true for stopped ones)
+router.get('/patient/:patientId', auth, async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const medications = await medicationService.listMedications(patientId, req.query.includeInactive === 'true');
+    res.json(medications);
+  } catch (error) {
+    console.error('Error fetching medications:', error);
+    res.status(500).json({ error: 'Failed to fetch medications' });
+  }
+});
+
+// POST /api/medications/patient/:patientId - Add a medication to a patient's list
+router.post('/patient/:patientId', auth, async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const medication = insertPatientMedicationSchema.parse(req.body);
+    const prescribedById = req.session.userRole === 'doctor' ? req.session.userId! : null;
+    const created = await medicationService.createMedication(patientId, medication, prescribedById);
+    res.status(201).json(created);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid medication', details: error.errors });
+    }
+    console.error('Error creating medication:', error);
+    res.status(500).json({ error: 'Failed to create medication' });
+  }
+});
+
+// PUT /api/medications/:medicationId - Update strength, dose times, stock etc.
+router.put('/:medicationId', auth, async (req, res) => {
+  try {
+    const medicationId = parseInt(req.params.medicationId);
+    if (isNaN(medicationId)) {
+      return res.status(400).json({ error: 'Invalid medication ID' });
+    }
+
+    const medication = await medicationService.getMedication(medicationId);
+    if (!medication) {
+      return res.status(404).json({ error: 'Medication not found' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, medication.patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const updates = insertPatientMedicationSchema.partial().parse(req.body);
+    const updated = await medicationService.updateMedication(medicationId, updates);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid medication', details: error.errors });
+    }
+    console.error('Error updating medication:', error);
+    res.status(500).json({ error: 'Failed to update medication' });
+  }
+});
+
+// PUT /api/medications/:medicationId/stop - Stop a medication as of today
+router.put('/:medicationId/stop', auth, async (req, res) => {
+  try {
+    const medicationId = parseInt(req.params.medicationId);
+    if (isNaN(medicationId)) {
+      return res.status(400).json({ error: 'Invalid medication ID' });
+    }
+
+    const medication = await medicationService.getMedication(medicationId);
+    if (!medication) {
+      return res.status(404).json({ error: 'Medication not found' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, medication.patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const stopped = await medicationService.stopMedication(medicationId);
+    res.json(stopped);
+  } catch (error) {
+    console.error('Error stopping medication:', error);
+    res.status(500).json({ error: 'Failed to stop medication' });
+  }
+});
+
+// POST /api/medications/:medicationId/refill - Record a refill ({ quantity, refillDate? })
+router.post('/:medicationId/refill', auth, async (req, res) => {
+  try {
+    const medicationId = parseInt(req.params.medicationId);
+    if (isNaN(medicationId)) {
+      return res.status(400).json({ error: 'Invalid medication ID' });
+    }
+
+    const medication = await medicationService.getMedication(medicationId);
+    if (!medication) {
+      return res.status(404).json({ error: 'Medication not found' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, medication.patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { quantity, refillDate } = refillSchema.parse(req.body);
+    const updated = await medicationService.recordRefill(medicationId, quantity, refillDate);
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid refill', details: error.errors });
+    }
+    console.error('Error recording refill:', error);
+    res.status(500).json({ error: 'Failed to record refill' });
+  }
+});
+
+// GET /api/medications/patient/:patientId/schedule - Doses for a local date (?date=YYYY-MM-DD, default today)
+router.get('/patient/:patientId/schedule', auth, async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    const date = req.query.date;
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+    if (date !== undefined && !localDateSchema.safeParse(date).success) {
+      return res.status(400).json({ error: 'Invalid date, use YYYY-MM-DD' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const doses = await medicationService.getDaySchedule(patientId, date as string | undefined);
+    res.json(doses);
+  } catch (error) {
+    console.error('Error fetching dose schedule:', error);
+    res.status(500).json({ error: 'Failed to fetch dose schedule' });
+  }
+});
+
+// POST /api/medications/patient/:patientId/doses - Log a dose as taken, late or skipped (patients only)
+router.post('/patient/:patientId/doses', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+    if (patientId !== req.session.userId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const dose = insertMedicationDoseLogSchema.parse(req.body);
+    const result = await medicationService.logDose(patientId, dose);
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.log);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid dose log', details: error.errors });
+    }
+    console.error('Error logging dose:', error);
+    res.status(500).json({ error: 'Failed to log dose' });
+  }
+});
+
+// GET /api/medications/patient/:patientId/adherence - Logged-dose adherence (?days=30) and refill estimates
+router.get('/patient/:patientId/adherence', auth, async (req, res) => {
+  try {
+    const patientId = parseInt(req.params.patientId);
+    const days = req.query.days ? parseInt(req.query.days as string) : 30;
+    if (isNaN(patientId)) {
+      return res.status(400).json({ error: 'Invalid patient ID' });
+    }
+    if (isNaN(days) || days < 1 || days > 365) {
+      return res.status(400).json({ error: 'days must be between 1 and 365' });
+    }
+    if (!(await canAccessPatientRecord(req.session.userId!, req.session.userRole!, patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const [adherence, refills] = await Promise.all([
+      medicationService.calculateRecentAdherence(patientId, days),
+      medicationService.getRefillEstimates(patientId)
+    ]);
+    res.json({ adherence, refills });
+  } catch (error) {
+    console.error('Error calculating medication adherence:', error);
+    res.status(500).json({ error: 'Failed to calculate medication adherence' });
+  }
+});
+
+export default router;
@@ -0,0 +1,218 @@
+import express, { Router } from 'express';
+import crypto from 'crypto';
+import twilio from 'twilio';
+import { z } from 'zod';
+import { notificationChannels, notificationStatuses, updateNotificationPreferencesSchema, insertPushSubscriptionSchema } from '@shared/schema';
+import { notificationService } from '../services/notificationService';
+import { getReceiptBaseUrl } from '../services/notificationChannels';
+import { webPushService } from '../services/webPushService';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const allRoles = ['admin', 'practice_manager', 'doctor', 'patient'];
+
+// Twilio message statuses that end a message's life; the others (queued, sent...) are ignored
+const TWILIO_FINAL_STATUSES: Record<string, 'delivered' | 'failed'> = {
+  delivered: 'delivered',
+  undelivered: 'failed',
+  failed: 'failed'
+};
+
+// SendGrid event webhook types that settle delivery
+const SENDGRID_FINAL_EVENTS: Record<string, 'delivered' | 'failed'> = {
+  delivered: 'delivered',
+  bounce: 'failed',
+  dropped: 'failed'
+};
+
+const outboxFiltersSchema = z.object({
+  status: z.enum(notificationStatuses).optional(),
+  channel: z.enum(notificationChannels).optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+// GET /api/notifications?unread=true - The signed-in user's in-app notifications
+router.get('/', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const notifications = await notificationService.listInApp(req.session.userId!, req.query.unread === 'true');
+    res.json(notifications);
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+});
+
+// POST /api/notifications/:id/read - Mark an in-app notification read
+router.post('/:id/read', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    if (isNaN(notificationId)) {
+      return res.status(400).json({ error: 'Invalid notification ID' });
+    }
+
+    const notification = await notificationService.markRead(req.session.userId!, notificationId);
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    res.json(notification);
+  } catch (error) {
+    console.error('Error marking notification read:', error);
+    res.status(500).json({ error: 'Failed to update notification' });
+  }
+});
+
+// GET /api/notifications/preferences - Channel preferences and quiet hours
+router.get('/preferences', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const preferences = await notificationService.getPreferences(req.session.userId!);
+    res.json(preferences);
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ error: 'Failed to fetch notification preferences' });
+  }
+});
+
+// PUT /api/notifications/preferences - Update channel preferences and quiet hours
+router.put('/preferences', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const updates = updateNotificationPreferencesSchema.parse(req.body);
+    const preferences = await notificationService.updatePreferences(req.session.userId!, updates);
+    res.json(preferences);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid notification preferences', details: error.errors });
+    }
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ error: 'Failed to update notification preferences' });
+  }
+});
+
+// GET /api/notifications/push/public-key - VAPID key the browser subscribes with
+router.get('/push/public-key', securityManager.createAuthMiddleware(allRoles), (req, res) => {
+  try {
+    const publicKey = webPushService.getPublicKey();
+    if (!publicKey) {
+      return res.status(404).json({ error: 'Push notifications are not configured' });
+    }
+    res.json({ publicKey });
+  } catch (error) {
+    console.error('Error reading VAPID public key:', error);
+    res.status(500).json({ error: 'Failed to read push configuration' });
+  }
+});
+
+// GET /api/notifications/push/subscriptions - Devices the signed-in user receives push on
+router.get('/push/subscriptions', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const subscriptions = await webPushService.listSubscriptions(req.session.userId!);
+    // Keys stay on the server; the client matches its own device by endpoint
+    res.json(subscriptions.map(({ p256dh, auth, ...subscription }) => subscription));
+  } catch (error) {
+    console.error('Error fetching push subscriptions:', error);
+    res.status(500).json({ error: 'Failed to fetch push subscriptions' });
+  }
+});
+
+// POST /api/notifications/push/subscriptions - Register this device's PushSubscription
+router.post('/push/subscriptions', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const subscription = insertPushSubscriptionSchema.parse(req.body);
+    const { p256dh, auth, ...saved } = await webPushService.subscribe(req.session.userId!, subscription);
+    res.status(201).json(saved);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid push subscription', details: error.errors });
+    }
+    console.error('Error saving push subscription:', error);
+    res.status(500).json({ error: 'Failed to save push subscription' });
+  }
+});
+
+// DELETE /api/notifications/push/subscriptions/:id - Stop push to one device
+router.delete('/push/subscriptions/:id', securityManager.createAuthMiddleware(allRoles), async (req, res) => {
+  try {
+    const subscriptionId = parseInt(req.params.id);
+    if (isNaN(subscriptionId)) {
+      return res.status(400).json({ error: 'Invalid subscription ID' });
+    }
+
+    const removed = await webPushService.removeSubscription(req.session.userId!, subscriptionId);
+    if (!removed) {
+      return res.status(404).json({ error: 'Push subscription not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing push subscription:', error);
+    res.status(500).json({ error: 'Failed to remove push subscription' });
+  }
+});
+
+// GET /api/notifications/outbox?status=&channel=&userId=&limit= - Outbox rows and delivery status (admin)
+router.get('/outbox', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const filters = outboxFiltersSchema.parse(req.query);
+    const notifications = await notificationService.listOutbox(filters);
+    res.json(notifications);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid outbox filters', details: error.errors });
+    }
+    console.error('Error fetching notification outbox:', error);
+    res.status(500).json({ error: 'Failed to fetch notification outbox' });
+  }
+});
+
+// POST /api/notifications/receipts/twilio - Twilio SMS status callback (signed with the Twilio auth token)
+router.post('/receipts/twilio', express.urlencoded({ extended: false }), async (req, res) => {
+  try {
+    const receiptBaseUrl = getReceiptBaseUrl();
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const signature = req.get('X-Twilio-Signature') || '';
+    if (!receiptBaseUrl || !authToken
+      || !twilio.validateRequest(authToken, signature, `${receiptBaseUrl}/api/notifications/receipts/twilio`, req.body)) {
+      return res.status(403).json({ error: 'Invalid signature' });
+    }
+
+    const outcome = TWILIO_FINAL_STATUSES[req.body.MessageStatus];
+    if (outcome && req.body.MessageSid) {
+      await notificationService.recordReceipt(
+        req.body.MessageSid,
+        outcome,
+        req.body.ErrorCode ? `Twilio error ${req.body.ErrorCode}` : undefined
+      );
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error recording Twilio receipt:', error);
+    res.status(500).json({ error: 'Failed to record receipt' });
+  }
+});
+
+// POST /api/notifications/receipts/sendgrid?token= - SendGrid event webhook (shared token in the URL)
+router.post('/receipts/sendgrid', async (req, res) => {
+  try {
+    const expected = process.env.NOTIFICATION_WEBHOOK_TOKEN;
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    if (!expected || token.length !== expected.length
+      || !crypto.timingSafeEqual(Buffer.from(token), Buffer.from(expected))) {
+      return res.status(403).json({ error: 'Invalid token' });
+    }
+
+    const events: { event?: string; sg_message_id?: string; reason?: string }[] = Array.isArray(req.body) ? req.body : [];
+    for (const event of events) {
+      const outcome = event.event ? SENDGRID_FINAL_EVENTS[event.event] : undefined;
+      if (outcome && event.sg_message_id) {
+        // sg_message_id is the X-Message-Id returned on send plus a per-recipient suffix
+        await notificationService.recordReceipt(event.sg_message_id.split('.')[0], outcome, event.reason);
+      }
+    }
+    res.status(200).end();
+  } catch (error) {
+    console.error('Error recording SendGrid receipt:', error);
+    res.status(500).json({ error: 'Failed to record receipts' });
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { insertDataDeletionRequestSchema, reviewDataDeletionRequestSchema, dataDeletionStatuses } from '@shared/schema';
+import { patientDataRightsService } from '../services/patientDataRightsService';
+import { isPatientOfDoctor } from '../services/doctorPatientAccess';
+import { securityManager } from '../securityManager';
+import { auditLogger } from '../auditLogger';
+
+const router = Router();
+
+function requestContext(req: Request) {
+  return { ipAddress: req.ip || 'unknown', userAgent: req.get('User-Agent') || 'unknown' };
+}
+
+// GET /api/patient-data/export - The signed-in patient's data as a ZIP (JSON + printable HTML report)
+router.get('/export', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const patientId = req.session.userId!;
+    const result = await patientDataRightsService.buildExport(patientId);
+    if (!result) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    await auditLogger.logDataAccess({
+      userId: patientId,
+      accessedBy: patientId,
+      dataType: 'patient_data_export',
+      action: 'read',
+      isAdminAccess: false,
+      ...requestContext(req)
+    });
+
+    res.type('application/zip').attachment(result.filename).send(result.archive);
+  } catch (error) {
+    console.error('Error building patient data export:', error);
+    res.status(500).json({ error: 'Failed to export data' });
+  }
+});
+
+// POST /api/patient-data/deletion-requests - Ask for the patient's data to be deleted or de-identified
+router.post('/deletion-requests', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const data = insertDataDeletionRequestSchema.parse(req.body);
+    const request = await patientDataRightsService.requestDeletion(req.session.userId!, data);
+    if (!request) {
+      return res.status(409).json({ error: 'A deletion request is already awaiting review' });
+    }
+    res.status(201).json(request);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid deletion request', details: error.errors });
+    }
+    console.error('Error creating deletion request:', error);
+    res.status(500).json({ error: 'Failed to create deletion request' });
+  }
+});
+
+// GET /api/patient-data/deletion-requests - Own requests (patient), patients' requests (doctor), all (admin); ?status=
+router.get('/deletion-requests', securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']), async (req, res) => {
+  try {
+    const status = req.query.status ? z.enum(dataDeletionStatuses).parse(req.query.status) : undefined;
+    const requests = await patientDataRightsService.listRequests(req.session.userId!, req.session.userRole!, status);
+    res.json(requests);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid status', details: error.errors });
+    }
+    console.error('Error fetching deletion requests:', error);
+    res.status(500).json({ error: 'Failed to fetch deletion requests' });
+  }
+});
+
+// POST /api/patient-data/deletion-requests/:id/cancel - Withdraw a pending request
+router.post('/deletion-requests/:id/cancel', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ error: 'Invalid request ID' });
+    }
+
+    const request = await patientDataRightsService.cancelRequest(requestId, req.session.userId!);
+    if (!request) {
+      return res.status(404).json({ error: 'No pending request found' });
+    }
+    res.json(request);
+  } catch (error) {
+    console.error('Error cancelling deletion request:', error);
+    res.status(500).json({ error: 'Failed to cancel deletion request' });
+  }
+});
+
+// POST /api/patient-data/deletion-requests/:id/review - Approve (runs the deletion) or reject; the patient's doctor or an admin
+router.post('/deletion-requests/:id/review', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
+  try {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ error: 'Invalid request ID' });
+    }
+    const { decision, notes } = reviewDataDeletionRequestSchema.parse(req.body);
+    const userId = req.session.userId!;
+    const userRole = req.session.userRole!;
+
+    const existing = await patientDataRightsService.getRequest(requestId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Deletion request not found' });
+    }
+    if (userRole !== 'admin' && !(await isPatientOfDoctor(userId, existing.patientId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const result = await patientDataRightsService.reviewRequest(requestId, userId, decision, notes);
+    if (result.status === 'not_found') {
+      return res.status(404).json({ error: 'Deletion request not found' });
+    }
+    if (result.status === 'not_pending') {
+      return res.status(409).json({ error: `Request is already ${result.request.status}` });
+    }
+
+    if (decision === 'approve') {
+      await auditLogger.logSecurityEvent({
+        eventType: 'DATA_MODIFY',
+        severity: 'HIGH',
+        userId,
+        targetUserId: existing.patientId,
+        ...requestContext(req),
+        details: {
+          action: existing.mode === 'deidentify' ? 'patient_data_deidentified' : 'patient_data_deleted',
+          requestId,
+          certificateNumber: result.request.certificateNumber
+        },
+        complianceStandards: ['APP']
+      });
+    }
+
+    res.json(result.request);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid review', details: error.errors });
+    }
+    console.error('Error reviewing deletion request:', error);
+    res.status(500).json({ error: 'Failed to review deletion request' });
+  }
+});
+
+// GET /api/patient-data/deletion-requests/:id/certificate - Printable completion certificate (HTML)
+router.get('/deletion-requests/:id/certificate', securityManager.createAuthMiddleware(['patient', 'doctor', 'admin']), async (req, res) => {
+  try {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ error: 'Invalid request ID' });
+    }
+    const userId = req.session.userId!;
+    const userRole = req.session.userRole!;
+
+    const request = await patientDataRightsService.getRequest(requestId);
+    if (!request) {
+      return res.status(404).json({ error: 'Deletion request not found' });
+    }
+
+    // The care relationship ends on completion, so the approving doctor is matched directly
+    const allowed = userRole === 'admin'
+      || (userRole === 'patient' && request.patientId === userId)
+      || (userRole === 'doctor' && (request.reviewedById === userId || await isPatientOfDoctor(userId, request.patientId)));
+    if (!allowed) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const certificate = patientDataRightsService.renderCertificate(request);
+    if (!certificate) {
+      return res.status(404).json({ error: 'Request has not been completed' });
+    }
+    res.type('html').send(certificate);
+  } catch (error) {
+    console.error('Error fetching deletion certificate:', error);
+    res.status(500).json({ error: 'Failed to fetch certificate' });
+  }
+});
+
+export default router;
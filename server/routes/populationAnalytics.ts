@@ -0,0 +1,76 @@
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { cpdCategories } from '@shared/schema';
+import {
+  populationAnalyticsService,
+  cohortSortFields,
+  toCohortCsv,
+  CohortQuery
+} from '../services/populationAnalyticsService';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const booleanFlag = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const cohortQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(30),
+  category: z.enum(cpdCategories).optional(),
+  trendingDown: booleanFlag.optional(),
+  pprOverdue: booleanFlag.optional(),
+  sort: z.enum(cohortSortFields).default('adherence'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  // Admins viewing a doctor's panel must name the doctor
+  doctorId: z.coerce.number().int().positive().optional()
+});
+
+function parseCohortRequest(req: Request): { doctorId: number | undefined; query: CohortQuery } {
+  const { doctorId, trendingDown, pprOverdue, ...rest } = cohortQuerySchema.parse(req.query);
+  return {
+    doctorId: req.session.userRole === 'doctor' ? req.session.userId! : doctorId,
+    query: { ...rest, trendingDownOnly: trendingDown, pprOverdueOnly: pprOverdue }
+  };
+}
+
+// GET /api/doctor/population - Cohort analytics across the doctor's patient panel
+router.get('/', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
+  try {
+    const { doctorId, query } = parseCohortRequest(req);
+    if (!doctorId) {
+      return res.status(400).json({ error: 'doctorId is required' });
+    }
+
+    const analytics = await populationAnalyticsService.getCohortAnalytics(doctorId, query);
+    res.json(analytics);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid cohort query', details: error.errors });
+    }
+    console.error('Error building population analytics:', error);
+    res.status(500).json({ error: 'Failed to build population analytics' });
+  }
+});
+
+// GET /api/doctor/population/export.csv - The same cohort, filtered and sorted, as CSV
+router.get('/export.csv', securityManager.createAuthMiddleware(['doctor', 'admin']), async (req, res) => {
+  try {
+    const { doctorId, query } = parseCohortRequest(req);
+    if (!doctorId) {
+      return res.status(400).json({ error: 'doctorId is required' });
+    }
+
+    const analytics = await populationAnalyticsService.getCohortAnalytics(doctorId, query);
+    const date = analytics.generatedAt.split('T')[0];
+    res.type('text/csv')
+      .attachment(`patient-panel-${date}.csv`)
+      .send(toCohortCsv(analytics.patients));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid cohort query', details: error.errors });
+    }
+    console.error('Error exporting population analytics:', error);
+    res.status(500).json({ error: 'Failed to export population analytics' });
+  }
+});
+
+export default router;
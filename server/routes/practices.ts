@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { insertPracticeSchema, userRoleNames } from '@shared/schema';
+import { practiceService } from '../services/practiceService';
+import { isPatientOfDoctor } from '../services/doctorPatientAccess';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const moveUserSchema = z.object({
+  userId: z.number().int().positive()
+});
+
+const shareSchema = z.object({
+  patientId: z.number().int().positive(),
+  doctorId: z.number().int().positive()
+});
+
+// GET /api/practices - All practices for admins; a practice manager's own practice
+router.get('/', securityManager.createAuthMiddleware(['admin', 'practice_manager']), async (req, res) => {
+  try {
+    if (req.session.userRole === 'admin') {
+      return res.json(await practiceService.listPractices());
+    }
+
+    const practiceId = await practiceService.getPracticeId(req.session.userId!);
+    res.json(practiceId ? await practiceService.listPractices(practiceId) : []);
+  } catch (error) {
+    console.error('Error fetching practices:', error);
+    res.status(500).json({ error: 'Failed to fetch practices' });
+  }
+});
+
+// POST /api/practices - Create a practice (admin only)
+router.post('/', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const data = insertPracticeSchema.parse(req.body);
+    const practice = await practiceService.createPractice(data);
+    res.status(201).json(practice);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid practice data', details: error.errors });
+    }
+    if (error instanceof Error && error.message.includes('already exists')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error creating practice:', error);
+    res.status(500).json({ error: 'Failed to create practice' });
+  }
+});
+
+// GET /api/practices/:practiceId/users - Members of a practice (?role=doctor|patient|practice_manager)
+router.get('/:practiceId/users', securityManager.createAuthMiddleware(['admin', 'practice_manager']), async (req, res) => {
+  try {
+    const practiceId = parseInt(req.params.practiceId);
+    if (isNaN(practiceId)) {
+      return res.status(400).json({ error: 'Invalid practice ID' });
+    }
+    if (!(await practiceService.canManagePractice(req.session.userId!, req.session.userRole!, practiceId))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const role = req.query.role ? z.enum(userRoleNames).parse(req.query.role) : undefined;
+    const members = await practiceService.getPracticeMembers(practiceId, role);
+    res.json(members);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid role', details: error.errors });
+    }
+    console.error('Error fetching practice members:', error);
+    res.status(500).json({ error: 'Failed to fetch practice members' });
+  }
+});
+
+// POST /api/practices/:practiceId/users - Move a user into the practice (admin only)
+router.post('/:practiceId/users', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const practiceId = parseInt(req.params.practiceId);
+    if (isNaN(practiceId)) {
+      return res.status(400).json({ error: 'Invalid practice ID' });
+    }
+    const { userId } = moveUserSchema.parse(req.body);
+
+    if (!(await practiceService.getPractice(practiceId))) {
+      return res.status(404).json({ error: 'Practice not found' });
+    }
+
+    await practiceService.moveUserToPractice(userId, practiceId);
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    if (error instanceof Error && (error.message === 'User not found' || error.message.startsWith('Admins'))) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error moving user to practice:', error);
+    res.status(500).json({ error: 'Failed to move user to practice' });
+  }
+});
+
+// POST /api/practices/:practiceId/shared-care - Share a patient with another doctor in the practice
+router.post('/:practiceId/shared-care', securityManager.createAuthMiddleware(['admin', 'practice_manager', 'doctor']), async (req, res) => {
+  try {
+    const practiceId = parseInt(req.params.practiceId);
+    if (isNaN(practiceId)) {
+      return res.status(400).json({ error: 'Invalid practice ID' });
+    }
+    const { patientId, doctorId } = shareSchema.parse(req.body);
+    const userId = req.session.userId!;
+
+    // Practice admins can share any patient in the practice; doctors only patients already in their care
+    const allowed = req.session.userRole === 'doctor'
+      ? await isPatientOfDoctor(userId, patientId)
+      : await practiceService.canManagePractice(userId, req.session.userRole!, practiceId);
+    if (!allowed || await practiceService.getPracticeId(patientId) !== practiceId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    await practiceService.sharePatient(patientId, doctorId);
+    res.status(201).json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid request', details: error.errors });
+    }
+    if (error instanceof Error && (error.message.includes('not found') || error.message.includes('same practice'))) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error sharing patient:', error);
+    res.status(500).json({ error: 'Failed to share patient' });
+  }
+});
+
+// DELETE /api/practices/:practiceId/shared-care/:patientId/:doctorId - End a shared-care relationship
+router.delete('/:practiceId/shared-care/:patientId/:doctorId', securityManager.createAuthMiddleware(['admin', 'practice_manager', 'doctor']), async (req, res) => {
+  try {
+    const practiceId = parseInt(req.params.practiceId);
+    const patientId = parseInt(req.params.patientId);
+    const doctorId = parseInt(req.params.doctorId);
+    if (isNaN(practiceId) || isNaN(patientId) || isNaN(doctorId)) {
+      return res.status(400).json({ error: 'Invalid ID' });
+    }
+    const userId = req.session.userId!;
+
+    const allowed = req.session.userRole === 'doctor'
+      ? await isPatientOfDoctor(userId, patientId)
+      : await practiceService.canManagePractice(userId, req.session.userRole!, practiceId);
+    if (!allowed || await practiceService.getPracticeId(patientId) !== practiceId) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (!(await practiceService.unsharePatient(patientId, doctorId))) {
+      return res.status(404).json({ error: 'Shared-care relationship not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error ending shared care:', error);
+    res.status(500).json({ error: 'Failed to end shared care' });
+  }
+});
+
+export default router;
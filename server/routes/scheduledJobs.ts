@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { jobSchedulerService } from '../services/jobSchedulerService';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+const runsQuerySchema = z.object({
+  status: z.enum(['running', 'succeeded', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
+// GET /api/admin/jobs - Scheduled jobs with last-run status and recent failure counts
+router.get('/', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const jobs = await jobSchedulerService.listJobs();
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error fetching scheduled jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch scheduled jobs' });
+  }
+});
+
+// GET /api/admin/jobs/:jobId/runs - Run history for a job, newest first (?status=failed for failures)
+router.get('/:jobId/runs', securityManager.createAuthMiddleware(['admin']), async (req, res) => {
+  try {
+    const jobId = parseInt(req.params.jobId);
+    if (isNaN(jobId)) {
+      return res.status(400).json({ error: 'Invalid job ID' });
+    }
+
+    const options = runsQuerySchema.parse(req.query);
+    const runs = await jobSchedulerService.getJobRuns(jobId, options);
+    res.json(runs);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid query', details: error.errors });
+    }
+    console.error('Error fetching scheduled job runs:', error);
+    res.status(500).json({ error: 'Failed to fetch scheduled job runs' });
+  }
+});
+
+export default router;
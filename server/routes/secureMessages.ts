@@ -0,0 +1,229 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  createSecureMessageThreadSchema,
+  sendSecureMessageSchema,
+  secureMessageThreadStatuses,
+  updateDoctorMessagingSettingsSchema
+} from '@shared/schema';
+import { secureMessagingService, MessagingRole, SendMessageResult } from '../services/secureMessagingService';
+import { securityManager } from '../securityManager';
+import { auditLogger } from '../auditLogger';
+
+const router = Router();
+
+const participantRoles = ['doctor', 'patient'];
+
+const threadStatusSchema = z.object({
+  status: z.enum(secureMessageThreadStatuses)
+});
+
+function requestContext(req: Request) {
+  return { ipAddress: req.ip || 'unknown', userAgent: req.get('User-Agent') || 'unknown' };
+}
+
+// Every read and write of message content is audited against the patient it belongs to
+async function auditMessageAccess(req: Request, patientId: number, dataType: string, action: 'read' | 'write') {
+  await auditLogger.logDataAccess({
+    userId: patientId,
+    accessedBy: req.session.userId!,
+    dataType,
+    action,
+    isAdminAccess: false,
+    ...requestContext(req)
+  });
+}
+
+async function sendResult(req: Request, res: Response, result: SendMessageResult) {
+  switch (result.status) {
+    case 'not_found':
+      return res.status(404).json({ error: 'Thread not found' });
+    case 'not_in_care':
+      return res.status(403).json({ error: 'You can only message a doctor currently caring for the patient' });
+    case 'closed':
+      return res.status(409).json({ error: 'This conversation is closed; start a new one' });
+    case 'invalid_attachment':
+      return res.status(400).json({ error: result.reason });
+    case 'sent':
+      await auditMessageAccess(req, result.thread.patientId, 'secure_message', 'write');
+      return res.status(201).json(result);
+  }
+}
+
+// GET /api/secure-messages/care-team - Doctors the patient can message, with expected response times
+router.get('/care-team', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const doctors = await secureMessagingService.getCareTeam(req.session.userId!);
+    res.json(doctors);
+  } catch (error) {
+    console.error('Error fetching care team:', error);
+    res.status(500).json({ error: 'Failed to fetch care team' });
+  }
+});
+
+// GET /api/secure-messages/patients - Patients the doctor can start a thread with
+router.get('/patients', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const patients = await secureMessagingService.getPatients(req.session.userId!);
+    res.json(patients);
+  } catch (error) {
+    console.error('Error fetching messageable patients:', error);
+    res.status(500).json({ error: 'Failed to fetch patients' });
+  }
+});
+
+// GET /api/secure-messages/threads?status= - The user's threads with unread counts
+router.get('/threads', securityManager.createAuthMiddleware(participantRoles), async (req, res) => {
+  try {
+    const status = req.query.status ? z.enum(secureMessageThreadStatuses).parse(req.query.status) : undefined;
+    const userId = req.session.userId!;
+    const threads = await secureMessagingService.listThreads(userId, req.session.userRole as MessagingRole, status);
+
+    for (const patientId of Array.from(new Set(threads.map(thread => thread.patientId)))) {
+      await auditMessageAccess(req, patientId, 'secure_message_threads', 'read');
+    }
+    res.json(threads);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid status', details: error.errors });
+    }
+    console.error('Error fetching message threads:', error);
+    res.status(500).json({ error: 'Failed to fetch message threads' });
+  }
+});
+
+// POST /api/secure-messages/threads - Start a thread; patients send doctorId, doctors send patientId
+router.post('/threads', securityManager.createAuthMiddleware(participantRoles), async (req, res) => {
+  try {
+    const input = createSecureMessageThreadSchema.parse(req.body);
+    const result = await secureMessagingService.createThread(req.session.userId!, req.session.userRole as MessagingRole, input);
+    await sendResult(req, res, result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid message', details: error.errors });
+    }
+    console.error('Error creating message thread:', error);
+    res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+// GET /api/secure-messages/threads/:id - A thread and its messages; marks the other side's messages read
+router.get('/threads/:id', securityManager.createAuthMiddleware(participantRoles), async (req, res) => {
+  try {
+    const threadId = parseInt(req.params.id);
+    if (isNaN(threadId)) {
+      return res.status(400).json({ error: 'Invalid thread ID' });
+    }
+
+    const detail = await secureMessagingService.getThread(req.session.userId!, req.session.userRole as MessagingRole, threadId);
+    if (!detail) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    await auditMessageAccess(req, detail.thread.patientId, 'secure_message', 'read');
+    res.json(detail);
+  } catch (error) {
+    console.error('Error fetching message thread:', error);
+    res.status(500).json({ error: 'Failed to fetch message thread' });
+  }
+});
+
+// POST /api/secure-messages/threads/:id/messages - Reply in an open thread
+router.post('/threads/:id/messages', securityManager.createAuthMiddleware(participantRoles), async (req, res) => {
+  try {
+    const threadId = parseInt(req.params.id);
+    if (isNaN(threadId)) {
+      return res.status(400).json({ error: 'Invalid thread ID' });
+    }
+
+    const input = sendSecureMessageSchema.parse(req.body);
+    const result = await secureMessagingService.sendMessage(req.session.userId!, req.session.userRole as MessagingRole, threadId, input);
+    await sendResult(req, res, result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid message', details: error.errors });
+    }
+    console.error('Error sending message:', error);
+    res.status(500).json({ error: 'Failed to send message' });
+  }
+});
+
+// PATCH /api/secure-messages/threads/:id - Close or reopen a thread (doctor)
+router.patch('/threads/:id', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const threadId = parseInt(req.params.id);
+    if (isNaN(threadId)) {
+      return res.status(400).json({ error: 'Invalid thread ID' });
+    }
+
+    const { status } = threadStatusSchema.parse(req.body);
+    const thread = await secureMessagingService.setThreadStatus(req.session.userId!, threadId, status);
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+
+    await auditMessageAccess(req, thread.patientId, 'secure_message_threads', 'write');
+    res.json(thread);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid thread status', details: error.errors });
+    }
+    console.error('Error updating message thread:', error);
+    res.status(500).json({ error: 'Failed to update message thread' });
+  }
+});
+
+// GET /api/secure-messages/attachments/:id - Download an attachment
+router.get('/attachments/:id', securityManager.createAuthMiddleware(participantRoles), async (req, res) => {
+  try {
+    const attachmentId = parseInt(req.params.id);
+    if (isNaN(attachmentId)) {
+      return res.status(400).json({ error: 'Invalid attachment ID' });
+    }
+
+    const attachment = await secureMessagingService.getAttachment(req.session.userId!, req.session.userRole as MessagingRole, attachmentId);
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    await auditMessageAccess(req, attachment.patientId, 'secure_message_attachment', 'read');
+    res.set('X-Content-Type-Options', 'nosniff');
+    res.set('Cache-Control', 'private, no-store');
+    res.type(attachment.mimeType);
+    if (attachment.mimeType === 'application/pdf') {
+      res.attachment(attachment.filename);
+    }
+    res.send(Buffer.from(attachment.data, 'base64'));
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    res.status(500).json({ error: 'Failed to fetch attachment' });
+  }
+});
+
+// GET /api/secure-messages/settings - The doctor's response time and availability note
+router.get('/settings', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const settings = await secureMessagingService.getSettings(req.session.userId!);
+    res.json(settings);
+  } catch (error) {
+    console.error('Error fetching messaging settings:', error);
+    res.status(500).json({ error: 'Failed to fetch messaging settings' });
+  }
+});
+
+// PUT /api/secure-messages/settings - Update the doctor's response time and availability note
+router.put('/settings', securityManager.createAuthMiddleware(['doctor']), async (req, res) => {
+  try {
+    const updates = updateDoctorMessagingSettingsSchema.parse(req.body);
+    const settings = await secureMessagingService.updateSettings(req.session.userId!, updates);
+    res.json(settings);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid messaging settings', details: error.errors });
+    }
+    console.error('Error updating messaging settings:', error);
+    res.status(500).json({ error: 'Failed to update messaging settings' });
+  }
+});
+
+export default router;
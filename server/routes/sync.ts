@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { syncBatchSchema } from '@shared/schema';
+import { offlineSyncService } from '../services/offlineSyncService';
+import { securityManager } from '../securityManager';
+
+const router = Router();
+
+// POST /api/sync/batch - Apply queued offline operations ({ userId, operations: [{ clientUuid, entityType, clientCreatedAt, data, resolution? }] })
+// Safe to retry: operations already settled return their original result
+router.post('/batch', securityManager.createAuthMiddleware(['patient']), async (req, res) => {
+  try {
+    const { userId, operations } = syncBatchSchema.parse(req.body);
+    if (userId !== req.session.userId) {
+      return res.status(403).json({ error: 'Batch was queued by a different user' });
+    }
+
+    const results = await offlineSyncService.applyBatch(userId, operations);
+
+    res.json({
+      results,
+      summary: {
+        applied: results.filter(r => r.status === 'applied').length,
+        duplicate: results.filter(r => r.status === 'duplicate').length,
+        conflict: results.filter(r => r.status === 'conflict').length,
+        rejected: results.filter(r => r.status === 'rejected').length
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid sync batch', details: error.errors });
+    }
+    console.error('Error applying sync batch:', error);
+    res.status(500).json({ error: 'Failed to apply sync batch' });
+  }
+});
+
+export default router;
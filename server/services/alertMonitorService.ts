@@ -5,11 +5,16 @@
  * 1. Patients fail to submit daily self-scores after 24 hours
  * 2. Extended periods of inactivity (multiple days missed)
  * 3. Sends 7:00 PM reminders to patients who haven't submitted scores
+ *
+ * Checks are run by the job scheduler once per patient timezone, so "today" and
+ * "7:00 PM" are the patient's local day and evening.
  */
 
 import { storage } from "../storage";
 import { eq, and, desc, lte, sql } from "drizzle-orm";
 import { db } from "../db";
+import { getLocalDateString } from "./cronExpression";
+import { notificationService } from "./notificationService";
 import { 
   users, 
   patientScores, 
@@ -31,18 +36,15 @@ export class AlertMonitorService {
   }
 
   /**
-   * Check for patients who haven't submitted daily scores in the last 24 hours
+   * Check for patients in a timezone who haven't submitted today's daily scores
    * Creates alerts for their assigned doctors
    */
-  async checkMissedDailyScores(): Promise<void> {
+  async checkMissedDailyScores(timezone: string): Promise<{ alertsCreated: number }> {
     try {
-      console.log('[Alert Monitor] Checking for missed daily scores...');
+      console.log(`[Alert Monitor] Checking for missed daily scores (${timezone})...`);
       
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-      
-      const today = new Date().toISOString().split('T')[0];
+      const today = getLocalDateString(new Date(), timezone);
+      let alertsCreated = 0;
 
       // Get all patients who should have submitted scores but haven't
       const patientsWithoutScores = await db
@@ -64,7 +66,8 @@ export class AlertMonitorService {
           and(
             eq(users.roleId, 3), // Patient role
             eq(users.isActive, true),
-            eq(dashboardRelationships.relationshipType, 'doctor-patient'),
+            eq(users.timezone, timezone),
+            eq(dashboardRelationships.relationshipType, 'doctor_to_patient'),
             eq(dashboardRelationships.active, true),
             sql`${patientScores.id} IS NULL` // No score submitted today
           )
@@ -86,7 +89,7 @@ export class AlertMonitorService {
 
         if (existingAlert.length === 0) {
           // Calculate consecutive days missed
-          const daysMissed = await this.calculateConsecutiveDaysMissed(patient.patientId);
+          const daysMissed = await this.calculateConsecutiveDaysMissed(patient.patientId, timezone);
           
           // Create alert for doctor
           await storage.createPatientAlert({
@@ -97,26 +100,29 @@ export class AlertMonitorService {
             daysMissed: daysMissed
           });
 
+          alertsCreated++;
           console.log(`[Alert Monitor] Created alert for patient ${patient.patientName} (${daysMissed} days missed)`);
         }
       }
+
+      return { alertsCreated };
     } catch (error) {
       console.error('[Alert Monitor] Error checking missed daily scores:', error);
+      throw error;
     }
   }
 
   /**
    * Calculate how many consecutive days a patient has missed submitting scores
    */
-  private async calculateConsecutiveDaysMissed(patientId: number): Promise<number> {
+  private async calculateConsecutiveDaysMissed(patientId: number, timezone: string): Promise<number> {
     const today = new Date();
     let daysMissed = 0;
     
     // Check backwards from today to count consecutive missed days
     for (let i = 0; i < 30; i++) { // Check up to 30 days back
-      const checkDate = new Date(today);
-      checkDate.setDate(today.getDate() - i);
-      const dateStr = checkDate.toISOString().split('T')[0];
+      const checkDate = new Date(today.getTime() - i * 24 * 60 * 60 * 1000);
+      const dateStr = getLocalDateString(checkDate, timezone);
       
       const [score] = await db.select()
         .from(patientScores)
@@ -137,20 +143,15 @@ export class AlertMonitorService {
   }
 
   /**
-   * Send 7:00 PM reminder notifications to patients who haven't submitted scores
+   * Send 7:00 PM reminder notifications to patients in a timezone who haven't submitted scores.
+   * Scheduled for 19:00 in that timezone.
    */
-  async send7PMReminders(): Promise<void> {
+  async send7PMReminders(timezone: string): Promise<{ remindersSent: number }> {
     try {
-      console.log('[Alert Monitor] Checking for 7:00 PM reminders...');
+      console.log(`[Alert Monitor] Sending 7:00 PM reminders (${timezone})...`);
       
-      const today = new Date().toISOString().split('T')[0];
-      const currentTime = new Date();
-      const currentHour = currentTime.getHours();
-      
-      // Only run this check at or after 7:00 PM (19:00)
-      if (currentHour < 19) {
-        return;
-      }
+      const today = getLocalDateString(new Date(), timezone);
+      let remindersSent = 0;
       
       // Get patients who haven't submitted scores today
       const patientsNeedingReminders = await db
@@ -170,6 +171,7 @@ export class AlertMonitorService {
           and(
             eq(users.roleId, 3), // Patient role
             eq(users.isActive, true),
+            eq(users.timezone, timezone),
             sql`${patientScores.id} IS NULL` // No score submitted today
           )
         );
@@ -194,59 +196,20 @@ export class AlertMonitorService {
             reminderTime: '19:00'
           });
 
-          // Mark as sent (in a real implementation, this would trigger a toast/notification)
+          await notificationService.notify(patient.patientId, 'daily_score_reminder', { name: patient.patientName });
           await storage.markReminderAsSent(reminder.id);
           
-          console.log(`[Alert Monitor] Created 7PM reminder for patient ${patient.patientName}`);
-          
-          // In a real implementation, you would trigger the actual toast notification here
-          // For now, we'll just log that the reminder should be sent
-          await this.triggerPatientReminderToast(patient.patientId, patient.patientName);
+          console.log(`[Alert Monitor] Sent 7PM reminder to patient ${patient.patientName}`);
+          remindersSent++;
         }
       }
+
+      return { remindersSent };
     } catch (error) {
       console.error('[Alert Monitor] Error sending 7PM reminders:', error);
+      throw error;
     }
   }
-
-  /**
-   * Trigger a toast reminder for a patient (simulation)
-   * In production, this would integrate with WebSocket/push notifications
-   */
-  private async triggerPatientReminderToast(patientId: number, patientName: string): Promise<void> {
-    // This is where you'd integrate with your real-time notification system
-    // For now, we'll create a log entry that the frontend could potentially poll
-    console.log(`[Alert Monitor] Toast reminder triggered for patient ${patientName}: "Don't forget to submit your daily health scores! It only takes 2 minutes."`);
-    
-    // In a real system, you might:
-    // 1. Send via WebSocket to active patient sessions
-    // 2. Queue for next login if patient is offline
-    // 3. Send SMS via Twilio if critically important
-    // 4. Store in a notifications table for the frontend to poll
-  }
-
-  /**
-   * Start the monitoring service with scheduled checks
-   */
-  startMonitoring(): void {
-    console.log('[Alert Monitor] Starting patient engagement monitoring...');
-    
-    // Check for missed daily scores every hour
-    setInterval(() => {
-      this.checkMissedDailyScores();
-    }, 60 * 60 * 1000); // Every hour
-    
-    // Check for 7PM reminders every 15 minutes during evening hours
-    setInterval(() => {
-      this.send7PMReminders();
-    }, 15 * 60 * 1000); // Every 15 minutes
-    
-    // Run initial checks
-    setTimeout(() => {
-      this.checkMissedDailyScores();
-      this.send7PMReminders();
-    }, 5000); // Wait 5 seconds after startup
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,344 @@
+/**
+ * Audit Chain Service - tamper evidence for audit_log
+ *
+ * 1. Every row carries the SHA-256 of its own fields and of the previous row's hash.
+ *    Each UTC day is its own chain, starting from a genesis hash derived from the date.
+ * 2. Appends are serialised with a Postgres advisory lock so the chain never forks.
+ * 3. Once a day has closed, its head (entry count, last row, last hash) is written to
+ *    audit_log_anchors, signed with AUDIT_ANCHOR_SECRET and linked to the previous
+ *    day's anchor signature, so removing rows, days or anchors is detectable.
+ *
+ * Editing a row breaks its hash; deleting one leaves a sequence gap; rewriting the
+ * chain from a point onwards no longer matches the signed anchor.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { db } from '../db';
+import { auditLog, auditLogAnchors, AuditLogEntry, AuditLogAnchor } from '@shared/schema';
+import { and, asc, desc, eq, gte, isNotNull, isNull, lt, lte, or, sql } from 'drizzle-orm';
+
+// Advisory lock key shared by appends and anchoring
+const AUDIT_CHAIN_LOCK_KEY = 4171701;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AuditChainInput = Pick<AuditLogEntry,
+  'eventId' | 'eventType' | 'severity' | 'ipAddress' | 'userAgent' | 'environment'
+> & Partial<Pick<AuditLogEntry, 'userId' | 'targetUserId' | 'details' | 'complianceStandards'>>;
+
+export interface AuditChainBreak {
+  chainDate: string;
+  entryId?: number;
+  sequence?: number;
+  problem: string;
+}
+
+export interface AuditChainDayReport {
+  chainDate: string;
+  entries: number;
+  anchored: boolean;
+  valid: boolean;
+}
+
+export interface AuditChainReport {
+  from: string | null;
+  to: string | null;
+  verifiedAt: string;
+  valid: boolean;
+  entriesChecked: number;
+  unchainedEntries: number; // Rows written before chaining was introduced
+  days: AuditChainDayReport[];
+  breaks: AuditChainBreak[];
+}
+
+export interface AuditSlice {
+  generatedAt: string;
+  filters: { from: string; to: string; patientId: number | null };
+  verification: AuditChainReport;
+  anchors: AuditLogAnchor[];
+  entries: AuditLogEntry[];
+}
+
+type ChainedFields = Pick<AuditLogEntry,
+  'eventId' | 'timestamp' | 'eventType' | 'severity' | 'userId' | 'targetUserId' | 'ipAddress' |
+  'userAgent' | 'details' | 'complianceStandards' | 'environment' | 'chainDate' | 'sequence' | 'previousHash'
+>;
+
+export function toChainDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(chainDate: string, days: number): string {
+  return toChainDate(new Date(Date.parse(`${chainDate}T00:00:00Z`) + days * DAY_MS));
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function genesisHash(chainDate: string): string {
+  return sha256(`kgc-audit-genesis:${chainDate}`);
+}
+
+export function hashEntry(entry: ChainedFields): string {
+  return sha256(JSON.stringify([
+    entry.chainDate,
+    entry.sequence,
+    entry.previousHash,
+    entry.eventId,
+    entry.timestamp.toISOString(),
+    entry.eventType,
+    entry.severity,
+    entry.userId,
+    entry.targetUserId,
+    entry.ipAddress,
+    entry.userAgent,
+    entry.details,
+    entry.complianceStandards,
+    entry.environment
+  ]));
+}
+
+function anchorSecret(): string {
+  const secret = process.env.AUDIT_ANCHOR_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('AUDIT_ANCHOR_SECRET or SESSION_SECRET must be set to sign audit anchors');
+  }
+  return secret;
+}
+
+function signAnchor(anchor: Pick<AuditLogAnchor,
+  'chainDate' | 'entryCount' | 'firstEntryId' | 'lastEntryId' | 'headHash' | 'previousSignature'
+>, secret: string): string {
+  return createHmac('sha256', secret).update(JSON.stringify([
+    anchor.chainDate,
+    anchor.entryCount,
+    anchor.firstEntryId,
+    anchor.lastEntryId,
+    anchor.headHash,
+    anchor.previousSignature
+  ])).digest('hex');
+}
+
+class AuditChainService {
+  /**
+   * Append a row to today's chain; the timestamp is taken under the lock so rows
+   * are ordered by time within a day
+   */
+  async append(entry: AuditChainInput): Promise<AuditLogEntry> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+
+      const timestamp = new Date();
+      const chainDate = toChainDate(timestamp);
+      const [previous] = await tx
+        .select({ sequence: auditLog.sequence, hash: auditLog.hash })
+        .from(auditLog)
+        .where(eq(auditLog.chainDate, chainDate))
+        .orderBy(desc(auditLog.sequence))
+        .limit(1);
+
+      const fields: ChainedFields = {
+        eventId: entry.eventId,
+        timestamp,
+        eventType: entry.eventType,
+        severity: entry.severity,
+        userId: entry.userId ?? null,
+        targetUserId: entry.targetUserId ?? null,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        details: entry.details ?? null,
+        complianceStandards: entry.complianceStandards ?? null,
+        environment: entry.environment,
+        chainDate,
+        sequence: (previous?.sequence ?? 0) + 1,
+        previousHash: previous?.hash ?? genesisHash(chainDate)
+      };
+
+      const [inserted] = await tx
+        .insert(auditLog)
+        .values({ ...fields, hash: hashEntry(fields) })
+        .returning();
+      return inserted;
+    });
+  }
+
+  /**
+   * Sign an anchor for every closed UTC day since the last anchor (empty days included)
+   */
+  async anchorClosedDays(): Promise<{ anchored: number; through: string | null }> {
+    const secret = anchorSecret();
+
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+
+      const [lastAnchor] = await tx.select().from(auditLogAnchors).orderBy(desc(auditLogAnchors.chainDate)).limit(1);
+      let chainDate: string | null = lastAnchor ? addDays(lastAnchor.chainDate, 1) : null;
+      if (!chainDate) {
+        const [first] = await tx
+          .select({ chainDate: sql<string | null>`min(${auditLog.chainDate})` })
+          .from(auditLog);
+        chainDate = first?.chainDate ?? null;
+      }
+
+      const today = toChainDate(new Date());
+      let previousSignature = lastAnchor?.signature ?? null;
+      let anchored = 0;
+      let through: string | null = lastAnchor?.chainDate ?? null;
+
+      for (; chainDate && chainDate < today; chainDate = addDays(chainDate, 1)) {
+        const [stats] = await tx
+          .select({
+            entryCount: sql<number>`count(*)::int`,
+            firstEntryId: sql<number | null>`min(${auditLog.id})`,
+            lastEntryId: sql<number | null>`max(${auditLog.id})`
+          })
+          .from(auditLog)
+          .where(eq(auditLog.chainDate, chainDate));
+        const [head] = await tx
+          .select({ hash: auditLog.hash })
+          .from(auditLog)
+          .where(eq(auditLog.chainDate, chainDate))
+          .orderBy(desc(auditLog.sequence))
+          .limit(1);
+
+        const anchor = {
+          chainDate,
+          entryCount: stats.entryCount,
+          firstEntryId: stats.firstEntryId,
+          lastEntryId: stats.lastEntryId,
+          headHash: head?.hash ?? genesisHash(chainDate),
+          previousSignature
+        };
+        const signature = signAnchor(anchor, secret);
+        await tx.insert(auditLogAnchors).values({ ...anchor, signature });
+
+        previousSignature = signature;
+        through = chainDate;
+        anchored++;
+      }
+
+      return { anchored, through };
+    });
+  }
+
+  /**
+   * Walk the chain for each UTC day in the range (default: from the first chained day
+   * to today) and check every row hash, link, sequence and anchor
+   */
+  async verify(from?: string, to?: string): Promise<AuditChainReport> {
+    const secret = anchorSecret();
+    const today = toChainDate(new Date());
+
+    if (!from) {
+      const [first] = await db
+        .select({ chainDate: sql<string | null>`least(min(${auditLog.chainDate}), (select min(${auditLogAnchors.chainDate}) from ${auditLogAnchors}))` })
+        .from(auditLog);
+      from = first?.chainDate ?? undefined;
+    }
+    to = to ?? today;
+
+    const [unchained] = await db.select({ count: sql<number>`count(*)::int` }).from(auditLog).where(isNull(auditLog.hash));
+    const report: AuditChainReport = {
+      from: from ?? null,
+      to: from ? to : null,
+      verifiedAt: new Date().toISOString(),
+      valid: true,
+      entriesChecked: 0,
+      unchainedEntries: unchained.count,
+      days: [],
+      breaks: []
+    };
+    if (!from) {
+      return report;
+    }
+
+    // Include the anchor before the range so the first day's link can be checked
+    const anchors = await db
+      .select()
+      .from(auditLogAnchors)
+      .where(and(gte(auditLogAnchors.chainDate, addDays(from, -1)), lte(auditLogAnchors.chainDate, to)));
+    const anchorsByDate = new Map(anchors.map(anchor => [anchor.chainDate, anchor]));
+
+    for (let chainDate = from; chainDate <= to; chainDate = addDays(chainDate, 1)) {
+      const breaks: AuditChainBreak[] = [];
+      const rows = await db
+        .select()
+        .from(auditLog)
+        .where(and(eq(auditLog.chainDate, chainDate), isNotNull(auditLog.sequence)))
+        .orderBy(asc(auditLog.sequence));
+
+      let expectedPrevious = genesisHash(chainDate);
+      rows.forEach((row, index) => {
+        if (row.sequence !== index + 1) {
+          breaks.push({ chainDate, entryId: row.id, sequence: row.sequence ?? undefined, problem: `Sequence gap: expected ${index + 1}` });
+        }
+        if (row.previousHash !== expectedPrevious) {
+          breaks.push({ chainDate, entryId: row.id, sequence: row.sequence ?? undefined, problem: 'Previous hash does not match the preceding entry' });
+        }
+        if (row.hash !== hashEntry(row)) {
+          breaks.push({ chainDate, entryId: row.id, sequence: row.sequence ?? undefined, problem: 'Entry contents do not match its hash' });
+        }
+        // Continue from the stored hash so one edited row is reported once
+        expectedPrevious = row.hash ?? '';
+      });
+
+      const anchor = anchorsByDate.get(chainDate);
+      if (anchor) {
+        const last = rows[rows.length - 1];
+        if (anchor.signature !== signAnchor(anchor, secret)) {
+          breaks.push({ chainDate, problem: 'Anchor signature is invalid' });
+        }
+        if (anchor.entryCount !== rows.length || anchor.lastEntryId !== (last?.id ?? null)) {
+          breaks.push({ chainDate, problem: `Anchor records ${anchor.entryCount} entries ending at ${anchor.lastEntryId ?? 'none'}; found ${rows.length} ending at ${last?.id ?? 'none'}` });
+        }
+        if (anchor.headHash !== (last?.hash ?? genesisHash(chainDate))) {
+          breaks.push({ chainDate, problem: 'Anchor head hash does not match the last entry' });
+        }
+        // Days are anchored in order, so a removed anchor shows up on the next day's link
+        const previousAnchor = anchorsByDate.get(addDays(chainDate, -1));
+        if (anchor.previousSignature !== (previousAnchor?.signature ?? null)) {
+          breaks.push({ chainDate, problem: previousAnchor ? 'Anchor is not linked to the previous day\'s anchor' : 'Previous day\'s anchor is missing' });
+        }
+      }
+
+      report.days.push({ chainDate, entries: rows.length, anchored: !!anchor, valid: breaks.length === 0 });
+      report.breaks.push(...breaks);
+      report.entriesChecked += rows.length;
+    }
+
+    report.valid = report.breaks.length === 0;
+    return report;
+  }
+
+  /**
+   * Entries in a UTC date range, optionally only those by or about one patient, with
+   * the verification report and anchors for every day they fall on
+   */
+  async exportSlice(from: string, to: string, patientId?: number): Promise<AuditSlice> {
+    const verification = await this.verify(from, to);
+
+    const [anchors, entries] = await Promise.all([
+      db.select().from(auditLogAnchors)
+        .where(and(gte(auditLogAnchors.chainDate, from), lte(auditLogAnchors.chainDate, to)))
+        .orderBy(asc(auditLogAnchors.chainDate)),
+      db.select().from(auditLog)
+        .where(and(
+          gte(auditLog.timestamp, new Date(`${from}T00:00:00Z`)),
+          lt(auditLog.timestamp, new Date(`${addDays(to, 1)}T00:00:00Z`)),
+          patientId ? or(eq(auditLog.userId, patientId), eq(auditLog.targetUserId, patientId)) : undefined
+        ))
+        .orderBy(asc(auditLog.id))
+    ]);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      filters: { from, to, patientId: patientId ?? null },
+      verification,
+      anchors,
+      entries
+    };
+  }
+}
+
+export const auditChainService = new AuditChainService();
@@ -0,0 +1,326 @@
+/**
+ * Badge Rule Engine - single evaluator for achievement badges
+ *
+ * Badge criteria are declarative rules stored in badge_rules (metric, comparator,
+ * threshold, window, streak length, level) so the clinical team can tune them per
+ * care program. Both BadgeService and the Supervisor Agent award badges from these
+ * evaluations, and the backfill re-runs them over historical patient_scores.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  patientScores,
+  patientBadges,
+  badgeRules,
+  badgeLevels,
+  BadgeRule,
+  BadgeLevel,
+  BadgeMetric,
+  InsertBadgeRule,
+  PatientBadge
+} from '@shared/schema';
+import { eq, and, asc, inArray } from 'drizzle-orm';
+import { getLocalDateString } from './cronExpression';
+
+export type BadgeRuleDefinition = Omit<BadgeRule, 'id' | 'active' | 'updatedById' | 'createdAt' | 'updatedAt'> & { id?: number };
+
+export interface BadgeScoreEntry {
+  scoreDate: string | Date;
+  exerciseSelfScore: number | null;
+  mealPlanSelfScore: number | null;
+  medicationSelfScore: number | null;
+}
+
+export interface BadgeRuleEvaluation {
+  rule: BadgeRuleDefinition;
+  badgeType: string;
+  level: BadgeLevel;
+  achieved: boolean;
+  achievedAt: Date | null; // Date of the last score in the window that completed the streak
+  currentStreak: number;
+  longestStreak: number;
+}
+
+export interface BadgeBackfillResult {
+  patientsEvaluated: number;
+  badgesAwarded: number;
+  // Existing badges the current rules would no longer award - reported for review, never revoked
+  noLongerMet: { patientId: number; badgeType: string; badgeLevel: string }[];
+  awarded: { patientId: number; badgeType: string; badgeLevel: string; earnedDate: Date }[];
+}
+
+// patient_badges.badgeType for each scored metric
+export const BADGE_METRIC_TYPES: Record<BadgeMetric, string> = {
+  exerciseSelfScore: 'exercise',
+  mealPlanSelfScore: 'meal',
+  medicationSelfScore: 'medication'
+};
+
+// Fallback when a program has no stored rules: consecutive weeks with an average at or above the minimum
+const DEFAULT_LEVEL_CRITERIA: Record<BadgeLevel, { weeks: number; minScore: number }> = {
+  bronze: { weeks: 2, minScore: 5 },
+  silver: { weeks: 4, minScore: 7 },
+  gold: { weeks: 16, minScore: 8 },
+  platinum: { weeks: 24, minScore: 9 }
+};
+
+export const DEFAULT_BADGE_RULES: BadgeRuleDefinition[] = (Object.keys(BADGE_METRIC_TYPES) as BadgeMetric[]).flatMap(metric =>
+  badgeLevels.map(level => ({
+    programKey: 'default',
+    metric,
+    level,
+    comparator: 'gte',
+    threshold: DEFAULT_LEVEL_CRITERIA[level].minScore,
+    window: 'week',
+    streakLength: DEFAULT_LEVEL_CRITERIA[level].weeks,
+    minEntriesPerWindow: 3
+  }))
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluate one rule against a patient's score history.
+ * The window containing `today` never breaks a streak, since it may still be filled in.
+ */
+export function evaluateBadgeRule(rule: BadgeRuleDefinition, scores: BadgeScoreEntry[], today: string): BadgeRuleEvaluation {
+  const level = rule.level as BadgeLevel;
+  const badgeType = BADGE_METRIC_TYPES[rule.metric as BadgeMetric] ?? rule.metric;
+  const evaluation: BadgeRuleEvaluation = {
+    rule,
+    badgeType,
+    level,
+    achieved: false,
+    achievedAt: null,
+    currentStreak: 0,
+    longestStreak: 0
+  };
+
+  // Group the metric's values by window start date
+  const windows = new Map<string, { values: number[]; lastDate: string }>();
+  for (const score of scores) {
+    const value = score[rule.metric as BadgeMetric];
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    const date = toDateString(score.scoreDate);
+    const key = rule.window === 'week' ? startOfWeek(date) : date;
+    const entry = windows.get(key) ?? { values: [], lastDate: date };
+    entry.values.push(value);
+    if (date > entry.lastDate) {
+      entry.lastDate = date;
+    }
+    windows.set(key, entry);
+  }
+
+  if (windows.size === 0) {
+    return evaluation;
+  }
+
+  const stepDays = rule.window === 'week' ? 7 : 1;
+  const minEntries = rule.window === 'week' ? rule.minEntriesPerWindow : 1;
+  const currentWindow = rule.window === 'week' ? startOfWeek(today) : today;
+  const firstWindow = Array.from(windows.keys()).sort()[0];
+
+  let streak = 0;
+  for (let key = firstWindow; key <= currentWindow; key = addDays(key, stepDays)) {
+    const entry = windows.get(key);
+    const qualifies = !!entry
+      && entry.values.length >= minEntries
+      && compare(average(entry.values), rule.comparator, rule.threshold);
+
+    if (qualifies) {
+      streak++;
+      evaluation.longestStreak = Math.max(evaluation.longestStreak, streak);
+      if (!evaluation.achieved && streak >= rule.streakLength) {
+        evaluation.achieved = true;
+        evaluation.achievedAt = new Date(`${entry!.lastDate}T00:00:00.000Z`);
+      }
+    } else if (key !== currentWindow) {
+      streak = 0;
+    }
+  }
+
+  evaluation.currentStreak = streak;
+  return evaluation;
+}
+
+export function evaluateBadgeRules(rules: BadgeRuleDefinition[], scores: BadgeScoreEntry[], today: string): BadgeRuleEvaluation[] {
+  return rules.map(rule => evaluateBadgeRule(rule, scores, today));
+}
+
+export class BadgeRuleService {
+  /**
+   * Active rules for a care program, falling back to the default program and then the built-in rules
+   */
+  async getRulesForProgram(programKey: string): Promise<BadgeRuleDefinition[]> {
+    const programs = programKey === 'default' ? ['default'] : [programKey, 'default'];
+    const stored = await db.select()
+      .from(badgeRules)
+      .where(and(inArray(badgeRules.programKey, programs), eq(badgeRules.active, true)));
+
+    const programRules = stored.filter(rule => rule.programKey === programKey);
+    if (programRules.length > 0) {
+      return programRules;
+    }
+
+    const defaultRules = stored.filter(rule => rule.programKey === 'default');
+    return defaultRules.length > 0 ? defaultRules : DEFAULT_BADGE_RULES;
+  }
+
+  /**
+   * Evaluate every badge rule for a patient against their full score history
+   */
+  async evaluatePatient(patientId: number): Promise<BadgeRuleEvaluation[]> {
+    const [patient] = await db.select({ careProgram: users.careProgram, timezone: users.timezone })
+      .from(users)
+      .where(eq(users.id, patientId));
+
+    if (!patient) {
+      throw new Error(`Patient ${patientId} not found`);
+    }
+
+    const rules = await this.getRulesForProgram(patient.careProgram);
+    const scores = await db.select()
+      .from(patientScores)
+      .where(eq(patientScores.patientId, patientId))
+      .orderBy(asc(patientScores.scoreDate));
+
+    return evaluateBadgeRules(rules, scores, getLocalDateString(new Date(), patient.timezone));
+  }
+
+  async listRules(programKey?: string): Promise<BadgeRule[]> {
+    return await db.select()
+      .from(badgeRules)
+      .where(programKey ? eq(badgeRules.programKey, programKey) : undefined)
+      .orderBy(asc(badgeRules.programKey), asc(badgeRules.metric), asc(badgeRules.streakLength));
+  }
+
+  async getRule(ruleId: number): Promise<BadgeRule | undefined> {
+    const [rule] = await db.select().from(badgeRules).where(eq(badgeRules.id, ruleId));
+    return rule;
+  }
+
+  async createRule(rule: InsertBadgeRule, userId: number): Promise<BadgeRule> {
+    const [created] = await db.insert(badgeRules)
+      .values({ ...rule, updatedById: userId })
+      .returning();
+    return created;
+  }
+
+  async updateRule(ruleId: number, updates: Partial<InsertBadgeRule>, userId: number): Promise<BadgeRule | undefined> {
+    const [updated] = await db.update(badgeRules)
+      .set({ ...updates, updatedById: userId, updatedAt: new Date() })
+      .where(eq(badgeRules.id, ruleId))
+      .returning();
+    return updated;
+  }
+
+  async deleteRule(ruleId: number): Promise<boolean> {
+    const deleted = await db.delete(badgeRules)
+      .where(eq(badgeRules.id, ruleId))
+      .returning({ id: badgeRules.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Re-evaluate historical patient_scores after a rule change and award any badges
+   * the rules now grant, dated when they were earned. Badges are never revoked;
+   * ones the rules no longer support are reported instead.
+   */
+  async backfillBadges(options: { programKey?: string; patientId?: number; dryRun?: boolean } = {}): Promise<BadgeBackfillResult> {
+    const conditions = [eq(users.roleId, 3)];
+    if (options.programKey) {
+      conditions.push(eq(users.careProgram, options.programKey));
+    }
+    if (options.patientId) {
+      conditions.push(eq(users.id, options.patientId));
+    }
+
+    const patients = await db.select({ id: users.id })
+      .from(users)
+      .where(and(...conditions));
+
+    const result: BadgeBackfillResult = { patientsEvaluated: 0, badgesAwarded: 0, noLongerMet: [], awarded: [] };
+
+    for (const patient of patients) {
+      const evaluations = await this.evaluatePatient(patient.id);
+      const existing = await db.select()
+        .from(patientBadges)
+        .where(eq(patientBadges.patientId, patient.id));
+
+      for (const evaluation of evaluations) {
+        const hasBadge = existing.some(badge => badge.badgeType === evaluation.badgeType && badge.badgeLevel === evaluation.level);
+
+        if (evaluation.achieved && !hasBadge) {
+          const earnedDate = evaluation.achievedAt ?? new Date();
+          if (!options.dryRun) {
+            // Historical awards are recorded without sending a notification
+            await db.insert(patientBadges)
+              .values({
+                patientId: patient.id,
+                badgeType: evaluation.badgeType,
+                badgeLevel: evaluation.level,
+                earnedDate,
+                notificationSent: false
+              })
+              .onConflictDoNothing();
+          }
+          result.badgesAwarded++;
+          result.awarded.push({ patientId: patient.id, badgeType: evaluation.badgeType, badgeLevel: evaluation.level, earnedDate });
+        } else if (!evaluation.achieved && hasBadge) {
+          result.noLongerMet.push({ patientId: patient.id, badgeType: evaluation.badgeType, badgeLevel: evaluation.level });
+        }
+      }
+
+      result.patientsEvaluated++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Highest awarded level for a badge type from a set of badges
+   */
+  getHighestLevel(badges: Pick<PatientBadge, 'badgeType' | 'badgeLevel'>[], badgeType: string): BadgeLevel | null {
+    let highest: BadgeLevel | null = null;
+    for (const level of badgeLevels) {
+      if (badges.some(badge => badge.badgeType === badgeType && badge.badgeLevel === level)) {
+        highest = level;
+      }
+    }
+    return highest;
+  }
+}
+
+function compare(value: number, comparator: string, threshold: number): boolean {
+  switch (comparator) {
+    case 'gt': return value > threshold;
+    case 'lte': return value <= threshold;
+    case 'lt': return value < threshold;
+    case 'eq': return value === threshold;
+    default: return value >= threshold;
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function toDateString(date: string | Date): string {
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Weeks start on Sunday
+function startOfWeek(date: string): string {
+  const day = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  return addDays(date, -day);
+}
+
+export const badgeRuleService = new BadgeRuleService();
@@ -0,0 +1,442 @@
+/**
+ * Care Plan Directive Import Service
+ *
+ * Imports a patient's CPDs from a FHIR CarePlan/Goal bundle or the CSV template.
+ * Imports are previewed as a diff against the patient's latest active CPDs
+ * (one per category) before they are applied. Applying deactivates every active
+ * directive a new one supersedes, versions both, and records the import in
+ * admin_activity_log.
+ */
+
+import { db } from '../db';
+import {
+  carePlanDirectives,
+  adminActivityLog,
+  cpdCategories,
+  CarePlanDirective,
+  CpdCategory
+} from '@shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
+import { CPDValidationService } from './cpdValidationService';
+import { SELF_SCORE_CODES, FhirResource } from './fhirExportService';
+import { cpdVersionService, isCpdCategory } from './cpdVersionService';
+
+export type CpdImportFormat = 'fhir' | 'csv';
+
+export interface ImportedDirective {
+  category: CpdCategory;
+  directive: string;
+  targetValue: number | null;
+  source: string; // Where in the input it came from, e.g. "row 3" or "Goal/abc"
+}
+
+export interface CpdImportIssue {
+  source: string;
+  message: string;
+}
+
+export interface CpdImportChange {
+  category: CpdCategory;
+  action: 'add' | 'replace' | 'unchanged';
+  current: CarePlanDirective | null;
+  incoming: ImportedDirective;
+  supersededIds: number[]; // Active directives deactivated when this change is applied
+}
+
+export interface CpdImportPreview {
+  patientId: number;
+  format: CpdImportFormat;
+  changes: CpdImportChange[];
+  retained: CarePlanDirective[]; // Current directives in categories the import doesn't cover
+  activeDirectiveIds: number[]; // Pass back when applying to detect concurrent edits
+  issues: CpdImportIssue[];
+}
+
+export interface CpdImportResult extends CpdImportPreview {
+  created: CarePlanDirective[];
+  deactivatedIds: number[];
+}
+
+export const CPD_CSV_TEMPLATE = 'category,directive,target_value\n'
+  + 'diet,"Follow the Mediterranean meal plan, limiting salt to 5g a day",7\n'
+  + 'exercise,Walk for 30 minutes at a moderate pace each day,8\n'
+  + 'medication,Take all prescribed medications at the scheduled times,9\n';
+
+const MIN_TARGET = 1;
+const MAX_TARGET = 10;
+
+// FHIR goal-category codes with an unambiguous CPD category
+const GOAL_CATEGORY_CODES: Record<string, CpdCategory> = {
+  dietary: 'diet',
+  physiotherapy: 'exercise'
+};
+
+const INACTIVE_GOAL_STATUSES = ['cancelled', 'completed', 'rejected', 'entered-in-error'];
+const IMPORTABLE_CAREPLAN_STATUSES = ['draft', 'active'];
+
+/**
+ * Parse the CSV template: category, directive, target_value (optional, 1-10)
+ */
+export function parseCpdCsv(content: string): { directives: ImportedDirective[]; issues: CpdImportIssue[] } {
+  const rows = parseCsvRows(content);
+  const issues: CpdImportIssue[] = [];
+  const directives: ImportedDirective[] = [];
+
+  if (rows.length === 0) {
+    return { directives, issues: [{ source: 'file', message: 'CSV is empty' }] };
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const columns = {
+    category: header.indexOf('category'),
+    directive: header.indexOf('directive'),
+    targetValue: header.indexOf('target_value')
+  };
+  if (columns.category === -1 || columns.directive === -1) {
+    return { directives, issues: [{ source: 'row 1', message: 'Header must include category and directive columns' }] };
+  }
+
+  rows.slice(1).forEach((row, index) => {
+    const source = `row ${index + 2}`;
+    if (row.every(cell => cell.trim() === '')) {
+      return;
+    }
+
+    const category = (row[columns.category] ?? '').trim().toLowerCase();
+    const directive = (row[columns.directive] ?? '').trim();
+    const rawTarget = columns.targetValue === -1 ? '' : (row[columns.targetValue] ?? '').trim();
+
+    if (!isCpdCategory(category)) {
+      issues.push({ source, message: `category must be one of ${cpdCategories.join(', ')}` });
+      return;
+    }
+    if (!directive) {
+      issues.push({ source, message: 'directive is required' });
+      return;
+    }
+
+    const targetValue = rawTarget === '' ? null : Number(rawTarget);
+    if (targetValue !== null && !isValidTarget(targetValue)) {
+      issues.push({ source, message: `target_value must be a number from ${MIN_TARGET} to ${MAX_TARGET}` });
+      return;
+    }
+
+    directives.push({ category, directive, targetValue, source });
+  });
+
+  return { directives, issues };
+}
+
+/**
+ * Extract directives from FHIR Goals: a Bundle, a CarePlan with contained Goals, or a single Goal.
+ * When CarePlans are present only Goals referenced by a draft or active CarePlan are imported.
+ */
+export function parseCpdFhir(input: unknown): { directives: ImportedDirective[]; issues: CpdImportIssue[] } {
+  const issues: CpdImportIssue[] = [];
+  const directives: ImportedDirective[] = [];
+
+  if (!input || typeof input !== 'object' || typeof (input as FhirResource).resourceType !== 'string') {
+    return { directives, issues: [{ source: 'input', message: 'Expected a FHIR Bundle, CarePlan or Goal resource' }] };
+  }
+
+  // Flatten into (key, resource) pairs; keys are what CarePlan.goal references resolve against
+  const resources: { keys: string[]; resource: FhirResource }[] = [];
+  const collect = (resource: FhirResource, fullUrl?: string) => {
+    const keys = [fullUrl, resource.id && `${resource.resourceType}/${resource.id}`, resource.id && `#${resource.id}`]
+      .filter((key): key is string => !!key);
+    resources.push({ keys, resource });
+    for (const contained of (resource.contained as FhirResource[] | undefined) ?? []) {
+      collect(contained);
+    }
+  };
+
+  const root = input as FhirResource;
+  if (root.resourceType === 'Bundle') {
+    for (const entry of (root.entry as { fullUrl?: string; resource?: FhirResource }[] | undefined) ?? []) {
+      if (entry.resource) {
+        collect(entry.resource, entry.fullUrl);
+      }
+    }
+  } else if (root.resourceType === 'CarePlan' || root.resourceType === 'Goal') {
+    collect(root);
+  } else {
+    return { directives, issues: [{ source: root.resourceType, message: 'Expected a FHIR Bundle, CarePlan or Goal resource' }] };
+  }
+
+  const carePlans = resources.filter(({ resource }) => resource.resourceType === 'CarePlan');
+  let goals = resources.filter(({ resource }) => resource.resourceType === 'Goal');
+
+  if (carePlans.length > 0) {
+    const referenced = new Set<string>();
+    for (const { resource } of carePlans) {
+      if (!IMPORTABLE_CAREPLAN_STATUSES.includes(resource.status as string)) {
+        continue;
+      }
+      for (const goal of (resource.goal as { reference?: string }[] | undefined) ?? []) {
+        if (goal.reference) {
+          referenced.add(goal.reference);
+        }
+      }
+    }
+    goals = goals.filter(({ keys }) => keys.some(key => referenced.has(key)));
+  }
+
+  if (goals.length === 0) {
+    issues.push({ source: root.resourceType, message: 'No importable Goal resources found' });
+  }
+
+  goals.forEach(({ resource, keys }, index) => {
+    const source = keys.find(key => key.startsWith('Goal/')) ?? keys[0] ?? `Goal[${index}]`;
+    if (INACTIVE_GOAL_STATUSES.includes(resource.lifecycleStatus as string)) {
+      return;
+    }
+
+    const description = resource.description as { text?: string; coding?: { display?: string }[] } | undefined;
+    const directive = (description?.text ?? description?.coding?.[0]?.display ?? '').trim();
+    if (!directive) {
+      issues.push({ source, message: 'Goal.description.text is required' });
+      return;
+    }
+
+    const category = goalCategory(resource);
+    if (!category) {
+      issues.push({ source, message: `Cannot determine the CPD category (${cpdCategories.join(', ')}) for this Goal` });
+      return;
+    }
+
+    const targets = (resource.target as { detailQuantity?: { value?: number } }[] | undefined) ?? [];
+    const rawTarget = targets.find(target => target.detailQuantity?.value !== undefined)?.detailQuantity?.value;
+    const targetValue = rawTarget === undefined ? null : Number(rawTarget);
+    if (targetValue !== null && !isValidTarget(targetValue)) {
+      issues.push({ source, message: `target detailQuantity must be a number from ${MIN_TARGET} to ${MAX_TARGET}` });
+      return;
+    }
+
+    directives.push({ category, directive, targetValue, source });
+  });
+
+  return { directives, issues };
+}
+
+export class CpdImportService {
+  private cpdValidationService = CPDValidationService.getInstance();
+
+  /**
+   * Parse an import and diff it against the patient's latest active CPDs
+   */
+  async preview(patientId: number, format: CpdImportFormat, content: unknown): Promise<CpdImportPreview> {
+    const parsed = format === 'csv'
+      ? parseCpdCsv(typeof content === 'string' ? content : '')
+      : parseCpdFhir(typeof content === 'string' ? safeJsonParse(content) : content);
+    const issues = [...parsed.issues];
+
+    // CPDs are one per category - reject ambiguous imports rather than guess
+    const seen = new Map<CpdCategory, string>();
+    for (const directive of parsed.directives) {
+      const first = seen.get(directive.category);
+      if (first) {
+        issues.push({ source: directive.source, message: `Duplicate ${directive.category} directive (also in ${first})` });
+      } else {
+        seen.set(directive.category, directive.source);
+      }
+    }
+
+    this.cpdValidationService.invalidateCache(patientId);
+    const [latest, active] = await Promise.all([
+      this.cpdValidationService.getLatestActiveCPDs(patientId),
+      db.select()
+        .from(carePlanDirectives)
+        .where(and(eq(carePlanDirectives.userId, patientId), eq(carePlanDirectives.active, true)))
+    ]);
+
+    const changes: CpdImportChange[] = parsed.directives
+      .filter(directive => seen.get(directive.category) === directive.source)
+      .map(incoming => {
+        const current = latest.find(cpd => cpd.category === incoming.category) ?? null;
+        const unchanged = !!current
+          && normaliseText(current.directive) === normaliseText(incoming.directive)
+          && current.targetValue === incoming.targetValue;
+
+        return {
+          category: incoming.category,
+          action: !current ? 'add' : unchanged ? 'unchanged' : 'replace',
+          current,
+          incoming,
+          // Older active directives in the category are superseded as well as the latest one
+          supersededIds: unchanged ? [] : active.filter(cpd => cpd.category === incoming.category).map(cpd => cpd.id)
+        };
+      });
+
+    return {
+      patientId,
+      format,
+      changes,
+      retained: latest.filter(cpd => !seen.has(cpd.category as CpdCategory)),
+      activeDirectiveIds: active.map(cpd => cpd.id).sort((a, b) => a - b),
+      issues
+    };
+  }
+
+  /**
+   * Whether the patient's active CPDs still match the ones a preview was shown against
+   */
+  isCurrent(preview: CpdImportPreview, expectedActiveDirectiveIds: number[]): boolean {
+    return [...expectedActiveDirectiveIds].sort((a, b) => a - b).join(',') === preview.activeDirectiveIds.join(',');
+  }
+
+  /**
+   * Apply a previewed import with no issues: deactivate superseded directives,
+   * create the new ones and log the import, in one transaction
+   */
+  async apply(preview: CpdImportPreview, importedById: number): Promise<CpdImportResult> {
+    const { patientId, format } = preview;
+    const pending = preview.changes.filter(change => change.action !== 'unchanged');
+    const deactivatedIds = pending.flatMap(change => change.supersededIds);
+
+    const change = { authorId: importedById, reason: `Imported from ${format.toUpperCase()}` };
+
+    const created = await db.transaction(async (tx) => {
+      if (deactivatedIds.length > 0) {
+        const superseded = await tx.select()
+          .from(carePlanDirectives)
+          .where(inArray(carePlanDirectives.id, deactivatedIds));
+        const deactivated = await tx.update(carePlanDirectives)
+          .set({ active: false, updatedAt: new Date() })
+          .where(inArray(carePlanDirectives.id, deactivatedIds))
+          .returning();
+        for (const directive of deactivated) {
+          await cpdVersionService.recordVersion(tx, superseded.find(cpd => cpd.id === directive.id) ?? null, directive, change);
+        }
+      }
+
+      const inserted = pending.length > 0
+        ? await tx.insert(carePlanDirectives)
+            .values(pending.map(change => ({
+              userId: patientId,
+              category: change.category,
+              directive: change.incoming.directive,
+              targetValue: change.incoming.targetValue,
+              active: true
+            })))
+            .returning()
+        : [];
+      for (const directive of inserted) {
+        await cpdVersionService.recordVersion(tx, null, directive, change);
+      }
+
+      await tx.insert(adminActivityLog).values({
+        adminId: importedById,
+        activityType: 'import_care_plan_directives',
+        entityType: 'user',
+        entityId: patientId,
+        details: {
+          format,
+          added: preview.changes.filter(change => change.action === 'add').map(change => change.category),
+          replaced: preview.changes.filter(change => change.action === 'replace').map(change => change.category),
+          unchanged: preview.changes.filter(change => change.action === 'unchanged').map(change => change.category),
+          createdIds: inserted.map(cpd => cpd.id),
+          deactivatedIds
+        }
+      });
+
+      return inserted;
+    });
+
+    this.cpdValidationService.invalidateCache(patientId);
+    console.log(`[CPD-Import] Patient ${patientId}: ${created.length} created, ${deactivatedIds.length} deactivated by user ${importedById}`);
+
+    return { ...preview, created, deactivatedIds };
+  }
+}
+
+function goalCategory(goal: FhirResource): CpdCategory | null {
+  // 1. Self-score measure codes, as written by the FHIR export
+  const measureCodes = ((goal.target as { measure?: { coding?: { code?: string }[] } }[] | undefined) ?? [])
+    .flatMap(target => target.measure?.coding ?? [])
+    .map(coding => coding.code);
+  for (const category of cpdCategories) {
+    if (measureCodes.includes(SELF_SCORE_CODES[category].code)) {
+      return category;
+    }
+  }
+
+  // 2. Standard goal-category codes, then the category wording
+  const concepts = (goal.category as { text?: string; coding?: { code?: string; display?: string }[] }[] | undefined) ?? [];
+  for (const concept of concepts) {
+    for (const coding of concept.coding ?? []) {
+      if (coding.code && GOAL_CATEGORY_CODES[coding.code]) {
+        return GOAL_CATEGORY_CODES[coding.code];
+      }
+    }
+  }
+  const wording = concepts
+    .flatMap(concept => [concept.text, ...(concept.coding ?? []).flatMap(coding => [coding.code, coding.display])])
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  const matches = cpdCategories.filter(category => wording.includes(category));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function isValidTarget(value: number): boolean {
+  return Number.isFinite(value) && value >= MIN_TARGET && value <= MAX_TARGET;
+}
+
+function normaliseText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function safeJsonParse(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+// RFC 4180 rows: quoted fields may contain commas, newlines and doubled quotes
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^﻿/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export const cpdImportService = new CpdImportService();
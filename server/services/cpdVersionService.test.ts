@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CpdVersionRecord } from './cpdVersionService';
+
+// Finding the version in force is pure; keep the database out of the test
+vi.mock('../db', () => ({ db: {} }));
+
+const { findVersionInForce } = await import('./cpdVersionService');
+
+function version(overrides: Partial<CpdVersionRecord>): CpdVersionRecord {
+  return {
+    id: 1,
+    directiveId: 1,
+    userId: 2,
+    version: 1,
+    directive: 'Keep sodium under 2g a day',
+    category: 'diet',
+    targetValue: 8,
+    active: true,
+    effectiveFrom: new Date('2025-03-01T00:00:00Z'),
+    effectiveTo: null,
+    authorId: 3,
+    changeReason: null,
+    ...overrides
+  };
+}
+
+describe('findVersionInForce', () => {
+  it('matches a directive stored with a capitalised category', () => {
+    const diet = version({ category: 'Diet' });
+
+    expect(findVersionInForce([diet], '2025-03-10', 'diet', 'UTC')).toBe(diet);
+  });
+
+  it('ignores directives in other categories', () => {
+    expect(findVersionInForce([version({ category: 'Exercise' })], '2025-03-10', 'diet', 'UTC')).toBeNull();
+  });
+
+  it('takes the most recent version when several are in force', () => {
+    const first = version({ effectiveFrom: new Date('2025-03-01T00:00:00Z') });
+    const second = version({ id: 2, version: 2, category: 'DIET', effectiveFrom: new Date('2025-03-05T00:00:00Z') });
+
+    expect(findVersionInForce([first, second], '2025-03-10', 'diet', 'UTC')).toBe(second);
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Care Plan Directive Version Service
+ *
+ * Every change to a care plan directive appends an immutable version with its
+ * author, reason and effective-from date; the version it supersedes gets its
+ * effective-to date. Compliance calculations use these versions to score each
+ * day against the directive that was in force on that day.
+ *
+ * Directives created before versioning have no stored versions. They are
+ * treated as a single version effective from their creation date, and that
+ * baseline is persisted the first time such a directive changes.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  carePlanDirectives,
+  carePlanDirectiveVersions,
+  cpdCategories,
+  CarePlanDirective,
+  CarePlanDirectiveVersion,
+  CpdCategory
+} from '@shared/schema';
+import { eq, asc, desc, inArray } from 'drizzle-orm';
+import { getLocalDateString } from './cronExpression';
+
+// Accepts the db or a transaction, so versions are written with the change they record
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export interface CpdChange {
+  authorId?: number | null;
+  reason?: string | null;
+}
+
+// Stored version, or the implicit baseline of a directive that predates versioning (id null)
+export type CpdVersionRecord = Omit<CarePlanDirectiveVersion, 'id' | 'createdAt'> & { id: number | null };
+
+export interface TextDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface CpdVersionChange {
+  directive: TextDiffSegment[];
+  targetValue: { from: number | null; to: number | null } | null;
+  active: { from: boolean; to: boolean } | null;
+  category: { from: string; to: string } | null;
+}
+
+export interface CpdTimelineEntry {
+  version: CpdVersionRecord;
+  changes: CpdVersionChange | null; // Relative to the previous entry; null for the first
+}
+
+export interface CpdSchedule {
+  timeZone: string;
+  hasHistory: boolean;
+  // Directive version in force at the end of the given local date (YYYY-MM-DD) or instant
+  inForce(day: string | Date, category: CpdCategory): CpdVersionRecord | null;
+}
+
+// Score a day is compared against when its directive has no numeric target (the "excellent" band)
+export const DEFAULT_DIRECTIVE_TARGET = 8;
+
+/**
+ * Version in force on a local date: active, effective by the end of that day and not
+ * superseded before it ends. When several qualify the most recent takes precedence.
+ * Deactivation versions are history only - the version they close stops at their start.
+ */
+export function findVersionInForce(
+  versions: CpdVersionRecord[],
+  day: string,
+  category: CpdCategory,
+  timeZone: string
+): CpdVersionRecord | null {
+  let inForce: CpdVersionRecord | null = null;
+
+  for (const version of versions) {
+    // Directives may be stored with capitalised categories ("Diet")
+    if (version.category.toLowerCase() !== category.toLowerCase() || !version.active) {
+      continue;
+    }
+    if (getLocalDateString(version.effectiveFrom, timeZone) > day) {
+      continue;
+    }
+    if (version.effectiveTo && getLocalDateString(version.effectiveTo, timeZone) <= day) {
+      continue;
+    }
+    if (!inForce || version.effectiveFrom > inForce.effectiveFrom) {
+      inForce = version;
+    }
+  }
+
+  return inForce;
+}
+
+/**
+ * Word-level diff between two directive texts
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = before.split(/(\s+)/).filter(token => token !== '');
+  const b = after.split(/(\s+)/).filter(token => token !== '');
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) {
+    push('removed', a[i++]);
+  }
+  while (j < b.length) {
+    push('added', b[j++]);
+  }
+
+  return segments;
+}
+
+export function compareVersions(previous: CpdVersionRecord, next: CpdVersionRecord): CpdVersionChange {
+  return {
+    directive: diffText(previous.directive, next.directive),
+    targetValue: previous.targetValue !== next.targetValue ? { from: previous.targetValue, to: next.targetValue } : null,
+    active: previous.active !== next.active ? { from: previous.active, to: next.active } : null,
+    category: previous.category !== next.category ? { from: previous.category, to: next.category } : null
+  };
+}
+
+export class CpdVersionService {
+  /**
+   * Append a version for a created or changed directive and close the one it supersedes.
+   * `before` is the row prior to the change, or null for a new directive.
+   */
+  async recordVersion(
+    executor: DbExecutor,
+    before: CarePlanDirective | null,
+    after: CarePlanDirective,
+    change: CpdChange = {}
+  ): Promise<CarePlanDirectiveVersion | null> {
+    if (before && !hasVersionedChange(before, after)) {
+      return null;
+    }
+
+    const now = new Date();
+    const [latest] = await executor.select()
+      .from(carePlanDirectiveVersions)
+      .where(eq(carePlanDirectiveVersions.directiveId, after.id))
+      .orderBy(desc(carePlanDirectiveVersions.version))
+      .limit(1);
+
+    let version = latest ? latest.version : 0;
+
+    if (!latest && before) {
+      // First change to a directive that predates versioning - keep what it said until now
+      await executor.insert(carePlanDirectiveVersions).values({
+        ...baselineVersion(before),
+        effectiveTo: now
+      });
+      version = 1;
+    } else if (latest && !latest.effectiveTo) {
+      await executor.update(carePlanDirectiveVersions)
+        .set({ effectiveTo: now })
+        .where(eq(carePlanDirectiveVersions.id, latest.id));
+    }
+
+    const [created] = await executor.insert(carePlanDirectiveVersions)
+      .values({
+        directiveId: after.id,
+        userId: after.userId,
+        version: version + 1,
+        directive: after.directive,
+        category: after.category,
+        targetValue: after.targetValue,
+        active: after.active,
+        effectiveFrom: now,
+        effectiveTo: null,
+        authorId: change.authorId ?? null,
+        changeReason: change.reason ?? null
+      })
+      .returning();
+
+    return created;
+  }
+
+  /**
+   * Every version of one directive, oldest first, each diffed against the one before
+   */
+  async getDirectiveTimeline(directiveId: number): Promise<CpdTimelineEntry[] | null> {
+    const [directive] = await db.select()
+      .from(carePlanDirectives)
+      .where(eq(carePlanDirectives.id, directiveId));
+
+    if (!directive) {
+      return null;
+    }
+
+    const versions = await this.getVersionsForDirectives([directive]);
+    return buildTimeline(versions);
+  }
+
+  /**
+   * A patient's directive history, oldest first. Entries are diffed against the
+   * previous version in the same category, so replacements read as changes.
+   */
+  async getPatientTimeline(userId: number, category?: CpdCategory): Promise<Record<string, CpdTimelineEntry[]>> {
+    const versions = await this.getPatientVersions(userId);
+    const categories = category ? [category] : Array.from(new Set(versions.map(version => version.category.toLowerCase())));
+
+    return Object.fromEntries(categories.map(key => [
+      key,
+      buildTimeline(versions.filter(version => version.category.toLowerCase() === key))
+    ]));
+  }
+
+  /**
+   * Directive versions for a patient with a lookup of what was in force on each day,
+   * in the patient's timezone (matching how daily scores are dated)
+   */
+  async getSchedule(userId: number): Promise<CpdSchedule> {
+    const [patient] = await db.select({ timezone: users.timezone })
+      .from(users)
+      .where(eq(users.id, userId));
+    const timeZone = patient?.timezone ?? 'Australia/Sydney';
+    const versions = await this.getPatientVersions(userId);
+
+    return buildSchedule(versions, timeZone);
+  }
+
+  /**
+   * Schedules for several patients in three queries rather than three per patient
+   */
+  async getSchedules(userIds: number[]): Promise<Map<number, CpdSchedule>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const [patients, directives, stored] = await Promise.all([
+      db.select({ id: users.id, timezone: users.timezone })
+        .from(users)
+        .where(inArray(users.id, userIds)),
+      db.select()
+        .from(carePlanDirectives)
+        .where(inArray(carePlanDirectives.userId, userIds)),
+      db.select()
+        .from(carePlanDirectiveVersions)
+        .where(inArray(carePlanDirectiveVersions.userId, userIds))
+        .orderBy(asc(carePlanDirectiveVersions.effectiveFrom), asc(carePlanDirectiveVersions.version))
+    ]);
+
+    const timeZones = new Map(patients.map(patient => [patient.id, patient.timezone]));
+    return new Map(userIds.map(userId => [
+      userId,
+      buildSchedule(
+        mergeVersions(
+          directives.filter(directive => directive.userId === userId),
+          stored.filter(version => version.userId === userId)
+        ),
+        timeZones.get(userId) ?? 'Australia/Sydney'
+      )
+    ]));
+  }
+
+  async getPatientVersions(userId: number): Promise<CpdVersionRecord[]> {
+    const directives = await db.select()
+      .from(carePlanDirectives)
+      .where(eq(carePlanDirectives.userId, userId));
+
+    return await this.getVersionsForDirectives(directives);
+  }
+
+  private async getVersionsForDirectives(directives: CarePlanDirective[]): Promise<CpdVersionRecord[]> {
+    if (directives.length === 0) {
+      return [];
+    }
+
+    const stored = await db.select()
+      .from(carePlanDirectiveVersions)
+      .where(directives.length === 1
+        ? eq(carePlanDirectiveVersions.directiveId, directives[0].id)
+        : eq(carePlanDirectiveVersions.userId, directives[0].userId))
+      .orderBy(asc(carePlanDirectiveVersions.effectiveFrom), asc(carePlanDirectiveVersions.version));
+
+    return mergeVersions(directives, stored);
+  }
+}
+
+/**
+ * Stored versions plus a baseline for each directive that predates versioning, oldest first
+ */
+function mergeVersions(directives: CarePlanDirective[], stored: CarePlanDirectiveVersion[]): CpdVersionRecord[] {
+  const versioned = new Set(stored.map(version => version.directiveId));
+  const legacy = directives
+    .filter(directive => !versioned.has(directive.id))
+    .map(directive => ({
+      ...baselineVersion(directive),
+      id: null,
+      // A deactivated legacy directive stopped applying when it was last updated
+      effectiveTo: directive.active ? null : directive.updatedAt
+    }));
+
+  return [...stored, ...legacy]
+    .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime() || a.version - b.version);
+}
+
+function buildSchedule(versions: CpdVersionRecord[], timeZone: string): CpdSchedule {
+  return {
+    timeZone,
+    hasHistory: versions.length > 0,
+    inForce: (day, category) => findVersionInForce(
+      versions,
+      typeof day === 'string' ? day.slice(0, 10) : getLocalDateString(day, timeZone),
+      category,
+      timeZone
+    )
+  };
+}
+
+function buildTimeline(versions: CpdVersionRecord[]): CpdTimelineEntry[] {
+  return versions.map((version, index) => ({
+    version,
+    changes: index > 0 ? compareVersions(versions[index - 1], version) : null
+  }));
+}
+
+function baselineVersion(directive: CarePlanDirective) {
+  return {
+    directiveId: directive.id,
+    userId: directive.userId,
+    version: 1,
+    directive: directive.directive,
+    category: directive.category,
+    targetValue: directive.targetValue,
+    active: true,
+    effectiveFrom: directive.createdAt,
+    effectiveTo: null as Date | null,
+    authorId: null,
+    changeReason: null
+  };
+}
+
+function hasVersionedChange(before: CarePlanDirective, after: CarePlanDirective): boolean {
+  return before.directive !== after.directive
+    || before.category !== after.category
+    || before.targetValue !== after.targetValue
+    || before.active !== after.active;
+}
+
+export function isCpdCategory(value: string): value is CpdCategory {
+  return (cpdCategories as readonly string[]).includes(value);
+}
+
+export const cpdVersionService = new CpdVersionService();
@@ -0,0 +1,232 @@
+/**
+ * Cron Expression Utilities
+ *
+ * Parses standard 5-field cron expressions (minute hour day-of-month month day-of-week)
+ * and finds the next matching time in a given IANA timezone, so "0 19 * * *" means
+ * 7:00 PM local time in Perth and in Sydney alike, across daylight saving changes.
+ *
+ * Supports *, lists (1,15), ranges (1-5), steps (*\/15, 9-17/2) and
+ * JAN-DEC / SUN-SAT names. When both day fields are restricted, either may match.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface LocalTimeParts {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const FIELD_RANGES = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 }
+];
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Enough minute/hour/day jumps to find Feb 29 schedules across a leap cycle
+const MAX_SEARCH_STEPS = 50000;
+const MINUTE_MS = 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Parse a 5-field cron expression, throwing a descriptive Error if it is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, index, expression)
+  );
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*'
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Next time strictly after `after` that matches the schedule in the given timezone
+ */
+export function getNextCronOccurrence(schedule: CronSchedule, after: Date, timeZone: string): Date {
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const local = getLocalTimeParts(time, timeZone);
+
+    if (!schedule.months.has(local.month) || !matchesDay(schedule, local)) {
+      // Jump to the next local midnight
+      time += ((23 - local.hour) * 60 + (60 - local.minute)) * MINUTE_MS;
+      continue;
+    }
+
+    if (!schedule.hours.has(local.hour)) {
+      time += (60 - local.minute) * MINUTE_MS;
+      continue;
+    }
+
+    if (!schedule.minutes.has(local.minute)) {
+      time += MINUTE_MS;
+      continue;
+    }
+
+    return new Date(time);
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" has no upcoming occurrence`);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function getLocalDateString(date: Date, timeZone: string): string {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const value = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+  return `${value('year')}-${value('month')}-${value('day')}`;
+}
+
+/**
+ * Wall-clock time (HH:MM, 24-hour) of an instant in the given timezone
+ */
+export function getLocalTimeString(date: Date, timeZone: string): string {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const value = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+  return `${value('hour')}:${value('minute')}`;
+}
+
+function matchesDay(schedule: CronSchedule, local: LocalTimeParts): boolean {
+  const dayOfMonthMatches = schedule.daysOfMonth.has(local.day);
+  const dayOfWeekMatches = schedule.daysOfWeek.has(local.weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+  return dayOfMonthMatches && dayOfWeekMatches;
+}
+
+function parseField(field: string, index: number, expression: string): Set<number> {
+  const { name, min, max } = FIELD_RANGES[index];
+  const names = index === 3 ? MONTH_NAMES : index === 4 ? WEEKDAY_NAMES : null;
+  const values = new Set<number>();
+
+  const toNumber = (token: string): number => {
+    const nameIndex = names ? names.indexOf(token.toUpperCase()) : -1;
+    const value = nameIndex >= 0 ? nameIndex + (index === 3 ? 1 : 0) : Number(token);
+    if (!/^\w+$/.test(token) || !Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid ${name} "${token}" in cron expression "${expression}"`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepToken] = part.split('/');
+    const step = stepToken === undefined ? 1 : Number(stepToken);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${name} step "${stepToken}" in cron expression "${expression}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+      if (start > end) {
+        throw new Error(`Invalid ${name} range "${range}" in cron expression "${expression}"`);
+      }
+    } else {
+      start = toNumber(range);
+      // "5/15" means every 15 starting at 5
+      end = stepToken === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-AU', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getLocalTimeParts(time: number, timeZone: string): LocalTimeParts {
+  const parts = getFormatter(timeZone).formatToParts(new Date(time));
+  const value = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    month: Number(value('month')),
+    day: Number(value('day')),
+    weekday: WEEKDAY_NAMES.indexOf(value('weekday').slice(0, 3).toUpperCase()),
+    hour: Number(value('hour')),
+    minute: Number(value('minute'))
+  };
+}
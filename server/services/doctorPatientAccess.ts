@@ -0,0 +1,121 @@
+/**
+ * Doctor-patient care relationships
+ *
+ * A patient is under a doctor's care through any of: an active doctor_to_patient or
+ * shared_care dashboard relationship, an active legacy doctor_patients row, or
+ * users.assignedDoctorId. Care never crosses practices: only patients in the doctor's
+ * own practice count, whatever relationships remain from before a move.
+ */
+
+import { db } from '../db';
+import { users, dashboardRelationships, doctorPatients } from '@shared/schema';
+import { eq, and, inArray, isNull } from 'drizzle-orm';
+
+// Dashboard relationship types that put a patient under a doctor's care
+export const careRelationshipTypes = ['doctor_to_patient', 'shared_care'];
+
+/**
+ * Condition matching users in the given practice (users not yet migrated into one have null)
+ */
+export function inPractice(practiceId: number | null) {
+  return practiceId === null ? isNull(users.practiceId) : eq(users.practiceId, practiceId);
+}
+
+/**
+ * IDs of every patient under the doctor's care in the doctor's practice, ascending
+ */
+export async function getDoctorPatientIds(doctorId: number): Promise<number[]> {
+  const [doctor] = await db
+    .select({ practiceId: users.practiceId })
+    .from(users)
+    .where(eq(users.id, doctorId));
+
+  if (!doctor) {
+    return [];
+  }
+
+  const samePractice = inPractice(doctor.practiceId);
+  const [relationships, legacy, assigned] = await Promise.all([
+    db.select({ patientId: dashboardRelationships.childUserId })
+      .from(dashboardRelationships)
+      .innerJoin(users, eq(dashboardRelationships.childUserId, users.id))
+      .where(and(
+        eq(dashboardRelationships.parentUserId, doctorId),
+        inArray(dashboardRelationships.relationshipType, careRelationshipTypes),
+        eq(dashboardRelationships.active, true),
+        samePractice
+      )),
+    db.select({ patientId: doctorPatients.patientId })
+      .from(doctorPatients)
+      .innerJoin(users, eq(doctorPatients.patientId, users.id))
+      .where(and(eq(doctorPatients.doctorId, doctorId), eq(doctorPatients.active, true), samePractice)),
+    db.select({ patientId: users.id })
+      .from(users)
+      .where(and(eq(users.assignedDoctorId, doctorId), eq(users.roleId, 3), samePractice))
+  ]);
+
+  return Array.from(new Set([...relationships, ...legacy, ...assigned].map(row => row.patientId))).sort((a, b) => a - b);
+}
+
+/**
+ * IDs of every doctor caring for the patient in the patient's practice, ascending
+ */
+export async function getPatientDoctorIds(patientId: number): Promise<number[]> {
+  const [patient] = await db
+    .select({ practiceId: users.practiceId, assignedDoctorId: users.assignedDoctorId })
+    .from(users)
+    .where(eq(users.id, patientId));
+
+  if (!patient) {
+    return [];
+  }
+
+  const samePractice = inPractice(patient.practiceId);
+  const [relationships, legacy, assigned] = await Promise.all([
+    db.select({ doctorId: dashboardRelationships.parentUserId })
+      .from(dashboardRelationships)
+      .innerJoin(users, eq(dashboardRelationships.parentUserId, users.id))
+      .where(and(
+        eq(dashboardRelationships.childUserId, patientId),
+        inArray(dashboardRelationships.relationshipType, careRelationshipTypes),
+        eq(dashboardRelationships.active, true),
+        samePractice
+      )),
+    db.select({ doctorId: doctorPatients.doctorId })
+      .from(doctorPatients)
+      .innerJoin(users, eq(doctorPatients.doctorId, users.id))
+      .where(and(eq(doctorPatients.patientId, patientId), eq(doctorPatients.active, true), samePractice)),
+    patient.assignedDoctorId
+      ? db.select({ doctorId: users.id })
+        .from(users)
+        .where(and(eq(users.id, patient.assignedDoctorId), samePractice))
+      : Promise.resolve([])
+  ]);
+
+  const doctorIds = [...relationships, ...legacy, ...assigned]
+    .map(row => row.doctorId)
+    .filter((doctorId): doctorId is number => doctorId !== null);
+  return Array.from(new Set(doctorIds)).sort((a, b) => a - b);
+}
+
+/**
+ * Whether the patient is under the doctor's care
+ */
+export async function isPatientOfDoctor(doctorId: number, patientId: number): Promise<boolean> {
+  const patientIds = await getDoctorPatientIds(doctorId);
+  return patientIds.includes(patientId);
+}
+
+/**
+ * Whether a signed-in user may see a patient's records: the patient, their doctor, or an admin.
+ * Practice managers administer their practice's accounts but not clinical records.
+ */
+export async function canAccessPatientRecord(userId: number, userRole: string, patientId: number): Promise<boolean> {
+  if (userRole === 'admin') {
+    return true;
+  }
+  if (userRole === 'patient') {
+    return userId === patientId;
+  }
+  return userRole === 'doctor' && await isPatientOfDoctor(userId, patientId);
+}
@@ -20,12 +20,18 @@ interface EmailParams {
   html?: string;
 }
 
+interface EmailResult {
+  success: boolean;
+  messageId?: string; // SendGrid X-Message-Id, the prefix of sg_message_id in event webhooks
+  error?: string;
+}
+
 export class EmailService {
   private defaultFromEmail = 'welcome@keepgoingcare.com';
 
-  async sendEmail(params: EmailParams): Promise<{ success: boolean; error?: string }> {
+  async sendEmail(params: EmailParams): Promise<EmailResult> {
     try {
-      await mailService.send({
+      const [response] = await mailService.send({
         to: params.to,
         from: params.from,
         subject: params.subject,
@@ -34,7 +40,7 @@ export class EmailService {
       });
       
       console.log(`Email sent successfully to ${params.to}`);
-      return { success: true };
+      return { success: true, messageId: response?.headers?.['x-message-id'] };
     } catch (error: any) {
       console.error('SendGrid email error:', error);
       return { 
@@ -44,7 +50,10 @@ export class EmailService {
     }
   }
 
-  private convertToHtml(content: string): string {
+  /**
+   * Wrap plain text (with **bold**, *italic* and bare links) in the KGC branded email layout
+   */
+  convertToHtml(content: string): string {
     // Convert plain text to HTML with proper formatting and KGC branding
     const html = content
       .replace(/\n\n/g, '</p><p>')
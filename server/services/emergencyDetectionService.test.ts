@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Triage is pure; keep the database and notification channels out of the test
+vi.mock('../db', () => ({ db: {} }));
+vi.mock('./notificationService', () => ({ notificationService: {} }));
+vi.mock('./emergencyEscalationService', () => ({ emergencyEscalationService: {} }));
+
+const { emergencyDetectionService } = await import('./emergencyDetectionService');
+
+describe('emergency triage', () => {
+  it.each([
+    "I'm not okay I want to die",
+    "I don't know, I want to die",
+    'im not coping i want to die'
+  ])('treats a negation elsewhere in the message as direct: %s', (message) => {
+    const { primary, severity } = emergencyDetectionService.triage(message);
+
+    expect(primary?.type).toBe('self_harm');
+    expect(primary?.context).toBe('direct');
+    expect(severity).toBe('high');
+  });
+
+  it.each([
+    "I'm not suicidal",
+    "I don't want to hurt myself"
+  ])('negates a phrase the negation governs, but still tells the doctor: %s', (message) => {
+    const { primary, severity } = emergencyDetectionService.triage(message);
+
+    expect(primary?.context).toBe('negated');
+    expect(severity).toBe('moderate');
+  });
+
+  it('dismisses negated physical symptoms', () => {
+    expect(emergencyDetectionService.triage('I have no chest pain today').severity).toBeNull();
+  });
+});
@@ -1,23 +1,81 @@
 import { db } from '../db';
-import { users, doctorPatients, emergencyAlerts } from '@shared/schema';
+import { users, doctorPatients, emergencyAlerts, emergencyEvents, EmergencyAlert, EmergencySeverity } from '@shared/schema';
 import { eq, and } from 'drizzle-orm';
-import { emailService } from './emailService';
+import { notificationService } from './notificationService';
+import { emergencyEscalationService } from './emergencyEscalationService';
 
 /**
  * Emergency Detection Service
- * Monitors patient messages for emergency situations and alerts doctors immediately
+ * Monitors patient messages for emergency situations and alerts doctors immediately.
+ *
+ * Triage runs in stages:
+ * 1. Screening - every emergency pattern that matches the message
+ * 2. Contextual re-check - each match is down-weighted if negated ("I'm not suicidal"),
+ *    quoted or reported, in the past, or hypothetical. Self-harm matches never drop
+ *    below 'moderate', so the doctor always sees them
+ * 3. Severity - the strongest remaining match sets critical / high / moderate
+ * 4. Escalation - alerts are persisted and handed to the escalation service
  */
 
+type EmergencyType = 'self_harm' | 'death_risk' | 'serious_injury' | 'medical_emergency';
+type MatchContext = 'direct' | 'negated' | 'reported' | 'historical' | 'hypothetical';
+
+interface ScreeningMatch {
+  type: EmergencyType;
+  phrase: string;
+  weight: number;
+  context: MatchContext;
+  adjustedWeight: number;
+}
+
+interface TriageOutcome {
+  matches: ScreeningMatch[];
+  primary: ScreeningMatch | null;
+  severity: EmergencySeverity | null;
+}
+
 interface EmergencyDetectionResult {
   isEmergency: boolean;
-  emergencyType?: 'self_harm' | 'death_risk' | 'serious_injury' | 'medical_emergency';
+  emergencyType?: EmergencyType;
+  severity?: EmergencySeverity;
   confidence: number;
   alertMessage?: string;
 }
 
+// Weight multipliers applied by the contextual re-check
+const CONTEXT_MULTIPLIERS: Record<MatchContext, number> = {
+  direct: 1,
+  negated: 0,
+  reported: 0.35,
+  historical: 0.3,
+  hypothetical: 0.4
+};
+
+// Past self-harm ideation stays relevant to the treating doctor, so it can still reach 'moderate'
+const SELF_HARM_HISTORY_MULTIPLIER = 0.5;
+
+// Any self-harm match reaches the doctor: context can lower it to 'moderate', never dismiss it
+const SELF_HARM_MIN_WEIGHT = 0.4;
+
+// Adjusted-weight floors for each severity, highest first
+const SEVERITY_THRESHOLDS: { severity: EmergencySeverity; minWeight: number }[] = [
+  { severity: 'critical', minWeight: 0.9 },
+  { severity: 'high', minWeight: 0.7 },
+  { severity: 'moderate', minWeight: 0.4 }
+];
+
+// Context cues, checked within the clause containing the match. A negation only counts when
+// it governs the phrase: directly before it ("not suicidal"), or through one of a few verbs
+// ("don't want to hurt myself", "not going to kill myself") - not "I'm not okay I want to die"
+const NEGATION_CUES = /\b(not|no|never|don't|dont|do not|isn't|won't|wont|will not|no longer)\s+(?:(?:going to|gonna|want to|wanna|trying to|planning to|about to|thinking about|thinking of|feeling|feel|be|been|being)\s+)?$/i;
+const REPORTED_CUES = /(["“”]|\b(said|says|told me|was saying|on (the )?(tv|news|radio)|in (a|the) (movie|film|show|book|article)|watched|reading about|heard about)\b)/i;
+const HISTORICAL_CUES = /\b(used to|years ago|months ago|last (year|month)|when i was|back then|in the past|had a|had an|once had|was diagnosed|recovered from)\b/i;
+const HYPOTHETICAL_CUES = /\b(what if|in case|signs of|symptoms of|how do i know|worried i might|could i|what happens when|how to (recognise|recognize|tell))\b/i;
+const PRESENT_CUES = /\b(now|right now|today|tonight|still|currently|at the moment|again|keep)\b/i;
+
 export class EmergencyDetectionService {
   // Emergency keywords and phrases that indicate immediate danger
-  private emergencyPatterns = [
+  private emergencyPatterns: { pattern: RegExp; type: EmergencyType; weight: number }[] = [
     // Self-harm indicators
     { pattern: /\b(want to hurt myself|going to hurt myself|hurt myself|end my life|kill myself|suicide|suicidal)\b/i, type: 'self_harm', weight: 0.9 },
     { pattern: /\b(don't want to live|want to die|planning to die|end it all|no point living)\b/i, type: 'self_harm', weight: 0.8 },
@@ -40,35 +98,37 @@ export class EmergencyDetectionService {
    */
   async detectEmergency(patientMessage: string, patientId: number): Promise<EmergencyDetectionResult> {
     try {
-      const message = patientMessage.toLowerCase().trim();
-      let maxConfidence = 0;
-      let detectedType: any = null;
-
-      // Check against all emergency patterns
-      for (const { pattern, type, weight } of this.emergencyPatterns) {
-        if (pattern.test(message)) {
-          if (weight > maxConfidence) {
-            maxConfidence = weight;
-            detectedType = type;
-          }
-        }
+      const triage = this.triage(patientMessage);
+
+      if (!triage.primary) {
+        return {
+          isEmergency: false,
+          confidence: 0
+        };
       }
 
-      // If emergency detected with high confidence, trigger alerts
-      if (maxConfidence >= 0.7) {
-        await this.createEmergencyAlert(patientId, detectedType, maxConfidence, patientMessage);
-        
+      const confidence = triage.primary.adjustedWeight;
+
+      if (!triage.severity) {
+        // Screened but dismissed on context - keep the decision for audit
+        await this.logTriageDismissal(patientId, triage);
         return {
-          isEmergency: true,
-          emergencyType: detectedType,
-          confidence: maxConfidence,
-          alertMessage: this.getEmergencyResponseMessage(detectedType)
+          isEmergency: false,
+          confidence
         };
       }
 
+      await this.createEmergencyAlert(patientId, triage, patientMessage);
+
+      // Moderate alerts go to the doctor without interrupting the patient's conversation
+      const isEmergency = triage.severity !== 'moderate';
+
       return {
-        isEmergency: false,
-        confidence: maxConfidence
+        isEmergency,
+        emergencyType: triage.primary.type,
+        severity: triage.severity,
+        confidence,
+        alertMessage: isEmergency ? this.getEmergencyResponseMessage(triage.primary.type) : undefined
       };
 
     } catch (error) {
@@ -81,10 +141,113 @@ export class EmergencyDetectionService {
   }
 
   /**
-   * Create emergency alert and notify doctor immediately
+   * Run screening and the contextual re-check without persisting anything
+   */
+  triage(patientMessage: string): TriageOutcome {
+    const matches = this.screen(patientMessage);
+    const primary = matches.reduce<ScreeningMatch | null>(
+      (best, match) => (!best || match.adjustedWeight > best.adjustedWeight ? match : best),
+      null
+    );
+
+    const severity = primary
+      ? SEVERITY_THRESHOLDS.find(threshold => primary.adjustedWeight >= threshold.minWeight)?.severity ?? null
+      : null;
+
+    return { matches, primary, severity };
+  }
+
+  /**
+   * Stage 1 and 2: find every pattern match and re-check it in its clause
+   */
+  private screen(patientMessage: string): ScreeningMatch[] {
+    const message = patientMessage.trim();
+    const matches: ScreeningMatch[] = [];
+
+    for (const { pattern, type, weight } of this.emergencyPatterns) {
+      const globalPattern = new RegExp(pattern.source, 'gi');
+      let match: RegExpExecArray | null;
+
+      while ((match = globalPattern.exec(message)) !== null) {
+        const [clauseStart, clauseEnd] = this.getClauseBounds(message, match.index, match[0].length);
+        const clause = message.slice(clauseStart, clauseEnd);
+        const context = this.recheckContext(clause, message.slice(clauseStart, match.index));
+        const multiplier = context === 'historical' && type === 'self_harm'
+          ? SELF_HARM_HISTORY_MULTIPLIER
+          : CONTEXT_MULTIPLIERS[context];
+        let adjustedWeight = weight * multiplier;
+
+        // Explicitly present-tense direct statements are firmer evidence
+        if (context === 'direct' && PRESENT_CUES.test(clause)) {
+          adjustedWeight = Math.min(1, adjustedWeight + 0.05);
+        }
+        if (type === 'self_harm') {
+          adjustedWeight = Math.max(adjustedWeight, SELF_HARM_MIN_WEIGHT);
+        }
+
+        matches.push({
+          type,
+          phrase: match[0],
+          weight,
+          context,
+          adjustedWeight: Math.round(adjustedWeight * 100) / 100
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Classify how a matched phrase is being used in its clause
+   */
+  private recheckContext(clause: string, before: string): MatchContext {
+    // Phrases that carry their own negation ("don't want to live") are not negated by it
+    if (NEGATION_CUES.test(before)) {
+      return 'negated';
+    }
+    if (REPORTED_CUES.test(clause)) {
+      return 'reported';
+    }
+    if (HYPOTHETICAL_CUES.test(clause)) {
+      return 'hypothetical';
+    }
+    if (HISTORICAL_CUES.test(clause) && !PRESENT_CUES.test(clause)) {
+      return 'historical';
+    }
+    return 'direct';
+  }
+
+  /**
+   * Bounds of the sentence or clause around a match, split on punctuation, commas and
+   * the conjunctions "but", "and" and "so"
+   */
+  private getClauseBounds(message: string, index: number, length: number): [number, number] {
+    const boundary = /[.!?;,\n]|\b(but|and|so)\b/gi;
+    let start = 0;
+    let end = message.length;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(message)) !== null) {
+      if (match.index + match[0].length <= index) {
+        start = match.index + match[0].length;
+      } else if (match.index >= index + length) {
+        end = match.index;
+        break;
+      }
+    }
+
+    return [start, end];
+  }
+
+  /**
+   * Create emergency alert, notify doctor and hand over to escalation
    */
-  private async createEmergencyAlert(patientId: number, emergencyType: string, confidence: number, originalMessage: string) {
+  private async createEmergencyAlert(patientId: number, triage: TriageOutcome, originalMessage: string) {
     try {
+      const primary = triage.primary!;
+      const severity = triage.severity!;
+
       // Get patient details
       const [patient] = await db.select({
         id: users.id,
@@ -110,86 +273,113 @@ export class EmergencyDetectionService {
         eq(doctorPatients.active, true)
       ));
 
-      if (!doctorRelation) {
-        console.error(`No active doctor found for patient ${patientId} in emergency situation`);
-        return;
-      }
-
       // Get doctor details
-      const [doctor] = await db.select({
-        id: users.id,
-        name: users.name,
-        email: users.email,
-        phoneNumber: users.phoneNumber
-      })
-      .from(users)
-      .where(eq(users.id, doctorRelation.doctorId));
+      const [doctor] = doctorRelation
+        ? await db.select({
+            id: users.id,
+            name: users.name,
+            email: users.email,
+            phoneNumber: users.phoneNumber
+          })
+          .from(users)
+          .where(eq(users.id, doctorRelation.doctorId))
+        : [];
 
       if (!doctor) {
-        console.error(`Doctor with ID ${doctorRelation.doctorId} not found for emergency alert`);
-        return;
+        // Still raise the alert - escalation goes straight to an admin
+        console.error(`No active doctor found for patient ${patientId} in emergency situation`);
       }
 
       // Create emergency alert record
-      await db.insert(emergencyAlerts).values({
+      const [alert] = await db.insert(emergencyAlerts).values({
         patientId: patient.id,
-        doctorId: doctor.id,
-        emergencyType,
-        confidence,
+        doctorId: doctor?.id ?? null,
+        emergencyType: primary.type,
+        confidence: primary.adjustedWeight,
         patientMessage: originalMessage,
-        alertSent: true,
+        severity,
+        triageDetails: { matches: triage.matches },
+        alertSent: !!doctor?.email,
         resolved: false
+      }).returning();
+
+      await this.logAlertEvent(alert, 'alert_created', `${severity} ${primary.type} triaged from "${primary.phrase}" (${primary.context})`, null, {
+        matches: triage.matches
       });
 
-      // Prepare alert messages
-      const alertSubject = `URGENT: Emergency Detected - Patient ${patient.name} (${patient.uin})`;
-      const alertMessage = `EMERGENCY ALERT from Keep Going Care
-
-Patient: ${patient.name} (${patient.uin || 'No UIN'})
-Emergency Type: ${this.getEmergencyTypeDescription(emergencyType)}
-Confidence: ${Math.round(confidence * 100)}%
-Time: ${new Date().toLocaleString('en-AU')}
-
-Patient's message: "${originalMessage}"
-
-IMMEDIATE ACTION REQUIRED:
-- Contact patient immediately at their registered phone number
-- If you cannot reach them, consider calling emergency services (000)
-- This is an automated alert from KGC's emergency detection system
-
-Contact KGC Support: support@keepgoingcare.com.au
-Patient Dashboard: ${process.env.BASE_URL || 'https://keepgoingcare.com.au'}/doctor-dashboard`;
-
-      // Send email alert to doctor
-      if (doctor.email) {
-        try {
-          await emailService.sendEmail({
-            to: doctor.email,
-            from: 'alerts@keepgoingcare.com.au',
-            subject: alertSubject,
-            text: alertMessage,
-            html: this.formatEmergencyEmailHtml(patient, doctor, emergencyType, confidence, originalMessage)
-          });
-          
+      // Email the doctor; emergency priority ignores their preferences and quiet hours
+      if (doctor) {
+        const [email] = await notificationService.notify(doctor.id, 'emergency_alert_doctor', {
+          patientName: patient.name,
+          patientUin: patient.uin || 'No UIN',
+          patientEmail: patient.email,
+          emergencyType: this.getEmergencyTypeDescription(primary.type),
+          severity: severity.toUpperCase(),
+          confidence: Math.round(primary.adjustedWeight * 100),
+          time: new Date().toLocaleString('en-AU'),
+          patientMessage: originalMessage
+        }, { channels: ['email'], priority: 'emergency' });
+
+        if (email && (email.status === 'sent' || email.status === 'delivered')) {
+          await this.logAlertEvent(alert, 'email_sent', `Emergency email sent to Dr. ${doctor.name}`, doctor.id, { notificationId: email.id });
           console.log(`EMERGENCY ALERT EMAIL sent to Dr. ${doctor.name} (${doctor.email}) about patient ${patient.name}`);
-        } catch (emailError) {
-          console.error('Failed to send emergency email alert:', emailError);
+        } else {
+          await this.logAlertEvent(alert, 'email_failed', `Emergency email to Dr. ${doctor.name} failed${email?.statusReason ? `: ${email.statusReason}` : ''}`, doctor.id, {
+            notificationId: email?.id
+          });
         }
       }
 
       // Log for immediate monitoring
       console.log(`🚨 EMERGENCY DETECTED 🚨`);
       console.log(`Patient: ${patient.name} (${patient.uin})`);
-      console.log(`Doctor: ${doctor.name} (${doctor.email})`);
-      console.log(`Type: ${emergencyType}`);
+      console.log(`Doctor: ${doctor ? `${doctor.name} (${doctor.email})` : 'none assigned'}`);
+      console.log(`Type: ${primary.type} (${severity})`);
       console.log(`Message: "${originalMessage}"`);
       console.log(`Alert sent at: ${new Date().toISOString()}`);
 
+      await emergencyEscalationService.startEscalation(alert);
+
     } catch (error) {
       console.error('Error creating emergency alert:', error);
     }
   }
 
+  /**
+   * Record screened matches that the contextual re-check dismissed
+   */
+  private async logTriageDismissal(patientId: number, triage: TriageOutcome) {
+    try {
+      await db.insert(emergencyEvents).values({
+        patientId,
+        eventType: 'triage_dismissed',
+        triggerReason: `"${triage.primary!.phrase}" dismissed as ${triage.primary!.context}`,
+        details: { matches: triage.matches },
+        resolved: true,
+        resolvedTime: new Date()
+      });
+    } catch (error) {
+      console.error('Error logging triage dismissal:', error);
+    }
+  }
+
+  private async logAlertEvent(alert: EmergencyAlert, eventType: string, triggerReason: string, recipientUserId: number | null, details: Record<string, unknown>) {
+    try {
+      await db.insert(emergencyEvents).values({
+        patientId: alert.patientId,
+        doctorId: alert.doctorId,
+        alertId: alert.id,
+        recipientUserId,
+        eventType,
+        triggerReason,
+        details,
+        resolved: false
+      });
+    } catch (error) {
+      console.error(`Error logging ${eventType} emergency event:`, error);
+    }
+  }
+
   /**
    * Get appropriate emergency response message for patient
    */
@@ -246,65 +436,6 @@ Your doctor has been notified and will contact you, but please seek emergency ca
       default: return 'Emergency situation';
     }
   }
-
-  /**
-   * Format emergency alert email as HTML
-   */
-  private formatEmergencyEmailHtml(patient: any, doctor: any, emergencyType: string, confidence: number, originalMessage: string): string {
-    return `
-      <html>
-        <head>
-          <meta charset="utf-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        </head>
-        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-          <div style="background-color: #dc2626; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
-            <h1 style="margin: 0; font-size: 24px;">🚨 EMERGENCY ALERT</h1>
-            <p style="margin: 5px 0 0 0; font-size: 16px;">Keep Going Care Emergency Detection System</p>
-          </div>
-          
-          <div style="background-color: #fef2f2; border: 2px solid #dc2626; padding: 20px; border-radius: 0 0 8px 8px;">
-            <h2 style="color: #dc2626; margin-top: 0;">Immediate Action Required</h2>
-            
-            <div style="background-color: white; padding: 15px; border-radius: 5px; margin: 15px 0;">
-              <h3 style="margin-top: 0; color: #333;">Patient Details:</h3>
-              <p><strong>Name:</strong> ${patient.name}</p>
-              <p><strong>UIN:</strong> ${patient.uin || 'Not assigned'}</p>
-              <p><strong>Email:</strong> ${patient.email}</p>
-            </div>
-            
-            <div style="background-color: white; padding: 15px; border-radius: 5px; margin: 15px 0;">
-              <h3 style="margin-top: 0; color: #333;">Emergency Details:</h3>
-              <p><strong>Type:</strong> ${this.getEmergencyTypeDescription(emergencyType)}</p>
-              <p><strong>Confidence:</strong> ${Math.round(confidence * 100)}%</p>
-              <p><strong>Time:</strong> ${new Date().toLocaleString('en-AU')}</p>
-            </div>
-            
-            <div style="background-color: #fef9c3; border-left: 4px solid #f59e0b; padding: 15px; margin: 15px 0;">
-              <h4 style="margin-top: 0; color: #92400e;">Patient's Message:</h4>
-              <p style="font-style: italic; color: #92400e;">"${originalMessage}"</p>
-            </div>
-            
-            <div style="background-color: #dcfce7; border-left: 4px solid #16a34a; padding: 15px; margin: 15px 0;">
-              <h4 style="margin-top: 0; color: #166534;">Immediate Actions:</h4>
-              <ul style="color: #166534; margin: 0;">
-                <li>Contact patient immediately at their registered phone number</li>
-                <li>If unable to reach patient, consider calling emergency services (000)</li>
-                <li>Document your response in the patient's care plan</li>
-                <li>Follow up to ensure patient safety</li>
-              </ul>
-            </div>
-          </div>
-          
-          <div style="text-align: center; font-size: 12px; color: #666; margin-top: 20px; padding-top: 20px; border-top: 1px solid #ddd;">
-            <p>This is an automated alert from Keep Going Care Emergency Detection System</p>
-            <p>Anthrocyt AI Pty Ltd | Support: support@keepgoingcare.com.au</p>
-            <p><strong>Time sent:</strong> ${new Date().toLocaleString('en-AU')}</p>
-          </div>
-        </body>
-      </html>
-    `;
-  }
 }
 
 export const emergencyDetectionService = new EmergencyDetectionService();
\ No newline at end of file
@@ -0,0 +1,461 @@
+/**
+ * Emergency Escalation Service
+ *
+ * Drives an emergency alert along its practice's escalation chain until someone
+ * acknowledges it:
+ * 1. Primary doctor (SMS)
+ * 2. Backup doctor from the practice policy (SMS)
+ * 3. Practice admin (SMS)
+ * then round again, up to the policy's maximum number of rounds.
+ *
+ * Every notification, failure, escalation and acknowledgement is written to
+ * emergency_events so the full timeline can be audited.
+ */
+
+import { db } from "../db";
+import {
+  users,
+  dashboardRelationships,
+  emergencyAlerts,
+  emergencyEvents,
+  emergencyEscalationPolicies,
+  emergencySeverities,
+  EmergencyAlert,
+  EmergencyEvent,
+  EmergencyEscalationPolicy,
+  EmergencySeverity
+} from "@shared/schema";
+import { eq, and, isNull, lte, asc, desc, or } from "drizzle-orm";
+import { notificationService } from "./notificationService";
+
+// Used when neither the practice nor the platform has a stored policy
+const DEFAULT_POLICY = {
+  backupDoctorId: null,
+  escalationAdminId: null,
+  ackTimeoutMinutes: 10,
+  maxEscalationRounds: 3,
+  smsMinSeverity: 'high'
+};
+
+// How often due escalations are checked
+const ESCALATION_CHECK_INTERVAL_MS = 60 * 1000;
+
+type EscalationRole = 'primary_doctor' | 'backup_doctor' | 'practice_admin';
+
+interface EscalationRecipient {
+  userId: number;
+  name: string;
+  phoneNumber: string;
+  role: EscalationRole;
+}
+
+interface ResolvedPolicy {
+  practiceAdminId: number | null;
+  backupDoctorId: number | null;
+  escalationAdminId: number | null;
+  ackTimeoutMinutes: number;
+  maxEscalationRounds: number;
+  smsMinSeverity: string;
+}
+
+export class EmergencyEscalationService {
+  private static instance: EmergencyEscalationService;
+  private monitorInterval: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  private constructor() {}
+
+  public static getInstance(): EmergencyEscalationService {
+    if (!EmergencyEscalationService.instance) {
+      EmergencyEscalationService.instance = new EmergencyEscalationService();
+    }
+    return EmergencyEscalationService.instance;
+  }
+
+  /**
+   * Begin escalation for a newly created alert. Alerts below the policy's SMS
+   * severity stay with the initial doctor email and are not escalated.
+   */
+  async startEscalation(alert: EmergencyAlert): Promise<void> {
+    const policy = await this.getPolicyForDoctor(alert.doctorId);
+
+    if (!this.meetsSeverity(alert.severity, policy.smsMinSeverity)) {
+      await this.logEvent(alert, 'escalation_not_required', `Severity ${alert.severity} is below the practice SMS threshold (${policy.smsMinSeverity})`, null, {
+        smsMinSeverity: policy.smsMinSeverity
+      });
+      return;
+    }
+
+    await this.escalate(alert, policy);
+  }
+
+  /**
+   * Notify the next recipient in the chain and schedule the following step
+   */
+  async escalate(alert: EmergencyAlert, policy?: ResolvedPolicy): Promise<void> {
+    if (alert.acknowledgedAt || alert.resolved) {
+      return;
+    }
+
+    const resolvedPolicy = policy || await this.getPolicyForDoctor(alert.doctorId);
+    const chain = await this.buildEscalationChain(alert, resolvedPolicy);
+
+    if (chain.length === 0) {
+      await this.logEvent(alert, 'escalation_failed', 'No doctor or admin available to notify', null, {});
+      await db.update(emergencyAlerts)
+        .set({ nextEscalationAt: null })
+        .where(eq(emergencyAlerts.id, alert.id));
+      console.error(`🚨 Emergency alert ${alert.id} has no escalation recipients`);
+      return;
+    }
+
+    const round = Math.floor(alert.escalationAttempts / chain.length);
+    if (round >= resolvedPolicy.maxEscalationRounds) {
+      if (await this.claimStep(alert, { nextEscalationAt: null })) {
+        await this.logEvent(alert, 'escalation_exhausted', `No acknowledgement after ${resolvedPolicy.maxEscalationRounds} escalation rounds`, null, {
+          attempts: alert.escalationAttempts
+        });
+      }
+      return;
+    }
+
+    // Claim this step before sending: a check running on another instance, or an
+    // overlapping check on this one, finds the attempt count moved on and sends nothing
+    const attempt = alert.escalationAttempts + 1;
+    const claimed = await this.claimStep(alert, {
+      escalationAttempts: attempt,
+      nextEscalationAt: new Date(Date.now() + resolvedPolicy.ackTimeoutMinutes * 60 * 1000)
+    });
+    if (!claimed) {
+      return;
+    }
+
+    const recipient = chain[alert.escalationAttempts % chain.length];
+    if (alert.escalationAttempts > 0) {
+      await this.logEvent(alert, 'escalated', `Unacknowledged - escalating to ${recipient.role.replace('_', ' ')}`, recipient.userId, {
+        round: round + 1,
+        attempt
+      });
+    }
+
+    const [patient] = await db.select({ name: users.name })
+      .from(users)
+      .where(eq(users.id, alert.patientId));
+
+    // One attempt only: a failed send moves on to the next recipient rather than retrying
+    const [sms] = await notificationService.notify(recipient.userId, 'emergency_escalation_sms', {
+      patientName: patient?.name || `Patient ${alert.patientId}`,
+      alertType: `${alert.severity.toUpperCase()} ${alert.emergencyType.replace('_', ' ')}`,
+      message: `Acknowledge alert #${alert.id} in the KGC dashboard`
+    }, { channels: ['sms'], priority: 'emergency', maxAttempts: 1 });
+    const smsSent = !!sms && (sms.status === 'sent' || sms.status === 'delivered');
+
+    await this.logEvent(
+      alert,
+      smsSent ? 'sms_sent' : 'sms_failed',
+      smsSent
+        ? `Emergency SMS sent to ${recipient.role.replace('_', ' ')} ${recipient.name}`
+        : `Emergency SMS to ${recipient.role.replace('_', ' ')} ${recipient.name} failed: ${sms?.statusReason ?? 'not sent'}`,
+      recipient.userId,
+      { role: recipient.role, notificationId: sms?.id, messageId: sms?.providerMessageId, round: round + 1 }
+    );
+
+    // A failed send moves straight on to the next recipient at the next check
+    if (!smsSent) {
+      await db.update(emergencyAlerts)
+        .set({ nextEscalationAt: new Date() })
+        .where(and(
+          eq(emergencyAlerts.id, alert.id),
+          eq(emergencyAlerts.escalationAttempts, attempt),
+          isNull(emergencyAlerts.acknowledgedAt)
+        ));
+    }
+  }
+
+  /**
+   * Atomically take the alert's current escalation step. Only succeeds while the
+   * alert is unacknowledged, still on the attempt this run read, and due (a new
+   * alert has no time set until its first step). Returns false if another run
+   * took the step first.
+   */
+  private async claimStep(alert: EmergencyAlert, updates: { escalationAttempts?: number; nextEscalationAt: Date | null }): Promise<boolean> {
+    const claimed = await db.update(emergencyAlerts)
+      .set(updates)
+      .where(and(
+        eq(emergencyAlerts.id, alert.id),
+        eq(emergencyAlerts.escalationAttempts, alert.escalationAttempts),
+        isNull(emergencyAlerts.acknowledgedAt),
+        eq(emergencyAlerts.resolved, false),
+        alert.escalationAttempts === 0
+          ? or(isNull(emergencyAlerts.nextEscalationAt), lte(emergencyAlerts.nextEscalationAt, new Date()))
+          : lte(emergencyAlerts.nextEscalationAt, new Date())
+      ))
+      .returning({ id: emergencyAlerts.id });
+    return claimed.length > 0;
+  }
+
+  /**
+   * Escalate every unacknowledged alert whose acknowledgement window has passed
+   */
+  async processDueEscalations(): Promise<void> {
+    // A slow check must not overlap the next tick on this instance
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const dueAlerts = await db.select()
+        .from(emergencyAlerts)
+        .where(and(
+          isNull(emergencyAlerts.acknowledgedAt),
+          eq(emergencyAlerts.resolved, false),
+          lte(emergencyAlerts.nextEscalationAt, new Date())
+        ))
+        .orderBy(asc(emergencyAlerts.nextEscalationAt));
+
+      for (const alert of dueAlerts) {
+        try {
+          await this.escalate(alert);
+        } catch (error) {
+          console.error(`[Emergency Escalation] Failed to escalate alert ${alert.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('[Emergency Escalation] Error processing due escalations:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Record that a clinician has picked up the alert, stopping further escalation.
+   * Returns undefined if the alert does not exist or was already acknowledged.
+   */
+  async acknowledgeAlert(alertId: number, userId: number, notes?: string): Promise<EmergencyAlert | undefined> {
+    const [alert] = await db.update(emergencyAlerts)
+      .set({
+        acknowledgedBy: userId,
+        acknowledgedAt: new Date(),
+        nextEscalationAt: null
+      })
+      .where(and(
+        eq(emergencyAlerts.id, alertId),
+        isNull(emergencyAlerts.acknowledgedAt)
+      ))
+      .returning();
+
+    if (!alert) {
+      return undefined;
+    }
+
+    await this.logEvent(alert, 'acknowledged', 'Alert acknowledged', userId, {
+      minutesToAcknowledge: Math.round((alert.acknowledgedAt!.getTime() - alert.createdAt.getTime()) / 60000),
+      attemptsBeforeAcknowledgement: alert.escalationAttempts
+    }, notes);
+
+    return alert;
+  }
+
+  /**
+   * Whether a user may view or acknowledge an alert: the patient's doctor,
+   * anyone already notified about it, or an admin
+   */
+  async canAccessAlert(alert: EmergencyAlert, userId: number, userRole: string): Promise<boolean> {
+    if (userRole === 'admin' || alert.doctorId === userId) {
+      return true;
+    }
+
+    const [notified] = await db.select({ id: emergencyEvents.id })
+      .from(emergencyEvents)
+      .where(and(
+        eq(emergencyEvents.alertId, alert.id),
+        eq(emergencyEvents.recipientUserId, userId)
+      ))
+      .limit(1);
+
+    return !!notified;
+  }
+
+  async getAlertById(alertId: number): Promise<EmergencyAlert | undefined> {
+    const [alert] = await db.select()
+      .from(emergencyAlerts)
+      .where(eq(emergencyAlerts.id, alertId));
+    return alert;
+  }
+
+  /**
+   * Unacknowledged alerts for a doctor's patients (all alerts for admins)
+   */
+  async getOpenAlerts(userId: number, userRole: string): Promise<EmergencyAlert[]> {
+    const conditions = [isNull(emergencyAlerts.acknowledgedAt), eq(emergencyAlerts.resolved, false)];
+    if (userRole !== 'admin') {
+      conditions.push(eq(emergencyAlerts.doctorId, userId));
+    }
+
+    return await db.select()
+      .from(emergencyAlerts)
+      .where(and(...conditions))
+      .orderBy(desc(emergencyAlerts.createdAt))
+      .limit(50);
+  }
+
+  /**
+   * Full audit timeline for an alert, oldest first
+   */
+  async getAlertTimeline(alertId: number): Promise<EmergencyEvent[]> {
+    return await db.select()
+      .from(emergencyEvents)
+      .where(eq(emergencyEvents.alertId, alertId))
+      .orderBy(asc(emergencyEvents.eventTime), asc(emergencyEvents.id));
+  }
+
+  /**
+   * Practice policy for a doctor, falling back to the platform default
+   */
+  async getPolicyForDoctor(doctorId: number | null): Promise<ResolvedPolicy> {
+    const practiceAdminId = doctorId ? await this.getPracticeAdminId(doctorId) : null;
+    return await this.getPolicyForPracticeAdmin(practiceAdminId);
+  }
+
+  /**
+   * Policy for a practice, falling back to the platform default
+   */
+  async getPolicyForPracticeAdmin(practiceAdminId: number | null): Promise<ResolvedPolicy> {
+    const [policy] = await db.select()
+      .from(emergencyEscalationPolicies)
+      .where(practiceAdminId
+        ? or(eq(emergencyEscalationPolicies.practiceAdminId, practiceAdminId), isNull(emergencyEscalationPolicies.practiceAdminId))
+        : isNull(emergencyEscalationPolicies.practiceAdminId))
+      // Practice-specific policy sorts ahead of the platform default (nulls last)
+      .orderBy(asc(emergencyEscalationPolicies.practiceAdminId))
+      .limit(1);
+
+    return {
+      ...DEFAULT_POLICY,
+      ...(policy ? this.policyFields(policy) : {}),
+      practiceAdminId
+    };
+  }
+
+  /**
+   * Create or update the escalation policy for an admin's practice
+   */
+  async upsertPracticePolicy(practiceAdminId: number, updates: Partial<Omit<EmergencyEscalationPolicy, 'id' | 'practiceAdminId' | 'createdAt' | 'updatedAt'>>): Promise<EmergencyEscalationPolicy> {
+    const [policy] = await db.insert(emergencyEscalationPolicies)
+      .values({ ...updates, practiceAdminId })
+      .onConflictDoUpdate({
+        target: emergencyEscalationPolicies.practiceAdminId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return policy;
+  }
+
+  /**
+   * Start the periodic re-escalation check
+   */
+  startMonitoring(): void {
+    if (this.monitorInterval) {
+      return;
+    }
+
+    console.log('[Emergency Escalation] Starting escalation monitoring...');
+    this.monitorInterval = setInterval(() => {
+      this.processDueEscalations();
+    }, ESCALATION_CHECK_INTERVAL_MS);
+
+    // Pick up anything left pending across a restart
+    this.processDueEscalations();
+  }
+
+  private policyFields(policy: EmergencyEscalationPolicy) {
+    return {
+      backupDoctorId: policy.backupDoctorId,
+      escalationAdminId: policy.escalationAdminId,
+      ackTimeoutMinutes: policy.ackTimeoutMinutes,
+      maxEscalationRounds: policy.maxEscalationRounds,
+      smsMinSeverity: policy.smsMinSeverity
+    };
+  }
+
+  private async getPracticeAdminId(doctorId: number): Promise<number | null> {
+    const [relationship] = await db.select({ adminId: dashboardRelationships.parentUserId })
+      .from(dashboardRelationships)
+      .where(and(
+        eq(dashboardRelationships.childUserId, doctorId),
+        eq(dashboardRelationships.relationshipType, 'admin_to_doctor'),
+        eq(dashboardRelationships.active, true)
+      ))
+      .limit(1);
+
+    return relationship?.adminId ?? null;
+  }
+
+  private async buildEscalationChain(alert: EmergencyAlert, policy: ResolvedPolicy): Promise<EscalationRecipient[]> {
+    let adminId = policy.escalationAdminId ?? policy.practiceAdminId;
+    if (!adminId) {
+      const [anyAdmin] = await db.select({ id: users.id })
+        .from(users)
+        .where(and(eq(users.roleId, 1), eq(users.isActive, true)))
+        .orderBy(asc(users.id))
+        .limit(1);
+      adminId = anyAdmin?.id ?? null;
+    }
+
+    const candidates: [number | null, EscalationRole][] = [
+      [alert.doctorId, 'primary_doctor'],
+      [policy.backupDoctorId, 'backup_doctor'],
+      [adminId, 'practice_admin']
+    ];
+
+    const chain: EscalationRecipient[] = [];
+    for (const [userId, role] of candidates) {
+      if (!userId || chain.some(recipient => recipient.userId === userId)) {
+        continue;
+      }
+
+      const [user] = await db.select({ id: users.id, name: users.name, phoneNumber: users.phoneNumber, isActive: users.isActive })
+        .from(users)
+        .where(eq(users.id, userId));
+
+      if (user?.isActive && user.phoneNumber) {
+        chain.push({ userId: user.id, name: user.name, phoneNumber: user.phoneNumber, role });
+      }
+    }
+
+    return chain;
+  }
+
+  private meetsSeverity(severity: string, minimum: string): boolean {
+    return emergencySeverities.indexOf(severity as EmergencySeverity) >= emergencySeverities.indexOf(minimum as EmergencySeverity);
+  }
+
+  private async logEvent(
+    alert: EmergencyAlert,
+    eventType: string,
+    triggerReason: string,
+    recipientUserId: number | null,
+    details: Record<string, unknown>,
+    notes?: string
+  ): Promise<void> {
+    try {
+      await db.insert(emergencyEvents).values({
+        patientId: alert.patientId,
+        doctorId: alert.doctorId,
+        alertId: alert.id,
+        recipientUserId,
+        eventType,
+        triggerReason,
+        details,
+        resolved: false,
+        notes
+      });
+    } catch (error) {
+      console.error(`[Emergency Escalation] Failed to log ${eventType} event for alert ${alert.id}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const emergencyEscalationService = EmergencyEscalationService.getInstance();
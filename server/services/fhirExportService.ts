@@ -0,0 +1,510 @@
+/**
+ * FHIR R4 Export Service
+ *
+ * Maps KGC data to FHIR R4 resources for partner GP clinical systems:
+ * - users (patient)                         -> Patient
+ * - patient_scores, health_metrics          -> Observation (self-scores, 1-10)
+ * - care_plan_directives                    -> CarePlan + Goal
+ * - patient_progress_reports                -> DiagnosticReport (+ Observations for period averages)
+ *
+ * Each patient is emitted as a `collection` Bundle. Bundles are structurally
+ * validated before they leave the server. Anonymised mode replaces identifiers
+ * with a keyed pseudonym, drops contact details and doctor notes, and redacts
+ * PII from free text.
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { db } from '../db';
+import {
+  users,
+  patientScores,
+  healthMetrics,
+  carePlanDirectives,
+  patientProgressReports
+} from '@shared/schema';
+import { eq, asc, inArray } from 'drizzle-orm';
+import { privacyProtectionAgent, PIIType } from './privacyProtectionAgent';
+import { getDoctorPatientIds } from './doctorPatientAccess';
+
+// ----- Minimal FHIR R4 types -----
+
+export interface FhirCoding {
+  system?: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirIdentifier {
+  system: string;
+  value: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  meta?: { profile?: string[]; lastUpdated?: string; security?: FhirCoding[] };
+  [key: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+}
+
+export interface FhirBundle extends FhirResource {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  identifier?: FhirIdentifier;
+  entry: FhirBundleEntry[];
+}
+
+export interface FhirExportOptions {
+  anonymised?: boolean;
+}
+
+export interface FhirValidationIssue {
+  path: string;
+  message: string;
+}
+
+// ----- KGC code systems and identifiers -----
+
+const KGC_FHIR_BASE = 'https://keepgoingcare.com.au/fhir';
+const SELF_SCORE_SYSTEM = `${KGC_FHIR_BASE}/CodeSystem/kgc-self-score`;
+const REPORT_CODE_SYSTEM = `${KGC_FHIR_BASE}/CodeSystem/kgc-report`;
+const UIN_SYSTEM = `${KGC_FHIR_BASE}/NamingSystem/uin`;
+const PSEUDONYM_SYSTEM = `${KGC_FHIR_BASE}/NamingSystem/export-pseudonym`;
+const RECORD_ID_SYSTEM = `${KGC_FHIR_BASE}/NamingSystem`;
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const GOAL_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/goal-category';
+const SECURITY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationValue';
+
+export type SelfScoreCategory = 'medication' | 'diet' | 'exercise';
+
+export const SELF_SCORE_CODES: Record<SelfScoreCategory, FhirCoding> = {
+  medication: { system: SELF_SCORE_SYSTEM, code: 'medication-self-score', display: 'Medication adherence self-score' },
+  diet: { system: SELF_SCORE_SYSTEM, code: 'diet-self-score', display: 'Meal plan adherence self-score' },
+  exercise: { system: SELF_SCORE_SYSTEM, code: 'exercise-self-score', display: 'Exercise and wellness self-score' }
+};
+
+const GOAL_CATEGORIES: Record<string, FhirCoding> = {
+  diet: { system: GOAL_CATEGORY_SYSTEM, code: 'dietary', display: 'Dietary' },
+  exercise: { system: GOAL_CATEGORY_SYSTEM, code: 'physiotherapy', display: 'Physiotherapy' },
+  medication: { system: GOAL_CATEGORY_SYSTEM, code: 'behavioral', display: 'Behavioral' }
+};
+
+// Scores are unitless on a 1-10 scale (UCUM annotation)
+const SCORE_UNIT = { unit: 'score', system: 'http://unitsofmeasure.org', code: '{score}' };
+
+// ----- Structure validation -----
+
+// Required elements and allowed codes for the resource types this export emits
+const RESOURCE_RULES: Record<string, { required: string[]; codes?: Record<string, string[]> }> = {
+  Patient: { required: ['identifier'] },
+  Practitioner: { required: ['identifier'] },
+  Observation: {
+    required: ['status', 'code', 'subject'],
+    codes: { status: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'] }
+  },
+  Goal: {
+    required: ['lifecycleStatus', 'description', 'subject'],
+    codes: { lifecycleStatus: ['proposed', 'planned', 'accepted', 'active', 'on-hold', 'completed', 'cancelled', 'entered-in-error', 'rejected'] }
+  },
+  CarePlan: {
+    required: ['status', 'intent', 'subject'],
+    codes: {
+      status: ['draft', 'active', 'on-hold', 'revoked', 'completed', 'entered-in-error', 'unknown'],
+      intent: ['proposal', 'plan', 'order', 'option']
+    }
+  },
+  DiagnosticReport: {
+    required: ['status', 'code'],
+    codes: { status: ['registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled', 'entered-in-error', 'unknown'] }
+  }
+};
+
+const FHIR_DATE_TIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+const DATE_TIME_FIELDS = ['effectiveDateTime', 'issued', 'startDate', 'timestamp'];
+const PERIOD_FIELDS = ['effectivePeriod', 'period'];
+
+/**
+ * Check a Bundle against the R4 structure of the resources this export produces:
+ * required elements, value-set codes, date formats, quantities and that every
+ * reference resolves to an entry in the bundle.
+ */
+export function validateFhirBundle(bundle: FhirBundle): FhirValidationIssue[] {
+  const issues: FhirValidationIssue[] = [];
+
+  if (bundle.resourceType !== 'Bundle') {
+    issues.push({ path: 'Bundle', message: 'resourceType must be Bundle' });
+  }
+  if (bundle.type !== 'collection') {
+    issues.push({ path: 'Bundle.type', message: 'must be "collection"' });
+  }
+  if (!FHIR_DATE_TIME.test(bundle.timestamp)) {
+    issues.push({ path: 'Bundle.timestamp', message: 'must be a FHIR dateTime' });
+  }
+
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((entry, index) => {
+    if (!entry.fullUrl) {
+      issues.push({ path: `Bundle.entry[${index}].fullUrl`, message: 'is required' });
+    } else if (fullUrls.has(entry.fullUrl)) {
+      issues.push({ path: `Bundle.entry[${index}].fullUrl`, message: `duplicates ${entry.fullUrl}` });
+    }
+    fullUrls.add(entry.fullUrl);
+  });
+
+  bundle.entry.forEach((entry, index) => {
+    const path = `Bundle.entry[${index}].resource`;
+    issues.push(...validateFhirResource(entry.resource, path));
+
+    for (const reference of collectReferences(entry.resource)) {
+      if (reference.startsWith('urn:uuid:') && !fullUrls.has(reference)) {
+        issues.push({ path, message: `reference ${reference} does not resolve within the bundle` });
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate a single resource's required elements, codes and datatypes
+ */
+export function validateFhirResource(resource: FhirResource, path: string = resource.resourceType): FhirValidationIssue[] {
+  const issues: FhirValidationIssue[] = [];
+  const rules = RESOURCE_RULES[resource.resourceType];
+
+  if (!rules) {
+    return [{ path, message: `unsupported resourceType "${resource.resourceType}"` }];
+  }
+
+  for (const field of rules.required) {
+    const value = resource[field];
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      issues.push({ path: `${path}.${field}`, message: 'is required' });
+    }
+  }
+
+  for (const [field, allowed] of Object.entries(rules.codes ?? {})) {
+    const value = resource[field];
+    if (value !== undefined && !allowed.includes(value as string)) {
+      issues.push({ path: `${path}.${field}`, message: `"${value}" is not one of ${allowed.join(', ')}` });
+    }
+  }
+
+  for (const field of DATE_TIME_FIELDS) {
+    const value = resource[field];
+    if (value !== undefined && (typeof value !== 'string' || !FHIR_DATE_TIME.test(value))) {
+      issues.push({ path: `${path}.${field}`, message: 'must be a FHIR date/dateTime' });
+    }
+  }
+
+  for (const field of PERIOD_FIELDS) {
+    const period = resource[field] as FhirPeriod | undefined;
+    if (period && ((period.start && !FHIR_DATE_TIME.test(period.start)) || (period.end && !FHIR_DATE_TIME.test(period.end)))) {
+      issues.push({ path: `${path}.${field}`, message: 'start/end must be FHIR dateTimes' });
+    }
+    if (period?.start && period.end && period.start > period.end) {
+      issues.push({ path: `${path}.${field}`, message: 'start must not be after end' });
+    }
+  }
+
+  const code = resource.code as FhirCodeableConcept | undefined;
+  if (code && !code.text && !(code.coding && code.coding.every(coding => coding.code))) {
+    issues.push({ path: `${path}.code`, message: 'needs text or codings with a code' });
+  }
+
+  const quantity = resource.valueQuantity as FhirQuantity | undefined;
+  if (quantity && (typeof quantity.value !== 'number' || !Number.isFinite(quantity.value))) {
+    issues.push({ path: `${path}.valueQuantity.value`, message: 'must be a finite number' });
+  }
+
+  return issues;
+}
+
+function collectReferences(value: unknown): string[] {
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectReferences);
+  }
+
+  const references: string[] = [];
+  for (const [key, child] of Object.entries(value)) {
+    if (key === 'reference' && typeof child === 'string') {
+      references.push(child);
+    } else {
+      references.push(...collectReferences(child));
+    }
+  }
+  return references;
+}
+
+// ----- Export -----
+
+export class FhirExportService {
+  /**
+   * Build and validate the FHIR Bundle for one patient.
+   * Throws if the patient does not exist or the bundle fails validation.
+   */
+  async exportPatientBundle(patientId: number, options: FhirExportOptions = {}): Promise<FhirBundle> {
+    const [patient] = await db.select()
+      .from(users)
+      .where(eq(users.id, patientId));
+
+    if (!patient) {
+      throw new Error(`Patient ${patientId} not found`);
+    }
+
+    const [scores, metrics, directives, reports] = await Promise.all([
+      db.select().from(patientScores).where(eq(patientScores.patientId, patientId)).orderBy(asc(patientScores.scoreDate)),
+      db.select().from(healthMetrics).where(eq(healthMetrics.userId, patientId)).orderBy(asc(healthMetrics.date)),
+      db.select().from(carePlanDirectives).where(eq(carePlanDirectives.userId, patientId)).orderBy(asc(carePlanDirectives.createdAt)),
+      db.select().from(patientProgressReports).where(eq(patientProgressReports.patientId, patientId)).orderBy(asc(patientProgressReports.reportDate))
+    ]);
+
+    const anonymised = !!options.anonymised;
+    const sessionId = `fhir-export-${patientId}-${randomUUID()}`;
+    if (anonymised) {
+      // Make sure the patient's own name is caught in free text
+      privacyProtectionAgent.addCustomMapping(patient.name, PIIType.NAME, sessionId);
+    }
+    const freeText = (text: string) => anonymised ? privacyProtectionAgent.anonymize(text, sessionId).anonymizedText : text;
+
+    const entries: FhirBundleEntry[] = [];
+    const add = (resource: FhirResource): FhirReference => {
+      const fullUrl = `urn:uuid:${randomUUID()}`;
+      entries.push({ fullUrl, resource });
+      return { reference: fullUrl };
+    };
+
+    try {
+      const patientIdentifier = anonymised
+        ? { system: PSEUDONYM_SYSTEM, value: this.pseudonymise(patientId) }
+        : { system: UIN_SYSTEM, value: patient.uin || `KGC-${patient.id}` };
+
+      const subject = add(anonymised
+        ? {
+            resourceType: 'Patient',
+            identifier: [patientIdentifier],
+            active: patient.isActive
+          }
+        : {
+            resourceType: 'Patient',
+            identifier: [patientIdentifier],
+            active: patient.isActive,
+            name: [{ text: patient.name }],
+            telecom: [
+              { system: 'phone', value: patient.phoneNumber, use: 'mobile' },
+              { system: 'email', value: patient.email }
+            ]
+          });
+
+      // Daily self-scores
+      for (const score of scores) {
+        const values: [SelfScoreCategory, number | null][] = [
+          ['medication', score.medicationSelfScore],
+          ['diet', score.mealPlanSelfScore],
+          ['exercise', score.exerciseSelfScore]
+        ];
+        for (const [category, value] of values) {
+          if (value !== null) {
+            add(this.selfScoreObservation(subject, category, value, { effectiveDateTime: String(score.scoreDate) }, `patient-score/${score.id}-${category}`));
+          }
+        }
+      }
+
+      // Legacy health metrics use the same 1-10 scales
+      for (const metric of metrics) {
+        const values: [SelfScoreCategory, number][] = [
+          ['medication', metric.medicationScore],
+          ['diet', metric.dietScore],
+          ['exercise', metric.exerciseScore]
+        ];
+        for (const [category, value] of values) {
+          add(this.selfScoreObservation(subject, category, value, { effectiveDateTime: metric.date.toISOString() }, `health-metric/${metric.id}-${category}`));
+        }
+      }
+
+      // Care plan directives become Goals linked from a single CarePlan
+      if (directives.length > 0) {
+        const goals = directives.map(directive => add({
+          resourceType: 'Goal',
+          identifier: [{ system: `${RECORD_ID_SYSTEM}/care-plan-directive`, value: String(directive.id) }],
+          lifecycleStatus: directive.active ? 'active' : 'cancelled',
+          category: GOAL_CATEGORIES[directive.category] ? [{ coding: [GOAL_CATEGORIES[directive.category]] }] : undefined,
+          description: { text: freeText(directive.directive) },
+          subject,
+          startDate: directive.createdAt.toISOString().split('T')[0],
+          target: directive.targetValue !== null
+            ? [{ measure: { coding: [SELF_SCORE_CODES[directive.category as SelfScoreCategory] ?? { code: directive.category }] }, detailQuantity: { value: directive.targetValue, ...SCORE_UNIT } }]
+            : undefined
+        }));
+
+        add({
+          resourceType: 'CarePlan',
+          status: directives.some(directive => directive.active) ? 'active' : 'revoked',
+          intent: 'plan',
+          title: 'Keep Going Care Plan Directives',
+          subject,
+          goal: goals,
+          activity: directives.map(directive => ({
+            detail: {
+              kind: 'ServiceRequest',
+              status: directive.active ? 'in-progress' : 'cancelled',
+              description: freeText(directive.directive)
+            }
+          }))
+        });
+      }
+
+      // Authors of the progress reports; omitted when anonymised
+      const performers = new Map<number, FhirReference>();
+      if (!anonymised && reports.length > 0) {
+        const authorIds = Array.from(new Set(reports.map(report => report.createdById)));
+        const authors = await db.select({ id: users.id, uin: users.uin, name: users.name })
+          .from(users)
+          .where(inArray(users.id, authorIds));
+        for (const author of authors) {
+          performers.set(author.id, add({
+            resourceType: 'Practitioner',
+            identifier: [{ system: UIN_SYSTEM, value: author.uin || `KGC-${author.id}` }],
+            name: [{ text: author.name }]
+          }));
+        }
+      }
+
+      // Patient Progress Reports
+      for (const report of reports) {
+        const period = {
+          start: report.reportPeriodStartDate.toISOString(),
+          end: report.reportPeriodEndDate.toISOString()
+        };
+        const averages: [SelfScoreCategory, number | null][] = [
+          ['medication', report.avgMedicationScore],
+          ['diet', report.avgDietScore],
+          ['exercise', report.avgExerciseScore]
+        ];
+        const results = averages
+          .filter((average): average is [SelfScoreCategory, number] => average[1] !== null)
+          .map(([category, value]) => add(this.selfScoreObservation(subject, category, Math.round(value * 100) / 100, { effectivePeriod: period }, `progress-report/${report.id}-avg-${category}`)));
+
+        const conclusion = [
+          report.chatSentimentAnalysis ? freeText(report.chatSentimentAnalysis) : null,
+          !anonymised && report.doctorNotes ? `Doctor notes: ${report.doctorNotes}` : null
+        ].filter(Boolean).join('\n\n');
+
+        add({
+          resourceType: 'DiagnosticReport',
+          identifier: [{ system: `${RECORD_ID_SYSTEM}/progress-report`, value: String(report.id) }],
+          status: 'final',
+          code: {
+            coding: [{ system: REPORT_CODE_SYSTEM, code: 'patient-progress-report', display: 'Patient Progress Report' }],
+            text: 'KGC Patient Progress Report'
+          },
+          subject,
+          performer: performers.has(report.createdById) ? [performers.get(report.createdById)] : undefined,
+          effectivePeriod: period,
+          issued: report.reportDate.toISOString(),
+          result: results,
+          conclusion: conclusion || undefined
+        });
+      }
+    } finally {
+      if (anonymised) {
+        privacyProtectionAgent.clearSession(sessionId);
+      }
+    }
+
+    const bundle: FhirBundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      timestamp: new Date().toISOString(),
+      meta: anonymised
+        ? { security: [{ system: SECURITY_SYSTEM, code: 'PSEUDED', display: 'pseudonymized' }] }
+        : undefined,
+      identifier: { system: `${RECORD_ID_SYSTEM}/export`, value: randomUUID() },
+      entry: entries.map(entry => ({ ...entry, resource: stripUndefined(entry.resource) }))
+    };
+
+    const issues = validateFhirBundle(bundle);
+    if (issues.length > 0) {
+      console.error(`FHIR export for patient ${patientId} failed validation:`, issues);
+      throw new Error(`FHIR bundle failed validation: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Bundles for every active patient of a doctor, one at a time
+   */
+  async *exportDoctorPatients(doctorId: number, options: FhirExportOptions = {}): AsyncGenerator<FhirBundle> {
+    for (const patientId of await getDoctorPatientIds(doctorId)) {
+      yield await this.exportPatientBundle(patientId, options);
+    }
+  }
+
+  private selfScoreObservation(
+    subject: FhirReference,
+    category: SelfScoreCategory,
+    value: number,
+    effective: { effectiveDateTime: string } | { effectivePeriod: FhirPeriod },
+    recordId: string
+  ): FhirResource {
+    return {
+      resourceType: 'Observation',
+      identifier: [{ system: `${RECORD_ID_SYSTEM}/observation`, value: recordId }],
+      status: 'final',
+      category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'survey', display: 'Survey' }] }],
+      code: { coding: [SELF_SCORE_CODES[category]], text: SELF_SCORE_CODES[category].display },
+      subject,
+      ...effective,
+      valueQuantity: { value, ...SCORE_UNIT },
+      referenceRange: [{ low: { value: 1, ...SCORE_UNIT }, high: { value: 10, ...SCORE_UNIT } }]
+    };
+  }
+
+  /**
+   * Stable keyed pseudonym so anonymised exports can be linked over time without revealing the patient
+   */
+  private pseudonymise(patientId: number): string {
+    const secret = process.env.FHIR_EXPORT_PSEUDONYM_SECRET || process.env.SESSION_SECRET;
+    if (!secret) {
+      throw new Error('FHIR_EXPORT_PSEUDONYM_SECRET or SESSION_SECRET must be set for anonymised export');
+    }
+    return createHmac('sha256', secret).update(`patient:${patientId}`).digest('hex').slice(0, 32);
+  }
+}
+
+function stripUndefined(resource: FhirResource): FhirResource {
+  return JSON.parse(JSON.stringify(resource));
+}
+
+export const fhirExportService = new FhirExportService();
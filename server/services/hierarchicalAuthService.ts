@@ -5,8 +5,9 @@
 
 import { db } from '../db';
 import { users, userRoles } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
 import twilio from 'twilio';
+import { getDoctorPatientIds } from './doctorPatientAccess';
 
 export interface AuthRequest {
   phoneNumber: string;
@@ -24,7 +25,8 @@ export interface AuthenticatedUser {
   email: string;
   phoneNumber: string;
   role: string;
-  dashboardType: 'admin' | 'doctor' | 'patient';
+  dashboardType: 'admin' | 'practice_manager' | 'doctor' | 'patient';
+  practiceId?: number;
   doctorLetter?: string;
   patientNumber?: number;
   isActive: boolean;
@@ -197,6 +199,7 @@ class HierarchicalAuthService {
         phoneNumber: user.phoneNumber,
         role: role.name,
         dashboardType: dashboardInfo.type,
+        practiceId: user.practiceId || undefined,
         doctorLetter: user.doctorLetter || undefined,
         patientNumber: user.patientNumber || undefined,
         isActive: user.isActive,
@@ -249,10 +252,15 @@ If you didn't request this, please ignore this message.`;
   /**
    * Determine dashboard type and route from UIN
    */
-  private getDashboardInfo(uin: string): { type: 'admin' | 'doctor' | 'patient'; route: string } {
+  private getDashboardInfo(uin: string): { type: AuthenticatedUser['dashboardType']; route: string } {
     if (uin === 'X1') {
       return { type: 'admin', route: '/admin-dashboard' };
     }
+
+    // Practice managers use the admin dashboard, limited to their practice
+    if (uin.startsWith('KGC-MGR-')) {
+      return { type: 'practice_manager', route: '/admin-dashboard' };
+    }
     
     if (/^[A-J]$/.test(uin)) {
       return { type: 'doctor', route: '/doctor-dashboard' };
@@ -295,6 +303,7 @@ If you didn't request this, please ignore this message.`;
         phoneNumber: user.phoneNumber,
         role: role.name,
         dashboardType: dashboardInfo.type,
+        practiceId: user.practiceId || undefined,
         doctorLetter: user.doctorLetter || undefined,
         patientNumber: user.patientNumber || undefined,
         isActive: user.isActive,
@@ -309,7 +318,7 @@ If you didn't request this, please ignore this message.`;
   /**
    * Validate user access to specific dashboard type
    */
-  validateDashboardAccess(user: AuthenticatedUser, requiredDashboard: 'admin' | 'doctor' | 'patient'): boolean {
+  validateDashboardAccess(user: AuthenticatedUser, requiredDashboard: AuthenticatedUser['dashboardType']): boolean {
     return user.dashboardType === requiredDashboard && user.isActive;
   }
 
@@ -321,7 +330,7 @@ If you didn't request this, please ignore this message.`;
       let managedUsers: any[] = [];
 
       if (userRole === 'admin') {
-        // Admin can see all doctors
+        // Admin can see all doctors, across every practice
         managedUsers = await db
           .select({
             user: users,
@@ -331,10 +340,27 @@ If you didn't request this, please ignore this message.`;
           .innerJoin(userRoles, eq(users.roleId, userRoles.id))
           .where(eq(userRoles.name, 'doctor'));
 
+      } else if (userRole === 'practice_manager') {
+        // Practice manager can see the doctors and patients in their own practice only
+        const managerInfo = await this.getUserById(userId);
+        if (managerInfo?.practiceId) {
+          managedUsers = await db
+            .select({
+              user: users,
+              role: userRoles,
+            })
+            .from(users)
+            .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+            .where(and(
+              eq(users.practiceId, managerInfo.practiceId),
+              inArray(userRoles.name, ['doctor', 'patient'])
+            ));
+        }
+
       } else if (userRole === 'doctor') {
-        // Doctor can see their assigned patients
-        const doctorInfo = await this.getUserById(userId);
-        if (doctorInfo?.doctorLetter) {
+        // Doctor can see their own and shared patients in their practice
+        const patientIds = await getDoctorPatientIds(userId);
+        if (patientIds.length > 0) {
           managedUsers = await db
             .select({
               user: users,
@@ -342,7 +368,7 @@ If you didn't request this, please ignore this message.`;
             })
             .from(users)
             .innerJoin(userRoles, eq(users.roleId, userRoles.id))
-            .where(eq(users.doctorLetter, doctorInfo.doctorLetter));
+            .where(inArray(users.id, patientIds));
         }
       }
 
@@ -356,6 +382,7 @@ If you didn't request this, please ignore this message.`;
           phoneNumber: user.phoneNumber,
           role: role.name,
           dashboardType: dashboardInfo.type,
+          practiceId: user.practiceId || undefined,
           doctorLetter: user.doctorLetter || undefined,
           patientNumber: user.patientNumber || undefined,
           isActive: user.isActive,
@@ -0,0 +1,374 @@
+/**
+ * Job Scheduler Service - Durable background jobs for KGC
+ *
+ * Jobs are registered in code (see scheduledJobDefinitions.ts) and persisted in
+ * scheduled_jobs so their schedule, last run and failures survive restarts:
+ * 1. Cron expressions evaluated in the job's timezone
+ * 2. Patient-scoped jobs get one row per patient timezone, so 7:00 PM is local time
+ * 3. Failed runs retry with exponential backoff up to the job's retry limit
+ * 4. A lease lock on the job row ensures only one server instance runs it
+ *
+ * Every execution is recorded in scheduled_job_runs.
+ */
+
+import { hostname } from "os";
+import { db } from "../db";
+import { users, scheduledJobs, scheduledJobRuns, ScheduledJob, ScheduledJobRun } from "@shared/schema";
+import { eq, and, or, lte, gte, isNull, lt, asc, desc, sql } from "drizzle-orm";
+import { parseCronExpression, getNextCronOccurrence, isValidTimeZone } from "./cronExpression";
+import { scheduledJobDefinitions } from "./scheduledJobDefinitions";
+
+export interface ScheduledJobContext {
+  jobName: string;
+  timezone: string;
+  attempt: number;
+  scheduledFor: Date;
+}
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  cronExpression: string;
+  // 'patient' runs once per distinct patient timezone; 'server' runs once in SCHEDULER_TIMEZONE
+  timezoneScope: 'server' | 'patient';
+  maxRetries?: number;
+  retryDelaySeconds?: number;
+  handler: (context: ScheduledJobContext) => Promise<Record<string, unknown> | void>;
+}
+
+export interface ScheduledJobSummary extends ScheduledJob {
+  recentFailures: number;
+  lastRun: ScheduledJobRun | null;
+}
+
+const DEFAULT_TIMEZONE = process.env.SCHEDULER_TIMEZONE || 'Australia/Sydney';
+
+const TICK_INTERVAL_MS = 60 * 1000;
+// Re-sync job rows hourly so new patient timezones are picked up
+const SYNC_INTERVAL_MS = 60 * 60 * 1000;
+// A run holding the lock longer than this is assumed to have crashed
+const LOCK_LEASE_MS = 15 * 60 * 1000;
+const RECENT_FAILURE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class JobSchedulerService {
+  private static instance: JobSchedulerService;
+  private definitions = new Map<string, ScheduledJobDefinition>();
+  private instanceId = `${hostname()}-${process.pid}`;
+  private tickInterval: NodeJS.Timeout | null = null;
+  private syncInterval: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  private constructor() {}
+
+  public static getInstance(): JobSchedulerService {
+    if (!JobSchedulerService.instance) {
+      JobSchedulerService.instance = new JobSchedulerService();
+    }
+    return JobSchedulerService.instance;
+  }
+
+  /**
+   * Register a job handler. Throws if the cron expression is invalid.
+   */
+  register(definition: ScheduledJobDefinition): void {
+    parseCronExpression(definition.cronExpression);
+    this.definitions.set(definition.name, definition);
+  }
+
+  /**
+   * Create or update a scheduled_jobs row for every registered job and timezone
+   */
+  async syncJobs(): Promise<void> {
+    const patientTimezones = await this.getPatientTimezones();
+
+    for (const definition of Array.from(this.definitions.values())) {
+      const timezones = definition.timezoneScope === 'patient' ? patientTimezones : [DEFAULT_TIMEZONE];
+
+      for (const timezone of timezones) {
+        const [existing] = await db.select()
+          .from(scheduledJobs)
+          .where(and(eq(scheduledJobs.name, definition.name), eq(scheduledJobs.timezone, timezone)));
+
+        const schedule = parseCronExpression(definition.cronExpression);
+
+        if (!existing) {
+          await db.insert(scheduledJobs)
+            .values({
+              name: definition.name,
+              description: definition.description,
+              cronExpression: definition.cronExpression,
+              timezone,
+              maxRetries: definition.maxRetries ?? 3,
+              retryDelaySeconds: definition.retryDelaySeconds ?? 300,
+              nextRunAt: getNextCronOccurrence(schedule, new Date(), timezone)
+            })
+            .onConflictDoNothing();
+          console.log(`[Job Scheduler] Registered ${definition.name} (${timezone})`);
+        } else if (existing.cronExpression !== definition.cronExpression || existing.description !== definition.description) {
+          await db.update(scheduledJobs)
+            .set({
+              description: definition.description,
+              cronExpression: definition.cronExpression,
+              nextRunAt: existing.currentAttempt > 0
+                ? existing.nextRunAt
+                : getNextCronOccurrence(schedule, new Date(), timezone),
+              updatedAt: new Date()
+            })
+            .where(eq(scheduledJobs.id, existing.id));
+        }
+      }
+    }
+  }
+
+  /**
+   * Run every job that is due and not locked by another instance
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const dueJobs = await db.select()
+        .from(scheduledJobs)
+        .where(and(
+          eq(scheduledJobs.enabled, true),
+          lte(scheduledJobs.nextRunAt, now),
+          or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now))
+        ))
+        .orderBy(asc(scheduledJobs.nextRunAt));
+
+      for (const job of dueJobs) {
+        const claimed = await this.claimJob(job.id);
+        if (claimed) {
+          await this.runJob(claimed);
+        }
+      }
+    } catch (error) {
+      console.error('[Job Scheduler] Error checking for due jobs:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Jobs with their most recent run and failure count over the last week
+   */
+  async listJobs(): Promise<ScheduledJobSummary[]> {
+    const jobs = await db.select()
+      .from(scheduledJobs)
+      .orderBy(asc(scheduledJobs.name), asc(scheduledJobs.timezone));
+
+    const since = new Date(Date.now() - RECENT_FAILURE_WINDOW_MS);
+    const failureCounts = await db.select({
+        jobId: scheduledJobRuns.jobId,
+        count: sql<number>`count(*)::int`
+      })
+      .from(scheduledJobRuns)
+      .where(and(
+        eq(scheduledJobRuns.status, 'failed'),
+        gte(scheduledJobRuns.startedAt, since)
+      ))
+      .groupBy(scheduledJobRuns.jobId);
+
+    const summaries: ScheduledJobSummary[] = [];
+    for (const job of jobs) {
+      const [lastRun] = await db.select()
+        .from(scheduledJobRuns)
+        .where(eq(scheduledJobRuns.jobId, job.id))
+        .orderBy(desc(scheduledJobRuns.startedAt))
+        .limit(1);
+
+      summaries.push({
+        ...job,
+        recentFailures: failureCounts.find(failure => failure.jobId === job.id)?.count ?? 0,
+        lastRun: lastRun ?? null
+      });
+    }
+
+    return summaries;
+  }
+
+  async getJobRuns(jobId: number, options: { status?: string; limit?: number } = {}): Promise<ScheduledJobRun[]> {
+    const conditions = [eq(scheduledJobRuns.jobId, jobId)];
+    if (options.status) {
+      conditions.push(eq(scheduledJobRuns.status, options.status));
+    }
+
+    return await db.select()
+      .from(scheduledJobRuns)
+      .where(and(...conditions))
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(options.limit ?? 50);
+  }
+
+  /**
+   * Register the built-in jobs, sync them to the database and start polling
+   */
+  async start(): Promise<void> {
+    if (this.tickInterval) {
+      return;
+    }
+
+    for (const definition of scheduledJobDefinitions) {
+      this.register(definition);
+    }
+
+    console.log(`[Job Scheduler] Starting as ${this.instanceId} with ${this.definitions.size} jobs...`);
+    await this.syncJobs();
+
+    this.tickInterval = setInterval(() => {
+      this.tick();
+    }, TICK_INTERVAL_MS);
+
+    this.syncInterval = setInterval(() => {
+      this.syncJobs().catch(error => console.error('[Job Scheduler] Error syncing jobs:', error));
+    }, SYNC_INTERVAL_MS);
+
+    await this.tick();
+  }
+
+  /**
+   * Atomically take the job's lease; returns undefined if another instance got there first
+   */
+  private async claimJob(jobId: number): Promise<ScheduledJob | undefined> {
+    const now = new Date();
+    const [job] = await db.update(scheduledJobs)
+      .set({
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + LOCK_LEASE_MS),
+        lastStatus: 'running'
+      })
+      .where(and(
+        eq(scheduledJobs.id, jobId),
+        eq(scheduledJobs.enabled, true),
+        lte(scheduledJobs.nextRunAt, now),
+        or(isNull(scheduledJobs.lockedUntil), lt(scheduledJobs.lockedUntil, now))
+      ))
+      .returning();
+
+    return job;
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const definition = this.definitions.get(job.name);
+    const attempt = job.currentAttempt + 1;
+    const startedAt = new Date();
+
+    const [run] = await db.insert(scheduledJobRuns)
+      .values({
+        jobId: job.id,
+        instanceId: this.instanceId,
+        attempt,
+        status: 'running',
+        startedAt
+      })
+      .returning();
+
+    try {
+      if (!definition) {
+        throw new Error(`No handler registered for job "${job.name}"`);
+      }
+      if (!isValidTimeZone(job.timezone)) {
+        throw new Error(`Invalid timezone "${job.timezone}"`);
+      }
+
+      const result = await definition.handler({
+        jobName: job.name,
+        timezone: job.timezone,
+        attempt,
+        scheduledFor: job.nextRunAt ?? startedAt
+      });
+
+      const finishedAt = new Date();
+      await db.update(scheduledJobRuns)
+        .set({
+          status: 'succeeded',
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          result: result ?? null
+        })
+        .where(eq(scheduledJobRuns.id, run.id));
+
+      await this.releaseJob(job, {
+        lastStatus: 'succeeded',
+        lastError: null,
+        consecutiveFailures: 0,
+        currentAttempt: 0,
+        nextRunAt: this.getNextScheduledRun(job, finishedAt)
+      });
+
+      console.log(`[Job Scheduler] ${job.name} (${job.timezone}) succeeded in ${finishedAt.getTime() - startedAt.getTime()}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const finishedAt = new Date();
+
+      await db.update(scheduledJobRuns)
+        .set({
+          status: 'failed',
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          error: message
+        })
+        .where(eq(scheduledJobRuns.id, run.id));
+
+      const canRetry = !!definition && attempt <= job.maxRetries;
+      const retryDelayMs = job.retryDelaySeconds * 1000 * Math.pow(2, attempt - 1);
+
+      await this.releaseJob(job, {
+        lastStatus: 'failed',
+        lastError: message,
+        consecutiveFailures: job.consecutiveFailures + 1,
+        // Once retries are exhausted, wait for the next scheduled run
+        currentAttempt: canRetry ? attempt : 0,
+        nextRunAt: canRetry
+          ? new Date(finishedAt.getTime() + retryDelayMs)
+          : this.getNextScheduledRun(job, finishedAt)
+      });
+
+      console.error(`[Job Scheduler] ${job.name} (${job.timezone}) failed on attempt ${attempt}${canRetry ? ', will retry' : ''}:`, error);
+    }
+  }
+
+  private async releaseJob(job: ScheduledJob, updates: Partial<ScheduledJob>): Promise<void> {
+    await db.update(scheduledJobs)
+      .set({
+        ...updates,
+        lastRunAt: new Date(),
+        lockedBy: null,
+        lockedUntil: null,
+        updatedAt: new Date()
+      })
+      .where(and(eq(scheduledJobs.id, job.id), eq(scheduledJobs.lockedBy, this.instanceId)));
+  }
+
+  private getNextScheduledRun(job: ScheduledJob, after: Date): Date | null {
+    try {
+      return getNextCronOccurrence(parseCronExpression(job.cronExpression), after, job.timezone);
+    } catch (error) {
+      console.error(`[Job Scheduler] Cannot schedule ${job.name} (${job.timezone}):`, error);
+      return null;
+    }
+  }
+
+  private async getPatientTimezones(): Promise<string[]> {
+    const rows = await db.selectDistinct({ timezone: users.timezone })
+      .from(users)
+      .where(and(eq(users.roleId, 3), eq(users.isActive, true)));
+
+    const timezones = rows.map(row => row.timezone).filter(timezone => {
+      if (!isValidTimeZone(timezone)) {
+        console.error(`[Job Scheduler] Ignoring invalid patient timezone "${timezone}"`);
+        return false;
+      }
+      return true;
+    });
+
+    return timezones.length > 0 ? timezones : [DEFAULT_TIMEZONE];
+  }
+}
+
+// Export singleton instance
+export const jobSchedulerService = JobSchedulerService.getInstance();
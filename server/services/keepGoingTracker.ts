@@ -1,12 +1,22 @@
 import { db } from '../db';
-import { featureUsage } from '../../shared/schema';
-import { sql, eq, and } from 'drizzle-orm';
+import {
+  users,
+  patientScores,
+  keepGoingEvents,
+  KeepGoingEvent,
+  StartKeepGoingEvent,
+  EndKeepGoingEvent
+} from '../../shared/schema';
+import { eq, and, gt, gte, lte, isNull, desc, count } from 'drizzle-orm';
+import { getLocalDateString, getLocalTimeString } from './cronExpression';
 
 /**
  * Keep Going Tracker Service
- * 
+ *
  * Tracks Keep Going button usage for Supervisor Agent awareness
- * and PPR (Patient Progress Report) generation
+ * and PPR (Patient Progress Report) generation. Each press opens a
+ * keep_going_events row that is closed with its duration when the
+ * breathing video is dismissed.
  */
 
 export interface KeepGoingUsage {
@@ -14,7 +24,9 @@ export interface KeepGoingUsage {
   userId: number;
   timestamp: Date;
   hasMotivationalImage: boolean;
-  deviceType: 'mobile' | 'desktop';
+  deviceType: 'mobile' | 'tablet' | 'desktop';
+  videoPlayed: boolean;
+  durationSeconds: number | null;
 }
 
 export interface KeepGoingStats {
@@ -25,104 +37,243 @@ export interface KeepGoingStats {
   weeklyTrend: number;
 }
 
+export type TimeOfDay = 'Late night' | 'Morning' | 'Afternoon' | 'Evening';
+
+export interface KeepGoingPatterns {
+  totalSessions: number;
+  dailyAverage: number;
+  preferredTimeOfDay: string;
+  mostActiveDay: string;
+  motivationalImageUsage: number; // % of sessions showing the patient's motivational image
+  videoPlayedRate: number; // % of sessions where the breathing video played
+  averageDurationSeconds: number | null; // Over completed sessions
+  timeOfDay: Record<TimeOfDay, number>;
+  afterLowScore: {
+    count: number; // Sessions started within a day of a self-score of LOW_SCORE_THRESHOLD or below
+    percent: number;
+    byCategory: { diet: number; exercise: number; medication: number };
+  };
+}
+
+// Self-scores of 1-4 indicate the patient is struggling in that area
+export const LOW_SCORE_THRESHOLD = 4;
+// Sessions left open longer than this were abandoned; their duration is capped
+const MAX_SESSION_SECONDS = 60 * 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function getTimeOfDay(hour: number): TimeOfDay {
+  return hour < 6 ? 'Late night' :
+         hour < 12 ? 'Morning' :
+         hour < 18 ? 'Afternoon' : 'Evening';
+}
+
+/**
+ * Time-of-day, media and low-score patterns across a set of sessions
+ */
+export function analyzeKeepGoingEvents(events: KeepGoingEvent[], timeZone: string, now = new Date()): KeepGoingPatterns {
+  const timeOfDay: Record<TimeOfDay, number> = { 'Late night': 0, 'Morning': 0, 'Afternoon': 0, 'Evening': 0 };
+  const byCategory = { diet: 0, exercise: 0, medication: 0 };
+
+  if (events.length === 0) {
+    return {
+      totalSessions: 0,
+      dailyAverage: 0,
+      preferredTimeOfDay: 'No usage yet',
+      mostActiveDay: 'No usage yet',
+      motivationalImageUsage: 0,
+      videoPlayedRate: 0,
+      averageDurationSeconds: null,
+      timeOfDay,
+      afterLowScore: { count: 0, percent: 0, byCategory }
+    };
+  }
+
+  const dayCounts = new Array(7).fill(0);
+  let afterLowScore = 0;
+
+  for (const event of events) {
+    timeOfDay[getTimeOfDay(event.localHour)]++;
+
+    const localDate = getLocalDateString(event.startedAt, timeZone);
+    dayCounts[new Date(`${localDate}T00:00:00Z`).getUTCDay()]++;
+
+    // Only scores from the day of the press or the day before say how the patient was doing
+    if (event.scoreDate && Date.parse(`${localDate}T00:00:00Z`) - Date.parse(`${event.scoreDate}T00:00:00Z`) <= DAY_MS) {
+      const low = {
+        diet: event.dietScore !== null && event.dietScore <= LOW_SCORE_THRESHOLD,
+        exercise: event.exerciseScore !== null && event.exerciseScore <= LOW_SCORE_THRESHOLD,
+        medication: event.medicationScore !== null && event.medicationScore <= LOW_SCORE_THRESHOLD
+      };
+      if (low.diet || low.exercise || low.medication) {
+        afterLowScore++;
+        (Object.keys(low) as (keyof typeof low)[]).forEach(category => {
+          if (low[category]) byCategory[category]++;
+        });
+      }
+    }
+  }
+
+  const earliest = events.reduce((min, event) => (event.startedAt < min ? event.startedAt : min), events[0].startedAt);
+  const daysSpan = Math.ceil((now.getTime() - earliest.getTime()) / DAY_MS);
+  const preferred = (Object.keys(timeOfDay) as TimeOfDay[])
+    .reduce((best, key) => (timeOfDay[key] > timeOfDay[best] ? key : best), 'Late night');
+  const completed = events.filter(event => event.durationSeconds !== null);
+  const percent = (n: number) => Math.round((n / events.length) * 100);
+
+  return {
+    totalSessions: events.length,
+    dailyAverage: Math.round(events.length / Math.max(daysSpan, 1) * 100) / 100,
+    preferredTimeOfDay: preferred,
+    mostActiveDay: DAYS[dayCounts.indexOf(Math.max(...dayCounts))],
+    motivationalImageUsage: percent(events.filter(event => event.motivationalImageShown).length),
+    videoPlayedRate: percent(events.filter(event => event.videoPlayed).length),
+    averageDurationSeconds: completed.length > 0
+      ? Math.round(completed.reduce((sum, event) => sum + event.durationSeconds!, 0) / completed.length)
+      : null,
+    timeOfDay,
+    afterLowScore: { count: afterLowScore, percent: percent(afterLowScore), byCategory }
+  };
+}
+
 export class KeepGoingTracker {
   /**
-   * Record a Keep Going button press
+   * Open a Keep Going session, capturing the patient's latest self-scores
    */
-  static async recordUsage(userId: number, details?: {
-    hasMotivationalImage?: boolean;
-    deviceType?: 'mobile' | 'desktop';
-  }): Promise<void> {
+  static async startSession(userId: number, details: Partial<StartKeepGoingEvent> = {}): Promise<KeepGoingEvent> {
     try {
-      console.log(`Recording Keep Going usage for user ${userId}`);
-      
-      await db.insert(featureUsage).values({
+      const timeZone = await this.getTimeZone(userId);
+      const now = new Date();
+
+      const [latestScore] = await db
+        .select()
+        .from(patientScores)
+        .where(and(
+          eq(patientScores.patientId, userId),
+          lte(patientScores.scoreDate, getLocalDateString(now, timeZone))
+        ))
+        .orderBy(desc(patientScores.scoreDate))
+        .limit(1);
+
+      const [event] = await db.insert(keepGoingEvents).values({
         userId,
-        featureName: 'KeepGoing',
-        usageCount: 1,
-        lastUsed: new Date(),
-        createdAt: new Date()
-      });
-      
-      console.log(`Keep Going usage recorded successfully`);
+        startedAt: now,
+        deviceType: details.deviceType ?? 'desktop',
+        motivationalImageShown: details.motivationalImageShown ?? false,
+        localHour: parseInt(getLocalTimeString(now, timeZone).slice(0, 2)) % 24,
+        scoreDate: latestScore?.scoreDate ?? null,
+        dietScore: latestScore?.mealPlanSelfScore ?? null,
+        exerciseScore: latestScore?.exerciseSelfScore ?? null,
+        medicationScore: latestScore?.medicationSelfScore ?? null
+      }).returning();
+
+      return event;
     } catch (error) {
       console.error('Error recording Keep Going usage:', error);
       throw error;
     }
   }
 
+  /**
+   * Close a patient's open session with its duration; undefined if not found or already closed
+   */
+  static async endSession(userId: number, eventId: number, details: EndKeepGoingEvent): Promise<KeepGoingEvent | undefined> {
+    const [event] = await db
+      .select()
+      .from(keepGoingEvents)
+      .where(and(
+        eq(keepGoingEvents.id, eventId),
+        eq(keepGoingEvents.userId, userId),
+        isNull(keepGoingEvents.endedAt)
+      ));
+
+    if (!event) {
+      return undefined;
+    }
+
+    const endedAt = new Date();
+    const durationSeconds = Math.min(
+      Math.max(0, Math.round((endedAt.getTime() - event.startedAt.getTime()) / 1000)),
+      MAX_SESSION_SECONDS
+    );
+
+    const [updated] = await db
+      .update(keepGoingEvents)
+      .set({
+        endedAt,
+        durationSeconds,
+        videoPlayed: details.videoPlayed,
+        motivationalImageShown: details.motivationalImageShown ?? event.motivationalImageShown
+      })
+      .where(eq(keepGoingEvents.id, eventId))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Record a Keep Going button press without tracking its end
+   */
+  static async recordUsage(userId: number, details?: {
+    hasMotivationalImage?: boolean;
+    deviceType?: 'mobile' | 'tablet' | 'desktop';
+  }): Promise<void> {
+    await this.startSession(userId, {
+      deviceType: details?.deviceType,
+      motivationalImageShown: details?.hasMotivationalImage
+    });
+  }
+
+  /**
+   * Sessions started within a period, e.g. a PPR's
+   */
+  static async countSessions(userId: number, startDate: Date, endDate: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(keepGoingEvents)
+      .where(and(
+        eq(keepGoingEvents.userId, userId),
+        gte(keepGoingEvents.startedAt, startDate),
+        lte(keepGoingEvents.startedAt, endDate)
+      ));
+
+    return Number(result?.count ?? 0);
+  }
+
   /**
    * Get Keep Going usage statistics for a user
    */
   static async getUsageStats(userId: number, lastPPRDate?: Date): Promise<KeepGoingStats> {
     try {
-      // Get total usage count
-      const totalResult = await db
-        .select({ count: sql`COUNT(*)` })
-        .from(featureUsage)
-        .where(sql`${featureUsage.userId} = ${userId} AND ${featureUsage.featureName} = 'KeepGoing'`);
-      
-      const totalUsage = parseInt(totalResult[0]?.count?.toString() || '0');
-
-      // Get usage since last PPR
-      let usageSinceLastPPR = totalUsage;
-      if (lastPPRDate) {
-        const sincePPRResult = await db
-          .select({ count: sql`COUNT(*)` })
-          .from(featureUsage)
-          .where(sql`${featureUsage.userId} = ${userId} 
-                     AND ${featureUsage.featureName} = 'KeepGoing' 
-                     AND ${featureUsage.lastUsed} > ${lastPPRDate}`);
-        
-        usageSinceLastPPR = parseInt(sincePPRResult[0]?.count?.toString() || '0');
-      }
+      const countSince = async (since?: Date, until?: Date) => {
+        const [result] = await db
+          .select({ count: count() })
+          .from(keepGoingEvents)
+          .where(and(
+            eq(keepGoingEvents.userId, userId),
+            since ? gt(keepGoingEvents.startedAt, since) : undefined,
+            until ? lte(keepGoingEvents.startedAt, until) : undefined
+          ));
+        return Number(result?.count ?? 0);
+      };
 
-      // Get last used date
-      const lastUsedResult = await db
-        .select({ lastUsed: featureUsage.lastUsed })
-        .from(featureUsage)
-        .where(sql`${featureUsage.userId} = ${userId} AND ${featureUsage.featureName} = 'KeepGoing'`)
-        .orderBy(sql`${featureUsage.lastUsed} DESC`)
-        .limit(1);
-      
-      const lastUsedDate = lastUsedResult[0]?.lastUsed || null;
-
-      // Calculate weekly average (last 4 weeks)
-      const fourWeeksAgo = new Date();
-      fourWeeksAgo.setDate(fourWeeksAgo.getDate() - 28);
-      
-      const recentUsageResult = await db
-        .select({ count: sql`COUNT(*)` })
-        .from(featureUsage)
-        .where(sql`${featureUsage.userId} = ${userId} 
-                   AND ${featureUsage.featureName} = 'KeepGoing' 
-                   AND ${featureUsage.lastUsed} > ${fourWeeksAgo}`);
-      
-      const recentUsage = parseInt(recentUsageResult[0]?.count?.toString() || '0');
-      const averagePerWeek = Math.round(recentUsage / 4 * 100) / 100; // Round to 2 decimal places
-
-      // Calculate weekly trend (comparing last 2 weeks vs previous 2 weeks)
-      const twoWeeksAgo = new Date();
-      twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
-      
-      const lastTwoWeeksResult = await db
-        .select({ count: sql`COUNT(*)` })
-        .from(featureUsage)
-        .where(sql`${featureUsage.userId} = ${userId} 
-                   AND ${featureUsage.featureName} = 'KeepGoing' 
-                   AND ${featureUsage.lastUsed} > ${twoWeeksAgo}`);
-      
-      const previousTwoWeeksResult = await db
-        .select({ count: sql`COUNT(*)` })
-        .from(featureUsage)
-        .where(sql`${featureUsage.userId} = ${userId} 
-                   AND ${featureUsage.featureName} = 'KeepGoing' 
-                   AND ${featureUsage.lastUsed} <= ${twoWeeksAgo}
-                   AND ${featureUsage.lastUsed} > ${fourWeeksAgo}`);
-      
-      const lastTwoWeeks = parseInt(lastTwoWeeksResult[0]?.count?.toString() || '0');
-      const previousTwoWeeks = parseInt(previousTwoWeeksResult[0]?.count?.toString() || '0');
-      
+      const fourWeeksAgo = new Date(Date.now() - 28 * DAY_MS);
+      const twoWeeksAgo = new Date(Date.now() - 14 * DAY_MS);
+
+      const [totalUsage, usageSinceLastPPR, recentUsage, lastTwoWeeks, previousTwoWeeks, [lastEvent]] = await Promise.all([
+        countSince(),
+        lastPPRDate ? countSince(lastPPRDate) : Promise.resolve(null),
+        countSince(fourWeeksAgo),
+        countSince(twoWeeksAgo),
+        countSince(fourWeeksAgo, twoWeeksAgo),
+        db.select({ startedAt: keepGoingEvents.startedAt })
+          .from(keepGoingEvents)
+          .where(eq(keepGoingEvents.userId, userId))
+          .orderBy(desc(keepGoingEvents.startedAt))
+          .limit(1)
+      ]);
+
+      // Weekly trend compares the last 2 weeks with the 2 before
       let weeklyTrend = 0;
       if (previousTwoWeeks > 0) {
         weeklyTrend = Math.round(((lastTwoWeeks - previousTwoWeeks) / previousTwoWeeks) * 100);
@@ -132,9 +283,9 @@ export class KeepGoingTracker {
 
       return {
         totalUsage,
-        usageSinceLastPPR,
-        averagePerWeek,
-        lastUsedDate,
+        usageSinceLastPPR: usageSinceLastPPR ?? totalUsage,
+        averagePerWeek: Math.round(recentUsage / 4 * 100) / 100,
+        lastUsedDate: lastEvent?.startedAt ?? null,
         weeklyTrend
       };
     } catch (error) {
@@ -148,24 +299,21 @@ export class KeepGoingTracker {
    */
   static async getUsageHistory(userId: number, limit = 50): Promise<KeepGoingUsage[]> {
     try {
-      const results = await db
-        .select({
-          id: featureUsage.id,
-          userId: featureUsage.userId,
-          lastUsed: featureUsage.lastUsed,
-          usageCount: featureUsage.usageCount
-        })
-        .from(featureUsage)
-        .where(sql`${featureUsage.userId} = ${userId} AND ${featureUsage.featureName} = 'KeepGoing'`)
-        .orderBy(sql`${featureUsage.lastUsed} DESC`)
+      const events = await db
+        .select()
+        .from(keepGoingEvents)
+        .where(eq(keepGoingEvents.userId, userId))
+        .orderBy(desc(keepGoingEvents.startedAt))
         .limit(limit);
 
-      return results.map(result => ({
-        id: result.id,
-        userId: result.userId,
-        timestamp: result.lastUsed,
-        hasMotivationalImage: false, // This info not stored in current schema
-        deviceType: 'desktop' as const // This info not stored in current schema
+      return events.map(event => ({
+        id: event.id,
+        userId: event.userId,
+        timestamp: event.startedAt,
+        hasMotivationalImage: event.motivationalImageShown,
+        deviceType: event.deviceType as KeepGoingUsage['deviceType'],
+        videoPlayed: event.videoPlayed,
+        durationSeconds: event.durationSeconds
       }));
     } catch (error) {
       console.error('Error getting Keep Going usage history:', error);
@@ -174,74 +322,37 @@ export class KeepGoingTracker {
   }
 
   /**
-   * Get usage patterns for Supervisor Agent insights
+   * Get usage patterns for Supervisor Agent insights and doctor analytics,
+   * optionally limited to a period
    */
-  static async getUsagePatterns(userId: number): Promise<{
-    dailyAverage: number;
-    preferredTimeOfDay: string;
-    mostActiveDay: string;
-    motivationalImageUsage: number;
-  }> {
+  static async getUsagePatterns(userId: number, startDate?: Date, endDate?: Date): Promise<KeepGoingPatterns> {
     try {
-      // Get all usage records for pattern analysis
-      const allUsage = await this.getUsageHistory(userId, 1000);
-      
-      if (allUsage.length === 0) {
-        return {
-          dailyAverage: 0,
-          preferredTimeOfDay: 'No usage yet',
-          mostActiveDay: 'No usage yet',
-          motivationalImageUsage: 0
-        };
-      }
+      const timeZone = await this.getTimeZone(userId);
+      const events = await db
+        .select()
+        .from(keepGoingEvents)
+        .where(and(
+          eq(keepGoingEvents.userId, userId),
+          startDate ? gte(keepGoingEvents.startedAt, startDate) : undefined,
+          endDate ? lte(keepGoingEvents.startedAt, endDate) : undefined
+        ))
+        .orderBy(desc(keepGoingEvents.startedAt));
 
-      // Calculate daily average
-      const daysSpan = Math.ceil((Date.now() - allUsage[allUsage.length - 1].timestamp.getTime()) / (1000 * 60 * 60 * 24));
-      const dailyAverage = Math.round(allUsage.length / Math.max(daysSpan, 1) * 100) / 100;
-
-      // Find preferred time of day
-      const hourCounts = new Array(24).fill(0);
-      allUsage.forEach(usage => {
-        const hour = usage.timestamp.getHours();
-        hourCounts[hour]++;
-      });
-      
-      const maxHour = hourCounts.indexOf(Math.max(...hourCounts));
-      const preferredTimeOfDay = maxHour < 6 ? 'Late night' :
-                               maxHour < 12 ? 'Morning' :
-                               maxHour < 18 ? 'Afternoon' : 'Evening';
-
-      // Find most active day
-      const dayCounts = new Array(7).fill(0);
-      allUsage.forEach(usage => {
-        const day = usage.timestamp.getDay();
-        dayCounts[day]++;
-      });
-      
-      const maxDay = dayCounts.indexOf(Math.max(...dayCounts));
-      const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const mostActiveDay = days[maxDay];
-
-      // Calculate motivational image usage percentage
-      const withImageCount = allUsage.filter(usage => usage.hasMotivationalImage).length;
-      const motivationalImageUsage = Math.round((withImageCount / allUsage.length) * 100);
-
-      return {
-        dailyAverage,
-        preferredTimeOfDay,
-        mostActiveDay,
-        motivationalImageUsage
-      };
+      return analyzeKeepGoingEvents(events, timeZone, endDate && endDate < new Date() ? endDate : new Date());
     } catch (error) {
       console.error('Error getting Keep Going usage patterns:', error);
       return {
-        dailyAverage: 0,
+        ...analyzeKeepGoingEvents([], 'Australia/Sydney'),
         preferredTimeOfDay: 'Unable to determine',
-        mostActiveDay: 'Unable to determine',
-        motivationalImageUsage: 0
+        mostActiveDay: 'Unable to determine'
       };
     }
   }
+
+  private static async getTimeZone(userId: number): Promise<string> {
+    const [user] = await db.select({ timezone: users.timezone }).from(users).where(eq(users.id, userId));
+    return user?.timezone ?? 'Australia/Sydney';
+  }
 }
 
-export default KeepGoingTracker;
\ No newline at end of file
+export default KeepGoingTracker;
@@ -0,0 +1,427 @@
+/**
+ * Medication Service
+ *
+ * Structured medication list per patient (drug, strength, local dose times),
+ * dose logging, objective adherence and refill estimates. Scheduled doses with
+ * no log are missed once the patient's day ends; today's unlogged doses are
+ * pending and don't count towards adherence yet.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  patientMedications,
+  medicationDoseLogs,
+  PatientMedication,
+  MedicationDoseLog,
+  MedicationDoseStatus,
+  InsertPatientMedication,
+  InsertMedicationDoseLog
+} from '@shared/schema';
+import { eq, and, gte, lte, inArray, asc } from 'drizzle-orm';
+import { getLocalDateString, getLocalTimeString } from './cronExpression';
+
+export type ScheduledDoseStatus = MedicationDoseStatus | 'missed' | 'pending';
+
+export interface ScheduledDose {
+  medicationId: number;
+  name: string;
+  strength: string;
+  scheduledDate: string;
+  doseTime: string;
+  status: ScheduledDoseStatus;
+  log: MedicationDoseLog | null;
+}
+
+export interface DoseCounts {
+  expectedDoses: number; // Doses due, excluding today's pending ones
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  adherencePercent: number | null; // Taken (on time or late) / expected
+  onTimePercent: number | null;
+}
+
+export interface MedicationAdherenceSummary extends DoseCounts {
+  startDate: string;
+  endDate: string;
+  byMedication: (DoseCounts & { medicationId: number; name: string; strength: string })[];
+}
+
+export interface RefillEstimate {
+  medicationId: number;
+  name: string;
+  strength: string;
+  dailyUnits: number;
+  unitsRemaining: number | null;
+  daysRemaining: number | null;
+  refillDueDate: string | null; // Local date the supply runs out
+  refillSoon: boolean;
+}
+
+// A 'taken' dose logged more than this long after its scheduled time is recorded as late
+export const LATE_DOSE_MINUTES = 60;
+const REFILL_WARNING_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Every scheduled dose for the medications between two local dates, with its logged
+ * status. `today`/`nowTime` are the patient's local date and HH:MM; doses later today
+ * are left out unless `includeUpcoming` is set.
+ */
+export function buildDoseSchedule(
+  medications: PatientMedication[],
+  logs: MedicationDoseLog[],
+  startDate: string,
+  endDate: string,
+  today: string,
+  nowTime: string,
+  includeUpcoming = false
+): ScheduledDose[] {
+  const logsByDose = new Map(logs.map(log => [`${log.medicationId}|${log.scheduledDate}|${log.doseTime}`, log]));
+  const doses: ScheduledDose[] = [];
+
+  for (const medication of medications) {
+    if (!medication.active && !medication.endDate) {
+      continue;
+    }
+
+    const from = maxDate(startDate, String(medication.startDate));
+    const to = [endDate, today, medication.endDate ? String(medication.endDate) : null]
+      .filter((date): date is string => !!date)
+      .reduce((earliest, date) => (date < earliest ? date : earliest));
+
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      for (const doseTime of medication.doseTimes) {
+        const log = logsByDose.get(`${medication.id}|${date}|${doseTime}`) ?? null;
+        if (!log && !includeUpcoming && date === today && doseTime > nowTime) {
+          continue; // Not due yet
+        }
+
+        doses.push({
+          medicationId: medication.id,
+          name: medication.name,
+          strength: medication.strength,
+          scheduledDate: date,
+          doseTime,
+          status: log ? log.status as MedicationDoseStatus : date < today ? 'missed' : 'pending',
+          log
+        });
+      }
+    }
+  }
+
+  return doses.sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate) || a.doseTime.localeCompare(b.doseTime));
+}
+
+export function countDoses(doses: ScheduledDose[]): DoseCounts {
+  const count = (status: ScheduledDoseStatus) => doses.filter(dose => dose.status === status).length;
+  const taken = count('taken');
+  const late = count('late');
+  const expectedDoses = doses.length - count('pending');
+
+  return {
+    expectedDoses,
+    taken,
+    late,
+    skipped: count('skipped'),
+    missed: count('missed'),
+    adherencePercent: expectedDoses > 0 ? Math.round(((taken + late) / expectedDoses) * 1000) / 10 : null,
+    onTimePercent: expectedDoses > 0 ? Math.round((taken / expectedDoses) * 1000) / 10 : null
+  };
+}
+
+/**
+ * Record a 'taken' dose as late when it was taken well after its scheduled local time
+ */
+export function classifyDoseStatus(
+  status: MedicationDoseStatus,
+  scheduledDate: string,
+  doseTime: string,
+  takenAt: Date,
+  timeZone: string
+): MedicationDoseStatus {
+  if (status !== 'taken') {
+    return status;
+  }
+
+  const takenDate = getLocalDateString(takenAt, timeZone);
+  const dayOffset = Math.round((Date.parse(`${takenDate}T00:00:00Z`) - Date.parse(`${scheduledDate}T00:00:00Z`)) / DAY_MS);
+  const minutesLate = dayOffset * 24 * 60 + toMinutes(getLocalTimeString(takenAt, timeZone)) - toMinutes(doseTime);
+
+  return minutesLate > LATE_DOSE_MINUTES ? 'late' : 'taken';
+}
+
+export class MedicationService {
+  async listMedications(patientId: number, includeInactive = false): Promise<PatientMedication[]> {
+    return await db.select()
+      .from(patientMedications)
+      .where(includeInactive
+        ? eq(patientMedications.patientId, patientId)
+        : and(eq(patientMedications.patientId, patientId), eq(patientMedications.active, true)))
+      .orderBy(asc(patientMedications.name));
+  }
+
+  async getMedication(medicationId: number): Promise<PatientMedication | undefined> {
+    const [medication] = await db.select()
+      .from(patientMedications)
+      .where(eq(patientMedications.id, medicationId));
+    return medication;
+  }
+
+  async createMedication(patientId: number, medication: InsertPatientMedication, prescribedById: number | null): Promise<PatientMedication> {
+    const [created] = await db.insert(patientMedications)
+      .values({ ...medication, patientId, prescribedById })
+      .returning();
+    return created;
+  }
+
+  async updateMedication(medicationId: number, updates: Partial<InsertPatientMedication>): Promise<PatientMedication | undefined> {
+    const [updated] = await db.update(patientMedications)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(patientMedications.id, medicationId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Stop a medication as of today; its past doses still count towards adherence
+   */
+  async stopMedication(medicationId: number): Promise<PatientMedication | undefined> {
+    const medication = await this.getMedication(medicationId);
+    if (!medication) {
+      return undefined;
+    }
+
+    const today = getLocalDateString(new Date(), await this.getTimeZone(medication.patientId));
+    const endDate = medication.endDate && String(medication.endDate) < today ? String(medication.endDate) : today;
+
+    const [stopped] = await db.update(patientMedications)
+      .set({ active: false, endDate, updatedAt: new Date() })
+      .where(eq(patientMedications.id, medicationId))
+      .returning();
+    return stopped;
+  }
+
+  /**
+   * Log a scheduled dose as taken, late or skipped. Re-logging the same dose replaces it.
+   */
+  async logDose(patientId: number, input: InsertMedicationDoseLog): Promise<{ log?: MedicationDoseLog; error?: string }> {
+    const medication = await this.getMedication(input.medicationId);
+    if (!medication || medication.patientId !== patientId) {
+      return { error: 'Medication not found for this patient' };
+    }
+    if (!medication.doseTimes.includes(input.doseTime)) {
+      return { error: `${input.doseTime} is not a scheduled dose time for ${medication.name}` };
+    }
+
+    const timeZone = await this.getTimeZone(patientId);
+    const today = getLocalDateString(new Date(), timeZone);
+    if (input.scheduledDate > today) {
+      return { error: 'Cannot log a dose for a future date' };
+    }
+    if (input.scheduledDate < String(medication.startDate) || (medication.endDate && input.scheduledDate > String(medication.endDate))) {
+      return { error: `${medication.name} was not scheduled on ${input.scheduledDate}` };
+    }
+
+    const takenAt = input.status === 'skipped' ? null : input.takenAt ?? new Date();
+    const status = takenAt ? classifyDoseStatus(input.status, input.scheduledDate, input.doseTime, takenAt, timeZone) : input.status;
+    const values = {
+      medicationId: medication.id,
+      patientId,
+      scheduledDate: input.scheduledDate,
+      doseTime: input.doseTime,
+      status,
+      takenAt,
+      notes: input.notes ?? null,
+      loggedAt: new Date()
+    };
+
+    const [log] = await db.insert(medicationDoseLogs)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [medicationDoseLogs.medicationId, medicationDoseLogs.scheduledDate, medicationDoseLogs.doseTime],
+        set: { status: values.status, takenAt: values.takenAt, notes: values.notes, loggedAt: values.loggedAt }
+      })
+      .returning();
+
+    return { log };
+  }
+
+  /**
+   * Scheduled doses for one local date (defaults to the patient's today), with logged status
+   */
+  async getDaySchedule(patientId: number, date?: string): Promise<ScheduledDose[]> {
+    const timeZone = await this.getTimeZone(patientId);
+    const now = new Date();
+    const today = getLocalDateString(now, timeZone);
+    const day = date ?? today;
+
+    const medications = await this.listMedications(patientId, true);
+    const logs = await this.getLogs(patientId, day, day);
+
+    return buildDoseSchedule(medications, logs, day, day, today, getLocalTimeString(now, timeZone), true);
+  }
+
+  /**
+   * Objective adherence from logged doses between two local dates (inclusive)
+   */
+  async calculateAdherence(patientId: number, startDate: string, endDate: string): Promise<MedicationAdherenceSummary> {
+    const timeZone = await this.getTimeZone(patientId);
+    const now = new Date();
+    const medications = await this.listMedications(patientId, true);
+    const logs = await this.getLogs(patientId, startDate, endDate);
+    const doses = buildDoseSchedule(
+      medications,
+      logs,
+      startDate,
+      endDate,
+      getLocalDateString(now, timeZone),
+      getLocalTimeString(now, timeZone)
+    );
+
+    return {
+      startDate,
+      endDate,
+      ...countDoses(doses),
+      byMedication: medications
+        .filter(medication => medication.active || doses.some(dose => dose.medicationId === medication.id))
+        .map(medication => ({
+          medicationId: medication.id,
+          name: medication.name,
+          strength: medication.strength,
+          ...countDoses(doses.filter(dose => dose.medicationId === medication.id))
+        }))
+    };
+  }
+
+  /**
+   * Adherence over the last `days` days including today
+   */
+  async calculateRecentAdherence(patientId: number, days: number): Promise<MedicationAdherenceSummary> {
+    const today = getLocalDateString(new Date(), await this.getTimeZone(patientId));
+    return await this.calculateAdherence(patientId, addDays(today, -(days - 1)), today);
+  }
+
+  /**
+   * Medication section of a PPR: logged-dose adherence for the report period beside the
+   * medication self-score, or null when the patient has no structured medications
+   */
+  async getPprMedicationSummary(patientId: number, startDate: Date, endDate: Date, selfScoreAverage: number | null) {
+    const medications = await this.listMedications(patientId, true);
+    if (medications.length === 0) {
+      return null;
+    }
+
+    const timeZone = await this.getTimeZone(patientId);
+    const adherence = await this.calculateAdherence(
+      patientId,
+      getLocalDateString(startDate, timeZone),
+      getLocalDateString(endDate, timeZone)
+    );
+
+    return {
+      selfScoreAverage: selfScoreAverage !== null ? Math.round(selfScoreAverage * 10) / 10 : null,
+      ...adherence
+    };
+  }
+
+  /**
+   * When each active medication's supply runs out, from units on hand at the last refill
+   * less the doses logged as taken since
+   */
+  async getRefillEstimates(patientId: number): Promise<RefillEstimate[]> {
+    const today = getLocalDateString(new Date(), await this.getTimeZone(patientId));
+    const medications = await this.listMedications(patientId);
+    const estimates: RefillEstimate[] = [];
+
+    for (const medication of medications) {
+      const dailyUnits = medication.doseTimes.length * medication.doseQuantity;
+      const unitsRemaining = await this.getUnitsRemaining(medication);
+      const daysRemaining = unitsRemaining === null || dailyUnits === 0 ? null : Math.max(Math.floor(unitsRemaining / dailyUnits), 0);
+
+      estimates.push({
+        medicationId: medication.id,
+        name: medication.name,
+        strength: medication.strength,
+        dailyUnits,
+        unitsRemaining,
+        daysRemaining,
+        refillDueDate: daysRemaining === null ? null : addDays(today, daysRemaining),
+        refillSoon: daysRemaining !== null && daysRemaining <= REFILL_WARNING_DAYS
+      });
+    }
+
+    return estimates;
+  }
+
+  /**
+   * Record a refill: remaining units plus the quantity supplied become the new stock
+   */
+  async recordRefill(medicationId: number, quantity: number, refillDate?: string): Promise<PatientMedication | undefined> {
+    const medication = await this.getMedication(medicationId);
+    if (!medication) {
+      return undefined;
+    }
+
+    const unitsRemaining = await this.getUnitsRemaining(medication);
+    const [updated] = await db.update(patientMedications)
+      .set({
+        quantityOnHand: Math.max(unitsRemaining ?? 0, 0) + quantity,
+        lastRefillDate: refillDate ?? getLocalDateString(new Date(), await this.getTimeZone(medication.patientId)),
+        updatedAt: new Date()
+      })
+      .where(eq(patientMedications.id, medicationId))
+      .returning();
+    return updated;
+  }
+
+  private async getUnitsRemaining(medication: PatientMedication): Promise<number | null> {
+    if (medication.quantityOnHand === null || !medication.lastRefillDate) {
+      return null;
+    }
+
+    const taken = await db.select({ id: medicationDoseLogs.id })
+      .from(medicationDoseLogs)
+      .where(and(
+        eq(medicationDoseLogs.medicationId, medication.id),
+        gte(medicationDoseLogs.scheduledDate, String(medication.lastRefillDate)),
+        inArray(medicationDoseLogs.status, ['taken', 'late'])
+      ));
+
+    return medication.quantityOnHand - taken.length * medication.doseQuantity;
+  }
+
+  private async getLogs(patientId: number, startDate: string, endDate: string): Promise<MedicationDoseLog[]> {
+    return await db.select()
+      .from(medicationDoseLogs)
+      .where(and(
+        eq(medicationDoseLogs.patientId, patientId),
+        gte(medicationDoseLogs.scheduledDate, startDate),
+        lte(medicationDoseLogs.scheduledDate, endDate)
+      ));
+  }
+
+  private async getTimeZone(patientId: number): Promise<string> {
+    const [patient] = await db.select({ timezone: users.timezone })
+      .from(users)
+      .where(eq(users.id, patientId));
+    return patient?.timezone ?? 'Australia/Sydney';
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+function maxDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+export const medicationService = new MedicationService();
@@ -0,0 +1,189 @@
+/**
+ * Notification Channel Adapters
+ *
+ * One adapter per delivery channel. An adapter sends a single outbox row and throws
+ * on failure; the notification service owns retries and status.
+ *
+ * NOTIFICATION_TRANSPORT picks where SMS, email and push actually go:
+ * - live: Twilio, SendGrid and web push (default outside development)
+ * - console: printed to the server log (default in development)
+ * - file: written to NOTIFICATION_FILE_DIR, one JSON file (plus .html for email) per message
+ * In-app notifications are only ever stored, so they behave the same under every transport.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Notification, NotificationChannel, NotificationCategory } from '@shared/schema';
+import { SMSService } from './smsService';
+import { emailService } from './emailService';
+import { webPushService } from './webPushService';
+import { envManager } from '../environmentConfig';
+
+export interface ChannelDeliveryResult {
+  providerMessageId?: string; // Matched against delivery receipts
+  delivered?: boolean; // True when the channel confirms delivery on send (in-app)
+}
+
+export interface NotificationChannelAdapter {
+  send(notification: Notification): Promise<ChannelDeliveryResult>;
+  // Why the channel can't reach this user right now (checked when queuing), or null
+  unavailableReason?(userId: number): Promise<string | null>;
+}
+
+export type NotificationTransport = 'live' | 'console' | 'file';
+
+const EMAIL_SENDERS: Partial<Record<NotificationCategory, string>> = {
+  emergency: 'alerts@keepgoingcare.com.au',
+  alert: 'alerts@keepgoingcare.com.au',
+  welcome: 'welcome@keepgoingcare.com'
+};
+const DEFAULT_EMAIL_SENDER = 'notifications@keepgoingcare.com.au';
+
+export function getNotificationTransport(): NotificationTransport {
+  const configured = process.env.NOTIFICATION_TRANSPORT;
+  if (configured === 'live' || configured === 'console' || configured === 'file') {
+    return configured;
+  }
+  return envManager.isDevelopment() ? 'console' : 'live';
+}
+
+/**
+ * Base URL Twilio and SendGrid post delivery receipts to, or null when receipts are not configured
+ */
+export function getReceiptBaseUrl(): string | null {
+  return process.env.NOTIFICATION_WEBHOOK_BASE_URL?.replace(/\/$/, '') || null;
+}
+
+const smsAdapter: NotificationChannelAdapter = {
+  async send(notification) {
+    const receiptBaseUrl = getReceiptBaseUrl();
+    const result = await SMSService.sendMessage(
+      notification.address!,
+      notification.body,
+      receiptBaseUrl ? `${receiptBaseUrl}/api/notifications/receipts/twilio` : undefined
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'SMS send failed');
+    }
+    return { providerMessageId: result.messageId };
+  }
+};
+
+const emailAdapter: NotificationChannelAdapter = {
+  async send(notification) {
+    const result = await emailService.sendEmail({
+      to: notification.address!,
+      from: EMAIL_SENDERS[notification.category as NotificationCategory] ?? DEFAULT_EMAIL_SENDER,
+      subject: notification.subject ?? 'Keep Going Care',
+      text: notification.body,
+      html: notification.html ?? undefined
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Email send failed');
+    }
+    return { providerMessageId: result.messageId };
+  }
+};
+
+// The row itself is the in-app notification; the client polls for unread rows
+const inAppAdapter: NotificationChannelAdapter = {
+  async send() {
+    return { delivered: true };
+  }
+};
+
+// Push has no delivery receipts, so a push the service accepted stays 'sent'
+const webPushAdapter: NotificationChannelAdapter = {
+  async send(notification) {
+    const result = await webPushService.sendToUser(
+      notification.userId,
+      {
+        title: notification.subject ?? 'Keep Going Care',
+        body: notification.body,
+        url: notification.url,
+        tag: notification.templateKey,
+        notificationId: notification.id
+      },
+      { urgency: notification.priority === 'emergency' ? 'high' : 'normal' }
+    );
+    if (result.sent === 0) {
+      throw new Error(result.errors[0] || 'No push subscriptions accepted the message');
+    }
+    return { providerMessageId: result.messageIds[0] };
+  },
+
+  async unavailableReason(userId) {
+    if (!webPushService.isConfigured()) {
+      return 'Web push is not configured';
+    }
+    return (await webPushService.hasSubscriptions(userId)) ? null : 'No push subscriptions';
+  }
+};
+
+const consoleAdapter: NotificationChannelAdapter = {
+  async send(notification) {
+    console.log(`[Notifications] ${notification.channel} #${notification.id} to user ${notification.userId}${notification.address ? ` (${notification.address})` : ''}`);
+    if (notification.subject) {
+      console.log(`  Subject: ${notification.subject}`);
+    }
+    console.log(`  ${notification.body.split('\n').join('\n  ')}`);
+    return { providerMessageId: `console-${notification.id}`, delivered: true };
+  }
+};
+
+const fileAdapter: NotificationChannelAdapter = {
+  async send(notification) {
+    const directory = process.env.NOTIFICATION_FILE_DIR || path.join(process.cwd(), '.notifications');
+    const baseName = path.join(directory, `${notification.id}-${notification.channel}`);
+    await fs.mkdir(directory, { recursive: true });
+
+    const { html, ...message } = notification;
+    await fs.writeFile(`${baseName}.json`, JSON.stringify(message, null, 2));
+    if (html) {
+      await fs.writeFile(`${baseName}.html`, html);
+    }
+    return { providerMessageId: `file-${notification.id}`, delivered: true };
+  }
+};
+
+const liveAdapters: Partial<Record<NotificationChannel, NotificationChannelAdapter>> = {
+  sms: smsAdapter,
+  email: emailAdapter,
+  in_app: inAppAdapter,
+  web_push: webPushAdapter
+};
+
+/**
+ * Adapter that will deliver on a channel under the current transport, or null if the
+ * channel has no live adapter (the notification is then skipped)
+ */
+export function getChannelAdapter(channel: NotificationChannel): NotificationChannelAdapter | null {
+  const live = liveAdapters[channel];
+  if (!live) {
+    return null;
+  }
+  if (channel === 'in_app') {
+    return live;
+  }
+
+  switch (getNotificationTransport()) {
+    case 'console': return consoleAdapter;
+    case 'file': return fileAdapter;
+    default: return live;
+  }
+}
+
+/**
+ * Why a notification on this channel would be skipped for the user, or null if it can
+ * be queued. Console and file transports don't need the live channel to be set up.
+ */
+export async function getChannelUnavailableReason(channel: NotificationChannel, userId: number): Promise<string | null> {
+  const live = liveAdapters[channel];
+  if (!live) {
+    return `No ${channel} adapter configured`;
+  }
+  if (channel !== 'in_app' && getNotificationTransport() !== 'live') {
+    return null;
+  }
+  return live.unavailableReason ? live.unavailableReason(userId) : null;
+}
@@ -0,0 +1,388 @@
+/**
+ * Notification Service
+ *
+ * Single entry point for every message KGC sends to a user. notify() renders a
+ * template once per channel and writes one outbox row per channel; rows are then
+ * delivered through the channel adapters, retried with backoff, and updated from
+ * provider delivery receipts.
+ *
+ * - Channel preferences and quiet hours come from notification_preferences.
+ *   Emergency-priority notifications ignore both.
+ * - Quiet hours (in the user's timezone) hold back SMS and web push until they end;
+ *   email and in-app are not intrusive, so they go straight away.
+ * - Skipped rows are kept with the reason, so "why didn't I get it" can be answered.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  notifications,
+  notificationPreferences,
+  Notification,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationPriority,
+  NotificationStatus,
+  UpdateNotificationPreferences
+} from '@shared/schema';
+import { eq, and, desc, lte, lt, isNull, sql, SQL } from 'drizzle-orm';
+import { getLocalTimeString } from './cronExpression';
+import { getChannelAdapter, getChannelUnavailableReason } from './notificationChannels';
+import { getNotificationTemplate, renderNotificationTemplate, TemplateVariables } from './notificationTemplates';
+
+// First retry after a minute, then 4, 16, 64...
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_BACKOFF_FACTOR = 4;
+// A row left in 'sending' this long belongs to a process that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const DISPATCH_BATCH_SIZE = 100;
+
+// Channels that interrupt the user and so wait for quiet hours to end
+const QUIET_HOURS_CHANNELS: NotificationChannel[] = ['sms', 'web_push'];
+
+const PREFERENCE_FIELDS: Record<NotificationChannel, 'smsEnabled' | 'emailEnabled' | 'inAppEnabled' | 'webPushEnabled'> = {
+  sms: 'smsEnabled',
+  email: 'emailEnabled',
+  in_app: 'inAppEnabled',
+  web_push: 'webPushEnabled'
+};
+
+export type NotificationPreferenceSettings = Omit<NotificationPreferences, 'id' | 'userId' | 'updatedAt'>;
+
+const DEFAULT_PREFERENCES: NotificationPreferenceSettings = {
+  smsEnabled: true,
+  emailEnabled: true,
+  inAppEnabled: true,
+  webPushEnabled: true,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  locale: 'en-AU'
+};
+
+export interface NotifyOptions {
+  channels?: NotificationChannel[]; // Defaults to the template's channels
+  priority?: NotificationPriority;
+  maxAttempts?: number; // 1 disables retries, e.g. when the caller escalates elsewhere on failure
+  url?: string; // Overrides the template's deep link
+}
+
+export interface OutboxFilters {
+  status?: NotificationStatus;
+  channel?: NotificationChannel;
+  userId?: number;
+  limit?: number;
+}
+
+// A type rather than an interface so the job scheduler can record it as run output
+export type OutboxRunResult = {
+  reclaimed: number;
+  dispatched: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+};
+
+class NotificationService {
+  /**
+   * Render and queue a notification for a user on each channel, sending whatever is
+   * due straight away. Templates get the recipient's name as {{name}} unless the
+   * caller supplies one. Returns the outbox rows as they stand after the first attempt.
+   */
+  async notify(userId: number, templateKey: string, variables: TemplateVariables, options: NotifyOptions = {}): Promise<Notification[]> {
+    const template = getNotificationTemplate(templateKey);
+    const priority = options.priority ?? 'normal';
+
+    const [user] = await db.select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      phoneNumber: users.phoneNumber,
+      timezone: users.timezone,
+      isActive: users.isActive
+    })
+    .from(users)
+    .where(eq(users.id, userId));
+
+    if (!user) {
+      console.error(`[Notifications] User ${userId} not found for ${templateKey}`);
+      return [];
+    }
+
+    const preferences = await this.getPreferences(userId);
+    const now = new Date();
+    const quietUntil = priority === 'emergency' ? null : this.quietHoursEnd(preferences, user.timezone, now);
+
+    const rows = await Promise.all((options.channels ?? template.channels).map(async channel => {
+      const rendered = renderNotificationTemplate(templateKey, channel, { name: user.name, ...variables }, preferences.locale);
+      const address = channel === 'sms' ? user.phoneNumber : channel === 'email' ? user.email : null;
+
+      let skipReason: string | null = null;
+      if (!user.isActive) {
+        skipReason = 'Account inactive';
+      } else if (priority !== 'emergency' && !preferences[PREFERENCE_FIELDS[channel]]) {
+        skipReason = 'Channel turned off in preferences';
+      } else if ((channel === 'sms' || channel === 'email') && !address) {
+        skipReason = channel === 'sms' ? 'No phone number' : 'No email address';
+      } else {
+        skipReason = await getChannelUnavailableReason(channel, userId);
+      }
+
+      return {
+        userId,
+        channel,
+        category: template.category,
+        templateKey,
+        locale: rendered.locale,
+        priority,
+        address,
+        subject: rendered.subject,
+        body: rendered.body,
+        html: rendered.html,
+        url: options.url ?? template.url ?? null,
+        status: skipReason ? 'skipped' : 'pending',
+        statusReason: skipReason ?? (quietUntil && QUIET_HOURS_CHANNELS.includes(channel) ? 'Held for quiet hours' : null),
+        maxAttempts: options.maxAttempts ?? 5,
+        nextAttemptAt: quietUntil && QUIET_HOURS_CHANNELS.includes(channel) ? quietUntil : now
+      };
+    }));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const queued = await db.insert(notifications).values(rows).returning();
+
+    return Promise.all(queued.map(async notification =>
+      notification.status === 'pending' && notification.nextAttemptAt <= now
+        ? (await this.dispatch(notification.id)) ?? notification
+        : notification
+    ));
+  }
+
+  /**
+   * Deliver every due outbox row, after returning rows stranded in 'sending' to the queue
+   */
+  async processDue(): Promise<OutboxRunResult> {
+    const reclaimed = await db.update(notifications)
+      .set({
+        status: sql`CASE WHEN ${notifications.attempts} >= ${notifications.maxAttempts} THEN 'failed' ELSE 'pending' END`,
+        statusReason: 'Send interrupted'
+      })
+      .where(and(
+        eq(notifications.status, 'sending'),
+        lt(notifications.lastAttemptAt, new Date(Date.now() - STALE_SENDING_MS))
+      ))
+      .returning({ id: notifications.id });
+
+    const due = await db.select({ id: notifications.id })
+      .from(notifications)
+      .where(and(
+        eq(notifications.status, 'pending'),
+        lte(notifications.nextAttemptAt, new Date())
+      ))
+      .orderBy(notifications.nextAttemptAt)
+      .limit(DISPATCH_BATCH_SIZE);
+
+    const result: OutboxRunResult = { reclaimed: reclaimed.length, dispatched: 0, sent: 0, retrying: 0, failed: 0 };
+    for (const { id } of due) {
+      const notification = await this.dispatch(id);
+      if (!notification) {
+        continue; // Claimed by another worker
+      }
+      result.dispatched++;
+      if (notification.status === 'sent' || notification.status === 'delivered') {
+        result.sent++;
+      } else if (notification.status === 'failed') {
+        result.failed++;
+      } else {
+        result.retrying++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Apply a provider delivery receipt. Returns the updated row, or null if no sent
+   * notification carries that provider message id.
+   */
+  async recordReceipt(providerMessageId: string, outcome: 'delivered' | 'failed', reason?: string): Promise<Notification | null> {
+    const [notification] = await db.update(notifications)
+      .set(outcome === 'delivered'
+        ? { status: 'delivered', deliveredAt: new Date() }
+        : { status: 'failed', statusReason: reason ?? 'Provider reported the message undelivered' })
+      .where(and(
+        eq(notifications.providerMessageId, providerMessageId),
+        sql`${notifications.status} IN ('sent', 'delivered')`
+      ))
+      .returning();
+
+    return notification ?? null;
+  }
+
+  /**
+   * A user's in-app notifications, newest first
+   */
+  async listInApp(userId: number, unreadOnly: boolean = false, limit: number = 50): Promise<Notification[]> {
+    const conditions: SQL[] = [
+      eq(notifications.userId, userId),
+      eq(notifications.channel, 'in_app'),
+      eq(notifications.status, 'delivered')
+    ];
+    if (unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+
+    return db.select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Mark one of the user's in-app notifications read. Returns null if it is not theirs.
+   */
+  async markRead(userId: number, notificationId: number): Promise<Notification | null> {
+    const [notification] = await db.update(notifications)
+      .set({ readAt: sql`COALESCE(${notifications.readAt}, NOW())` })
+      .where(and(
+        eq(notifications.id, notificationId),
+        eq(notifications.userId, userId),
+        eq(notifications.channel, 'in_app')
+      ))
+      .returning();
+
+    return notification ?? null;
+  }
+
+  /**
+   * Outbox rows for the admin view, newest first
+   */
+  async listOutbox(filters: OutboxFilters = {}): Promise<Notification[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(notifications.status, filters.status));
+    if (filters.channel) conditions.push(eq(notifications.channel, filters.channel));
+    if (filters.userId) conditions.push(eq(notifications.userId, filters.userId));
+
+    return db.select()
+      .from(notifications)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notifications.createdAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  /**
+   * A user's channel preferences; defaults (everything on, no quiet hours) until they save some
+   */
+  async getPreferences(userId: number): Promise<NotificationPreferenceSettings> {
+    const [stored] = await db.select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+
+    if (!stored) {
+      return { ...DEFAULT_PREFERENCES };
+    }
+    const { id, userId: _userId, updatedAt, ...settings } = stored;
+    return settings;
+  }
+
+  async updatePreferences(userId: number, updates: UpdateNotificationPreferences): Promise<NotificationPreferenceSettings> {
+    await db.insert(notificationPreferences)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...updates, updatedAt: new Date() }
+      });
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Claim a pending row and hand it to its channel adapter. Returns the row after the
+   * attempt, or null if it was not pending and due (another worker has it, or it is done).
+   */
+  private async dispatch(notificationId: number): Promise<Notification | null> {
+    const [claimed] = await db.update(notifications)
+      .set({
+        status: 'sending',
+        attempts: sql`${notifications.attempts} + 1`,
+        lastAttemptAt: new Date()
+      })
+      .where(and(
+        eq(notifications.id, notificationId),
+        eq(notifications.status, 'pending'),
+        lte(notifications.nextAttemptAt, new Date())
+      ))
+      .returning();
+
+    if (!claimed) {
+      return null;
+    }
+
+    const adapter = getChannelAdapter(claimed.channel as NotificationChannel);
+    try {
+      if (!adapter) {
+        throw new Error(`No ${claimed.channel} adapter configured`);
+      }
+      const delivery = await adapter.send(claimed);
+      const sentAt = new Date();
+      const [sent] = await db.update(notifications)
+        .set({
+          status: delivery.delivered ? 'delivered' : 'sent',
+          statusReason: null,
+          providerMessageId: delivery.providerMessageId ?? null,
+          sentAt,
+          deliveredAt: delivery.delivered ? sentAt : null
+        })
+        .where(eq(notifications.id, claimed.id))
+        .returning();
+      return sent;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const exhausted = claimed.attempts >= claimed.maxAttempts;
+      console.error(`[Notifications] ${claimed.channel} #${claimed.id} attempt ${claimed.attempts}/${claimed.maxAttempts} failed: ${reason}`);
+
+      const [failed] = await db.update(notifications)
+        .set({
+          status: exhausted ? 'failed' : 'pending',
+          statusReason: reason,
+          nextAttemptAt: exhausted
+            ? claimed.nextAttemptAt
+            : new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(RETRY_BACKOFF_FACTOR, claimed.attempts - 1))
+        })
+        .where(eq(notifications.id, claimed.id))
+        .returning();
+      return failed;
+    }
+  }
+
+  /**
+   * When the user is inside their quiet hours, the moment those hours end; otherwise null
+   */
+  private quietHoursEnd(preferences: NotificationPreferenceSettings, timezone: string, now: Date): Date | null {
+    if (!preferences.quietHoursStart || !preferences.quietHoursEnd) {
+      return null;
+    }
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const start = toMinutes(preferences.quietHoursStart);
+    const end = toMinutes(preferences.quietHoursEnd);
+    const current = toMinutes(getLocalTimeString(now, timezone));
+
+    // A window like 22:00-07:00 wraps past midnight
+    const inQuietHours = start < end
+      ? current >= start && current < end
+      : start > end && (current >= start || current < end);
+    if (!inQuietHours) {
+      return null;
+    }
+
+    const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+    const minuteStart = Math.floor(now.getTime() / 60000) * 60000;
+    return new Date(minuteStart + minutesLeft * 60 * 1000);
+  }
+}
+
+export const notificationService = new NotificationService();
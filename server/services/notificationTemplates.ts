@@ -0,0 +1,366 @@
+/**
+ * Notification Templates
+ *
+ * Every message the notification service sends is rendered from a template here.
+ * Templates are keyed by name and then by locale, and use {{variable}} placeholders.
+ * A locale falls back to its language and then to en-AU, so new translations can be
+ * added one template at a time.
+ *
+ * `text` is the email body, `short` the SMS / in-app / push body (defaults to `text`).
+ * Email without its own `html` gets the branded layout around the escaped text.
+ */
+
+import type { NotificationCategory, NotificationChannel } from '@shared/schema';
+import { EmailTemplateService } from './emailTemplateService';
+import { emailService } from './emailService';
+
+export const DEFAULT_NOTIFICATION_LOCALE = 'en-AU';
+
+export interface LocalizedTemplate {
+  subject: string;
+  text: string;
+  short?: string;
+  html?: string;
+}
+
+export interface NotificationTemplate {
+  category: NotificationCategory;
+  channels: NotificationChannel[]; // Used when the caller does not choose channels
+  url?: string; // Default deep link for in-app and push
+  locales: Record<string, LocalizedTemplate>;
+}
+
+export interface RenderedNotification {
+  locale: string;
+  subject: string | null;
+  body: string;
+  html: string | null;
+}
+
+export type TemplateVariables = Record<string, string | number>;
+
+const doctorWelcome = EmailTemplateService.getDoctorWelcomeTemplate('{{name}}');
+const patientWelcome = EmailTemplateService.getPatientWelcomeTemplate('{{name}}');
+
+const emergencyAlertHtml = `
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #dc2626; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">🚨 EMERGENCY ALERT</h1>
+            <p style="margin: 5px 0 0 0; font-size: 16px;">Keep Going Care Emergency Detection System</p>
+          </div>
+
+          <div style="background-color: #fef2f2; border: 2px solid #dc2626; padding: 20px; border-radius: 0 0 8px 8px;">
+            <h2 style="color: #dc2626; margin-top: 0;">Immediate Action Required</h2>
+
+            <div style="background-color: white; padding: 15px; border-radius: 5px; margin: 15px 0;">
+              <h3 style="margin-top: 0; color: #333;">Patient Details:</h3>
+              <p><strong>Name:</strong> {{patientName}}</p>
+              <p><strong>UIN:</strong> {{patientUin}}</p>
+              <p><strong>Email:</strong> {{patientEmail}}</p>
+            </div>
+
+            <div style="background-color: white; padding: 15px; border-radius: 5px; margin: 15px 0;">
+              <h3 style="margin-top: 0; color: #333;">Emergency Details:</h3>
+              <p><strong>Type:</strong> {{emergencyType}}</p>
+              <p><strong>Severity:</strong> {{severity}}</p>
+              <p><strong>Confidence:</strong> {{confidence}}%</p>
+              <p><strong>Time:</strong> {{time}}</p>
+            </div>
+
+            <div style="background-color: #fef9c3; border-left: 4px solid #f59e0b; padding: 15px; margin: 15px 0;">
+              <h4 style="margin-top: 0; color: #92400e;">Patient's Message:</h4>
+              <p style="font-style: italic; color: #92400e;">"{{patientMessage}}"</p>
+            </div>
+
+            <div style="background-color: #dcfce7; border-left: 4px solid #16a34a; padding: 15px; margin: 15px 0;">
+              <h4 style="margin-top: 0; color: #166534;">Immediate Actions:</h4>
+              <ul style="color: #166534; margin: 0;">
+                <li>Acknowledge this alert in your dashboard so it is not escalated further</li>
+                <li>Contact patient immediately at their registered phone number</li>
+                <li>If unable to reach patient, consider calling emergency services (000)</li>
+                <li>Document your response in the patient's care plan</li>
+                <li>Follow up to ensure patient safety</li>
+              </ul>
+            </div>
+          </div>
+
+          <div style="text-align: center; font-size: 12px; color: #666; margin-top: 20px; padding-top: 20px; border-top: 1px solid #ddd;">
+            <p>This is an automated alert from Keep Going Care Emergency Detection System</p>
+            <p>Anthrocyt AI Pty Ltd | Support: support@keepgoingcare.com.au</p>
+            <p><strong>Time sent:</strong> {{time}}</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+export const notificationTemplates: Record<string, NotificationTemplate> = {
+  daily_score_reminder: {
+    category: 'reminder',
+    channels: ['in_app', 'web_push'],
+    url: '/daily-self-scores',
+    locales: {
+      'en-AU': {
+        subject: 'Time for your daily self-scores',
+        text: EmailTemplateService.getDailySMSTemplate('{{name}}').content,
+        short: "Don't forget to submit your daily health scores! It only takes 2 minutes."
+      }
+    }
+  },
+
+  doctor_missing_scores_alert: {
+    category: 'alert',
+    channels: ['email'],
+    url: '/doctor-dashboard',
+    locales: {
+      'en-AU': {
+        subject: 'KGC Alert - Patient {{patientName}} missing self-scores',
+        text: `Dear Dr. {{name}},
+
+{{message}}
+
+You can review the patient in your Doctor Dashboard: {{appUrl}}/doctor-dashboard
+
+The Keep Going Care Team`,
+        short: '{{message}}'
+      }
+    }
+  },
+
+  badge_earned: {
+    category: 'badge',
+    channels: ['in_app', 'web_push', 'email'],
+    url: '/progress-milestones',
+    locales: {
+      'en-AU': {
+        subject: 'You earned a {{badgeLevel}} {{badgeType}} badge!',
+        text: `Hi {{name}},
+
+Congratulations - you have earned the **{{badgeLevel}} {{badgeType}}** badge for keeping up with your care plan.
+
+See all your badges in the KGC app: {{appUrl}}/progress-milestones
+
+Keep going!
+The Keep Going Care Team`,
+        short: 'Congratulations! You earned the {{badgeLevel}} {{badgeType}} badge. Keep going!'
+      }
+    }
+  },
+
+  all_platinum: {
+    category: 'badge',
+    channels: ['in_app', 'web_push', 'email'],
+    url: '/progress-milestones',
+    locales: {
+      'en-AU': {
+        subject: 'All three platinum badges - your $100 voucher is on its way',
+        text: `Hi {{name}},
+
+You now hold platinum badges for diet, exercise and medication. That is an outstanding effort.
+
+As a thank you, a $100 healthy lifestyle voucher will be sent to this email address. Your reference is {{uin}}.
+
+Keep going!
+The Keep Going Care Team`,
+        short: 'Platinum in all three badges! Watch your email for your $100 voucher.'
+      }
+    }
+  },
+
+  new_care_plan_directive: {
+    category: 'care_update',
+    channels: ['in_app', 'web_push'],
+    url: '/dashboard',
+    locales: {
+      'en-AU': {
+        subject: 'Your care plan has been updated',
+        text: 'Your doctor has added a new {{category}} care plan directive. Open Keep Going Care to see it.'
+      }
+    }
+  },
+
+  ppr_shared: {
+    category: 'care_update',
+    channels: ['in_app', 'web_push'],
+    url: '/health-snapshots',
+    locales: {
+      'en-AU': {
+        subject: 'Your progress report is ready',
+        text: 'Your doctor has shared your progress report for {{period}}. Take a look at how you are going.'
+      }
+    }
+  },
+
+  // Message content stays in the app; notifications only say there is something to read
+  secure_message_received: {
+    category: 'message',
+    channels: ['in_app', 'web_push', 'email'],
+    url: '/messages',
+    locales: {
+      'en-AU': {
+        subject: 'New secure message from {{senderName}}',
+        text: `Hi {{name}},
+
+You have a new secure message from {{senderName}} in Keep Going Care. For your privacy the message is not included in this email.
+
+Read and reply in the app: {{appUrl}}/messages
+
+The Keep Going Care Team`,
+        short: 'You have a new secure message from {{senderName}}.'
+      }
+    }
+  },
+
+  doctor_welcome: {
+    category: 'welcome',
+    channels: ['email', 'sms'],
+    locales: {
+      'en-AU': {
+        subject: doctorWelcome.subject,
+        text: doctorWelcome.content.replace('[DOCTOR_DASHBOARD_LINK]', '{{link}}'),
+        short: 'Welcome to Keep Going Care, Dr. {{name}}! Your secure access link has been sent to your email. For support, contact admin@anthrocytai.com or 0433509441.'
+      }
+    }
+  },
+
+  patient_welcome: {
+    category: 'welcome',
+    channels: ['email'],
+    locales: {
+      'en-AU': {
+        subject: patientWelcome.subject,
+        text: patientWelcome.content.replace('[PATIENT_APP_LINK]', '{{link}}'),
+        short: 'Welcome to Keep Going Care, {{name}}! Log in at {{link}} to get started.'
+      }
+    }
+  },
+
+  emergency_alert_doctor: {
+    category: 'emergency',
+    channels: ['email'],
+    url: '/doctor-dashboard',
+    locales: {
+      'en-AU': {
+        subject: 'URGENT: Emergency Detected - Patient {{patientName}} ({{patientUin}})',
+        text: `EMERGENCY ALERT from Keep Going Care
+
+Patient: {{patientName}} ({{patientUin}})
+Emergency Type: {{emergencyType}}
+Severity: {{severity}}
+Confidence: {{confidence}}%
+Time: {{time}}
+
+Patient's message: "{{patientMessage}}"
+
+IMMEDIATE ACTION REQUIRED:
+- Acknowledge this alert in your dashboard so it is not escalated further
+- Contact patient immediately at their registered phone number
+- If you cannot reach them, consider calling emergency services (000)
+- This is an automated alert from KGC's emergency detection system
+
+Contact KGC Support: support@keepgoingcare.com.au
+Patient Dashboard: {{appUrl}}/doctor-dashboard`,
+        short: 'URGENT: {{severity}} {{emergencyType}} - patient {{patientName}} needs immediate attention.',
+        html: emergencyAlertHtml
+      }
+    }
+  },
+
+  emergency_escalation_sms: {
+    category: 'emergency',
+    channels: ['sms'],
+    locales: {
+      'en-AU': {
+        subject: 'URGENT KGC ALERT',
+        text: 'URGENT KGC ALERT - {{alertType}}: Patient {{patientName}} requires immediate attention. {{message}}. Contact admin@anthrocytai.com or 0433509441.'
+      }
+    }
+  }
+};
+
+/**
+ * Public URL of the app, used for links in messages
+ */
+export function getAppUrl(): string {
+  return process.env.BASE_URL || 'https://keepgoingcare.com.au';
+}
+
+export function getNotificationTemplate(templateKey: string): NotificationTemplate {
+  const template = notificationTemplates[templateKey];
+  if (!template) {
+    throw new Error(`Unknown notification template "${templateKey}"`);
+  }
+  return template;
+}
+
+/**
+ * Best available locale for a template: exact match, then the same language, then en-AU
+ */
+export function resolveTemplateLocale(template: NotificationTemplate, locale: string): string {
+  if (template.locales[locale]) {
+    return locale;
+  }
+  const language = locale.split('-')[0];
+  const sameLanguage = Object.keys(template.locales).find(candidate => candidate.split('-')[0] === language);
+  return sameLanguage ?? DEFAULT_NOTIFICATION_LOCALE;
+}
+
+/**
+ * Render a template for one channel. Throws if a placeholder has no value, so a
+ * half-filled message is never sent.
+ */
+export function renderNotificationTemplate(
+  templateKey: string,
+  channel: NotificationChannel,
+  variables: TemplateVariables,
+  locale: string = DEFAULT_NOTIFICATION_LOCALE
+): RenderedNotification {
+  const template = getNotificationTemplate(templateKey);
+  const resolvedLocale = resolveTemplateLocale(template, locale);
+  const localized = template.locales[resolvedLocale];
+  const values: TemplateVariables = {
+    appUrl: getAppUrl(),
+    ...variables
+  };
+
+  const subject = interpolate(templateKey, localized.subject, values, false);
+
+  if (channel === 'email') {
+    const text = interpolate(templateKey, localized.text, values, false);
+    const html = localized.html
+      ? interpolate(templateKey, localized.html, values, true)
+      : emailService.convertToHtml(escapeHtml(text));
+    return { locale: resolvedLocale, subject, body: text, html };
+  }
+
+  // SMS has no title; in-app and push show the subject as theirs
+  return {
+    locale: resolvedLocale,
+    subject: channel === 'sms' ? null : subject,
+    body: interpolate(templateKey, localized.short ?? localized.text, values, false),
+    html: null
+  };
+}
+
+function interpolate(templateKey: string, source: string, values: TemplateVariables, html: boolean): string {
+  return source.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      throw new Error(`Notification template "${templateKey}" is missing variable "${name}"`);
+    }
+    return html ? escapeHtml(String(value)) : String(value);
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
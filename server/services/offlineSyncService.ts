@@ -0,0 +1,263 @@
+/**
+ * Offline Sync Service
+ *
+ * Applies batches of operations queued in the client outbox while a patient was
+ * offline. Every operation carries a client UUID; once settled, its result is stored
+ * in sync_operations and returned verbatim if the same operation arrives again.
+ *
+ * Conflict rules per entity:
+ * - patient_score: one score per patient per day. If the day already has different
+ *   scores the server copy stands and the operation comes back as a conflict; the
+ *   patient chooses in a merge prompt and resubmits with a resolution.
+ * - progress_milestone: last writer wins, matched by server ID or localUuid and compared
+ *   on updatedAt.
+ * - journal_entry: always created; drafts never conflict.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { analyzeCPDAlignment } from '../mcp/tools/journaling';
+import {
+  users,
+  patientScores,
+  progressMilestones,
+  journalEntries,
+  syncOperations,
+  syncOperationSchema,
+  SyncOperationRequest,
+  SyncOperationResult,
+  SyncEntityType
+} from '@shared/schema';
+import { eq, and } from 'drizzle-orm';
+import { getLocalDateString } from './cronExpression';
+
+// How far back an offline score may be dated; older entries are rejected rather than
+// silently filling gaps the doctor has already reviewed
+export const SCORE_BACKFILL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class OfflineSyncService {
+  /**
+   * Apply operations in the order the client queued them. Database errors propagate so
+   * the client keeps its outbox and retries; operations already settled are replayed.
+   */
+  async applyBatch(userId: number, operations: { clientUuid: string; entityType: SyncEntityType }[]): Promise<SyncOperationResult[]> {
+    const timeZone = await this.getTimeZone(userId);
+    const results: SyncOperationResult[] = [];
+
+    for (const operation of operations) {
+      results.push(await this.applyOperation(userId, operation, timeZone));
+    }
+
+    return results;
+  }
+
+  private async applyOperation(
+    userId: number,
+    raw: { clientUuid: string; entityType: SyncEntityType },
+    timeZone: string
+  ): Promise<SyncOperationResult> {
+    const settled = await this.getSettledResult(userId, raw.clientUuid);
+    if (settled) {
+      return settled;
+    }
+
+    const parsed = syncOperationSchema.safeParse(raw);
+    if (!parsed.success) {
+      const error = parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+      return await this.settle(userId, {
+        clientUuid: raw.clientUuid,
+        entityType: raw.entityType,
+        status: 'rejected',
+        error
+      });
+    }
+
+    const operation = parsed.data;
+
+    // Tag journal entries before opening the transaction; sentiment analysis can be slow
+    const cpdAlignment = operation.entityType === 'journal_entry'
+      ? await analyzeCPDAlignment(operation.data.entryText, await storage.getActiveCarePlanDirectives(userId))
+      : undefined;
+
+    return await db.transaction(async (tx) => {
+      // Claim the UUID first; a concurrent sync of the same operation waits here and then
+      // finds nothing to claim
+      const [claimed] = await tx.insert(syncOperations)
+        .values({
+          userId,
+          clientUuid: operation.clientUuid,
+          entityType: operation.entityType,
+          status: 'applied',
+          clientCreatedAt: operation.clientCreatedAt
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!claimed) {
+        const [existing] = await tx.select()
+          .from(syncOperations)
+          .where(and(eq(syncOperations.userId, userId), eq(syncOperations.clientUuid, operation.clientUuid)));
+        return existing.result as SyncOperationResult;
+      }
+
+      let result: SyncOperationResult;
+      switch (operation.entityType) {
+        case 'patient_score':
+          result = await this.applyPatientScore(tx, userId, operation, timeZone);
+          break;
+        case 'progress_milestone':
+          result = await this.applyProgressMilestone(tx, userId, operation);
+          break;
+        case 'journal_entry':
+          result = await this.applyJournalEntry(tx, userId, operation, cpdAlignment);
+          break;
+      }
+
+      // Conflicts wait for the patient's choice, so the UUID stays open for the resolved retry
+      if (result.status === 'conflict') {
+        await tx.delete(syncOperations).where(eq(syncOperations.id, claimed.id));
+      } else {
+        await tx.update(syncOperations)
+          .set({ status: result.status, result })
+          .where(eq(syncOperations.id, claimed.id));
+      }
+
+      return result;
+    });
+  }
+
+  private async applyPatientScore(
+    tx: Transaction,
+    patientId: number,
+    operation: Extract<SyncOperationRequest, { entityType: 'patient_score' }>,
+    timeZone: string
+  ): Promise<SyncOperationResult> {
+    const { clientUuid, entityType, data, resolution } = operation;
+    const today = getLocalDateString(new Date(), timeZone);
+    const earliest = getLocalDateString(new Date(Date.now() - SCORE_BACKFILL_DAYS * DAY_MS), timeZone);
+
+    if (data.scoreDate > today) {
+      return { clientUuid, entityType, status: 'rejected', error: 'Score date is in the future' };
+    }
+    if (data.scoreDate < earliest) {
+      return { clientUuid, entityType, status: 'rejected', error: `Scores can only be synced for the last ${SCORE_BACKFILL_DAYS} days` };
+    }
+
+    const scores = {
+      medicationSelfScore: data.medicationSelfScore,
+      mealPlanSelfScore: data.mealPlanSelfScore,
+      exerciseSelfScore: data.exerciseSelfScore
+    };
+
+    const [existing] = await tx.select()
+      .from(patientScores)
+      .where(and(eq(patientScores.patientId, patientId), eq(patientScores.scoreDate, data.scoreDate)));
+
+    if (!existing) {
+      const [created] = await tx.insert(patientScores)
+        .values({ patientId, scoreDate: data.scoreDate, notes: data.notes, ...scores })
+        .returning();
+      return { clientUuid, entityType, status: 'applied', entity: created };
+    }
+
+    const sameScores = existing.medicationSelfScore === scores.medicationSelfScore &&
+      existing.mealPlanSelfScore === scores.mealPlanSelfScore &&
+      existing.exerciseSelfScore === scores.exerciseSelfScore;
+
+    if (sameScores) {
+      return { clientUuid, entityType, status: 'duplicate', entity: existing };
+    }
+
+    if (!resolution) {
+      return { clientUuid, entityType, status: 'conflict', serverEntity: existing };
+    }
+
+    if (resolution === 'keep_server') {
+      return { clientUuid, entityType, status: 'duplicate', entity: existing };
+    }
+
+    const [updated] = await tx.update(patientScores)
+      .set({ ...scores, notes: data.notes ?? existing.notes })
+      .where(eq(patientScores.id, existing.id))
+      .returning();
+    return { clientUuid, entityType, status: 'applied', entity: updated };
+  }
+
+  private async applyProgressMilestone(
+    tx: Transaction,
+    userId: number,
+    operation: Extract<SyncOperationRequest, { entityType: 'progress_milestone' }>
+  ): Promise<SyncOperationResult> {
+    const { clientUuid, entityType, data } = operation;
+    const { id, updatedAt, ...milestone } = data;
+
+    const [existing] = await tx.select()
+      .from(progressMilestones)
+      .where(and(
+        eq(progressMilestones.userId, userId),
+        id ? eq(progressMilestones.id, id) : eq(progressMilestones.localUuid, data.localUuid)
+      ));
+
+    if (!existing) {
+      const [created] = await tx.insert(progressMilestones)
+        .values({ ...milestone, userId, lastSyncedAt: new Date() })
+        .returning();
+      return { clientUuid, entityType, status: 'applied', entity: created };
+    }
+
+    // Server copy is as new or newer: keep it and hand it back to the client
+    if (existing.updatedAt >= updatedAt) {
+      return { clientUuid, entityType, status: 'duplicate', entity: existing };
+    }
+
+    const [updated] = await tx.update(progressMilestones)
+      .set({ ...milestone, updatedAt, lastSyncedAt: new Date() })
+      .where(eq(progressMilestones.id, existing.id))
+      .returning();
+    return { clientUuid, entityType, status: 'applied', entity: updated };
+  }
+
+  private async applyJournalEntry(
+    tx: Transaction,
+    userId: number,
+    operation: Extract<SyncOperationRequest, { entityType: 'journal_entry' }>,
+    cpdAlignment: unknown
+  ): Promise<SyncOperationResult> {
+    const { clientUuid, entityType, data } = operation;
+
+    const [created] = await tx.insert(journalEntries)
+      .values({ ...data, userId, cpdAlignment })
+      .returning();
+    return { clientUuid, entityType, status: 'applied', entity: created };
+  }
+
+  private async getSettledResult(userId: number, clientUuid: string): Promise<SyncOperationResult | null> {
+    const [settled] = await db.select()
+      .from(syncOperations)
+      .where(and(eq(syncOperations.userId, userId), eq(syncOperations.clientUuid, clientUuid)));
+    return settled ? settled.result as SyncOperationResult : null;
+  }
+
+  /**
+   * Record an operation settled outside a transaction (currently only invalid payloads)
+   */
+  private async settle(userId: number, result: SyncOperationResult): Promise<SyncOperationResult> {
+    await db.insert(syncOperations)
+      .values({ userId, clientUuid: result.clientUuid, entityType: result.entityType, status: result.status, result })
+      .onConflictDoNothing();
+    return result;
+  }
+
+  private async getTimeZone(userId: number): Promise<string> {
+    const [user] = await db.select({ timezone: users.timezone })
+      .from(users)
+      .where(eq(users.id, userId));
+    return user?.timezone ?? 'Australia/Sydney';
+  }
+}
+
+export const offlineSyncService = new OfflineSyncService();
@@ -1,7 +1,7 @@
 import { db } from '../db';
 import { patientScores, doctorPatients, doctorAlerts, users } from '@shared/schema';
 import { eq, and, lt, gte, desc, sql } from 'drizzle-orm';
-import { emailService } from './emailService';
+import { notificationService } from './notificationService';
 
 /**
  * Patient Alert Service
@@ -12,8 +12,9 @@ class PatientAlertService {
   /**
    * Check for patients who haven't submitted scores in the last 24 hours
    * and create alerts for their doctors
+   * @returns Number of alerts created
    */
-  async checkMissingScores() {
+  async checkMissingScores(): Promise<{ alertsCreated: number }> {
     try {
       // Get the date 24 hours ago
       const twentyFourHoursAgo = new Date();
@@ -21,6 +22,7 @@ class PatientAlertService {
       
       // Format date for SQL query
       const formattedDate = twentyFourHoursAgo.toISOString().split('T')[0];
+      let alertsCreated = 0;
       
       // Find active doctor-patient relationships
       const doctorPatientRelations = await db.select({
@@ -33,7 +35,7 @@ class PatientAlertService {
       // No relationships found
       if (doctorPatientRelations.length === 0) {
         console.log('No active doctor-patient relationships found');
-        return;
+        return { alertsCreated };
       }
       
       // For each relationship, check if the patient has submitted scores in the last 24 hours
@@ -96,35 +98,23 @@ class PatientAlertService {
               })
               .returning();
               
+            alertsCreated++;
             console.log(`Created alert for doctor ${doctorId} about patient ${patientId}: ${message}`);
             
-            // Get doctor details for email notification
-            const [doctor] = await db.select({
-              name: users.name,
-              email: users.email,
-              phoneNumber: users.phoneNumber
-            })
-            .from(users)
-            .where(eq(users.id, doctorId));
-            
-            if (doctor && doctor.email) {
-              // For a real implementation, this would send an email through SendGrid or another service
-              // For now, we'll just log the intent to send an email
-              console.log(`NOTIFICATION - Patient Alert: Would send email to ${doctor.name} (${doctor.email}) about ${patient.name}`);
-              console.log(`Email subject: KGC Alert - Patient ${patient.name} missing self-scores`);
-              console.log(`Email content: ${message}`);
-              
-              // In a real-world scenario, we would use SendGrid or similar here
-              // await emailService.sendDoctorAlert(doctor.email, patient.name, patient.uin);
-            }
+            await notificationService.notify(doctorId, 'doctor_missing_scores_alert', {
+              patientName: patient.name,
+              message
+            });
           }
         }
       }
       
       console.log('Completed checking for missing patient scores');
+      return { alertsCreated };
       
     } catch (error) {
       console.error('Error checking for missing patient scores:', error);
+      throw error;
     }
   }
   
@@ -0,0 +1,560 @@
+/**
+ * Patient Data Rights Service (Australian Privacy Principles 12 and 13, and 11.2)
+ *
+ * - Export: a ZIP of the patient's data as JSON, one file per data set, plus a
+ *   printable HTML report of the same content.
+ * - Deletion: the patient requests erasure or de-identification; their doctor or an
+ *   admin approves or rejects it. Approval runs the whole change in one transaction
+ *   and issues a completion certificate listing what was erased, de-identified and
+ *   retained. The audit log is always retained, as are emergency escalation records.
+ *
+ * The user row itself is never deleted (retained records reference it); its
+ * identifying fields are cleared and the account is deactivated.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import {
+  users,
+  userRoles,
+  patientScores,
+  healthMetrics,
+  carePlanDirectives,
+  carePlanDirectiveVersions,
+  chatMemory,
+  journalEntries,
+  userFavorites,
+  userFavoriteVideos,
+  savedRecipes,
+  patientBadges,
+  patientProgressReports,
+  progressMilestones,
+  contentInteractions,
+  userContentPreferences,
+  userFoodPreferences,
+  featureUsage,
+  keepGoingEvents,
+  recommendations,
+  motivationalImages,
+  syncOperations,
+  notifications,
+  notificationPreferences,
+  pushSubscriptions,
+  secureMessageThreads,
+  secureMessages,
+  secureMessageAttachments,
+  patientEvents,
+  patientReminders,
+  patientMedications,
+  medicationDoseLogs,
+  patientAlerts,
+  doctorAlerts,
+  dashboardRelationships,
+  doctorPatients,
+  patientInvitations,
+  dataDeletionRequests,
+  mcpTraces,
+  DataDeletionRequest,
+  DataDeletionCertificate,
+  InsertDataDeletionRequest
+} from '@shared/schema';
+import { and, asc, desc, eq, getTableColumns, inArray } from 'drizzle-orm';
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core';
+import { createZip } from './zipArchive';
+import { getDoctorPatientIds } from './doctorPatientAccess';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+interface ExportSection {
+  file: string;
+  title: string;
+  load: (patientId: number) => Promise<Record<string, unknown>[]>;
+}
+
+// Data sets in the export, in report order
+const exportSections: ExportSection[] = [
+  {
+    file: 'patient_scores.json',
+    title: 'Daily self-scores',
+    load: (patientId) => db.select().from(patientScores)
+      .where(eq(patientScores.patientId, patientId))
+      .orderBy(asc(patientScores.scoreDate))
+  },
+  {
+    file: 'health_metrics.json',
+    title: 'Health metrics',
+    load: (patientId) => db.select().from(healthMetrics)
+      .where(eq(healthMetrics.userId, patientId))
+      .orderBy(asc(healthMetrics.date))
+  },
+  {
+    file: 'care_plan_directives.json',
+    title: 'Care plan directives',
+    load: (patientId) => db.select().from(carePlanDirectives)
+      .where(eq(carePlanDirectives.userId, patientId))
+      .orderBy(asc(carePlanDirectives.createdAt))
+  },
+  {
+    file: 'care_plan_directive_versions.json',
+    title: 'Care plan directive history',
+    load: (patientId) => db.select().from(carePlanDirectiveVersions)
+      .where(eq(carePlanDirectiveVersions.userId, patientId))
+      .orderBy(asc(carePlanDirectiveVersions.effectiveFrom))
+  },
+  {
+    file: 'chat_memory.json',
+    title: 'Chat memory',
+    load: (patientId) => db.select().from(chatMemory)
+      .where(eq(chatMemory.userId, patientId))
+      .orderBy(asc(chatMemory.createdAt))
+  },
+  {
+    file: 'journal_entries.json',
+    title: 'Journal entries',
+    load: (patientId) => db.select().from(journalEntries)
+      .where(eq(journalEntries.userId, patientId))
+      .orderBy(asc(journalEntries.entryDate))
+  },
+  {
+    file: 'favourites.json',
+    title: 'Favourite content',
+    load: (patientId) => db.select().from(userFavorites)
+      .where(eq(userFavorites.userId, patientId))
+      .orderBy(asc(userFavorites.createdAt))
+  },
+  {
+    file: 'favourite_videos.json',
+    title: 'Favourite videos',
+    load: (patientId) => db.select().from(userFavoriteVideos)
+      .where(eq(userFavoriteVideos.userId, patientId))
+  },
+  {
+    file: 'saved_recipes.json',
+    title: 'Saved recipes',
+    load: (patientId) => db.select().from(savedRecipes)
+      .where(eq(savedRecipes.userId, patientId))
+  },
+  {
+    file: 'badges.json',
+    title: 'Badges',
+    load: (patientId) => db.select().from(patientBadges)
+      .where(eq(patientBadges.patientId, patientId))
+      .orderBy(asc(patientBadges.earnedDate))
+  },
+  {
+    file: 'secure_messages.json',
+    title: 'Secure messages with your doctors',
+    load: (patientId) => db.select({
+      id: secureMessages.id,
+      threadId: secureMessages.threadId,
+      subject: secureMessageThreads.subject,
+      senderId: secureMessages.senderId,
+      body: secureMessages.body,
+      readAt: secureMessages.readAt,
+      createdAt: secureMessages.createdAt
+    })
+      .from(secureMessages)
+      .innerJoin(secureMessageThreads, eq(secureMessages.threadId, secureMessageThreads.id))
+      .where(eq(secureMessages.patientId, patientId))
+      .orderBy(asc(secureMessages.createdAt))
+  },
+  {
+    file: 'progress_reports.json',
+    title: 'Progress reports shared with you',
+    load: (patientId) => db.select().from(patientProgressReports)
+      .where(and(eq(patientProgressReports.patientId, patientId), eq(patientProgressReports.shared, true)))
+      .orderBy(asc(patientProgressReports.reportDate))
+  },
+  {
+    file: 'push_devices.json',
+    title: 'Devices receiving push notifications',
+    // Endpoint and keys are delivery credentials, not the patient's data
+    load: (patientId) => db.select({
+      id: pushSubscriptions.id,
+      deviceLabel: pushSubscriptions.deviceLabel,
+      createdAt: pushSubscriptions.createdAt,
+      lastSuccessAt: pushSubscriptions.lastSuccessAt
+    })
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, patientId))
+      .orderBy(asc(pushSubscriptions.createdAt))
+  }
+];
+
+interface PatientDataTable {
+  name: string; // Table name as shown on the certificate
+  table: PgTable;
+  patientColumn: PgColumn;
+  // De-identification keeps the rows, keeps them with free-text fields cleared, or erases them
+  deidentify: 'keep' | 'erase' | { clear: string[] };
+}
+
+// Every table holding the patient's data, children before the rows they reference
+const patientDataTables: PatientDataTable[] = [
+  { name: 'medication_dose_logs', table: medicationDoseLogs, patientColumn: medicationDoseLogs.patientId, deidentify: { clear: ['notes'] } },
+  { name: 'patient_medications', table: patientMedications, patientColumn: patientMedications.patientId, deidentify: 'keep' },
+  { name: 'recommendations', table: recommendations, patientColumn: recommendations.userId, deidentify: 'erase' },
+  { name: 'care_plan_directive_versions', table: carePlanDirectiveVersions, patientColumn: carePlanDirectiveVersions.userId, deidentify: 'keep' },
+  { name: 'care_plan_directives', table: carePlanDirectives, patientColumn: carePlanDirectives.userId, deidentify: 'keep' },
+  { name: 'patient_scores', table: patientScores, patientColumn: patientScores.patientId, deidentify: { clear: ['notes'] } },
+  { name: 'health_metrics', table: healthMetrics, patientColumn: healthMetrics.userId, deidentify: 'keep' },
+  { name: 'patient_badges', table: patientBadges, patientColumn: patientBadges.patientId, deidentify: 'keep' },
+  { name: 'patient_progress_reports', table: patientProgressReports, patientColumn: patientProgressReports.patientId, deidentify: { clear: ['doctorNotes', 'chatSentimentAnalysis'] } },
+  { name: 'keep_going_events', table: keepGoingEvents, patientColumn: keepGoingEvents.userId, deidentify: 'keep' },
+  { name: 'feature_usage', table: featureUsage, patientColumn: featureUsage.userId, deidentify: 'keep' },
+  { name: 'chat_memory', table: chatMemory, patientColumn: chatMemory.userId, deidentify: 'erase' },
+  { name: 'journal_entries', table: journalEntries, patientColumn: journalEntries.userId, deidentify: 'erase' },
+  { name: 'progress_milestones', table: progressMilestones, patientColumn: progressMilestones.userId, deidentify: 'erase' },
+  { name: 'user_favorites', table: userFavorites, patientColumn: userFavorites.userId, deidentify: 'erase' },
+  { name: 'user_favorite_videos', table: userFavoriteVideos, patientColumn: userFavoriteVideos.userId, deidentify: 'erase' },
+  { name: 'saved_recipes', table: savedRecipes, patientColumn: savedRecipes.userId, deidentify: 'erase' },
+  { name: 'content_interactions', table: contentInteractions, patientColumn: contentInteractions.userId, deidentify: 'erase' },
+  { name: 'user_content_preferences', table: userContentPreferences, patientColumn: userContentPreferences.userId, deidentify: 'erase' },
+  { name: 'user_food_preferences', table: userFoodPreferences, patientColumn: userFoodPreferences.userId, deidentify: 'erase' },
+  { name: 'motivational_images', table: motivationalImages, patientColumn: motivationalImages.userId, deidentify: 'erase' },
+  { name: 'patient_reminders', table: patientReminders, patientColumn: patientReminders.patientId, deidentify: 'erase' },
+  { name: 'patient_events', table: patientEvents, patientColumn: patientEvents.patientId, deidentify: 'erase' },
+  { name: 'patient_alerts', table: patientAlerts, patientColumn: patientAlerts.patientId, deidentify: 'erase' },
+  { name: 'doctor_alerts', table: doctorAlerts, patientColumn: doctorAlerts.patientId, deidentify: 'erase' },
+  { name: 'sync_operations', table: syncOperations, patientColumn: syncOperations.userId, deidentify: 'erase' },
+  { name: 'notifications', table: notifications, patientColumn: notifications.userId, deidentify: 'erase' },
+  { name: 'notification_preferences', table: notificationPreferences, patientColumn: notificationPreferences.userId, deidentify: 'erase' },
+  { name: 'push_subscriptions', table: pushSubscriptions, patientColumn: pushSubscriptions.userId, deidentify: 'erase' },
+  { name: 'mcp_traces', table: mcpTraces, patientColumn: mcpTraces.patientId, deidentify: 'erase' },
+  { name: 'secure_message_attachments', table: secureMessageAttachments, patientColumn: secureMessageAttachments.patientId, deidentify: 'erase' },
+  { name: 'secure_messages', table: secureMessages, patientColumn: secureMessages.patientId, deidentify: 'erase' },
+  { name: 'secure_message_threads', table: secureMessageThreads, patientColumn: secureMessageThreads.patientId, deidentify: 'erase' }
+];
+
+// Kept whatever the mode; they reference the patient by account ID only once identity is cleared
+const retainedRecords: DataDeletionCertificate['retained'] = [
+  { table: 'audit_log', reason: 'Security and access audit trail kept for regulatory record retention' },
+  { table: 'emergency_alerts', reason: 'Clinical safety record of emergency escalations' },
+  { table: 'emergency_events', reason: 'Clinical safety record of emergency escalations' },
+  { table: 'data_deletion_requests', reason: 'Record of this request and its certificate' }
+];
+
+export type DeletionRequestListItem = DataDeletionRequest & { patientName: string; patientUin: string | null };
+
+export type DeletionReviewResult =
+  | { status: 'not_found' }
+  | { status: 'not_pending'; request: DataDeletionRequest }
+  | { status: 'reviewed'; request: DataDeletionRequest };
+
+function escapeHtml(value: unknown): string {
+  const text = value === null || value === undefined
+    ? ''
+    : value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderTable(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) {
+    return '<p class="empty">No records.</p>';
+  }
+  const columns = Object.keys(rows[0]);
+  return `<table><thead><tr>${columns.map(column => `<th>${escapeHtml(column)}</th>`).join('')}</tr></thead><tbody>${
+    rows.map(row => `<tr>${columns.map(column => `<td>${escapeHtml(row[column])}</td>`).join('')}</tr>`).join('')
+  }</tbody></table>`;
+}
+
+const reportStyles = `body{font-family:Arial,sans-serif;margin:32px;color:#222}h1{color:#2E8BC0}h2{margin-top:32px;border-bottom:1px solid #ddd}
+table{border-collapse:collapse;width:100%;font-size:12px}th,td{border:1px solid #ddd;padding:4px;text-align:left;vertical-align:top}
+th{background:#f3f7fa}.empty{color:#777}@media print{h2{page-break-before:auto}}`;
+
+class PatientDataRightsService {
+  /**
+   * Build the patient's export archive
+   */
+  async buildExport(patientId: number): Promise<{ filename: string; archive: Buffer } | null> {
+    const [patient] = await db
+      .select({
+        id: users.id,
+        uin: users.uin,
+        name: users.name,
+        email: users.email,
+        phoneNumber: users.phoneNumber,
+        joinedDate: users.joinedDate,
+        timezone: users.timezone,
+        careProgram: users.careProgram
+      })
+      .from(users)
+      .where(eq(users.id, patientId));
+
+    if (!patient) {
+      return null;
+    }
+
+    const generatedAt = new Date();
+    const sections = await Promise.all(exportSections.map(async section => ({
+      ...section,
+      rows: await section.load(patientId)
+    })));
+
+    const manifest = {
+      generatedAt: generatedAt.toISOString(),
+      patientUin: patient.uin,
+      files: [
+        { file: 'profile.json', title: 'Your details', records: 1 },
+        ...sections.map(section => ({ file: section.file, title: section.title, records: section.rows.length }))
+      ]
+    };
+
+    const report = `<!DOCTYPE html><html lang="en-AU"><head><meta charset="utf-8"><title>Keep Going Care - your data</title>
+<style>${reportStyles}</style></head><body>
+<h1>Keep Going Care - your data</h1>
+<p>Prepared for ${escapeHtml(patient.name)} (${escapeHtml(patient.uin)}) on ${escapeHtml(generatedAt.toLocaleString('en-AU', { timeZone: patient.timezone }))}.
+The same data is in the JSON files in this archive. Print this page to save it as a PDF.</p>
+<h2>Your details</h2>${renderTable([patient])}
+${sections.map(section => `<h2>${escapeHtml(section.title)} (${section.rows.length})</h2>${renderTable(section.rows)}`).join('\n')}
+</body></html>`;
+
+    const archive = createZip([
+      { name: 'manifest.json', data: JSON.stringify(manifest, null, 2), modified: generatedAt },
+      { name: 'report.html', data: report, modified: generatedAt },
+      { name: 'data/profile.json', data: JSON.stringify(patient, null, 2), modified: generatedAt },
+      ...sections.map(section => ({
+        name: `data/${section.file}`,
+        data: JSON.stringify(section.rows, null, 2),
+        modified: generatedAt
+      }))
+    ]);
+
+    const date = generatedAt.toISOString().split('T')[0];
+    return { filename: `kgc-my-data-${date}.zip`, archive };
+  }
+
+  /**
+   * Record a deletion request; a patient can have only one pending at a time
+   */
+  async requestDeletion(patientId: number, data: InsertDataDeletionRequest): Promise<DataDeletionRequest | null> {
+    const [pending] = await db
+      .select({ id: dataDeletionRequests.id })
+      .from(dataDeletionRequests)
+      .where(and(eq(dataDeletionRequests.patientId, patientId), eq(dataDeletionRequests.status, 'pending')));
+
+    if (pending) {
+      return null;
+    }
+
+    const [request] = await db
+      .insert(dataDeletionRequests)
+      .values({ patientId, mode: data.mode, reason: data.reason ?? null })
+      .returning();
+    return request;
+  }
+
+  async getRequest(requestId: number): Promise<DataDeletionRequest | null> {
+    const [request] = await db.select().from(dataDeletionRequests).where(eq(dataDeletionRequests.id, requestId));
+    return request ?? null;
+  }
+
+  /**
+   * Requests visible to a user: their own (patients), their patients' (doctors) or all (admins),
+   * newest first with the patient's name and UIN
+   */
+  async listRequests(userId: number, userRole: string, status?: string): Promise<DeletionRequestListItem[]> {
+    let patientIds: number[] | undefined;
+    if (userRole === 'patient') {
+      patientIds = [userId];
+    } else if (userRole === 'doctor') {
+      patientIds = await getDoctorPatientIds(userId);
+    } else if (userRole !== 'admin') {
+      return [];
+    }
+
+    if (patientIds && patientIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select({ ...getTableColumns(dataDeletionRequests), patientName: users.name, patientUin: users.uin })
+      .from(dataDeletionRequests)
+      .innerJoin(users, eq(dataDeletionRequests.patientId, users.id))
+      .where(and(
+        patientIds ? inArray(dataDeletionRequests.patientId, patientIds) : undefined,
+        status ? eq(dataDeletionRequests.status, status) : undefined
+      ))
+      .orderBy(desc(dataDeletionRequests.requestedAt));
+  }
+
+  /**
+   * Withdraw a pending request (patient only)
+   */
+  async cancelRequest(requestId: number, patientId: number): Promise<DataDeletionRequest | null> {
+    const [request] = await db
+      .update(dataDeletionRequests)
+      .set({ status: 'cancelled' })
+      .where(and(
+        eq(dataDeletionRequests.id, requestId),
+        eq(dataDeletionRequests.patientId, patientId),
+        eq(dataDeletionRequests.status, 'pending')
+      ))
+      .returning();
+    return request ?? null;
+  }
+
+  /**
+   * Approve or reject a pending request. Approval erases or de-identifies the
+   * patient's data and completes the request with its certificate in one transaction.
+   */
+  async reviewRequest(
+    requestId: number,
+    reviewerId: number,
+    decision: 'approve' | 'reject',
+    notes?: string
+  ): Promise<DeletionReviewResult> {
+    const request = await this.getRequest(requestId);
+    if (!request) {
+      return { status: 'not_found' };
+    }
+    if (request.status !== 'pending') {
+      return { status: 'not_pending', request };
+    }
+
+    const reviewedAt = new Date();
+    if (decision === 'reject') {
+      const [rejected] = await db
+        .update(dataDeletionRequests)
+        .set({ status: 'rejected', reviewedById: reviewerId, reviewedAt, reviewNotes: notes ?? null })
+        .where(and(eq(dataDeletionRequests.id, requestId), eq(dataDeletionRequests.status, 'pending')))
+        .returning();
+      return rejected ? { status: 'reviewed', request: rejected } : { status: 'not_pending', request };
+    }
+
+    const [reviewer] = await db
+      .select({ id: users.id, name: users.name, role: userRoles.name })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(eq(users.id, reviewerId));
+
+    const completed = await db.transaction(async (tx) => {
+      // Claim the request first so two reviewers cannot both run it
+      const [claimed] = await tx
+        .update(dataDeletionRequests)
+        .set({ status: 'completed', reviewedById: reviewerId, reviewedAt, reviewNotes: notes ?? null })
+        .where(and(eq(dataDeletionRequests.id, requestId), eq(dataDeletionRequests.status, 'pending')))
+        .returning();
+
+      if (!claimed) {
+        return null;
+      }
+
+      const [patient] = await tx.select({ uin: users.uin }).from(users).where(eq(users.id, request.patientId));
+      const outcome = await this.removePatientData(tx, request.patientId, request.mode === 'deidentify');
+
+      const completedAt = new Date();
+      const certificateNumber = `KGC-DEL-${completedAt.toISOString().slice(0, 10).replace(/-/g, '')}-${randomUUID().slice(0, 8).toUpperCase()}`;
+      const certificate: DataDeletionCertificate = {
+        certificateNumber,
+        patientUin: patient?.uin ?? null,
+        mode: request.mode === 'deidentify' ? 'deidentify' : 'delete',
+        requestedAt: request.requestedAt.toISOString(),
+        approvedBy: { id: reviewerId, name: reviewer?.name ?? 'Unknown', role: reviewer?.role ?? 'unknown' },
+        completedAt: completedAt.toISOString(),
+        erased: outcome.erased,
+        deidentified: outcome.deidentified,
+        retained: retainedRecords
+      };
+
+      const [done] = await tx
+        .update(dataDeletionRequests)
+        .set({ completedAt, certificateNumber, certificate })
+        .where(eq(dataDeletionRequests.id, requestId))
+        .returning();
+      return done;
+    });
+
+    return completed ? { status: 'reviewed', request: completed } : { status: 'not_pending', request };
+  }
+
+  private async removePatientData(tx: Transaction, patientId: number, deidentifyOnly: boolean): Promise<{
+    erased: DataDeletionCertificate['erased'];
+    deidentified: DataDeletionCertificate['deidentified'];
+  }> {
+    const erased: DataDeletionCertificate['erased'] = [];
+    const deidentified: DataDeletionCertificate['deidentified'] = [];
+
+    for (const entry of patientDataTables) {
+      const action = deidentifyOnly ? entry.deidentify : 'erase';
+      if (action === 'keep') {
+        continue;
+      }
+
+      if (action === 'erase') {
+        const rows = await tx.delete(entry.table).where(eq(entry.patientColumn, patientId)).returning();
+        if (rows.length > 0) erased.push({ table: entry.name, rows: rows.length });
+      } else {
+        const cleared = Object.fromEntries(action.clear.map(field => [field, null]));
+        const rows = await tx.update(entry.table).set(cleared).where(eq(entry.patientColumn, patientId)).returning();
+        if (rows.length > 0) deidentified.push({ table: entry.name, rows: rows.length, fields: action.clear });
+      }
+    }
+
+    // End care relationships; nobody should see the account as a current patient
+    await tx.update(dashboardRelationships)
+      .set({ active: false })
+      .where(eq(dashboardRelationships.childUserId, patientId));
+    await tx.update(doctorPatients)
+      .set({ active: false })
+      .where(eq(doctorPatients.patientId, patientId));
+
+    // Clear identity on the account and deactivate it; the UIN stays as the link for retained records
+    const [account] = await tx.select({ uin: users.uin }).from(users).where(eq(users.id, patientId));
+    if (account?.uin) {
+      const invitations = await tx.update(patientInvitations)
+        .set({ email: `deleted-patient-${patientId}@deleted.invalid` })
+        .where(eq(patientInvitations.uin, account.uin))
+        .returning({ id: patientInvitations.id });
+      if (invitations.length > 0) {
+        deidentified.push({ table: 'patient_invitations', rows: invitations.length, fields: ['email'] });
+      }
+    }
+
+    await tx.update(users)
+      .set({
+        name: 'Deleted patient',
+        email: `deleted-patient-${patientId}@deleted.invalid`,
+        phoneNumber: '',
+        username: null,
+        password: null,
+        assignedDoctorId: null,
+        isActive: false
+      })
+      .where(eq(users.id, patientId));
+    deidentified.push({ table: 'users', rows: 1, fields: ['name', 'email', 'phoneNumber', 'username', 'password'] });
+
+    return { erased, deidentified };
+  }
+
+  /**
+   * Printable completion certificate for a completed request
+   */
+  renderCertificate(request: DataDeletionRequest): string | null {
+    const certificate = request.certificate as DataDeletionCertificate | null;
+    if (request.status !== 'completed' || !certificate) {
+      return null;
+    }
+
+    const list = (items: string[]) => items.length > 0
+      ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+      : '<p class="empty">None.</p>';
+
+    return `<!DOCTYPE html><html lang="en-AU"><head><meta charset="utf-8"><title>Certificate ${escapeHtml(certificate.certificateNumber)}</title>
+<style>${reportStyles}</style></head><body>
+<h1>Certificate of ${certificate.mode === 'delete' ? 'data deletion' : 'data de-identification'}</h1>
+<p><strong>Certificate number:</strong> ${escapeHtml(certificate.certificateNumber)}<br>
+<strong>Account:</strong> ${escapeHtml(certificate.patientUin)}<br>
+<strong>Requested:</strong> ${escapeHtml(certificate.requestedAt)}<br>
+<strong>Approved by:</strong> ${escapeHtml(certificate.approvedBy.name)} (${escapeHtml(certificate.approvedBy.role)})<br>
+<strong>Completed:</strong> ${escapeHtml(certificate.completedAt)}</p>
+<p>Keep Going Care has ${certificate.mode === 'delete' ? 'erased' : 'de-identified'} the personal information below in response to the
+account holder's request under the Australian Privacy Principles.</p>
+<h2>Erased</h2>${list(certificate.erased.map(item => `${item.table}: ${item.rows} records`))}
+<h2>De-identified</h2>${list(certificate.deidentified.map(item => `${item.table}: ${item.rows} records (${item.fields.join(', ')} cleared)`))}
+<h2>Retained</h2>${list(certificate.retained.map(item => `${item.table}: ${item.reason}`))}
+</body></html>`;
+  }
+}
+
+export const patientDataRightsService = new PatientDataRightsService();
@@ -0,0 +1,354 @@
+/**
+ * Population Analytics Service
+ *
+ * Cohort view of a doctor's whole patient panel: adherence distribution, who is
+ * trending down, engagement, alert backlog and PPR review status. The panel's data
+ * is loaded in a fixed number of grouped queries, whatever its size, and each
+ * patient is then analysed in memory with the same calculations the PPR uses.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  patientScores,
+  featureUsage,
+  chatMemory,
+  patientAlerts,
+  emergencyAlerts,
+  patientProgressReports,
+  cpdCategories,
+  CpdCategory
+} from '@shared/schema';
+import { and, eq, gte, lte, inArray, isNull, max, sql } from 'drizzle-orm';
+import {
+  summarizeScorePatterns,
+  computeEngagementScore,
+  computeAdherenceRate
+} from '../ai/enhancedPprAnalysisService';
+import { cpdVersionService } from './cpdVersionService';
+import { getDoctorPatientIds } from './doctorPatientAccess';
+import { getLocalDateString } from './cronExpression';
+
+// A patient is due a new PPR this long after their last one (or after joining, if none)
+export const PPR_REVIEW_INTERVAL_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const cohortSortFields = ['name', 'adherence', 'engagement', 'alerts', 'lastPpr'] as const;
+export type CohortSortField = typeof cohortSortFields[number];
+
+export const adherenceBands = ['0-19', '20-39', '40-59', '60-79', '80-100'] as const;
+export type AdherenceBand = typeof adherenceBands[number];
+
+export type CohortTrend = 'declining' | 'improving' | 'stable' | 'insufficient_data';
+
+export interface CohortQuery {
+  days: number;
+  category?: CpdCategory; // Only patients with a directive in this category, scored on it alone
+  trendingDownOnly?: boolean;
+  pprOverdueOnly?: boolean;
+  sort: CohortSortField;
+  order: 'asc' | 'desc';
+}
+
+export interface CohortPatient {
+  patientId: number;
+  name: string;
+  uin: string | null;
+  activeCpdCategories: CpdCategory[];
+  daysScored: number;
+  lastScoreDate: string | null;
+  adherencePercent: number | null; // Null when the patient has no scores in the period
+  adherenceBand: AdherenceBand | null;
+  trend: CohortTrend;
+  decliningCategories: CpdCategory[];
+  engagementScore: number;
+  unreadAlerts: number;
+  unresolvedAlerts: number;
+  openEmergencyAlerts: number;
+  lastPprDate: string | null;
+  pprOverdue: boolean;
+}
+
+export interface CohortSummary {
+  patientCount: number;
+  adherenceDistribution: Record<AdherenceBand | 'no_data', number>;
+  medianAdherencePercent: number | null;
+  trendingDown: number;
+  averageEngagement: number | null;
+  unresolvedAlerts: number;
+  openEmergencyAlerts: number;
+  pprOverdue: number;
+}
+
+export interface CohortAnalytics {
+  doctorId: number;
+  generatedAt: string;
+  query: CohortQuery;
+  summary: CohortSummary;
+  patients: CohortPatient[];
+}
+
+const trendKeys: Record<CpdCategory, 'medicationTrend' | 'dietTrend' | 'exerciseTrend'> = {
+  medication: 'medicationTrend',
+  diet: 'dietTrend',
+  exercise: 'exerciseTrend'
+};
+
+export class PopulationAnalyticsService {
+  async getCohortAnalytics(doctorId: number, query: CohortQuery): Promise<CohortAnalytics> {
+    const patientIds = await getDoctorPatientIds(doctorId);
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - (query.days - 1) * DAY_MS);
+    const startDay = startDate.toISOString().split('T')[0];
+
+    if (patientIds.length === 0) {
+      return { doctorId, generatedAt: endDate.toISOString(), query, summary: summarizeCohort([]), patients: [] };
+    }
+
+    const [patients, scores, usage, chatCounts, alertCounts, emergencyCounts, lastReports, schedules] = await Promise.all([
+        db.select({ id: users.id, name: users.name, uin: users.uin, joinedDate: users.joinedDate, timezone: users.timezone })
+          .from(users)
+          .where(inArray(users.id, patientIds)),
+        db.select()
+          .from(patientScores)
+          .where(and(inArray(patientScores.patientId, patientIds), gte(patientScores.scoreDate, startDay)))
+          .orderBy(patientScores.patientId, patientScores.scoreDate),
+        db.select()
+          .from(featureUsage)
+          .where(and(
+            inArray(featureUsage.userId, patientIds),
+            gte(featureUsage.lastUsed, startDate),
+            lte(featureUsage.lastUsed, endDate)
+          )),
+        db.select({ userId: chatMemory.userId, count: sql<number>`count(*)::int` })
+          .from(chatMemory)
+          .where(and(
+            inArray(chatMemory.userId, patientIds),
+            gte(chatMemory.createdAt, startDate),
+            lte(chatMemory.createdAt, endDate)
+          ))
+          .groupBy(chatMemory.userId),
+        db.select({
+            patientId: patientAlerts.patientId,
+            unread: sql<number>`(count(*) filter (where ${patientAlerts.isRead} = false))::int`,
+            unresolved: sql<number>`count(*)::int`
+          })
+          .from(patientAlerts)
+          .where(and(
+            eq(patientAlerts.doctorId, doctorId),
+            inArray(patientAlerts.patientId, patientIds),
+            eq(patientAlerts.isResolved, false)
+          ))
+          .groupBy(patientAlerts.patientId),
+        db.select({ patientId: emergencyAlerts.patientId, count: sql<number>`count(*)::int` })
+          .from(emergencyAlerts)
+          .where(and(
+            inArray(emergencyAlerts.patientId, patientIds),
+            eq(emergencyAlerts.resolved, false),
+            isNull(emergencyAlerts.acknowledgedAt)
+          ))
+          .groupBy(emergencyAlerts.patientId),
+        db.select({ patientId: patientProgressReports.patientId, lastReportDate: max(patientProgressReports.reportDate) })
+          .from(patientProgressReports)
+          .where(inArray(patientProgressReports.patientId, patientIds))
+          .groupBy(patientProgressReports.patientId),
+        cpdVersionService.getSchedules(patientIds)
+      ]);
+
+    const scoresByPatient = groupBy(scores, score => score.patientId);
+    const usageByPatient = groupBy(usage, row => row.userId);
+    const chatByPatient = new Map(chatCounts.map(row => [row.userId, row.count]));
+    const alertsByPatient = new Map(alertCounts.map(row => [row.patientId, row]));
+    const emergenciesByPatient = new Map(emergencyCounts.map(row => [row.patientId, row.count]));
+    const reportsByPatient = new Map(lastReports.map(row => [row.patientId, row.lastReportDate]));
+
+    let rows: CohortPatient[] = patients.map(patient => {
+      const schedule = schedules.get(patient.id)!;
+      const patientScoreRows = scoresByPatient.get(patient.id) ?? [];
+      const today = getLocalDateString(endDate, patient.timezone);
+      const activeCpdCategories = cpdCategories.filter(category => schedule.inForce(today, category));
+      const consideredCategories = query.category ? [query.category] : cpdCategories;
+
+      const adherencePercent = patientScoreRows.length > 0
+        ? Math.round(computeAdherenceRate(patientScoreRows, schedule, consideredCategories) * 100)
+        : null;
+
+      const patterns = summarizeScorePatterns(patientScoreRows);
+      const categoryTrends = consideredCategories.map(category => ({
+        category,
+        trend: patterns.trends?.[trendKeys[category]] ?? 'insufficient_data'
+      }));
+      const decliningCategories = categoryTrends.filter(t => t.trend === 'declining').map(t => t.category);
+
+      const lastReport = reportsByPatient.get(patient.id) ?? null;
+      const reviewDueFrom = lastReport ?? patient.joinedDate;
+      const alerts = alertsByPatient.get(patient.id);
+
+      return {
+        patientId: patient.id,
+        name: patient.name,
+        uin: patient.uin,
+        activeCpdCategories,
+        daysScored: patientScoreRows.length,
+        lastScoreDate: patientScoreRows.length > 0 ? String(patientScoreRows[patientScoreRows.length - 1].scoreDate) : null,
+        adherencePercent,
+        adherenceBand: adherencePercent === null ? null : toAdherenceBand(adherencePercent),
+        trend: summarizeTrend(categoryTrends.map(t => t.trend), decliningCategories.length),
+        decliningCategories,
+        engagementScore: computeEngagementScore(
+          patientScoreRows,
+          usageByPatient.get(patient.id) ?? [],
+          chatByPatient.get(patient.id) ?? 0,
+          startDate,
+          endDate
+        ),
+        unreadAlerts: alerts?.unread ?? 0,
+        unresolvedAlerts: alerts?.unresolved ?? 0,
+        openEmergencyAlerts: emergenciesByPatient.get(patient.id) ?? 0,
+        lastPprDate: lastReport ? lastReport.toISOString() : null,
+        pprOverdue: endDate.getTime() - reviewDueFrom.getTime() > PPR_REVIEW_INTERVAL_DAYS * DAY_MS
+      };
+    });
+
+    if (query.category) {
+      rows = rows.filter(row => row.activeCpdCategories.includes(query.category!));
+    }
+    if (query.trendingDownOnly) {
+      rows = rows.filter(row => row.trend === 'declining');
+    }
+    if (query.pprOverdueOnly) {
+      rows = rows.filter(row => row.pprOverdue);
+    }
+
+    return {
+      doctorId,
+      generatedAt: endDate.toISOString(),
+      query,
+      summary: summarizeCohort(rows),
+      patients: sortCohort(rows, query.sort, query.order)
+    };
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const item of items) {
+    const group = groups.get(key(item));
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key(item), [item]);
+    }
+  }
+  return groups;
+}
+
+function toAdherenceBand(percent: number): AdherenceBand {
+  return adherenceBands[Math.min(4, Math.floor(percent / 20))];
+}
+
+function summarizeTrend(trends: string[], decliningCount: number): CohortTrend {
+  if (trends.every(trend => trend === 'insufficient_data')) {
+    return 'insufficient_data';
+  }
+  if (decliningCount > 0) {
+    return 'declining';
+  }
+  return trends.includes('improving') ? 'improving' : 'stable';
+}
+
+export function summarizeCohort(rows: CohortPatient[]): CohortSummary {
+  const adherenceDistribution = Object.fromEntries(
+    [...adherenceBands, 'no_data'].map(band => [band, 0])
+  ) as CohortSummary['adherenceDistribution'];
+  for (const row of rows) {
+    adherenceDistribution[row.adherenceBand ?? 'no_data']++;
+  }
+
+  const adherence = rows
+    .map(row => row.adherencePercent)
+    .filter((percent): percent is number => percent !== null)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(adherence.length / 2);
+
+  return {
+    patientCount: rows.length,
+    adherenceDistribution,
+    medianAdherencePercent: adherence.length === 0
+      ? null
+      : adherence.length % 2 === 1 ? adherence[middle] : Math.round((adherence[middle - 1] + adherence[middle]) / 2),
+    trendingDown: rows.filter(row => row.trend === 'declining').length,
+    averageEngagement: rows.length === 0
+      ? null
+      : Math.round(rows.reduce((sum, row) => sum + row.engagementScore, 0) / rows.length),
+    unresolvedAlerts: rows.reduce((sum, row) => sum + row.unresolvedAlerts, 0),
+    openEmergencyAlerts: rows.reduce((sum, row) => sum + row.openEmergencyAlerts, 0),
+    pprOverdue: rows.filter(row => row.pprOverdue).length
+  };
+}
+
+/**
+ * Sort a cohort; patients with no value for the field (no scores, never reviewed) sort last either way
+ */
+export function sortCohort(rows: CohortPatient[], sort: CohortSortField, order: 'asc' | 'desc'): CohortPatient[] {
+  const value = (row: CohortPatient): number | string | null => {
+    switch (sort) {
+      case 'name': return row.name.toLowerCase();
+      case 'adherence': return row.adherencePercent;
+      case 'engagement': return row.engagementScore;
+      case 'alerts': return row.openEmergencyAlerts * 1000 + row.unresolvedAlerts;
+      case 'lastPpr': return row.lastPprDate;
+    }
+  };
+  const direction = order === 'asc' ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === right) return a.name.localeCompare(b.name);
+    if (left === null) return 1;
+    if (right === null) return -1;
+    return (left < right ? -1 : 1) * direction;
+  });
+}
+
+const csvColumns: { header: string; value: (row: CohortPatient) => string | number | null }[] = [
+  { header: 'patient_id', value: row => row.patientId },
+  { header: 'uin', value: row => row.uin },
+  { header: 'name', value: row => row.name },
+  { header: 'active_cpd_categories', value: row => row.activeCpdCategories.join(';') },
+  { header: 'days_scored', value: row => row.daysScored },
+  { header: 'last_score_date', value: row => row.lastScoreDate },
+  { header: 'adherence_percent', value: row => row.adherencePercent },
+  { header: 'trend', value: row => row.trend },
+  { header: 'declining_categories', value: row => row.decliningCategories.join(';') },
+  { header: 'engagement_score', value: row => row.engagementScore },
+  { header: 'unread_alerts', value: row => row.unreadAlerts },
+  { header: 'unresolved_alerts', value: row => row.unresolvedAlerts },
+  { header: 'open_emergency_alerts', value: row => row.openEmergencyAlerts },
+  { header: 'last_ppr_date', value: row => row.lastPprDate },
+  { header: 'ppr_overdue', value: row => row.pprOverdue ? 'yes' : 'no' }
+];
+
+export function toCohortCsv(rows: CohortPatient[]): string {
+  const lines = [csvColumns.map(column => column.header).join(',')];
+  for (const row of rows) {
+    lines.push(csvColumns.map(column => toCsvField(column.value(row))).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toCsvField(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Stop spreadsheet apps treating patient-entered text as a formula
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const populationAnalyticsService = new PopulationAnalyticsService();
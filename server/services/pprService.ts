@@ -20,27 +20,48 @@ import {
   calculateEngagementScore,
   generateHealthTrends
 } from "../ai/enhancedPprAnalysisService";
+import { sentimentService, SentimentResult, Emotion } from "./sentimentService";
+import { medicationService } from "./medicationService";
+import KeepGoingTracker from "./keepGoingTracker";
 
 /**
  * Patient Progress Report (PPR) Service
  * Implements MCP-style recommendation generation and validation
  */
 
+// Plain-language emotion names for the doctor-facing sentiment summary
+const EMOTION_DESCRIPTIONS: Record<Emotion, string> = {
+  joy: "satisfaction or happiness",
+  sadness: "low mood or fatigue",
+  anger: "frustration",
+  anxiety: "worry or stress"
+};
+
 // Metrics thresholds for determining recommendation urgency
 const CRITICAL_SCORE_THRESHOLD = 4.0;
 const LOW_SCORE_THRESHOLD = 6.0;
 
-// Generate a new PPR for a patient
-export async function generatePatientProgressReport(patientId: number, doctorId: number) {
+// Generate a new PPR for a patient, optionally over an explicit reporting period
+export async function generatePatientProgressReport(
+  patientId: number,
+  doctorId: number,
+  period?: { startDate: Date; endDate: Date }
+) {
   try {
     let endDate = new Date();
     let startDate: Date;
     
-    // CRITICAL FIX: Use fixed period for current reporting (July 22-24, 2025)
-    // This ensures we capture the actual patient data from the correct period
-    startDate = new Date('2025-07-22T00:00:00.000Z');
-    endDate = new Date('2025-07-24T23:59:59.999Z');
-    console.log(`USING FIXED PERIOD for accurate PPR data: ${startDate.toISOString()} to ${endDate.toISOString()}`);
+    if (period) {
+      // Scheduled reports cover their own rolling period
+      startDate = period.startDate;
+      endDate = period.endDate;
+    } else {
+      // CRITICAL FIX: Use fixed period for current reporting (July 22-24, 2025)
+      // This ensures we capture the actual patient data from the correct period
+      startDate = new Date('2025-07-22T00:00:00.000Z');
+      endDate = new Date('2025-07-24T23:59:59.999Z');
+      console.log(`USING FIXED PERIOD for accurate PPR data: ${startDate.toISOString()} to ${endDate.toISOString()}`);
+    }
 
     // Get the patient
     const [patient] = await db
@@ -74,19 +95,11 @@ export async function generatePatientProgressReport(patientId: number, doctorId:
       count: patientScoresData.rows[0]?.totalSubmissions || 0
     }];
 
-    // Get Keep Going button usage
-    const keepGoingUsage = await db
-      .select({
-        usageCount: sum(featureUsage.usageCount)
-      })
-      .from(featureUsage)
-      .where(
-        and(
-          eq(featureUsage.userId, patientId),
-          eq(featureUsage.featureName, "keep_going_button"),
-          between(featureUsage.lastUsed, startDate, endDate)
-        )
-      );
+    // Get Keep Going sessions and their time-of-day / low-score patterns
+    const [keepGoingUsageCount, keepGoingAnalytics] = await Promise.all([
+      KeepGoingTracker.countSessions(patientId, startDate, endDate),
+      KeepGoingTracker.getUsagePatterns(patientId, startDate, endDate)
+    ]);
 
     // Get feature usage summary
     const featureUsageSummary = await db
@@ -295,6 +308,20 @@ export async function generatePatientProgressReport(patientId: number, doctorId:
       // Continue without enhanced analytics if there's an error
     }
 
+    // Logged-dose adherence beside the medication self-score, when the patient has a medication list
+    let medicationAdherence = null;
+    try {
+      const avgMedicationScore = metricData[0]?.avgMedicationScore;
+      medicationAdherence = await medicationService.getPprMedicationSummary(
+        patientId,
+        startDate,
+        endDate,
+        avgMedicationScore != null ? Number(avgMedicationScore) : null
+      );
+    } catch (error) {
+      console.error("Error calculating PPR medication adherence:", error);
+    }
+
     // Create the PPR
     const [report] = await db
       .insert(patientProgressReports)
@@ -306,7 +333,7 @@ export async function generatePatientProgressReport(patientId: number, doctorId:
         avgMedicationScore: metricData[0]?.avgMedicationScore || null,
         avgDietScore: metricData[0]?.avgDietScore || null,
         avgExerciseScore: metricData[0]?.avgExerciseScore || null,
-        keepGoingButtonUsageCount: keepGoingUsage[0]?.usageCount || 0,
+        keepGoingButtonUsageCount: keepGoingUsageCount,
         chatSentimentScore: chatAnalysis.sentimentScore,
         chatSentimentAnalysis: chatAnalysis.sentimentAnalysis,
         featureUsageSummary: featureUsageObject,
@@ -322,7 +349,9 @@ export async function generatePatientProgressReport(patientId: number, doctorId:
         improvementTrajectory,
         engagementScore,
         healthTrends,
-        progressBadges
+        progressBadges,
+        medicationAdherence,
+        keepGoingAnalytics
       })
       .returning();
 
@@ -348,21 +377,14 @@ async function analyzePatientSentiment(chatMemories: any[]) {
   }
 
   try {
-    // In production, this would use an NLP model to analyze sentiment
-    // For now, we'll implement a simple analysis based on the chat memory content
-    
-    // Extract chat content
-    const chatContent = chatMemories
-      .map(memory => memory.content)
-      .join(" ");
-
-    // Use the MCP system to analyze patient sentiment
-    const sentimentAnalysis = {
-      sentimentScore: calculateSentimentScore(chatContent),
-      sentimentAnalysis: generateSentimentAnalysis(chatContent, chatMemories)
-    };
+    const sentiment = await sentimentService.analyzeMany(
+      chatMemories.map(memory => memory.content)
+    );
 
-    return sentimentAnalysis;
+    return {
+      sentimentScore: sentiment.score,
+      sentimentAnalysis: generateSentimentAnalysis(sentiment, chatMemories)
+    };
   } catch (error) {
     console.error("Error analyzing patient sentiment:", error);
     return {
@@ -372,49 +394,20 @@ async function analyzePatientSentiment(chatMemories: any[]) {
   }
 }
 
-// Placeholder for sentiment score calculation - would use NLP in production
-function calculateSentimentScore(content: string): number {
-  // This would be replaced with an actual NLP sentiment analysis
-  // For now, return a random score between -1 and 1
-  const positiveKeywords = ["good", "great", "happy", "better", "improved", "positive", "excellent"];
-  const negativeKeywords = ["bad", "worse", "difficult", "struggle", "pain", "negative", "hard"];
-  
-  let score = 0;
-  const contentLower = content.toLowerCase();
-  
-  positiveKeywords.forEach(word => {
-    const regex = new RegExp(`\\b${word}\\b`, 'gi');
-    const matches = contentLower.match(regex);
-    if (matches) {
-      score += matches.length * 0.1;
-    }
-  });
-  
-  negativeKeywords.forEach(word => {
-    const regex = new RegExp(`\\b${word}\\b`, 'gi');
-    const matches = contentLower.match(regex);
-    if (matches) {
-      score -= matches.length * 0.1;
-    }
-  });
-  
-  // Clamp between -1 and 1
-  return Math.max(-1, Math.min(1, score));
-}
-
-// Generate a textual analysis of sentiment - would use LLM in production
-function generateSentimentAnalysis(content: string, memories: any[]): string {
+// Describe the sentiment result for the doctor, including the strongest emotional signal
+function generateSentimentAnalysis(sentiment: SentimentResult, memories: any[]): string {
   // Identify common themes
   const themes = identifyThemes(memories);
+  const emotionNote = sentiment.dominantEmotion
+    ? ` The strongest emotional signal is ${EMOTION_DESCRIPTIONS[sentiment.dominantEmotion]}.`
+    : "";
   
-  const score = calculateSentimentScore(content);
-  
-  if (score > 0.3) {
-    return `Patient shows positive sentiment in recent interactions. They express satisfaction with their progress. ${themes.length ? `Common themes include: ${themes.join(", ")}.` : ""}`;
-  } else if (score < -0.3) {
-    return `Patient displays negative sentiment in recent interactions, suggesting potential challenges with their care plan. ${themes.length ? `They frequently discuss: ${themes.join(", ")}.` : ""} Consider adjusting their care plan directives or scheduling a consultation.`;
+  if (sentiment.score > 0.3) {
+    return `Patient shows positive sentiment in recent interactions. They express satisfaction with their progress.${emotionNote} ${themes.length ? `Common themes include: ${themes.join(", ")}.` : ""}`;
+  } else if (sentiment.score < -0.3) {
+    return `Patient displays negative sentiment in recent interactions, suggesting potential challenges with their care plan.${emotionNote} ${themes.length ? `They frequently discuss: ${themes.join(", ")}.` : ""} Consider adjusting their care plan directives or scheduling a consultation.`;
   } else {
-    return `Patient shows neutral sentiment. ${themes.length ? `Topics frequently discussed include: ${themes.join(", ")}.` : ""} Continue monitoring for changes in engagement or sentiment.`;
+    return `Patient shows neutral sentiment.${emotionNote} ${themes.length ? `Topics frequently discussed include: ${themes.join(", ")}.` : ""} Continue monitoring for changes in engagement or sentiment.`;
   }
 }
 
@@ -0,0 +1,247 @@
+/**
+ * Practice Service
+ *
+ * Practices (clinics) sit between the admin and doctors: doctors, practice managers
+ * and patients each belong to one. Doctors only ever see patients in their own
+ * practice (see doctorPatientAccess.ts), and a patient can be shared with other
+ * doctors in the same practice through a shared_care dashboard relationship.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  userRoles,
+  practices,
+  dashboardRelationships,
+  InsertPractice,
+  Practice,
+  UserRoleName
+} from '@shared/schema';
+import { and, eq, inArray, isNull, notInArray, sql } from 'drizzle-orm';
+
+export const DEFAULT_PRACTICE_SLUG = 'default';
+
+export interface PracticeSummary extends Practice {
+  doctorCount: number;
+  patientCount: number;
+  practiceManagerCount: number;
+}
+
+export interface PracticeMember {
+  id: number;
+  uin: string | null;
+  name: string;
+  email: string;
+  role: string;
+  isActive: boolean;
+  assignedDoctorId: number | null;
+}
+
+function toSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 64) || 'practice';
+}
+
+class PracticeService {
+  async getPractice(practiceId: number): Promise<Practice | null> {
+    const [practice] = await db.select().from(practices).where(eq(practices.id, practiceId));
+    return practice ?? null;
+  }
+
+  /**
+   * The practice a user belongs to; null for admins and users not yet migrated
+   */
+  async getPracticeId(userId: number): Promise<number | null> {
+    const [user] = await db
+      .select({ practiceId: users.practiceId })
+      .from(users)
+      .where(eq(users.id, userId));
+    return user?.practiceId ?? null;
+  }
+
+  /**
+   * Practices with their member counts by role
+   */
+  async listPractices(practiceId?: number): Promise<PracticeSummary[]> {
+    const [practiceRows, counts] = await Promise.all([
+      db.select()
+        .from(practices)
+        .where(practiceId ? eq(practices.id, practiceId) : undefined)
+        .orderBy(practices.name),
+      db.select({ practiceId: users.practiceId, role: userRoles.name, count: sql<number>`count(*)::int` })
+        .from(users)
+        .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+        .where(practiceId ? eq(users.practiceId, practiceId) : undefined)
+        .groupBy(users.practiceId, userRoles.name)
+    ]);
+
+    const countFor = (id: number, role: UserRoleName) =>
+      counts.find(row => row.practiceId === id && row.role === role)?.count ?? 0;
+
+    return practiceRows.map(practice => ({
+      ...practice,
+      doctorCount: countFor(practice.id, 'doctor'),
+      patientCount: countFor(practice.id, 'patient'),
+      practiceManagerCount: countFor(practice.id, 'practice_manager')
+    }));
+  }
+
+  async createPractice(data: InsertPractice): Promise<Practice> {
+    const slug = data.slug ?? toSlug(data.name);
+    const [existing] = await db.select({ id: practices.id }).from(practices).where(eq(practices.slug, slug));
+    if (existing) {
+      throw new Error(`A practice with slug "${slug}" already exists`);
+    }
+
+    const [practice] = await db
+      .insert(practices)
+      .values({ name: data.name, slug })
+      .returning();
+    return practice;
+  }
+
+  /**
+   * Doctors, practice managers and patients in a practice, optionally of one role
+   */
+  async getPracticeMembers(practiceId: number, role?: UserRoleName): Promise<PracticeMember[]> {
+    return await db
+      .select({
+        id: users.id,
+        uin: users.uin,
+        name: users.name,
+        email: users.email,
+        role: userRoles.name,
+        isActive: users.isActive,
+        assignedDoctorId: users.assignedDoctorId
+      })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(and(eq(users.practiceId, practiceId), role ? eq(userRoles.name, role) : undefined))
+      .orderBy(users.name);
+  }
+
+  /**
+   * Move a doctor, practice manager or patient into another practice. A moved doctor
+   * loses sight of patients left behind; a moved patient loses doctors left behind,
+   * so their assigned doctor is cleared unless that doctor is in the new practice.
+   */
+  async moveUserToPractice(userId: number, practiceId: number): Promise<void> {
+    const [user] = await db
+      .select({ id: users.id, role: userRoles.name, assignedDoctorId: users.assignedDoctorId })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(eq(users.id, userId));
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (user.role === 'admin') {
+      throw new Error('Admins sit above practices and cannot be moved into one');
+    }
+
+    let assignedDoctorId = user.assignedDoctorId;
+    if (user.role === 'patient' && assignedDoctorId) {
+      const doctorPracticeId = await this.getPracticeId(assignedDoctorId);
+      if (doctorPracticeId !== practiceId) {
+        assignedDoctorId = null;
+      }
+    }
+
+    await db
+      .update(users)
+      .set({ practiceId, assignedDoctorId })
+      .where(eq(users.id, userId));
+  }
+
+  /**
+   * Share a patient with another doctor in the patient's practice
+   */
+  async sharePatient(patientId: number, doctorId: number): Promise<void> {
+    const members = await db
+      .select({ id: users.id, role: userRoles.name, practiceId: users.practiceId })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(inArray(users.id, [patientId, doctorId]));
+
+    const patient = members.find(member => member.id === patientId && member.role === 'patient');
+    const doctor = members.find(member => member.id === doctorId && member.role === 'doctor');
+    if (!patient || !doctor) {
+      throw new Error('Patient or doctor not found');
+    }
+    if (patient.practiceId === null || patient.practiceId !== doctor.practiceId) {
+      throw new Error('Patients can only be shared with doctors in the same practice');
+    }
+
+    // Leave an existing primary relationship alone; otherwise add or reactivate the share
+    await db
+      .insert(dashboardRelationships)
+      .values({
+        parentUserId: doctorId,
+        childUserId: patientId,
+        relationshipType: 'shared_care',
+        active: true
+      })
+      .onConflictDoUpdate({
+        target: [dashboardRelationships.parentUserId, dashboardRelationships.childUserId],
+        set: { active: true },
+        setWhere: eq(dashboardRelationships.relationshipType, 'shared_care')
+      });
+  }
+
+  /**
+   * End a shared-care relationship; the patient's primary doctor is unaffected
+   */
+  async unsharePatient(patientId: number, doctorId: number): Promise<boolean> {
+    const ended = await db
+      .update(dashboardRelationships)
+      .set({ active: false })
+      .where(and(
+        eq(dashboardRelationships.parentUserId, doctorId),
+        eq(dashboardRelationships.childUserId, patientId),
+        eq(dashboardRelationships.relationshipType, 'shared_care'),
+        eq(dashboardRelationships.active, true)
+      ))
+      .returning({ id: dashboardRelationships.id });
+    return ended.length > 0;
+  }
+
+  /**
+   * Whether a signed-in user administers a practice: any admin, or that practice's managers
+   */
+  async canManagePractice(userId: number, userRole: string, practiceId: number): Promise<boolean> {
+    if (userRole === 'admin') {
+      return true;
+    }
+    return userRole === 'practice_manager' && await this.getPracticeId(userId) === practiceId;
+  }
+
+  /**
+   * One-off tenancy migration: make sure the practice_manager role and a default
+   * practice exist, then move every non-admin user without a practice into it.
+   * Safe to re-run; only users still without a practice are touched.
+   */
+  async ensureDefaultPractice(): Promise<{ practice: Practice; usersMigrated: number }> {
+    await db
+      .insert(userRoles)
+      .values({ name: 'practice_manager', description: 'Practice manager role for KGC system' })
+      .onConflictDoNothing();
+
+    let [practice] = await db.select().from(practices).where(eq(practices.isDefault, true));
+    if (!practice) {
+      [practice] = await db
+        .insert(practices)
+        .values({ name: 'Default Practice', slug: DEFAULT_PRACTICE_SLUG, isDefault: true })
+        .returning();
+    }
+
+    const adminRoleIds = db.select({ id: userRoles.id }).from(userRoles).where(eq(userRoles.name, 'admin'));
+    const migrated = await db
+      .update(users)
+      .set({ practiceId: practice.id })
+      .where(and(isNull(users.practiceId), notInArray(users.roleId, adminRoleIds)))
+      .returning({ id: users.id });
+
+    return { practice, usersMigrated: migrated.length };
+  }
+}
+
+export const practiceService = new PracticeService();
@@ -0,0 +1,449 @@
+import { db } from "../db";
+import {
+  productCatalogue,
+  insertCatalogueProductSchema,
+  CatalogueProduct,
+  InsertCatalogueProduct,
+  CarePlanDirective
+} from "../../shared/schema";
+import { eq, and, ne, lt, sql } from "drizzle-orm";
+import { ZodError } from "zod";
+
+/**
+ * Product Catalogue Service
+ * Handles the local packaged-product catalogue used for barcode scanning:
+ * - GTIN normalisation and check-digit validation
+ * - Lookup by scanned barcode
+ * - Bulk import of CSV/JSON product dumps
+ * - CPD-aware nutrient alerts from the product's nutrition panel
+ */
+
+// Per-100g thresholds aligned with FSANZ "low" claims and front-of-pack traffic light bands
+export const NUTRIENT_THRESHOLDS = {
+  sodium: { low: 120, high: 600, unit: 'mg' },
+  sugars: { low: 5, high: 22.5, unit: 'g' },
+  saturatedFat: { low: 1.5, high: 5, unit: 'g' },
+  fatTotal: { low: 3, high: 17.5, unit: 'g' }
+} as const;
+
+type AlertNutrient = keyof typeof NUTRIENT_THRESHOLDS;
+
+const NUTRIENT_LABELS: Record<AlertNutrient, string> = {
+  sodium: 'sodium',
+  sugars: 'sugar',
+  saturatedFat: 'saturated fat',
+  fatTotal: 'total fat'
+};
+
+// Keywords in a diet CPD that make a nutrient a care-plan priority
+const CPD_NUTRIENT_KEYWORDS: Record<AlertNutrient, string[]> = {
+  sodium: ['sodium', 'salt', 'blood pressure', 'hypertension', 'heart', 'kidney'],
+  sugars: ['sugar', 'diabetes', 'glucose', 'carb', 'weight'],
+  saturatedFat: ['saturated', 'cholesterol', 'heart', 'mediterranean', 'fat'],
+  fatTotal: ['low fat', 'low-fat', 'weight', 'calorie']
+};
+
+export interface ProductHealthAlert {
+  type: 'warning' | 'caution' | 'info';
+  nutrient: AlertNutrient;
+  valuePer100g: number;
+  unit: string;
+  message: string;
+  relatedDirective?: string;
+}
+
+export interface ProductCPDAssessment {
+  overallRating: 'Good choice' | 'Suitable in moderation' | 'Limit this product' | 'Insufficient nutrition data';
+  healthAlerts: ProductHealthAlert[];
+  priorityNutrients: AlertNutrient[];
+}
+
+export interface ProductImportResult {
+  imported: number;
+  skipped: number;
+  errors: string[];
+}
+
+// Column aliases accepted in CSV headers / JSON keys for common product dump formats
+const IMPORT_FIELD_ALIASES: Record<string, keyof InsertCatalogueProduct> = {
+  gtin: 'gtin', ean: 'gtin', barcode: 'gtin', code: 'gtin', upc: 'gtin',
+  name: 'name', product_name: 'name', productname: 'name',
+  brand: 'brand', brands: 'brand',
+  category: 'category', categories: 'category',
+  serving_size_grams: 'servingSizeGrams', servingsizegrams: 'servingSizeGrams', serving_size_g: 'servingSizeGrams',
+  energy_kj: 'energyKj', energykj: 'energyKj', energy_kj_100g: 'energyKj',
+  protein: 'protein', protein_100g: 'protein',
+  fat_total: 'fatTotal', fattotal: 'fatTotal', fat: 'fatTotal', fat_100g: 'fatTotal',
+  saturated_fat: 'saturatedFat', saturatedfat: 'saturatedFat', saturated_fat_100g: 'saturatedFat',
+  carbohydrate: 'carbohydrate', carbohydrates: 'carbohydrate', carbohydrates_100g: 'carbohydrate',
+  sugars: 'sugars', sugar: 'sugars', sugars_100g: 'sugars',
+  fibre: 'fibre', fiber: 'fibre', fiber_100g: 'fibre',
+  sodium: 'sodium', sodium_mg: 'sodium',
+  ingredients: 'ingredients', ingredients_text: 'ingredients',
+  allergens: 'allergens',
+  health_star_rating: 'healthStarRating', healthstarrating: 'healthStarRating', hsr: 'healthStarRating'
+};
+
+const NUMERIC_IMPORT_FIELDS: (keyof InsertCatalogueProduct)[] = [
+  'servingSizeGrams', 'energyKj', 'protein', 'fatTotal', 'saturatedFat',
+  'carbohydrate', 'sugars', 'fibre', 'sodium', 'healthStarRating'
+];
+
+/**
+ * Normalise a scanned or imported barcode to a zero-padded GTIN-14.
+ * Returns null when the input is not a valid GTIN (wrong length or check digit).
+ */
+export function normalizeGtin(raw: string): string | null {
+  const digits = String(raw).replace(/[\s-]/g, '');
+  if (!/^\d{8}$|^\d{12,14}$/.test(digits)) {
+    return null;
+  }
+
+  const gtin = digits.padStart(14, '0');
+  const body = gtin.slice(0, 13);
+  const sum = body
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+
+  return checkDigit === Number(gtin[13]) ? gtin : null;
+}
+
+/**
+ * Display form of a stored GTIN-14 (drops padding back to EAN-13/EAN-8 where possible)
+ */
+export function displayGtin(gtin: string): string {
+  if (gtin.startsWith('000000')) return gtin.slice(6);
+  return gtin.startsWith('0') ? gtin.slice(1) : gtin;
+}
+
+/**
+ * Assess a catalogue product against the patient's diet CPDs using its actual
+ * per-100g sodium, sugar and fat values
+ */
+export function assessProductForCPDs(product: CatalogueProduct, dietCPDs: CarePlanDirective[]): ProductCPDAssessment {
+  const directiveText = dietCPDs.map(cpd => cpd.directive.toLowerCase());
+  const healthAlerts: ProductHealthAlert[] = [];
+  const priorityNutrients: AlertNutrient[] = [];
+  let hasNutritionData = false;
+
+  for (const nutrient of Object.keys(NUTRIENT_THRESHOLDS) as AlertNutrient[]) {
+    const value = product[nutrient];
+    const matchedIndex = directiveText.findIndex(text =>
+      CPD_NUTRIENT_KEYWORDS[nutrient].some(keyword => text.includes(keyword))
+    );
+    const isPriority = matchedIndex !== -1;
+    if (isPriority) {
+      priorityNutrients.push(nutrient);
+    }
+
+    if (value === null || value === undefined) {
+      continue;
+    }
+    hasNutritionData = true;
+
+    const { low, high, unit } = NUTRIENT_THRESHOLDS[nutrient];
+    const label = NUTRIENT_LABELS[nutrient];
+    const relatedDirective = isPriority ? dietCPDs[matchedIndex].directive : undefined;
+
+    if (value > high) {
+      healthAlerts.push({
+        type: isPriority ? 'warning' : 'caution',
+        nutrient,
+        valuePer100g: value,
+        unit,
+        message: isPriority
+          ? `High ${label} (${value}${unit}/100g) - this works against your care plan`
+          : `High ${label} (${value}${unit}/100g) - keep portions small`,
+        relatedDirective
+      });
+    } else if (value > low && isPriority) {
+      healthAlerts.push({
+        type: 'caution',
+        nutrient,
+        valuePer100g: value,
+        unit,
+        message: `Moderate ${label} (${value}${unit}/100g) - be mindful of your total daily intake`,
+        relatedDirective
+      });
+    } else if (value <= low && isPriority) {
+      healthAlerts.push({
+        type: 'info',
+        nutrient,
+        valuePer100g: value,
+        unit,
+        message: `Low ${label} (${value}${unit}/100g) - a good fit for your care plan`,
+        relatedDirective
+      });
+    }
+  }
+
+  let overallRating: ProductCPDAssessment['overallRating'];
+  if (!hasNutritionData) {
+    overallRating = 'Insufficient nutrition data';
+  } else if (healthAlerts.some(alert => alert.type === 'warning')) {
+    overallRating = 'Limit this product';
+  } else if (healthAlerts.some(alert => alert.type === 'caution')) {
+    overallRating = 'Suitable in moderation';
+  } else {
+    overallRating = 'Good choice';
+  }
+
+  return { overallRating, healthAlerts, priorityNutrients };
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields and escaped quotes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields.map(field => field.trim());
+}
+
+/**
+ * Parse a CSV or JSON product dump into raw records keyed by source column name
+ */
+export function parseProductDump(content: string, format: 'csv' | 'json'): Record<string, unknown>[] {
+  if (format === 'json') {
+    const parsed = JSON.parse(content);
+    const records = Array.isArray(parsed) ? parsed : parsed.products;
+    if (!Array.isArray(records)) {
+      throw new Error('JSON product dump must be an array or an object with a "products" array');
+    }
+    return records;
+  }
+
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const headers = parseCsvLine(lines[0]);
+  return lines.slice(1).map(line => {
+    const values = parseCsvLine(line);
+    return Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']));
+  });
+}
+
+/**
+ * Map a raw dump record onto catalogue columns and validate it
+ */
+export function toCatalogueProduct(record: Record<string, unknown>, source: string): InsertCatalogueProduct {
+  const mapped: Record<string, unknown> = { source };
+
+  for (const [key, value] of Object.entries(record)) {
+    const field = IMPORT_FIELD_ALIASES[key.trim().toLowerCase().replace(/[\s-]/g, '_')];
+    if (!field || value === '' || value === null || value === undefined) {
+      continue;
+    }
+
+    if (NUMERIC_IMPORT_FIELDS.includes(field)) {
+      const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!isNaN(numeric)) mapped[field] = numeric;
+    } else if (field === 'allergens') {
+      mapped[field] = Array.isArray(value)
+        ? value.map(String)
+        : String(value).split(/[;|,]/).map(item => item.trim()).filter(Boolean);
+    } else {
+      mapped[field] = String(value).trim();
+    }
+  }
+
+  const gtin = normalizeGtin(String(mapped.gtin ?? ''));
+  if (!gtin) {
+    throw new Error(`Invalid GTIN "${mapped.gtin ?? ''}"`);
+  }
+  mapped.gtin = gtin;
+
+  return insertCatalogueProductSchema.parse(mapped);
+}
+
+export class ProductCatalogueService {
+
+  /**
+   * Look up a product by scanned barcode
+   */
+  async getProductByBarcode(barcode: string): Promise<CatalogueProduct | undefined> {
+    const gtin = normalizeGtin(barcode);
+    if (!gtin) {
+      return undefined;
+    }
+
+    try {
+      const [product] = await db.select()
+        .from(productCatalogue)
+        .where(eq(productCatalogue.gtin, gtin))
+        .limit(1);
+
+      return product;
+    } catch (error) {
+      console.error('Error getting product by barcode:', error);
+      throw new Error('Failed to look up product');
+    }
+  }
+
+  /**
+   * Find products in the same category with less of the given nutrient, best Health Star Rating first
+   */
+  async findBetterAlternatives(product: CatalogueProduct, nutrient: AlertNutrient, limit: number = 3): Promise<CatalogueProduct[]> {
+    const value = product[nutrient];
+    if (!product.category || value === null || value === undefined) {
+      return [];
+    }
+
+    try {
+      return await db.select()
+        .from(productCatalogue)
+        .where(and(
+          eq(productCatalogue.category, product.category),
+          ne(productCatalogue.id, product.id),
+          lt(productCatalogue[nutrient], value)
+        ))
+        .orderBy(sql`${productCatalogue.healthStarRating} desc nulls last`, productCatalogue[nutrient])
+        .limit(limit);
+    } catch (error) {
+      console.error('Error finding product alternatives:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Look up a scanned barcode and assess the product against the patient's diet CPDs,
+   * suggesting same-category products lower in the most concerning nutrient
+   */
+  async scanBarcode(barcode: string, dietCPDs: CarePlanDirective[]) {
+    const gtin = normalizeGtin(barcode);
+    if (!gtin) {
+      return {
+        found: false,
+        barcode,
+        message: "That doesn't look like a valid barcode. Check the digits and try again."
+      };
+    }
+
+    const product = await this.getProductByBarcode(gtin);
+    if (!product) {
+      return {
+        found: false,
+        barcode: displayGtin(gtin),
+        message: "This product isn't in our catalogue yet.",
+        suggestion: "Use the FoodSwitch app to check this product's nutrition information"
+      };
+    }
+
+    const assessment = assessProductForCPDs(product, dietCPDs);
+    const worstAlert = assessment.healthAlerts.find(alert => alert.type === 'warning')
+      || assessment.healthAlerts.find(alert => alert.type === 'caution');
+    const alternatives = worstAlert
+      ? await this.findBetterAlternatives(product, worstAlert.nutrient)
+      : [];
+
+    return {
+      found: true,
+      productInfo: {
+        barcode: displayGtin(product.gtin),
+        productName: product.name,
+        brand: product.brand,
+        category: product.category,
+        nutritionFacts: {
+          per100g: {
+            energyKj: product.energyKj,
+            protein: product.protein,
+            fatTotal: product.fatTotal,
+            saturatedFat: product.saturatedFat,
+            carbohydrate: product.carbohydrate,
+            sugars: product.sugars,
+            fibre: product.fibre,
+            sodiumMg: product.sodium
+          },
+          servingSizeGrams: product.servingSizeGrams
+        },
+        ingredients: product.ingredients,
+        allergens: product.allergens || [],
+        healthStarRating: product.healthStarRating
+      },
+      cpdAnalysis: {
+        overallRating: assessment.overallRating,
+        priorityNutrients: assessment.priorityNutrients,
+        dietDirectives: dietCPDs.map(cpd => cpd.directive)
+      },
+      healthAlerts: assessment.healthAlerts,
+      alternatives: alternatives.map(alternative => ({
+        barcode: displayGtin(alternative.gtin),
+        productName: alternative.name,
+        brand: alternative.brand,
+        healthStarRating: alternative.healthStarRating,
+        reason: `Less ${NUTRIENT_LABELS[worstAlert!.nutrient]} per 100g (${alternative[worstAlert!.nutrient]}${worstAlert!.unit})`
+      }))
+    };
+  }
+
+  /**
+   * Insert or update a batch of products, keyed by GTIN
+   */
+  async upsertProducts(products: InsertCatalogueProduct[]): Promise<number> {
+    let count = 0;
+
+    for (const product of products) {
+      await db.insert(productCatalogue)
+        .values(product)
+        .onConflictDoUpdate({
+          target: productCatalogue.gtin,
+          set: { ...product, updatedAt: new Date() }
+        });
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Import a CSV or JSON product dump. Invalid rows are skipped and reported, not fatal.
+   */
+  async importProductDump(content: string, format: 'csv' | 'json', source: string): Promise<ProductImportResult> {
+    const records = parseProductDump(content, format);
+    const products: InsertCatalogueProduct[] = [];
+    const errors: string[] = [];
+
+    records.forEach((record, index) => {
+      try {
+        products.push(toCatalogueProduct(record, source));
+      } catch (error) {
+        const message = error instanceof ZodError
+          ? error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+          : error instanceof Error ? error.message : 'Invalid record';
+        errors.push(`Row ${index + 1}: ${message}`);
+      }
+    });
+
+    const imported = await this.upsertProducts(products);
+    return { imported, skipped: records.length - imported, errors };
+  }
+}
+
+export const productCatalogueService = new ProductCatalogueService();
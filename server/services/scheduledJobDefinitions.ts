@@ -0,0 +1,135 @@
+/**
+ * Built-in scheduled jobs, run by the job scheduler.
+ *
+ * Patient-scoped jobs run once per patient timezone, so cron times are the patient's local time.
+ * Handlers throw on failure so the scheduler records the error and retries.
+ */
+
+import { db } from "../db";
+import { users, dashboardRelationships, patientProgressReports } from "@shared/schema";
+import { eq, and, gte } from "drizzle-orm";
+import type { ScheduledJobDefinition } from "./jobSchedulerService";
+import { alertMonitorService } from "./alertMonitorService";
+import patientAlertService from "./patientAlertService";
+import { generatePatientProgressReport } from "./pprService";
+import { auditChainService } from "./auditChainService";
+import { notificationService } from "./notificationService";
+import { mcpTraceService } from "../mcp/tracing/traceService";
+
+const PPR_PERIOD_DAYS = 7;
+// Reports newer than this are treated as already generated for the week (safe to retry)
+const PPR_DUPLICATE_WINDOW_MS = 6 * 24 * 60 * 60 * 1000;
+
+/**
+ * Generate a PPR covering the last week for every active doctor-patient relationship
+ */
+async function generateWeeklyProgressReports(): Promise<Record<string, unknown>> {
+  const endDate = new Date();
+  const startDate = new Date(endDate.getTime() - PPR_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  const relationships = await db.select({
+      patientId: dashboardRelationships.childUserId,
+      doctorId: dashboardRelationships.parentUserId
+    })
+    .from(dashboardRelationships)
+    .innerJoin(users, eq(users.id, dashboardRelationships.childUserId))
+    .where(and(
+      eq(dashboardRelationships.relationshipType, 'doctor_to_patient'),
+      eq(dashboardRelationships.active, true),
+      eq(users.isActive, true)
+    ));
+
+  let generated = 0;
+  let skipped = 0;
+  const failures: string[] = [];
+
+  for (const { patientId, doctorId } of relationships) {
+    if (!doctorId) {
+      skipped++;
+      continue;
+    }
+
+    const [recentReport] = await db.select({ id: patientProgressReports.id })
+      .from(patientProgressReports)
+      .where(and(
+        eq(patientProgressReports.patientId, patientId),
+        gte(patientProgressReports.reportDate, new Date(endDate.getTime() - PPR_DUPLICATE_WINDOW_MS))
+      ))
+      .limit(1);
+
+    if (recentReport) {
+      skipped++;
+      continue;
+    }
+
+    try {
+      await generatePatientProgressReport(patientId, doctorId, { startDate, endDate });
+      generated++;
+    } catch (error) {
+      failures.push(`patient ${patientId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    // Reports already generated are skipped when the job retries
+    throw new Error(`Failed to generate ${failures.length} of ${relationships.length} PPRs - ${failures.slice(0, 5).join('; ')}`);
+  }
+
+  return { generated, skipped };
+}
+
+export const scheduledJobDefinitions: ScheduledJobDefinition[] = [
+  {
+    name: 'daily-score-reminders',
+    description: "7:00 PM reminder for patients who haven't submitted today's self-scores",
+    cronExpression: '0 19 * * *',
+    timezoneScope: 'patient',
+    maxRetries: 2,
+    retryDelaySeconds: 120,
+    handler: ({ timezone }) => alertMonitorService.send7PMReminders(timezone)
+  },
+  {
+    name: 'missed-daily-scores',
+    description: "Alert doctors when a patient hasn't submitted self-scores by the end of their day",
+    cronExpression: '0 21 * * *',
+    timezoneScope: 'patient',
+    handler: ({ timezone }) => alertMonitorService.checkMissedDailyScores(timezone)
+  },
+  {
+    name: 'missing-scores-24h',
+    description: 'Doctor alerts for patients with no self-score in the past 24 hours',
+    cronExpression: '0 * * * *',
+    timezoneScope: 'server',
+    handler: () => patientAlertService.checkMissingScores()
+  },
+  {
+    name: 'weekly-ppr-generation',
+    description: 'Generate Patient Progress Reports for the past week',
+    cronExpression: '0 6 * * MON',
+    timezoneScope: 'server',
+    retryDelaySeconds: 900,
+    handler: () => generateWeeklyProgressReports()
+  },
+  {
+    name: 'audit-log-anchors',
+    description: 'Sign the audit log hash-chain head of each closed UTC day',
+    cronExpression: '5 * * * *', // Hourly, as UTC midnight falls at a different local hour through the year
+    timezoneScope: 'server',
+    handler: () => auditChainService.anchorClosedDays()
+  },
+  {
+    name: 'notification-outbox',
+    description: 'Send queued notifications: retries and messages held for quiet hours',
+    cronExpression: '* * * * *',
+    timezoneScope: 'server',
+    maxRetries: 0, // The next run is a minute away
+    handler: () => notificationService.processDue()
+  },
+  {
+    name: 'mcp-trace-retention',
+    description: 'Delete MCP request traces older than MCP_TRACE_RETENTION_DAYS',
+    cronExpression: '30 3 * * *',
+    timezoneScope: 'server',
+    handler: () => mcpTraceService.purgeExpired()
+  }
+];
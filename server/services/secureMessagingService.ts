@@ -0,0 +1,491 @@
+/**
+ * Secure Messaging Service
+ *
+ * Asynchronous messaging between a patient and a doctor caring for them, replacing
+ * personal SMS. Each conversation is a thread between one patient and one doctor.
+ *
+ * - Only a doctor currently caring for the patient (see doctorPatientAccess.ts) can
+ *   read or write the patient's threads; the patient always sees their own history
+ * - Each message carries a read receipt, set when the other participant opens the thread
+ * - Attachments (meal photos, BP readings) are checked against their declared type and
+ *   stored with the message
+ * - Every patient message goes through emergency triage, so a doctor is alerted by the
+ *   emergency pathway even if nobody reads the inbox
+ * - A patient message starts the doctor's response clock using the doctor's configured
+ *   response time; the doctor's reply stops it
+ *
+ * Access auditing is done by the routes, which know the request context.
+ */
+
+import { db } from '../db';
+import {
+  users,
+  secureMessageThreads,
+  secureMessages,
+  secureMessageAttachments,
+  doctorMessagingSettings,
+  SecureMessageThread,
+  SecureMessage,
+  SecureMessageAttachment,
+  SecureMessageAttachmentType,
+  SecureMessageThreadStatus,
+  SendSecureMessage,
+  CreateSecureMessageThread,
+  UpdateDoctorMessagingSettings,
+  EmergencySeverity,
+  SECURE_MESSAGE_ATTACHMENT_MAX_BYTES
+} from '@shared/schema';
+import { eq, and, or, desc, asc, ne, isNull, inArray, sql } from 'drizzle-orm';
+import { getDoctorPatientIds, getPatientDoctorIds, isPatientOfDoctor } from './doctorPatientAccess';
+import { emergencyDetectionService } from './emergencyDetectionService';
+import { notificationService } from './notificationService';
+
+export type MessagingRole = 'doctor' | 'patient';
+
+export interface MessagingSettings {
+  responseTimeHours: number;
+  availabilityNote: string | null;
+}
+
+export interface CareTeamDoctor extends MessagingSettings {
+  doctorId: number;
+  name: string;
+}
+
+export interface MessageablePatient {
+  patientId: number;
+  name: string;
+}
+
+export interface SecureMessageThreadSummary extends SecureMessageThread {
+  patientName: string;
+  doctorName: string;
+  unreadCount: number;
+  lastMessagePreview: string | null;
+  overdue: boolean; // The doctor's reply is past the expected response time
+}
+
+export type SecureMessageAttachmentInfo = Omit<SecureMessageAttachment, 'data' | 'patientId'>;
+
+export interface SecureMessageWithAttachments extends SecureMessage {
+  attachments: SecureMessageAttachmentInfo[];
+}
+
+export interface SecureMessageThreadDetail {
+  thread: SecureMessageThreadSummary;
+  messages: SecureMessageWithAttachments[];
+}
+
+export interface MessageEmergency {
+  severity: EmergencySeverity;
+  alertMessage?: string; // Immediate safety advice to show the patient
+}
+
+export type SendMessageResult =
+  | { status: 'sent'; thread: SecureMessageThread; message: SecureMessageWithAttachments; emergency: MessageEmergency | null }
+  | { status: 'not_found' }
+  | { status: 'not_in_care' }
+  | { status: 'closed' }
+  | { status: 'invalid_attachment'; reason: string };
+
+const DEFAULT_SETTINGS: MessagingSettings = {
+  responseTimeHours: 48,
+  availabilityNote: null
+};
+
+const PREVIEW_LENGTH = 120;
+
+// Leading bytes of each allowed attachment type
+const FILE_SIGNATURES: Record<SecureMessageAttachmentType, (file: Buffer) => boolean> = {
+  'image/jpeg': file => file.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/png': file => file.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': file => file.subarray(0, 4).toString('latin1') === 'RIFF' && file.subarray(8, 12).toString('latin1') === 'WEBP',
+  'image/heic': file => file.subarray(4, 8).toString('latin1') === 'ftyp',
+  'application/pdf': file => file.subarray(0, 5).toString('latin1') === '%PDF-'
+};
+
+class SecureMessagingService {
+  /**
+   * Doctors the patient can message, with each doctor's response expectations
+   */
+  async getCareTeam(patientId: number): Promise<CareTeamDoctor[]> {
+    const doctorIds = await getPatientDoctorIds(patientId);
+    if (doctorIds.length === 0) {
+      return [];
+    }
+
+    const [doctors, settings] = await Promise.all([
+      db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, doctorIds)),
+      db.select().from(doctorMessagingSettings).where(inArray(doctorMessagingSettings.doctorId, doctorIds))
+    ]);
+
+    return doctors.map(doctor => {
+      const configured = settings.find(row => row.doctorId === doctor.id);
+      return {
+        doctorId: doctor.id,
+        name: doctor.name,
+        responseTimeHours: configured?.responseTimeHours ?? DEFAULT_SETTINGS.responseTimeHours,
+        availabilityNote: configured?.availabilityNote ?? DEFAULT_SETTINGS.availabilityNote
+      };
+    });
+  }
+
+  /**
+   * Patients the doctor can start a thread with
+   */
+  async getPatients(doctorId: number): Promise<MessageablePatient[]> {
+    const patientIds = await getDoctorPatientIds(doctorId);
+    if (patientIds.length === 0) {
+      return [];
+    }
+
+    return db.select({ patientId: users.id, name: users.name })
+      .from(users)
+      .where(inArray(users.id, patientIds))
+      .orderBy(asc(users.name));
+  }
+
+  /**
+   * The user's threads, unanswered-and-overdue first for doctors, then most recent
+   */
+  async listThreads(userId: number, role: MessagingRole, status?: SecureMessageThreadStatus): Promise<SecureMessageThreadSummary[]> {
+    let participant;
+    if (role === 'patient') {
+      participant = eq(secureMessageThreads.patientId, userId);
+    } else {
+      // Only patients still under the doctor's care
+      const patientIds = await getDoctorPatientIds(userId);
+      if (patientIds.length === 0) {
+        return [];
+      }
+      participant = and(eq(secureMessageThreads.doctorId, userId), inArray(secureMessageThreads.patientId, patientIds));
+    }
+
+    const threads = await db.select()
+      .from(secureMessageThreads)
+      .where(status ? and(participant, eq(secureMessageThreads.status, status)) : participant)
+      .orderBy(desc(secureMessageThreads.lastMessageAt));
+
+    const summaries = await this.summarise(threads, userId);
+    if (role === 'doctor') {
+      summaries.sort((a, b) => Number(b.overdue) - Number(a.overdue));
+    }
+    return summaries;
+  }
+
+  /**
+   * A thread with its messages, oldest first. Marks the other participant's messages
+   * read. Returns null if the user may not see the thread.
+   */
+  async getThread(userId: number, role: MessagingRole, threadId: number): Promise<SecureMessageThreadDetail | null> {
+    const thread = await this.getAccessibleThread(userId, role, threadId);
+    if (!thread) {
+      return null;
+    }
+
+    await db.update(secureMessages)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(secureMessages.threadId, threadId),
+        ne(secureMessages.senderId, userId),
+        isNull(secureMessages.readAt)
+      ));
+
+    const messages = await db.select()
+      .from(secureMessages)
+      .where(eq(secureMessages.threadId, threadId))
+      .orderBy(asc(secureMessages.createdAt), asc(secureMessages.id));
+
+    const [summary] = await this.summarise([thread], userId);
+    return { thread: summary, messages: await this.withAttachments(messages) };
+  }
+
+  /**
+   * Start a thread with a first message. Patients address one of their doctors, doctors
+   * one of their patients.
+   */
+  async createThread(userId: number, role: MessagingRole, input: CreateSecureMessageThread): Promise<SendMessageResult> {
+    const patientId = role === 'patient' ? userId : input.patientId;
+    const doctorId = role === 'doctor' ? userId : input.doctorId;
+    if (!patientId || !doctorId) {
+      return { status: 'not_found' };
+    }
+    if (!(await isPatientOfDoctor(doctorId, patientId))) {
+      return { status: 'not_in_care' };
+    }
+
+    const invalid = this.checkAttachments(input.attachments);
+    if (invalid) {
+      return { status: 'invalid_attachment', reason: invalid };
+    }
+
+    const [thread] = await db.insert(secureMessageThreads)
+      .values({
+        patientId,
+        doctorId,
+        subject: input.subject,
+        createdById: userId
+      })
+      .returning();
+
+    return this.deliver(thread, userId, role, input);
+  }
+
+  /**
+   * Reply in an existing open thread
+   */
+  async sendMessage(userId: number, role: MessagingRole, threadId: number, input: SendSecureMessage): Promise<SendMessageResult> {
+    const thread = await this.getAccessibleThread(userId, role, threadId);
+    if (!thread) {
+      return { status: 'not_found' };
+    }
+    if (thread.status === 'closed') {
+      return { status: 'closed' };
+    }
+    // Patients keep access to their history, but can only write to a doctor still caring for them
+    if (role === 'patient' && !(await isPatientOfDoctor(thread.doctorId, userId))) {
+      return { status: 'not_in_care' };
+    }
+
+    const invalid = this.checkAttachments(input.attachments);
+    if (invalid) {
+      return { status: 'invalid_attachment', reason: invalid };
+    }
+
+    return this.deliver(thread, userId, role, input);
+  }
+
+  /**
+   * Close or reopen a thread (doctor). Closing stops the response clock.
+   */
+  async setThreadStatus(doctorId: number, threadId: number, status: SecureMessageThreadStatus): Promise<SecureMessageThread | null> {
+    const thread = await this.getAccessibleThread(doctorId, 'doctor', threadId);
+    if (!thread) {
+      return null;
+    }
+
+    const [updated] = await db.update(secureMessageThreads)
+      .set(status === 'closed'
+        ? { status, awaitingReplySince: null, replyDueAt: null }
+        : { status })
+      .where(eq(secureMessageThreads.id, threadId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * An attachment with its content, or null if the user may not see its thread
+   */
+  async getAttachment(userId: number, role: MessagingRole, attachmentId: number): Promise<SecureMessageAttachment | null> {
+    const [attachment] = await db.select({
+      attachment: secureMessageAttachments,
+      threadId: secureMessages.threadId
+    })
+    .from(secureMessageAttachments)
+    .innerJoin(secureMessages, eq(secureMessageAttachments.messageId, secureMessages.id))
+    .where(eq(secureMessageAttachments.id, attachmentId));
+
+    if (!attachment || !(await this.getAccessibleThread(userId, role, attachment.threadId))) {
+      return null;
+    }
+    return attachment.attachment;
+  }
+
+  async getSettings(doctorId: number): Promise<MessagingSettings> {
+    const [settings] = await db.select()
+      .from(doctorMessagingSettings)
+      .where(eq(doctorMessagingSettings.doctorId, doctorId));
+
+    return settings
+      ? { responseTimeHours: settings.responseTimeHours, availabilityNote: settings.availabilityNote }
+      : { ...DEFAULT_SETTINGS };
+  }
+
+  /**
+   * Change the doctor's response time. Threads already waiting keep the due time they started with.
+   */
+  async updateSettings(doctorId: number, updates: UpdateDoctorMessagingSettings): Promise<MessagingSettings> {
+    const values = {
+      responseTimeHours: updates.responseTimeHours,
+      availabilityNote: updates.availabilityNote ?? null,
+      updatedAt: new Date()
+    };
+
+    const [saved] = await db.insert(doctorMessagingSettings)
+      .values({ doctorId, ...values })
+      .onConflictDoUpdate({ target: doctorMessagingSettings.doctorId, set: values })
+      .returning();
+
+    return { responseTimeHours: saved.responseTimeHours, availabilityNote: saved.availabilityNote };
+  }
+
+  /**
+   * Store a message and its attachments, move the response clock, triage patient
+   * messages for emergencies and notify the other participant
+   */
+  private async deliver(thread: SecureMessageThread, senderId: number, role: MessagingRole, input: SendSecureMessage): Promise<SendMessageResult> {
+    const now = new Date();
+    const responseTimeHours = role === 'patient' && !thread.awaitingReplySince
+      ? (await this.getSettings(thread.doctorId)).responseTimeHours
+      : null;
+
+    const { message, updatedThread } = await db.transaction(async (tx) => {
+      const [message] = await tx.insert(secureMessages)
+        .values({
+          threadId: thread.id,
+          patientId: thread.patientId,
+          senderId,
+          body: input.body
+        })
+        .returning();
+
+      if (input.attachments.length > 0) {
+        await tx.insert(secureMessageAttachments).values(input.attachments.map(attachment => ({
+          messageId: message.id,
+          patientId: thread.patientId,
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+          sizeBytes: Buffer.from(attachment.data, 'base64').length,
+          data: attachment.data
+        })));
+      }
+
+      // A patient message starts the clock unless it is already running; the doctor's reply stops it
+      const clock = role === 'doctor'
+        ? { awaitingReplySince: null, replyDueAt: null }
+        : responseTimeHours !== null
+          ? { awaitingReplySince: now, replyDueAt: new Date(now.getTime() + responseTimeHours * 60 * 60 * 1000) }
+          : {};
+
+      const [updatedThread] = await tx.update(secureMessageThreads)
+        .set({ lastMessageAt: now, ...clock })
+        .where(eq(secureMessageThreads.id, thread.id))
+        .returning();
+
+      return { message, updatedThread };
+    });
+
+    let emergency: MessageEmergency | null = null;
+    if (role === 'patient') {
+      const detection = await emergencyDetectionService.detectEmergency(input.body, thread.patientId);
+      if (detection.severity) {
+        emergency = { severity: detection.severity, alertMessage: detection.alertMessage };
+        await db.update(secureMessages)
+          .set({ emergencySeverity: detection.severity })
+          .where(eq(secureMessages.id, message.id));
+        message.emergencySeverity = detection.severity;
+      }
+    }
+
+    const [sender] = await db.select({ name: users.name }).from(users).where(eq(users.id, senderId));
+    const recipientId = role === 'patient' ? thread.doctorId : thread.patientId;
+    notificationService.notify(recipientId, 'secure_message_received', {
+      senderName: role === 'doctor' ? `Dr. ${sender?.name ?? ''}`.trim() : sender?.name ?? 'your patient'
+    }, { url: `/messages/${thread.id}` })
+      .catch(error => console.error('[SecureMessaging] Failed to notify message recipient:', error));
+
+    const [withAttachments] = await this.withAttachments([message]);
+    return { status: 'sent', thread: updatedThread, message: withAttachments, emergency };
+  }
+
+  /**
+   * The thread if the user is its patient, or its doctor while still caring for the patient
+   */
+  private async getAccessibleThread(userId: number, role: MessagingRole, threadId: number): Promise<SecureMessageThread | null> {
+    const [thread] = await db.select()
+      .from(secureMessageThreads)
+      .where(and(
+        eq(secureMessageThreads.id, threadId),
+        or(eq(secureMessageThreads.patientId, userId), eq(secureMessageThreads.doctorId, userId))
+      ));
+
+    if (!thread) {
+      return null;
+    }
+    if (role === 'patient') {
+      return thread.patientId === userId ? thread : null;
+    }
+    return thread.doctorId === userId && await isPatientOfDoctor(userId, thread.patientId) ? thread : null;
+  }
+
+  /**
+   * First problem with the attachments, or null when they are all acceptable
+   */
+  private checkAttachments(attachments: SendSecureMessage['attachments']): string | null {
+    for (const attachment of attachments) {
+      const file = Buffer.from(attachment.data, 'base64');
+      if (file.length === 0 || file.length > SECURE_MESSAGE_ATTACHMENT_MAX_BYTES) {
+        return `${attachment.filename} must be between 1 byte and 2 MB`;
+      }
+      if (!FILE_SIGNATURES[attachment.mimeType](file)) {
+        return `${attachment.filename} is not a valid ${attachment.mimeType} file`;
+      }
+    }
+    return null;
+  }
+
+  private async summarise(threads: SecureMessageThread[], userId: number): Promise<SecureMessageThreadSummary[]> {
+    if (threads.length === 0) {
+      return [];
+    }
+
+    const threadIds = threads.map(thread => thread.id);
+    const participantIds = Array.from(new Set(threads.flatMap(thread => [thread.patientId, thread.doctorId])));
+
+    const [participants, unread, latest] = await Promise.all([
+      db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, participantIds)),
+      db.select({ threadId: secureMessages.threadId, count: sql<number>`count(*)::int` })
+        .from(secureMessages)
+        .where(and(
+          inArray(secureMessages.threadId, threadIds),
+          ne(secureMessages.senderId, userId),
+          isNull(secureMessages.readAt)
+        ))
+        .groupBy(secureMessages.threadId),
+      db.selectDistinctOn([secureMessages.threadId], { threadId: secureMessages.threadId, body: secureMessages.body })
+        .from(secureMessages)
+        .where(inArray(secureMessages.threadId, threadIds))
+        .orderBy(secureMessages.threadId, desc(secureMessages.createdAt), desc(secureMessages.id))
+    ]);
+
+    const names = new Map(participants.map(participant => [participant.id, participant.name]));
+    const now = new Date();
+
+    return threads.map(thread => {
+      const preview = latest.find(row => row.threadId === thread.id)?.body ?? null;
+      return {
+        ...thread,
+        patientName: names.get(thread.patientId) ?? 'Unknown patient',
+        doctorName: names.get(thread.doctorId) ?? 'Unknown doctor',
+        unreadCount: unread.find(row => row.threadId === thread.id)?.count ?? 0,
+        lastMessagePreview: preview && preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}...` : preview,
+        overdue: !!thread.replyDueAt && thread.replyDueAt < now
+      };
+    });
+  }
+
+  private async withAttachments(messages: SecureMessage[]): Promise<SecureMessageWithAttachments[]> {
+    if (messages.length === 0) {
+      return [];
+    }
+
+    const attachments = await db.select({
+      id: secureMessageAttachments.id,
+      messageId: secureMessageAttachments.messageId,
+      filename: secureMessageAttachments.filename,
+      mimeType: secureMessageAttachments.mimeType,
+      sizeBytes: secureMessageAttachments.sizeBytes,
+      createdAt: secureMessageAttachments.createdAt
+    })
+    .from(secureMessageAttachments)
+    .where(inArray(secureMessageAttachments.messageId, messages.map(message => message.id)))
+    .orderBy(asc(secureMessageAttachments.id));
+
+    return messages.map(message => ({
+      ...message,
+      attachments: attachments.filter(attachment => attachment.messageId === message.id)
+    }));
+  }
+}
+
+export const secureMessagingService = new SecureMessagingService();
@@ -0,0 +1,495 @@
+/**
+ * Sentiment Service
+ *
+ * Single sentiment/emotion analysis module used by PPR generation, journaling
+ * and the Supervisor Agent. Backends share one interface:
+ * - lexicon: offline, deterministic scorer with negation, intensifiers,
+ *   contrastive "but" clauses and Australian slang
+ * - llm: OpenAI classifier for richer context, falling back to the lexicon
+ *   whenever the model is unavailable or returns something unusable
+ *
+ * Select the backend with SENTIMENT_BACKEND=lexicon|llm (default lexicon).
+ */
+
+import OpenAI from "openai";
+import { z } from "zod";
+import { PrivacyProtectionAgent } from "./privacyProtectionAgent";
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+export type Emotion = 'joy' | 'sadness' | 'anger' | 'anxiety';
+
+export interface SentimentResult {
+  score: number; // -1 (very negative) to 1 (very positive)
+  label: SentimentLabel;
+  emotions: Record<Emotion, number>; // Share of emotional signal, 0-1
+  dominantEmotion: Emotion | null;
+  backend: string;
+}
+
+export interface SentimentBackend {
+  readonly name: string;
+  analyze(text: string): Promise<SentimentResult>;
+  // Overall sentiment across several separate messages
+  analyzeMany(texts: string[]): Promise<SentimentResult>;
+}
+
+// Scores within this band either side of zero are labelled neutral
+const NEUTRAL_BAND = 0.05;
+
+// VADER-style normalisation constant: maps an unbounded valence sum into (-1, 1)
+const NORMALISATION_ALPHA = 15;
+
+interface LexiconEntry {
+  valence: number; // -4 to 4
+  emotion?: Emotion;
+}
+
+const LEXICON: Record<string, LexiconEntry> = {
+  // Positive
+  good: { valence: 1.9, emotion: 'joy' },
+  great: { valence: 3.1, emotion: 'joy' },
+  excellent: { valence: 3.2, emotion: 'joy' },
+  happy: { valence: 2.7, emotion: 'joy' },
+  better: { valence: 1.9 },
+  improved: { valence: 2.1 },
+  improving: { valence: 1.8 },
+  positive: { valence: 2.3 },
+  proud: { valence: 2.4, emotion: 'joy' },
+  success: { valence: 2.7, emotion: 'joy' },
+  successful: { valence: 2.7, emotion: 'joy' },
+  love: { valence: 3.2, emotion: 'joy' },
+  enjoy: { valence: 2.2, emotion: 'joy' },
+  enjoyed: { valence: 2.3, emotion: 'joy' },
+  glad: { valence: 2.0, emotion: 'joy' },
+  calm: { valence: 1.3 },
+  relaxed: { valence: 2.0 },
+  confident: { valence: 2.2 },
+  motivated: { valence: 2.0 },
+  energetic: { valence: 1.9 },
+  hopeful: { valence: 1.9 },
+  fine: { valence: 0.8 },
+  okay: { valence: 0.9 },
+  ok: { valence: 0.9 },
+  well: { valence: 1.1 },
+  easy: { valence: 1.9 },
+  helpful: { valence: 1.8 },
+  thanks: { valence: 1.9 },
+  thank: { valence: 1.5 },
+  grateful: { valence: 2.3, emotion: 'joy' },
+  achieved: { valence: 2.1, emotion: 'joy' },
+  accomplished: { valence: 2.1, emotion: 'joy' },
+
+  // Negative
+  bad: { valence: -2.5, emotion: 'sadness' },
+  worse: { valence: -2.1, emotion: 'sadness' },
+  worst: { valence: -3.1, emotion: 'sadness' },
+  terrible: { valence: -2.9, emotion: 'sadness' },
+  awful: { valence: -2.9, emotion: 'sadness' },
+  difficult: { valence: -1.5 },
+  hard: { valence: -0.9 },
+  struggle: { valence: -1.8, emotion: 'sadness' },
+  struggling: { valence: -2.0, emotion: 'sadness' },
+  challenging: { valence: -0.8 },
+  pain: { valence: -2.3, emotion: 'sadness' },
+  painful: { valence: -2.4, emotion: 'sadness' },
+  sore: { valence: -1.4 },
+  sick: { valence: -2.1, emotion: 'sadness' },
+  ill: { valence: -1.8, emotion: 'sadness' },
+  tired: { valence: -1.5, emotion: 'sadness' },
+  exhausted: { valence: -2.0, emotion: 'sadness' },
+  sad: { valence: -2.1, emotion: 'sadness' },
+  depressed: { valence: -2.7, emotion: 'sadness' },
+  lonely: { valence: -2.0, emotion: 'sadness' },
+  hopeless: { valence: -3.0, emotion: 'sadness' },
+  failed: { valence: -2.3, emotion: 'sadness' },
+  failure: { valence: -2.5, emotion: 'sadness' },
+  negative: { valence: -2.0 },
+  worried: { valence: -1.9, emotion: 'anxiety' },
+  worry: { valence: -1.9, emotion: 'anxiety' },
+  anxious: { valence: -1.9, emotion: 'anxiety' },
+  anxiety: { valence: -2.0, emotion: 'anxiety' },
+  stress: { valence: -1.8, emotion: 'anxiety' },
+  stressed: { valence: -1.9, emotion: 'anxiety' },
+  nervous: { valence: -1.5, emotion: 'anxiety' },
+  scared: { valence: -2.2, emotion: 'anxiety' },
+  afraid: { valence: -2.0, emotion: 'anxiety' },
+  overwhelmed: { valence: -2.0, emotion: 'anxiety' },
+  angry: { valence: -2.3, emotion: 'anger' },
+  annoyed: { valence: -1.6, emotion: 'anger' },
+  frustrated: { valence: -1.9, emotion: 'anger' },
+  frustrating: { valence: -1.9, emotion: 'anger' },
+  hate: { valence: -2.7, emotion: 'anger' },
+
+  // Australian slang
+  stoked: { valence: 3.0, emotion: 'joy' },
+  rapt: { valence: 2.8, emotion: 'joy' },
+  ripper: { valence: 2.8, emotion: 'joy' },
+  bonza: { valence: 2.6, emotion: 'joy' },
+  beaut: { valence: 2.3, emotion: 'joy' },
+  chuffed: { valence: 2.4, emotion: 'joy' },
+  crook: { valence: -2.1, emotion: 'sadness' }, // unwell
+  knackered: { valence: -1.9, emotion: 'sadness' },
+  buggered: { valence: -1.9, emotion: 'sadness' },
+  rooted: { valence: -2.0, emotion: 'sadness' }, // exhausted or broken
+  stuffed: { valence: -1.7, emotion: 'sadness' },
+  cactus: { valence: -2.0 }, // broken, finished
+  average: { valence: -0.8 }, // "feeling pretty average" = not great
+  dodgy: { valence: -1.6 },
+  gutted: { valence: -2.6, emotion: 'sadness' },
+  spewing: { valence: -2.5, emotion: 'anger' },
+  spewin: { valence: -2.5, emotion: 'anger' },
+  shithouse: { valence: -2.8, emotion: 'sadness' },
+  cranky: { valence: -1.8, emotion: 'anger' },
+  narky: { valence: -1.6, emotion: 'anger' },
+  filthy: { valence: -1.8, emotion: 'anger' }, // angry
+};
+
+// Multi-word expressions collapsed into single tokens before scoring
+const PHRASES: Record<string, LexiconEntry> = {
+  'no worries': { valence: 1.2 },
+  "she'll be right": { valence: 1.2 },
+  'sweet as': { valence: 2.0, emotion: 'joy' },
+  'heaps good': { valence: 2.6, emotion: 'joy' },
+  'hard yakka': { valence: -0.8 },
+  'fed up': { valence: -2.0, emotion: 'anger' },
+  'over it': { valence: -1.8, emotion: 'sadness' },
+  'not the best': { valence: -1.2, emotion: 'sadness' },
+  'under the weather': { valence: -1.6, emotion: 'sadness' },
+  'on track': { valence: 1.6 },
+};
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'none', 'neither', 'nor', 'without',
+  'hardly', 'barely', 'cannot', 'aint', "ain't"
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.3,
+  really: 1.3,
+  so: 1.25,
+  extremely: 1.5,
+  incredibly: 1.5,
+  super: 1.3,
+  totally: 1.3,
+  absolutely: 1.4,
+  heaps: 1.35, // "heaps better"
+  bloody: 1.35,
+  pretty: 1.1,
+  quite: 1.1,
+  slightly: 0.6,
+  somewhat: 0.7,
+  kinda: 0.7,
+  bit: 0.6, // "a bit tired"
+  little: 0.7,
+};
+
+// How far back a negator or intensifier reaches
+const MODIFIER_WINDOW = 3;
+
+// Negated sentiment is flipped and dampened ("not good" is mildly negative, not the opposite of "good")
+const NEGATION_FACTOR = -0.74;
+
+// Clause after "but" carries more weight than the clause before it
+const BUT_BEFORE_WEIGHT = 0.5;
+const BUT_AFTER_WEIGHT = 1.5;
+
+function emptyEmotions(): Record<Emotion, number> {
+  return { joy: 0, sadness: 0, anger: 0, anxiety: 0 };
+}
+
+function labelForScore(score: number): SentimentLabel {
+  if (score > NEUTRAL_BAND) return 'positive';
+  if (score < -NEUTRAL_BAND) return 'negative';
+  return 'neutral';
+}
+
+function finaliseEmotions(raw: Record<Emotion, number>): { emotions: Record<Emotion, number>; dominantEmotion: Emotion | null } {
+  const total = Object.values(raw).reduce((sum, value) => sum + value, 0);
+  const emotions = emptyEmotions();
+  let dominantEmotion: Emotion | null = null;
+
+  if (total === 0) {
+    return { emotions, dominantEmotion };
+  }
+
+  for (const emotion of Object.keys(raw) as Emotion[]) {
+    emotions[emotion] = Math.round((raw[emotion] / total) * 100) / 100;
+    if (dominantEmotion === null || raw[emotion] > raw[dominantEmotion]) {
+      dominantEmotion = emotion;
+    }
+  }
+
+  return { emotions, dominantEmotion };
+}
+
+function phraseToken(phrase: string): string {
+  return `__${phrase.replace(/[^a-z]/g, '_')}__`;
+}
+
+const PHRASE_TOKENS: Record<string, LexiconEntry> = Object.fromEntries(
+  Object.entries(PHRASES).map(([phrase, entry]) => [phraseToken(phrase), entry])
+);
+
+function tokenize(text: string): string[] {
+  let normalised = text.toLowerCase().replace(/[‘’]/g, "'");
+
+  // Longest phrases first so "not the best" wins over any shorter overlap
+  for (const phrase of Object.keys(PHRASES).sort((a, b) => b.length - a.length)) {
+    normalised = normalised.replace(new RegExp(`\\b${phrase}\\b`, 'g'), ` ${phraseToken(phrase)} `);
+  }
+
+  return normalised.match(/__[a-z_']+__|[a-z']+|[.!?;]/g) || [];
+}
+
+function isNegator(token: string): boolean {
+  return NEGATORS.has(token) || token.endsWith("n't");
+}
+
+/**
+ * Offline lexicon backend. Deterministic and synchronous, so it can also be
+ * used where an await is not possible.
+ */
+export class LexiconSentimentBackend implements SentimentBackend {
+  readonly name = 'lexicon';
+
+  async analyze(text: string): Promise<SentimentResult> {
+    return this.analyzeSync(text);
+  }
+
+  async analyzeMany(texts: string[]): Promise<SentimentResult> {
+    return this.analyzeManySync(texts);
+  }
+
+  /**
+   * Mean of per-message scores, so a long history doesn't saturate towards +/-1
+   */
+  analyzeManySync(texts: string[]): SentimentResult {
+    if (texts.length === 0) {
+      return this.analyzeSync('');
+    }
+
+    const results = texts.map(text => this.analyzeSync(text));
+    const rawEmotions = emptyEmotions();
+    for (const result of results) {
+      for (const emotion of Object.keys(rawEmotions) as Emotion[]) {
+        rawEmotions[emotion] += result.emotions[emotion];
+      }
+    }
+
+    const meanScore = results.reduce((sum, result) => sum + result.score, 0) / results.length;
+    const roundedScore = Math.round(meanScore * 1000) / 1000;
+
+    return {
+      score: roundedScore,
+      label: labelForScore(roundedScore),
+      ...finaliseEmotions(rawEmotions),
+      backend: this.name
+    };
+  }
+
+  analyzeSync(text: string): SentimentResult {
+    const tokens = tokenize(text);
+    const rawEmotions = emptyEmotions();
+    let clauseSum = 0;
+    let total = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      // Sentence boundaries close the current clause
+      if (token === '.' || token === '!' || token === '?' || token === ';') {
+        total += clauseSum;
+        clauseSum = 0;
+        continue;
+      }
+
+      if (token === 'but') {
+        total += clauseSum * BUT_BEFORE_WEIGHT;
+        clauseSum = 0;
+        // Weight everything up to the next sentence boundary
+        let j = i + 1;
+        let afterSum = 0;
+        while (j < tokens.length && !['.', '!', '?', ';'].includes(tokens[j])) {
+          afterSum += this.scoreToken(tokens, j, rawEmotions);
+          j++;
+        }
+        total += afterSum * BUT_AFTER_WEIGHT;
+        i = j - 1;
+        continue;
+      }
+
+      clauseSum += this.scoreToken(tokens, i, rawEmotions);
+    }
+    total += clauseSum;
+
+    const score = total === 0 ? 0 : total / Math.sqrt(total * total + NORMALISATION_ALPHA);
+    const roundedScore = Math.round(score * 1000) / 1000;
+
+    return {
+      score: roundedScore,
+      label: labelForScore(roundedScore),
+      ...finaliseEmotions(rawEmotions),
+      backend: this.name
+    };
+  }
+
+  private scoreToken(tokens: string[], index: number, rawEmotions: Record<Emotion, number>): number {
+    const entry = PHRASE_TOKENS[tokens[index]] || LEXICON[tokens[index]];
+    if (!entry) {
+      return 0;
+    }
+
+    let valence = entry.valence;
+    let negated = false;
+
+    for (let back = 1; back <= MODIFIER_WINDOW && index - back >= 0; back++) {
+      const previous = tokens[index - back];
+      if (['.', '!', '?', ';'].includes(previous)) break;
+
+      if (isNegator(previous)) {
+        negated = !negated;
+      } else if (INTENSIFIERS[previous] !== undefined) {
+        valence *= INTENSIFIERS[previous];
+      }
+    }
+
+    if (negated) {
+      valence *= NEGATION_FACTOR;
+    } else if (entry.emotion) {
+      // A negated emotion word ("not happy") is not evidence of that emotion
+      rawEmotions[entry.emotion] += Math.abs(valence);
+    }
+
+    return valence;
+  }
+}
+
+const llmSentimentSchema = z.object({
+  score: z.number().min(-1).max(1),
+  emotions: z.object({
+    joy: z.number().min(0).max(1),
+    sadness: z.number().min(0).max(1),
+    anger: z.number().min(0).max(1),
+    anxiety: z.number().min(0).max(1)
+  })
+});
+
+const LLM_SENTIMENT_PROMPT = `You rate the sentiment of messages written by patients in an Australian chronic care programme.
+Account for negation ("not good" is negative), sarcasm, and Australian slang ("crook" = unwell, "stoked" = very happy, "pretty average" = poor).
+Respond with JSON only: {"score": <number from -1 (very negative) to 1 (very positive)>, "emotions": {"joy": 0-1, "sadness": 0-1, "anger": 0-1, "anxiety": 0-1}}`;
+
+/**
+ * LLM backend. Text is anonymised before it leaves the server, and any
+ * failure falls back to the lexicon so callers always get a result.
+ */
+export class LLMSentimentBackend implements SentimentBackend {
+  readonly name = 'llm';
+  private client: OpenAI | null;
+  private fallback: LexiconSentimentBackend;
+  private privacyAgent: PrivacyProtectionAgent;
+
+  constructor(fallback: LexiconSentimentBackend = new LexiconSentimentBackend()) {
+    this.client = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : null;
+    this.fallback = fallback;
+    this.privacyAgent = PrivacyProtectionAgent.getInstance();
+  }
+
+  async analyze(text: string): Promise<SentimentResult> {
+    if (!this.client || !text.trim()) {
+      return this.fallback.analyzeSync(text);
+    }
+
+    try {
+      return await this.classify(this.client, text);
+    } catch (error) {
+      console.error('[Sentiment Service] LLM backend failed, using lexicon fallback:', error);
+      return this.fallback.analyzeSync(text);
+    }
+  }
+
+  async analyzeMany(texts: string[]): Promise<SentimentResult> {
+    if (!this.client || texts.length === 0) {
+      return this.fallback.analyzeManySync(texts);
+    }
+
+    try {
+      // One request for the whole batch, rated as the patient's overall sentiment
+      return await this.classify(this.client, texts.map((text, index) => `${index + 1}. ${text}`).join("\n"));
+    } catch (error) {
+      console.error('[Sentiment Service] LLM backend failed, using lexicon fallback:', error);
+      return this.fallback.analyzeManySync(texts);
+    }
+  }
+
+  private async classify(client: OpenAI, text: string): Promise<SentimentResult> {
+    const { anonymizedText } = this.privacyAgent.anonymize(text);
+    const response = await client.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: LLM_SENTIMENT_PROMPT },
+        { role: "user", content: anonymizedText }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+      max_tokens: 100
+    });
+
+    const parsed = llmSentimentSchema.parse(JSON.parse(response.choices[0]?.message?.content || '{}'));
+    const score = Math.round(parsed.score * 1000) / 1000;
+
+    return {
+      score,
+      label: labelForScore(score),
+      ...finaliseEmotions(parsed.emotions),
+      backend: this.name
+    };
+  }
+}
+
+export class SentimentService {
+  private backend: SentimentBackend;
+  private lexicon: LexiconSentimentBackend;
+
+  constructor(backend?: SentimentBackend) {
+    this.lexicon = new LexiconSentimentBackend();
+    this.backend = backend || this.lexicon;
+  }
+
+  /**
+   * Swap the active backend (e.g. for tests or a different provider)
+   */
+  setBackend(backend: SentimentBackend): void {
+    this.backend = backend;
+  }
+
+  getBackendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Analyse text with the configured backend
+   */
+  async analyze(text: string): Promise<SentimentResult> {
+    return this.backend.analyze(text);
+  }
+
+  /**
+   * Overall sentiment across several messages (e.g. a patient's recent chat history)
+   */
+  async analyzeMany(texts: string[]): Promise<SentimentResult> {
+    return this.backend.analyzeMany(texts);
+  }
+
+  /**
+   * Analyse text with the offline lexicon regardless of configured backend
+   */
+  analyzeOffline(text: string): SentimentResult {
+    return this.lexicon.analyzeSync(text);
+  }
+}
+
+function createDefaultBackend(): SentimentBackend | undefined {
+  return process.env.SENTIMENT_BACKEND === 'llm' ? new LLMSentimentBackend() : undefined;
+}
+
+export const sentimentService = new SentimentService(createDefaultBackend());
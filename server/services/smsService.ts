@@ -193,6 +193,45 @@ export class SMSService {
     }
   }
 
+  /**
+   * Send an already-rendered message. Used by the notification service, which owns
+   * the wording; statusCallback receives Twilio delivery receipts.
+   */
+  static async sendMessage(
+    phoneNumber: string,
+    body: string,
+    statusCallback?: string
+  ): Promise<SMSResult> {
+    if (twilioError || !twilioClient) {
+      return {
+        success: false,
+        error: `SMS service unavailable: ${twilioError || 'Twilio not configured'}`
+      };
+    }
+
+    try {
+      const validation = SMSService.validatePhoneNumber(phoneNumber);
+      const smsResponse = await twilioClient.messages.create({
+        body,
+        from: process.env.TWILIO_PHONE_NUMBER,
+        to: validation.formatted || phoneNumber,
+        ...(statusCallback ? { statusCallback } : {})
+      });
+
+      return {
+        success: true,
+        messageId: smsResponse.sid
+      };
+
+    } catch (error: any) {
+      console.error('SMS sending error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to send SMS'
+      };
+    }
+  }
+
   /**
    * Validate phone number format
    */
@@ -4,6 +4,7 @@
  * New Format: KGC-[ROLE]-[SEQUENCE]
  * Examples:
  * - Admins: KGC-ADM-001, KGC-ADM-002, KGC-ADM-003, ...
+ * - Practice managers: KGC-MGR-001, KGC-MGR-002, ...
  * - Doctors: KGC-DOC-001, KGC-DOC-002, KGC-DOC-003, ...
  * - Patients: KGC-PAT-001, KGC-PAT-002, KGC-PAT-003, ...
  * 
@@ -16,7 +17,7 @@
  */
 
 import { db } from '../db';
-import { users } from '@shared/schema';
+import { users, userRoles, UserRoleName } from '@shared/schema';
 import { eq, max, and } from 'drizzle-orm';
 
 export interface UINGenerationResult {
@@ -31,6 +32,7 @@ class UINService {
   // Role prefixes for the new UIN system
   private readonly ROLE_PREFIXES = {
     admin: 'ADM',
+    practice_manager: 'MGR',
     doctor: 'DOC', 
     patient: 'PAT'
   } as const;
@@ -46,7 +48,7 @@ class UINService {
    * Generate a new UIN for unlimited scaling
    * Format: KGC-[ROLE]-[SEQUENCE]
    */
-  async generateUIN(roleType: 'admin' | 'doctor' | 'patient'): Promise<UINGenerationResult> {
+  async generateUIN(roleType: UserRoleName): Promise<UINGenerationResult> {
     const rolePrefix = this.ROLE_PREFIXES[roleType];
     
     // Get the next sequence number for this role
@@ -68,15 +70,13 @@ class UINService {
   /**
    * Get the next sequence number for a specific role type
    */
-  private async getNextSequenceNumber(roleType: 'admin' | 'doctor' | 'patient'): Promise<number> {
-    // Get role ID for filtering
-    const roleId = roleType === 'admin' ? 1 : roleType === 'doctor' ? 2 : 3;
-    
+  private async getNextSequenceNumber(roleType: UserRoleName): Promise<number> {
     // Find the highest sequence number for this role
     const [result] = await db
       .select({ maxSequence: max(users.uinSequence) })
       .from(users)
-      .where(eq(users.roleId, roleId));
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(eq(userRoles.name, roleType));
     
     const currentMax = result?.maxSequence || 0;
     return currentMax + 1;
@@ -87,7 +87,7 @@ class UINService {
    */
   isValidUIN(uin: string): boolean {
     // New format: KGC-[ROLE]-[SEQUENCE]
-    const newFormatRegex = /^KGC-(ADM|DOC|PAT)-\d{3,}$/;
+    const newFormatRegex = /^KGC-(ADM|MGR|DOC|PAT)-\d{3,}$/;
     
     // Legacy format support
     const legacyAdminRegex = /^X1$/;
@@ -105,9 +105,10 @@ class UINService {
   /**
    * Extract role type from UIN
    */
-  getRoleFromUIN(uin: string): 'admin' | 'doctor' | 'patient' | null {
+  getRoleFromUIN(uin: string): UserRoleName | null {
     // New format
     if (uin.startsWith('KGC-ADM-')) return 'admin';
+    if (uin.startsWith('KGC-MGR-')) return 'practice_manager';
     if (uin.startsWith('KGC-DOC-')) return 'doctor';
     if (uin.startsWith('KGC-PAT-')) return 'patient';
     
@@ -181,7 +182,7 @@ class UINService {
   /**
    * Generate batch UIDs for bulk user creation
    */
-  async generateBatchUIDs(roleType: 'admin' | 'doctor' | 'patient', count: number): Promise<UINGenerationResult[]> {
+  async generateBatchUIDs(roleType: UserRoleName, count: number): Promise<UINGenerationResult[]> {
     const results: UINGenerationResult[] = [];
     const startSequence = await this.getNextSequenceNumber(roleType);
     const rolePrefix = this.ROLE_PREFIXES[roleType];
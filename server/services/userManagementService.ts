@@ -1,20 +1,24 @@
 /**
  * User Management Service for KGC Dashboard Hierarchy
- * Handles creation and management of Admin → Doctor → Patient relationships
+ * Handles creation and management of Admin → Practice → Doctor → Patient relationships
  */
 
 import { db } from '../db';
-import { users, userRoles, dashboardRelationships } from '@shared/schema';
-import { eq, and } from 'drizzle-orm';
+import { users, userRoles, dashboardRelationships, UserRoleName } from '@shared/schema';
+import { eq, and, inArray } from 'drizzle-orm';
 import UINService from './uinService';
+import { getDoctorPatientIds } from './doctorPatientAccess';
+import { notificationService } from './notificationService';
+import { getAppUrl } from './notificationTemplates';
 
 export interface CreateUserRequest {
   name: string;
   email: string;
   phoneNumber: string;
-  role: 'admin' | 'doctor' | 'patient';
+  role: UserRoleName;
   createdByUserId?: number;
   assignedDoctorId?: number; // For patients: which doctor they're assigned to
+  practiceId?: number; // Required when an admin creates a practice manager or doctor; otherwise the creator's practice
   // Legacy fields (optional for backwards compatibility)
   doctorLetter?: string; 
   patientNumber?: number;
@@ -29,6 +33,7 @@ export interface DashboardUser {
   role: string;
   uinSequence?: number;
   assignedDoctorId?: number;
+  practiceId?: number;
   isActive: boolean;
   createdByUserId?: number;
   // Legacy fields (for backwards compatibility)
@@ -65,12 +70,12 @@ class UserManagementService {
       throw new Error(`Role ${userData.role} not found`);
     }
 
+    // Validate hierarchy rules and resolve the practice before allocating a UIN
+    const creatorRole = await this.validateHierarchyRules(userData);
+
     // Generate modern scalable UIN
     const uinResult = await this.uinService.generateUIN(userData.role);
 
-    // Validate hierarchy rules (updated for new system)
-    await this.validateHierarchyRules(userData);
-
     // Create username from UIN (backwards compatible)
     const username = uinResult.uin.toLowerCase().replace(/[^a-z0-9]/g, '');
 
@@ -87,6 +92,7 @@ class UserManagementService {
         password: null, // SMS-only authentication
         uinSequence: uinResult.sequence,
         assignedDoctorId: userData.assignedDoctorId || null,
+        practiceId: userData.practiceId || null,
         createdByUserId: userData.createdByUserId || null,
         // Legacy fields (optional for backwards compatibility)
         doctorLetter: userData.doctorLetter || null,
@@ -95,20 +101,28 @@ class UserManagementService {
       })
       .returning();
 
-    // Create dashboard relationship if there's a parent
-    if (userData.createdByUserId) {
-      const relationshipType = userData.role === 'doctor' ? 'admin_to_doctor' : 'doctor_to_patient';
-      
+    // Create dashboard relationship if there's a parent, e.g. admin_to_doctor, practice_manager_to_doctor
+    if (userData.createdByUserId && creatorRole) {
       await db
         .insert(dashboardRelationships)
         .values({
           parentUserId: userData.createdByUserId,
           childUserId: newUser.id,
-          relationshipType,
+          relationshipType: `${creatorRole}_to_${userData.role}`,
           active: true,
         });
     }
 
+    // Welcome the new doctor or patient; a failed send must not undo the account
+    const welcomeTemplate = userData.role === 'doctor' ? 'doctor_welcome' : userData.role === 'patient' ? 'patient_welcome' : null;
+    if (welcomeTemplate) {
+      try {
+        await notificationService.notify(newUser.id, welcomeTemplate, { link: getAppUrl() });
+      } catch (error) {
+        console.error(`Failed to send welcome notification to user ${newUser.id}:`, error);
+      }
+    }
+
     return {
       id: newUser.id,
       uin: newUser.uin!,
@@ -118,6 +132,7 @@ class UserManagementService {
       role: userData.role,
       uinSequence: newUser.uinSequence || undefined,
       assignedDoctorId: newUser.assignedDoctorId || undefined,
+      practiceId: newUser.practiceId || undefined,
       isActive: newUser.isActive,
       createdByUserId: newUser.createdByUserId || undefined,
       // Legacy fields
@@ -127,78 +142,103 @@ class UserManagementService {
   }
 
   /**
-   * Validate hierarchy rules for the new unlimited system
+   * Validate hierarchy rules for the new unlimited system and resolve the new user's
+   * practice. Returns the creator's role name (null when there is no creator).
    */
-  private async validateHierarchyRules(userData: CreateUserRequest): Promise<void> {
+  private async validateHierarchyRules(userData: CreateUserRequest): Promise<string | null> {
+    const creator = userData.createdByUserId ? await this.getUserWithRole(userData.createdByUserId) : null;
+
     // Admin validation
     if (userData.role === 'admin') {
-      // Admins can be created without restrictions (unlimited scaling)
-      return;
+      // Admins can be created without restrictions (unlimited scaling) and sit above practices
+      userData.practiceId = undefined;
+      return creator?.role ?? null;
+    }
+
+    // Practice manager validation
+    if (userData.role === 'practice_manager') {
+      if (!creator || creator.role !== 'admin') {
+        throw new Error('Only admins can create practice managers');
+      }
+      if (!userData.practiceId) {
+        throw new Error('Practice managers must be created in a practice');
+      }
+      return creator.role;
     }
 
-    // Doctor validation  
+    // Doctor validation
     if (userData.role === 'doctor') {
-      if (!userData.createdByUserId) {
-        throw new Error('Doctors must be created by an admin');
+      if (!creator) {
+        throw new Error('Doctors must be created by an admin or practice manager');
       }
-      // Verify the creator is an admin
-      const [creator] = await db
-        .select({ roleId: users.roleId })
-        .from(users)
-        .where(eq(users.id, userData.createdByUserId));
-      
-      if (!creator || creator.roleId !== 1) {
-        throw new Error('Only admins can create doctors');
+      if (creator.role === 'practice_manager') {
+        // Practice managers only staff their own practice
+        if (userData.practiceId && userData.practiceId !== creator.practiceId) {
+          throw new Error('Practice managers can only create doctors in their own practice');
+        }
+        userData.practiceId = creator.practiceId ?? undefined;
+      } else if (creator.role !== 'admin') {
+        throw new Error('Only admins and practice managers can create doctors');
       }
-      return;
+      if (!userData.practiceId) {
+        throw new Error('Doctors must be created in a practice');
+      }
+      return creator.role;
     }
 
     // Patient validation
     if (userData.role === 'patient') {
-      if (!userData.createdByUserId) {
-        throw new Error('Patients must be created by a doctor');
-      }
-      
-      // Verify the creator is a doctor
-      const [creator] = await db
-        .select({ roleId: users.roleId })
-        .from(users)
-        .where(eq(users.id, userData.createdByUserId));
-      
-      if (!creator || creator.roleId !== 2) {
+      if (!creator || creator.role !== 'doctor') {
         throw new Error('Only doctors can create patients');
       }
 
-      // Set assigned doctor automatically
+      // Patients join their creating doctor's practice
+      userData.practiceId = creator.practiceId ?? undefined;
+
+      // Set assigned doctor automatically; another doctor must be in the same practice
       if (!userData.assignedDoctorId) {
         userData.assignedDoctorId = userData.createdByUserId;
+      } else if (userData.assignedDoctorId !== userData.createdByUserId) {
+        const assignedDoctor = await this.getUserWithRole(userData.assignedDoctorId);
+        if (!assignedDoctor || assignedDoctor.role !== 'doctor' || assignedDoctor.practiceId !== creator.practiceId) {
+          throw new Error('Patients can only be assigned to a doctor in the same practice');
+        }
       }
-      return;
+      return creator.role;
     }
 
     throw new Error('Invalid role specified');
   }
 
+  private async getUserWithRole(userId: number): Promise<{ role: string; practiceId: number | null } | null> {
+    const [user] = await db
+      .select({ role: userRoles.name, practiceId: users.practiceId })
+      .from(users)
+      .innerJoin(userRoles, eq(users.roleId, userRoles.id))
+      .where(eq(users.id, userId));
+    return user ?? null;
+  }
+
   /**
-   * Get all users for a specific doctor (unlimited patients)
+   * Get all patients in a doctor's care (unlimited patients), including patients
+   * shared with them, within the doctor's practice
    */
   async getPatientsByDoctor(doctorId: number): Promise<DashboardUser[]> {
-    const [doctor] = await db
-      .select({ roleId: users.roleId })
-      .from(users)
-      .where(eq(users.id, doctorId));
+    const doctor = await this.getUserWithRole(doctorId);
 
-    if (!doctor || doctor.roleId !== 2) {
+    if (!doctor || doctor.role !== 'doctor') {
       throw new Error('Invalid doctor ID');
     }
 
+    const patientIds = await getDoctorPatientIds(doctorId);
+    if (patientIds.length === 0) {
+      return [];
+    }
+
     const patients = await db
       .select()
       .from(users)
-      .where(and(
-        eq(users.roleId, 3), // patients
-        eq(users.assignedDoctorId, doctorId)
-      ));
+      .where(inArray(users.id, patientIds));
 
     return patients.map(patient => ({
       id: patient.id,
@@ -209,6 +249,7 @@ class UserManagementService {
       role: 'patient',
       uinSequence: patient.uinSequence || undefined,
       assignedDoctorId: patient.assignedDoctorId || undefined,
+      practiceId: patient.practiceId || undefined,
       isActive: patient.isActive,
       createdByUserId: patient.createdByUserId || undefined,
       doctorLetter: patient.doctorLetter || undefined,
@@ -273,92 +314,6 @@ class UserManagementService {
     }
   }
 
-  /**
-   * Validate hierarchy rules before creating user
-   */
-  private async validateHierarchyRules(userData: CreateUserRequest): Promise<void> {
-    switch (userData.role) {
-      case 'admin':
-        // Only one admin allowed (X1)
-        const existingAdmin = await db
-          .select()
-          .from(users)
-          .where(eq(users.uin, 'X1'));
-        
-        if (existingAdmin.length > 0) {
-          throw new Error('Admin user X1 already exists');
-        }
-        break;
-
-      case 'doctor':
-        if (!userData.doctorLetter || !userData.createdByUserId) {
-          throw new Error('Doctor must have letter assignment and be created by admin');
-        }
-
-        // Validate doctor letter is A-J
-        if (!/^[A-J]$/.test(userData.doctorLetter)) {
-          throw new Error('Doctor letter must be A through J');
-        }
-
-        // Check if doctor letter is already taken
-        const existingDoctor = await db
-          .select()
-          .from(users)
-          .where(eq(users.doctorLetter, userData.doctorLetter));
-
-        if (existingDoctor.length > 0) {
-          throw new Error(`Doctor ${userData.doctorLetter} already exists`);
-        }
-
-        // Validate creator is admin
-        const creator = await db
-          .select()
-          .from(users)
-          .where(eq(users.id, userData.createdByUserId));
-
-        if (!creator.length || creator[0].uin !== 'X1') {
-          throw new Error('Doctors can only be created by admin (X1)');
-        }
-        break;
-
-      case 'patient':
-        if (!userData.doctorLetter || !userData.patientNumber || !userData.createdByUserId) {
-          throw new Error('Patient must have doctor letter, patient number, and be created by doctor');
-        }
-
-        // Validate patient number is 1-5
-        if (userData.patientNumber < 1 || userData.patientNumber > 5) {
-          throw new Error('Patient number must be 1 through 5');
-        }
-
-        // Check if patient position is already taken
-        const existingPatient = await db
-          .select()
-          .from(users)
-          .where(
-            and(
-              eq(users.doctorLetter, userData.doctorLetter),
-              eq(users.patientNumber, userData.patientNumber)
-            )
-          );
-
-        if (existingPatient.length > 0) {
-          throw new Error(`Patient ${userData.doctorLetter}${userData.patientNumber} already exists`);
-        }
-
-        // Validate creator is the assigned doctor
-        const doctorCreator = await db
-          .select()
-          .from(users)
-          .where(eq(users.id, userData.createdByUserId));
-
-        if (!doctorCreator.length || doctorCreator[0].doctorLetter !== userData.doctorLetter) {
-          throw new Error(`Patient can only be created by Doctor ${userData.doctorLetter}`);
-        }
-        break;
-    }
-  }
-
   /**
    * Get all users managed by a specific user
    */
@@ -387,6 +342,7 @@ class UserManagementService {
       role: this.getRoleFromUIN(childUser.uin!),
       doctorLetter: childUser.doctorLetter || undefined,
       patientNumber: childUser.patientNumber || undefined,
+      practiceId: childUser.practiceId || undefined,
       isActive: childUser.isActive,
       createdByUserId: childUser.createdByUserId || undefined,
     }));
@@ -421,6 +377,10 @@ class UserManagementService {
       throw new Error('Patient or doctor not found');
     }
 
+    if (patient.practiceId !== newDoctor.practiceId) {
+      throw new Error('Patients can only be reassigned to a doctor in their practice');
+    }
+
     if (!patient.patientNumber || !newDoctor.doctorLetter) {
       throw new Error('Invalid patient or doctor data');
     }
@@ -0,0 +1,283 @@
+/**
+ * Web Push Service
+ *
+ * Sends push messages to the PWA service worker on each device a user has
+ * subscribed, using the standard Web Push protocol with node's crypto:
+ * - VAPID (RFC 8292): an ES256-signed JWT identifies this server to the push service
+ * - aes128gcm (RFC 8291): the payload is encrypted to the browser's subscription keys
+ *
+ * Keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (base64url, as printed by
+ * scripts/generate-vapid-keys.ts). Without them web push is off and push
+ * notifications are skipped. Subscriptions the push service reports gone (404/410)
+ * are deleted.
+ */
+
+import crypto from 'crypto';
+import { db } from '../db';
+import { pushSubscriptions, PushSubscriptionRecord, InsertPushSubscription } from '@shared/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+
+// The service worker shows title/body and opens url on click
+export interface WebPushPayload {
+  title: string;
+  body: string;
+  url?: string | null;
+  tag?: string; // Replaces an earlier notification with the same tag on the device
+  notificationId?: number;
+}
+
+export interface WebPushOptions {
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  ttlSeconds?: number; // How long the push service keeps the message for an offline device
+}
+
+export interface WebPushUserResult {
+  sent: number;
+  failed: number;
+  removed: number; // Expired subscriptions deleted during the send
+  messageIds: string[]; // Push service message URLs (Location header)
+  errors: string[];
+}
+
+interface VapidKeys {
+  publicKey: string; // base64url uncompressed P-256 point, given to browsers as applicationServerKey
+  privateKey: crypto.KeyObject;
+  subject: string;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+// Leaves room for the padding delimiter and GCM tag inside one 4096-byte record
+const MAX_PAYLOAD_BYTES = 3800;
+
+class WebPushService {
+  private vapid: VapidKeys | null | undefined;
+  private jwtCache = new Map<string, { token: string; expiresAt: number }>();
+
+  isConfigured(): boolean {
+    return this.getVapidKeys() !== null;
+  }
+
+  /**
+   * Public key browsers need to subscribe, or null when web push is not configured
+   */
+  getPublicKey(): string | null {
+    return this.getVapidKeys()?.publicKey ?? null;
+  }
+
+  /**
+   * Save a device's subscription for the user. A browser re-subscribing (or a shared
+   * device changing hands) keeps its endpoint, so the row moves to the current user.
+   */
+  async subscribe(userId: number, subscription: InsertPushSubscription): Promise<PushSubscriptionRecord> {
+    const values = {
+      userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      deviceLabel: subscription.deviceLabel ?? null
+    };
+
+    const [saved] = await db.insert(pushSubscriptions)
+      .values(values)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { ...values, failureCount: 0, lastFailureAt: null }
+      })
+      .returning();
+    return saved;
+  }
+
+  async listSubscriptions(userId: number): Promise<PushSubscriptionRecord[]> {
+    return db.select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId))
+      .orderBy(desc(pushSubscriptions.createdAt));
+  }
+
+  async hasSubscriptions(userId: number): Promise<boolean> {
+    const [subscription] = await db.select({ id: pushSubscriptions.id })
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId))
+      .limit(1);
+    return !!subscription;
+  }
+
+  /**
+   * Remove one of the user's devices. Returns null if it is not theirs.
+   */
+  async removeSubscription(userId: number, subscriptionId: number): Promise<PushSubscriptionRecord | null> {
+    const [removed] = await db.delete(pushSubscriptions)
+      .where(and(eq(pushSubscriptions.id, subscriptionId), eq(pushSubscriptions.userId, userId)))
+      .returning();
+    return removed ?? null;
+  }
+
+  /**
+   * Push a message to every device the user has subscribed
+   */
+  async sendToUser(userId: number, payload: WebPushPayload, options: WebPushOptions = {}): Promise<WebPushUserResult> {
+    const subscriptions = await this.listSubscriptions(userId);
+    const result: WebPushUserResult = { sent: 0, failed: 0, removed: 0, messageIds: [], errors: [] };
+
+    for (const subscription of subscriptions) {
+      try {
+        const response = await this.send(subscription, payload, options);
+
+        if (response.status === 404 || response.status === 410) {
+          // The browser unsubscribed or the subscription expired
+          await db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, subscription.id));
+          result.removed++;
+          continue;
+        }
+        if (!response.ok) {
+          throw new Error(`Push service responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+        }
+
+        await db.update(pushSubscriptions)
+          .set({ lastSuccessAt: new Date(), failureCount: 0 })
+          .where(eq(pushSubscriptions.id, subscription.id));
+        result.sent++;
+        const location = response.headers.get('location');
+        if (location) {
+          result.messageIds.push(location);
+        }
+      } catch (error) {
+        await db.update(pushSubscriptions)
+          .set({ lastFailureAt: new Date(), failureCount: sql`${pushSubscriptions.failureCount} + 1` })
+          .where(eq(pushSubscriptions.id, subscription.id));
+        result.failed++;
+        result.errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return result;
+  }
+
+  private async send(subscription: PushSubscriptionRecord, payload: WebPushPayload, options: WebPushOptions): Promise<Response> {
+    const vapid = this.getVapidKeys();
+    if (!vapid) {
+      throw new Error('Web push is not configured');
+    }
+
+    const body = this.encrypt(this.encodePayload(payload), subscription.p256dh, subscription.auth);
+
+    return fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `vapid t=${this.vapidToken(subscription.endpoint, vapid)}, k=${vapid.publicKey}`,
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+        'Urgency': options.urgency ?? 'normal'
+      },
+      body: new Uint8Array(body)
+    });
+  }
+
+  /**
+   * JSON payload, with the body shortened if it would not fit in one record
+   */
+  private encodePayload(payload: WebPushPayload): Buffer {
+    let encoded = Buffer.from(JSON.stringify(payload));
+    if (encoded.length > MAX_PAYLOAD_BYTES) {
+      // Each character is at least one byte, so dropping `excess` characters is enough
+      const excess = encoded.length - MAX_PAYLOAD_BYTES;
+      const body = payload.body.slice(0, Math.max(0, payload.body.length - excess - 3));
+      encoded = Buffer.from(JSON.stringify({ ...payload, body: `${body}...` }));
+    }
+    return encoded;
+  }
+
+  /**
+   * Encrypt a payload for one subscription (RFC 8291, single aes128gcm record)
+   */
+  private encrypt(plaintext: Buffer, p256dh: string, auth: string): Buffer {
+    const userPublicKey = Buffer.from(p256dh, 'base64url');
+    const authSecret = Buffer.from(auth, 'base64url');
+
+    const ecdh = crypto.createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userPublicKey, serverPublicKey]);
+    const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+    const salt = crypto.randomBytes(16);
+    const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    // 0x02 marks the last (only) record; no further padding
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+    // Header: salt | record size | key id length | key id (our ephemeral public key)
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+
+  /**
+   * VAPID JWT for the push service's origin, reused until an hour before expiry
+   */
+  private vapidToken(endpoint: string, vapid: VapidKeys): string {
+    const audience = new URL(endpoint).origin;
+    const now = Math.floor(Date.now() / 1000);
+    const cached = this.jwtCache.get(audience);
+    if (cached && cached.expiresAt - now > 60 * 60) {
+      return cached.token;
+    }
+
+    const expiresAt = now + JWT_LIFETIME_SECONDS;
+    const header = Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })).toString('base64url');
+    const claims = Buffer.from(JSON.stringify({ aud: audience, exp: expiresAt, sub: vapid.subject })).toString('base64url');
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+      key: vapid.privateKey,
+      dsaEncoding: 'ieee-p1363'
+    }).toString('base64url');
+
+    const token = `${header}.${claims}.${signature}`;
+    this.jwtCache.set(audience, { token, expiresAt });
+    return token;
+  }
+
+  private getVapidKeys(): VapidKeys | null {
+    if (this.vapid !== undefined) {
+      return this.vapid;
+    }
+
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    if (!publicKey || !privateKey) {
+      this.vapid = null;
+      return null;
+    }
+
+    const point = Buffer.from(publicKey, 'base64url');
+    if (point.length !== 65 || point[0] !== 0x04 || Buffer.from(privateKey, 'base64url').length !== 32) {
+      throw new Error('VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY are not a base64url P-256 key pair; run scripts/generate-vapid-keys.ts');
+    }
+
+    this.vapid = {
+      publicKey,
+      privateKey: crypto.createPrivateKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          x: point.subarray(1, 33).toString('base64url'),
+          y: point.subarray(33, 65).toString('base64url'),
+          d: privateKey
+        },
+        format: 'jwk'
+      }),
+      subject: process.env.VAPID_SUBJECT || 'mailto:support@keepgoingcare.com.au'
+    };
+    return this.vapid;
+  }
+}
+
+export const webPushService = new WebPushService();
@@ -11,9 +11,11 @@ import {
   userFavorites, type UserFavorite, type InsertUserFavorite,
   contentInteractions, type ContentInteraction, type InsertContentInteraction,
   patientAlerts, type PatientAlert, type InsertPatientAlert,
-  patientReminders, type PatientReminder, type InsertPatientReminder
+  patientReminders, type PatientReminder, type InsertPatientReminder,
+  journalEntries, type JournalEntry, type InsertJournalEntry
 } from "@shared/schema";
 import { db } from "./db";
+import { cpdVersionService, type CpdChange } from "./services/cpdVersionService";
 import { eq, desc, and, sql, lt, isNull, gte } from "drizzle-orm";
 
 export interface IStorage {
@@ -41,9 +43,10 @@ export interface IStorage {
   getActiveCarePlanDirectives(userId: number): Promise<CarePlanDirective[]>; 
   getUserCpds(userId: number): Promise<{ content: string; category: string }[]>;
   getCarePlanDirectiveById(id: number): Promise<CarePlanDirective | undefined>;
-  createCarePlanDirective(directive: InsertCarePlanDirective): Promise<CarePlanDirective>;
-  updateCarePlanDirective(id: number, updates: Partial<InsertCarePlanDirective>): Promise<CarePlanDirective | undefined>;
-  deactivateCarePlanDirective(id: number): Promise<CarePlanDirective | undefined>;
+  // CPD writes append a version recording the change's author and reason (see cpdVersionService)
+  createCarePlanDirective(directive: InsertCarePlanDirective, change?: CpdChange): Promise<CarePlanDirective>;
+  updateCarePlanDirective(id: number, updates: Partial<InsertCarePlanDirective>, change?: CpdChange): Promise<CarePlanDirective | undefined>;
+  deactivateCarePlanDirective(id: number, change?: CpdChange): Promise<CarePlanDirective | undefined>;
   
   // MCP Feature Usage operations
   getFeatureUsage(userId: number, featureName?: string): Promise<FeatureUsage[]>;
@@ -87,6 +90,13 @@ export interface IStorage {
   getPendingReminders(): Promise<PatientReminder[]>;
   markReminderAsSent(reminderId: number): Promise<PatientReminder | undefined>;
   markReminderAsActioned(reminderId: number): Promise<PatientReminder | undefined>;
+  
+  // Journal entry operations
+  getJournalEntries(userId: number, filters?: { category?: string; since?: Date }): Promise<JournalEntry[]>;
+  getJournalEntryById(id: number): Promise<JournalEntry | undefined>;
+  createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
+  updateJournalEntry(id: number, updates: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined>;
+  deleteJournalEntry(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -100,6 +110,7 @@ export class MemStorage implements IStorage {
   private userContentPreferences: Map<number, UserContentPreference>;
   private userFavorites: Map<number, UserFavorite>;
   private contentInteractions: Map<number, ContentInteraction>;
+  private journalEntries: Map<number, JournalEntry>;
   private userCurrentId: number;
   private metricCurrentId: number;
   private imageCurrentId: number;
@@ -110,6 +121,7 @@ export class MemStorage implements IStorage {
   private preferenceCurrentId: number;
   private favoriteCurrentId: number;
   private interactionCurrentId: number;
+  private journalEntryCurrentId: number;
 
   constructor() {
     this.users = new Map();
@@ -122,6 +134,7 @@ export class MemStorage implements IStorage {
     this.userContentPreferences = new Map();
     this.userFavorites = new Map();
     this.contentInteractions = new Map();
+    this.journalEntries = new Map();
     
     // Initialize ID counters
     this.userCurrentId = 1;
@@ -134,6 +147,7 @@ export class MemStorage implements IStorage {
     this.preferenceCurrentId = 1;
     this.favoriteCurrentId = 1;
     this.interactionCurrentId = 1;
+    this.journalEntryCurrentId = 1;
     
     // Note: MemStorage is for testing only - production uses DatabaseStorage
     // Initialize with minimal data for development
@@ -609,6 +623,58 @@ export class MemStorage implements IStorage {
     // Memory storage - return undefined
     return undefined;
   }
+
+  // Journal entry operations
+  async getJournalEntries(userId: number, filters?: { category?: string; since?: Date }): Promise<JournalEntry[]> {
+    const sinceDate = filters?.since ? filters.since.toISOString().split('T')[0] : undefined;
+    return Array.from(this.journalEntries.values())
+      .filter(entry => {
+        if (entry.userId !== userId) return false;
+        if (filters?.category && entry.category !== filters.category) return false;
+        if (sinceDate && entry.entryDate < sinceDate) return false;
+        return true;
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
+    return this.journalEntries.get(id);
+  }
+
+  async createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry> {
+    const id = this.journalEntryCurrentId++;
+    const now = new Date();
+    const newEntry: JournalEntry = {
+      id,
+      userId: entry.userId,
+      entryText: entry.entryText,
+      category: entry.category || 'general',
+      mood: entry.mood || 'neutral',
+      entryDate: entry.entryDate || now.toISOString().split('T')[0],
+      cpdAlignment: entry.cpdAlignment ?? [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.journalEntries.set(id, newEntry);
+    return newEntry;
+  }
+
+  async updateJournalEntry(id: number, updates: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
+    const entry = this.journalEntries.get(id);
+    if (!entry) return undefined;
+
+    const updatedEntry: JournalEntry = {
+      ...entry,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.journalEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+
+  async deleteJournalEntry(id: number): Promise<boolean> {
+    return this.journalEntries.delete(id);
+  }
 }
 
 // Database storage implementation that uses the database instead of memory
@@ -809,41 +875,42 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createCarePlanDirective(directive: InsertCarePlanDirective): Promise<CarePlanDirective> {
-    const [createdDirective] = await db.insert(carePlanDirectives).values(directive).returning();
-    return createdDirective;
+  async createCarePlanDirective(directive: InsertCarePlanDirective, change?: CpdChange): Promise<CarePlanDirective> {
+    return await db.transaction(async (tx) => {
+      const [createdDirective] = await tx.insert(carePlanDirectives).values(directive).returning();
+      await cpdVersionService.recordVersion(tx, null, createdDirective, change);
+      return createdDirective;
+    });
   }
 
-  async updateCarePlanDirective(id: number, updates: Partial<InsertCarePlanDirective>): Promise<CarePlanDirective | undefined> {
+  async updateCarePlanDirective(id: number, updates: Partial<InsertCarePlanDirective>, change?: CpdChange): Promise<CarePlanDirective | undefined> {
     try {
-      const [updatedDirective] = await db.update(carePlanDirectives)
-        .set({
-          ...updates,
-          updatedAt: new Date()
-        })
-        .where(eq(carePlanDirectives.id, id))
-        .returning();
-      return updatedDirective;
+      return await db.transaction(async (tx) => {
+        const [currentDirective] = await tx.select()
+          .from(carePlanDirectives)
+          .where(eq(carePlanDirectives.id, id));
+        if (!currentDirective) {
+          return undefined;
+        }
+
+        const [updatedDirective] = await tx.update(carePlanDirectives)
+          .set({
+            ...updates,
+            updatedAt: new Date()
+          })
+          .where(eq(carePlanDirectives.id, id))
+          .returning();
+        await cpdVersionService.recordVersion(tx, currentDirective, updatedDirective, change);
+        return updatedDirective;
+      });
     } catch (error) {
       console.error("Error updating care plan directive:", error);
       return undefined;
     }
   }
 
-  async deactivateCarePlanDirective(id: number): Promise<CarePlanDirective | undefined> {
-    try {
-      const [deactivatedDirective] = await db.update(carePlanDirectives)
-        .set({
-          active: false,
-          updatedAt: new Date()
-        })
-        .where(eq(carePlanDirectives.id, id))
-        .returning();
-      return deactivatedDirective;
-    } catch (error) {
-      console.error("Error deactivating care plan directive:", error);
-      return undefined;
-    }
+  async deactivateCarePlanDirective(id: number, change?: CpdChange): Promise<CarePlanDirective | undefined> {
+    return this.updateCarePlanDirective(id, { active: false }, change);
   }
 
   async getUserCpds(userId: number): Promise<{ content: string; category: string }[]> {
@@ -1275,6 +1342,74 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return actionedReminder;
   }
+
+  // Journal entry operations
+  async getJournalEntries(userId: number, filters?: { category?: string; since?: Date }): Promise<JournalEntry[]> {
+    try {
+      const conditions = [eq(journalEntries.userId, userId)];
+
+      if (filters?.category) {
+        conditions.push(eq(journalEntries.category, filters.category));
+      }
+
+      if (filters?.since) {
+        conditions.push(gte(journalEntries.entryDate, filters.since.toISOString().split('T')[0]));
+      }
+
+      return await db.select()
+        .from(journalEntries)
+        .where(and(...conditions))
+        .orderBy(desc(journalEntries.entryDate), desc(journalEntries.createdAt));
+    } catch (error) {
+      console.error("Error getting journal entries:", error);
+      return [];
+    }
+  }
+
+  async getJournalEntryById(id: number): Promise<JournalEntry | undefined> {
+    try {
+      const [entry] = await db.select()
+        .from(journalEntries)
+        .where(eq(journalEntries.id, id));
+      return entry;
+    } catch (error) {
+      console.error("Error getting journal entry by ID:", error);
+      return undefined;
+    }
+  }
+
+  async createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry> {
+    const [createdEntry] = await db.insert(journalEntries).values(entry).returning();
+    return createdEntry;
+  }
+
+  async updateJournalEntry(id: number, updates: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
+    try {
+      const [updatedEntry] = await db.update(journalEntries)
+        .set({
+          ...updates,
+          updatedAt: new Date()
+        })
+        .where(eq(journalEntries.id, id))
+        .returning();
+      return updatedEntry;
+    } catch (error) {
+      console.error("Error updating journal entry:", error);
+      return undefined;
+    }
+  }
+
+  async deleteJournalEntry(id: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(journalEntries)
+        .where(eq(journalEntries.id, id))
+        .returning({ id: journalEntries.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Error deleting journal entry:", error);
+      return false;
+    }
+  }
 }
 
 // Switch to database storage for permanent persistence of motivational images
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, real, boolean, json, varchar, uniqueIndex, foreignKey, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, real, boolean, json, varchar, uniqueIndex, index, foreignKey, date, vector } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,6 +10,20 @@ export const userRoles = pgTable("user_roles", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Role names in user_roles; practice managers run one practice, admins sit above all practices
+export const userRoleNames = ['admin', 'practice_manager', 'doctor', 'patient'] as const;
+
+// Practices (clinics) - doctors, practice managers and patients each belong to one
+export const practices = pgTable("practices", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  slug: varchar("slug", { length: 64 }).notNull().unique(),
+  isDefault: boolean("is_default").default(false).notNull(), // Practice existing users were migrated into
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Main users table - extended for hierarchical user management
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -30,6 +44,9 @@ export const users = pgTable("users", {
   // New scalable fields
   uinSequence: integer("uin_sequence"), // Sequential number for each role type
   assignedDoctorId: integer("assigned_doctor_id"), // For patients: which doctor they're assigned to
+  timezone: text("timezone").default("Australia/Sydney").notNull(), // IANA zone for local-time reminders and checks
+  careProgram: text("care_program").default("default").notNull(), // Care program - selects the badge rule set
+  practiceId: integer("practice_id").references(() => practices.id), // Null for admins, who sit above practices
 }, (table) => {
   return {
     roleReference: foreignKey({
@@ -65,6 +82,8 @@ export const motivationalImages = pgTable("motivational_images", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const cpdCategories = ['diet', 'exercise', 'medication'] as const;
+
 // Care Plan Directives (CPDs) received from the API
 export const carePlanDirectives = pgTable("care_plan_directives", {
   id: serial("id").primaryKey(),
@@ -77,6 +96,30 @@ export const carePlanDirectives = pgTable("care_plan_directives", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Immutable history of each care plan directive; a new row is appended for every change
+export const carePlanDirectiveVersions = pgTable("care_plan_directive_versions", {
+  id: serial("id").primaryKey(),
+  directiveId: integer("directive_id").notNull().references(() => carePlanDirectives.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  version: integer("version").notNull(),
+  directive: text("directive").notNull(),
+  category: text("category").notNull(),
+  targetValue: real("target_value"),
+  active: boolean("active").notNull(), // false for the version recording a deactivation
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"), // Set when superseded; null while in force
+  authorId: integer("author_id").references(() => users.id),
+  changeReason: text("change_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    directiveVersionUnique: uniqueIndex("cpd_version_directive_version_idx").on(
+      table.directiveId,
+      table.version
+    )
+  };
+});
+
 // Feature usage tracking for MCP system
 export const featureUsage = pgTable("feature_usage", {
   id: serial("id").primaryKey(),
@@ -87,7 +130,31 @@ export const featureUsage = pgTable("feature_usage", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const keepGoingDeviceTypes = ['mobile', 'tablet', 'desktop'] as const;
+
+// One row per Keep Going session, with the patient's latest self-scores when it started
+export const keepGoingEvents = pgTable("keep_going_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  endedAt: timestamp("ended_at"), // Null while open, or if the session was abandoned
+  durationSeconds: integer("duration_seconds"),
+  videoPlayed: boolean("video_played").default(false).notNull(),
+  motivationalImageShown: boolean("motivational_image_shown").default(false).notNull(),
+  deviceType: text("device_type").notNull().default('desktop'), // One of keepGoingDeviceTypes
+  localHour: integer("local_hour").notNull(), // 0-23 in the patient's timezone
+  scoreDate: date("score_date"), // Date of the most recent patient_scores row at start, if any
+  dietScore: integer("diet_score"),
+  exerciseScore: integer("exercise_score"),
+  medicationScore: integer("medication_score"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Length of chat_memory embeddings; every embedding provider must produce vectors this long
+export const CHAT_MEMORY_EMBEDDING_DIMENSIONS = 384;
+
 // Enhanced memory system for MCP (LangMem implementation)
+// Needs the pgvector extension: CREATE EXTENSION IF NOT EXISTS vector
 export const chatMemory = pgTable("chat_memory", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
@@ -99,11 +166,20 @@ export const chatMemory = pgTable("chat_memory", {
   context: json("context"), // Additional context like related scores, features, etc.
   // New fields for enhanced memory management
   importance: real("importance").default(0.5), // Priority score for memory retrieval (0-1)
-  embeddings: text("embeddings"), // Vector embeddings for similarity search (JSON string)
+  embedding: vector("embedding", { dimensions: CHAT_MEMORY_EMBEDDING_DIMENSIONS }), // Null until embedded
+  embeddingModel: text("embedding_model"), // Model that produced the embedding; only same-model vectors are compared
   lastAccessed: timestamp("last_accessed"), // When this memory was last retrieved/used
   accessCount: integer("access_count").default(0), // How many times this memory was accessed
   expiresAt: timestamp("expires_at"), // When to forget (null for long-term)
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    // Approximate nearest-neighbour index for memory search (cosine distance, <=>)
+    embeddingIndex: index("chat_memory_embedding_hnsw_idx").using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops")
+    ),
+  };
 });
 
 // Recommendation tracking for MCP
@@ -161,7 +237,7 @@ export const dashboardRelationships = pgTable("dashboard_relationships", {
   id: serial("id").primaryKey(),
   parentUserId: integer("parent_user_id").references(() => users.id), // Admin creates doctors, doctors create patients
   childUserId: integer("child_user_id").notNull().references(() => users.id),
-  relationshipType: text("relationship_type").notNull(), // 'admin_to_doctor', 'doctor_to_patient'
+  relationshipType: text("relationship_type").notNull(), // '<creator role>_to_<role>' e.g. 'admin_to_doctor', 'doctor_to_patient'; 'shared_care' for a second doctor in the practice
   assignedDate: timestamp("assigned_date").defaultNow().notNull(),
   active: boolean("active").default(true).notNull(),
   notes: text("notes"),
@@ -198,6 +274,14 @@ export const insertUserRoleSchema = createInsertSchema(userRoles).pick({
   description: true,
 });
 
+export const insertPracticeSchema = createInsertSchema(practices).pick({
+  name: true,
+  slug: true,
+}).extend({
+  name: z.string().trim().min(1, "Practice name is required"),
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Slug must be lowercase letters, numbers and hyphens").max(64).optional(),
+});
+
 export const insertUserSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Valid email is required"),
@@ -214,6 +298,16 @@ export const updateUserSchema = createInsertSchema(users).pick({
   name: true,
   email: true,
   phoneNumber: true,
+  timezone: true,
+}).extend({
+  timezone: z.string().refine(timezone => {
+    try {
+      new Intl.DateTimeFormat('en-AU', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Must be a valid IANA timezone, e.g. Australia/Perth"),
 }).partial();
 
 export const insertHealthMetricSchema = createInsertSchema(healthMetrics).pick({
@@ -244,6 +338,19 @@ export const insertFeatureUsageSchema = createInsertSchema(featureUsage).pick({
   usageCount: true,
 });
 
+export const startKeepGoingEventSchema = createInsertSchema(keepGoingEvents).pick({
+  deviceType: true,
+  motivationalImageShown: true,
+}).extend({
+  deviceType: z.enum(keepGoingDeviceTypes).default('desktop'),
+  motivationalImageShown: z.boolean().default(false),
+});
+
+export const endKeepGoingEventSchema = z.object({
+  videoPlayed: z.boolean(),
+  motivationalImageShown: z.boolean().optional(),
+});
+
 export const insertChatMemorySchema = createInsertSchema(chatMemory).pick({
   userId: true,
   memorySystem: true,
@@ -251,7 +358,6 @@ export const insertChatMemorySchema = createInsertSchema(chatMemory).pick({
   content: true,
   context: true,
   importance: true,
-  embeddings: true,
   expiresAt: true,
 });
 
@@ -290,13 +396,19 @@ export const insertUserFavoriteSchema = createInsertSchema(userFavorites).pick({
 export const emergencyAlerts = pgTable("emergency_alerts", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").notNull().references(() => users.id),
-  doctorId: integer("doctor_id").notNull().references(() => users.id),
+  doctorId: integer("doctor_id").references(() => users.id), // Null when the patient has no active doctor - escalates straight to an admin
   emergencyType: text("emergency_type").notNull(), // 'self_harm', 'death_risk', 'serious_injury', 'medical_emergency'
   confidence: real("confidence").notNull(), // 0.0 to 1.0
   patientMessage: text("patient_message").notNull(),
   alertSent: boolean("alert_sent").default(false),
   resolved: boolean("resolved").default(false),
   resolvedAt: timestamp("resolved_at"),
+  severity: text("severity").notNull().default('high'), // 'critical', 'high', 'moderate'
+  triageDetails: json("triage_details"), // Screening matches and contextual re-check outcome
+  escalationAttempts: integer("escalation_attempts").default(0).notNull(), // Notifications sent along the escalation chain
+  nextEscalationAt: timestamp("next_escalation_at"), // Null once acknowledged or the chain is exhausted
+  acknowledgedBy: integer("acknowledged_by").references(() => users.id),
+  acknowledgedAt: timestamp("acknowledged_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -357,6 +469,9 @@ export type UserRole = typeof userRoles.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRoleName = typeof userRoleNames[number];
+export type InsertPractice = z.infer<typeof insertPracticeSchema>;
+export type Practice = typeof practices.$inferSelect;
 export type InsertHealthMetric = z.infer<typeof insertHealthMetricSchema>;
 export type HealthMetric = typeof healthMetrics.$inferSelect;
 export type InsertMotivationalImage = z.infer<typeof insertMotivationalImageSchema>;
@@ -365,8 +480,13 @@ export type MotivationalImage = typeof motivationalImages.$inferSelect;
 // MCP system types
 export type InsertCarePlanDirective = z.infer<typeof insertCarePlanDirectiveSchema>;
 export type CarePlanDirective = typeof carePlanDirectives.$inferSelect;
+export type CpdCategory = typeof cpdCategories[number];
+export type CarePlanDirectiveVersion = typeof carePlanDirectiveVersions.$inferSelect;
 export type InsertFeatureUsage = z.infer<typeof insertFeatureUsageSchema>;
 export type FeatureUsage = typeof featureUsage.$inferSelect;
+export type StartKeepGoingEvent = z.infer<typeof startKeepGoingEventSchema>;
+export type EndKeepGoingEvent = z.infer<typeof endKeepGoingEventSchema>;
+export type KeepGoingEvent = typeof keepGoingEvents.$inferSelect;
 export type InsertChatMemory = z.infer<typeof insertChatMemorySchema>;
 export type ChatMemory = typeof chatMemory.$inferSelect;
 export type InsertRecommendation = z.infer<typeof insertRecommendationSchema>;
@@ -457,6 +577,58 @@ export const insertPatientScoreSchema = createInsertSchema(patientScores).pick({
   notes: true,
 });
 
+// Declarative badge rules, tunable per care program without a deploy
+export const badgeRules = pgTable("badge_rules", {
+  id: serial("id").primaryKey(),
+  programKey: text("program_key").default("default").notNull(), // Matches users.careProgram; 'default' applies to everyone else
+  metric: text("metric").notNull(), // patient_scores column: 'exerciseSelfScore', 'mealPlanSelfScore', 'medicationSelfScore'
+  level: text("level").notNull(), // 'bronze', 'silver', 'gold', 'platinum'
+  comparator: text("comparator").default("gte").notNull(), // 'gte', 'gt', 'lte', 'lt', 'eq' - window value vs threshold
+  threshold: real("threshold").notNull(), // Score on the 1-10 scale
+  window: text("window").default("week").notNull(), // 'day' (each day's score) or 'week' (weekly average, weeks start Sunday)
+  streakLength: integer("streak_length").notNull(), // Consecutive qualifying windows required
+  minEntriesPerWindow: integer("min_entries_per_window").default(3).notNull(), // Scores needed for a week to count
+  active: boolean("active").default(true).notNull(),
+  updatedById: integer("updated_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  // One rule per badge level for each metric in a program
+  return {
+    programMetricLevelUnique: uniqueIndex("badge_rule_program_metric_level_idx").on(
+      table.programKey,
+      table.metric,
+      table.level
+    )
+  };
+});
+
+export const badgeLevels = ['bronze', 'silver', 'gold', 'platinum'] as const;
+export const badgeMetrics = ['exerciseSelfScore', 'mealPlanSelfScore', 'medicationSelfScore'] as const;
+export const badgeComparators = ['gte', 'gt', 'lte', 'lt', 'eq'] as const;
+export const badgeWindows = ['day', 'week'] as const;
+
+export const insertBadgeRuleSchema = createInsertSchema(badgeRules).pick({
+  programKey: true,
+  metric: true,
+  level: true,
+  comparator: true,
+  threshold: true,
+  window: true,
+  streakLength: true,
+  minEntriesPerWindow: true,
+  active: true,
+}).extend({
+  programKey: z.string().trim().min(1).max(50).regex(/^[a-z0-9_-]+$/, "Use lowercase letters, numbers, '-' or '_'").default('default'),
+  metric: z.enum(badgeMetrics),
+  level: z.enum(badgeLevels),
+  comparator: z.enum(badgeComparators).default('gte'),
+  threshold: z.number().min(0).max(10),
+  window: z.enum(badgeWindows).default('week'),
+  streakLength: z.number().int().min(1).max(366),
+  minEntriesPerWindow: z.number().int().min(1).max(7).default(3),
+});
+
 export const insertPatientBadgeSchema = createInsertSchema(patientBadges).pick({
   patientId: true,
   badgeType: true,
@@ -486,11 +658,100 @@ export type InsertPatientScore = z.infer<typeof insertPatientScoreSchema>;
 export type PatientScore = typeof patientScores.$inferSelect;
 export type InsertPatientBadge = z.infer<typeof insertPatientBadgeSchema>;
 export type PatientBadge = typeof patientBadges.$inferSelect;
+export type InsertBadgeRule = z.infer<typeof insertBadgeRuleSchema>;
+export type BadgeRule = typeof badgeRules.$inferSelect;
+export type BadgeLevel = typeof badgeLevels[number];
+export type BadgeMetric = typeof badgeMetrics[number];
 export type InsertPatientEvent = z.infer<typeof insertPatientEventSchema>;
 export type PatientEvent = typeof patientEvents.$inferSelect;
 export type InsertDoctorAlert = z.infer<typeof insertDoctorAlertSchema>;
 export type DoctorAlert = typeof doctorAlerts.$inferSelect;
 
+// Structured medication list per patient (MBP wizard, dose logging, refill estimates)
+export const patientMedications = pgTable("patient_medications", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => users.id),
+  name: text("name").notNull(), // Drug name, e.g. 'Metformin'
+  strength: text("strength").notNull(), // e.g. '500 mg'
+  form: text("form"), // 'tablet', 'capsule', 'inhaler', etc.
+  doseQuantity: real("dose_quantity").default(1).notNull(), // Units taken per dose
+  doseTimes: text("dose_times").array().notNull(), // Local 'HH:MM' times in the patient's timezone
+  instructions: text("instructions"),
+  startDate: date("start_date").notNull().defaultNow(),
+  endDate: date("end_date"), // Last day of the course; set when the medication is stopped
+  quantityOnHand: real("quantity_on_hand"), // Units supplied at the last refill
+  lastRefillDate: date("last_refill_date"),
+  prescribedById: integer("prescribed_by_id").references(() => users.id),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One row per scheduled dose the patient has logged; scheduled doses without a row are missed
+export const medicationDoseLogs = pgTable("medication_dose_logs", {
+  id: serial("id").primaryKey(),
+  medicationId: integer("medication_id").notNull().references(() => patientMedications.id),
+  patientId: integer("patient_id").notNull().references(() => users.id),
+  scheduledDate: date("scheduled_date").notNull(), // Patient's local date
+  doseTime: text("dose_time").notNull(), // Matches one of the medication's doseTimes
+  status: text("status").notNull(), // 'taken', 'late', 'skipped'
+  takenAt: timestamp("taken_at"),
+  notes: text("notes"),
+  loggedAt: timestamp("logged_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    medicationDoseUnique: uniqueIndex("medication_dose_unique_idx").on(
+      table.medicationId,
+      table.scheduledDate,
+      table.doseTime
+    )
+  };
+});
+
+export const medicationDoseStatuses = ['taken', 'late', 'skipped'] as const;
+
+const doseTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Dose times must be HH:MM (24-hour)");
+
+export const insertPatientMedicationSchema = createInsertSchema(patientMedications).pick({
+  name: true,
+  strength: true,
+  form: true,
+  doseQuantity: true,
+  doseTimes: true,
+  instructions: true,
+  startDate: true,
+  endDate: true,
+  quantityOnHand: true,
+  lastRefillDate: true,
+}).extend({
+  name: z.string().trim().min(1, "Medication name is required"),
+  strength: z.string().trim().min(1, "Strength is required"),
+  doseQuantity: z.number().positive().default(1),
+  doseTimes: z.array(doseTimeSchema).min(1, "At least one dose time is required").max(12)
+    .transform(times => Array.from(new Set(times)).sort()),
+  quantityOnHand: z.number().min(0).nullable().optional(),
+});
+
+export const insertMedicationDoseLogSchema = createInsertSchema(medicationDoseLogs).pick({
+  medicationId: true,
+  scheduledDate: true,
+  doseTime: true,
+  status: true,
+  takenAt: true,
+  notes: true,
+}).extend({
+  scheduledDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  doseTime: doseTimeSchema,
+  status: z.enum(medicationDoseStatuses),
+  takenAt: z.coerce.date().nullable().optional(),
+});
+
+export type InsertPatientMedication = z.infer<typeof insertPatientMedicationSchema>;
+export type PatientMedication = typeof patientMedications.$inferSelect;
+export type InsertMedicationDoseLog = z.infer<typeof insertMedicationDoseLogSchema>;
+export type MedicationDoseLog = typeof medicationDoseLogs.$inferSelect;
+export type MedicationDoseStatus = typeof medicationDoseStatuses[number];
+
 // Progress Milestones table
 export const progressMilestones = pgTable("progress_milestones", {
   id: serial("id").primaryKey(),
@@ -527,6 +788,128 @@ export const insertProgressMilestoneSchema = createInsertSchema(progressMileston
 export type InsertProgressMilestone = z.infer<typeof insertProgressMilestoneSchema>;
 export type ProgressMilestone = typeof progressMilestones.$inferSelect;
 
+// Journal entries written by patients (Journaling feature and journaling MCP tool)
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  entryText: text("entry_text").notNull(),
+  category: text("category").default('general').notNull(), // 'general', 'medication', 'diet', 'exercise', 'emotional', 'goals'
+  mood: text("mood").default('neutral').notNull(), // 'excellent', 'good', 'neutral', 'challenging', 'difficult'
+  entryDate: date("entry_date").notNull().defaultNow(), // Day the entry is about (patients can back-date)
+  cpdAlignment: json("cpd_alignment").default('[]'), // CPD categories mentioned in the entry at time of writing
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const journalCategories = ['general', 'medication', 'diet', 'exercise', 'emotional', 'goals'] as const;
+export const journalMoods = ['excellent', 'good', 'neutral', 'challenging', 'difficult'] as const;
+
+// Insert schema for journal entries
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).pick({
+  userId: true,
+  entryText: true,
+  category: true,
+  mood: true,
+  entryDate: true,
+  cpdAlignment: true,
+}).extend({
+  entryText: z.string().trim().min(1, "Journal entry text is required"),
+  category: z.enum(journalCategories).optional(),
+  mood: z.enum(journalMoods).optional(),
+});
+
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+
+// Offline sync: one row per outbox operation the server has settled, keyed by the client's UUID
+// so a replayed batch (e.g. background sync retrying after a dropped response) is not applied twice
+export const syncOperations = pgTable("sync_operations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  clientUuid: text("client_uuid").notNull(),
+  entityType: text("entity_type").notNull(), // One of syncEntityTypes
+  status: text("status").notNull(), // 'applied', 'duplicate' or 'rejected' - conflicts are not stored
+  result: json("result"), // Response returned for this operation, replayed verbatim on retry
+  clientCreatedAt: timestamp("client_created_at"), // When the patient made the change on their device
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userClientUuidUnique: uniqueIndex("sync_operation_user_client_uuid_idx").on(
+      table.userId,
+      table.clientUuid
+    )
+  };
+});
+
+export const syncEntityTypes = ['patient_score', 'progress_milestone', 'journal_entry'] as const;
+export const syncConflictResolutions = ['keep_server', 'keep_local'] as const;
+
+const selfScoreValue = z.number().int().min(1).max(10);
+const localDateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+const syncOperationBase = {
+  clientUuid: z.string().uuid(),
+  clientCreatedAt: z.coerce.date(),
+};
+
+export const syncOperationSchema = z.discriminatedUnion("entityType", [
+  z.object({
+    ...syncOperationBase,
+    entityType: z.literal("patient_score"),
+    // Set when the patient answers a merge prompt; absent on first submission
+    resolution: z.enum(syncConflictResolutions).optional(),
+    data: z.object({
+      scoreDate: localDateString, // Patient's local date when they scored, not the sync date
+      medicationSelfScore: selfScoreValue,
+      mealPlanSelfScore: selfScoreValue,
+      exerciseSelfScore: selfScoreValue,
+      notes: z.string().max(2000).optional(),
+    }),
+  }),
+  z.object({
+    ...syncOperationBase,
+    entityType: z.literal("progress_milestone"),
+    data: insertProgressMilestoneSchema.omit({ userId: true }).extend({
+      id: z.number().int().positive().optional(), // Server ID when editing a milestone created online
+      localUuid: z.string().min(1),
+      targetDate: z.coerce.date().nullable().optional(),
+      completedDate: z.coerce.date().nullable().optional(),
+      updatedAt: z.coerce.date(),
+    }),
+  }),
+  z.object({
+    ...syncOperationBase,
+    entityType: z.literal("journal_entry"),
+    data: insertJournalEntrySchema.omit({ userId: true, cpdAlignment: true }).extend({
+      entryDate: localDateString,
+    }),
+  }),
+]);
+
+// Only the envelope is checked per batch; each operation is validated on its own so one bad
+// entry is rejected without blocking the rest of the patient's outbox. userId is the patient
+// who queued the batch, so a shared device never syncs one patient's entries into another's session
+export const syncBatchSchema = z.object({
+  userId: z.number().int().positive(),
+  operations: z.array(z.object({
+    clientUuid: z.string().uuid(),
+    entityType: z.enum(syncEntityTypes),
+  }).passthrough()).min(1).max(100),
+});
+
+export type SyncOperation = typeof syncOperations.$inferSelect;
+export type SyncOperationRequest = z.infer<typeof syncOperationSchema>;
+export type SyncEntityType = typeof syncEntityTypes[number];
+export type SyncConflictResolution = typeof syncConflictResolutions[number];
+export type SyncOperationResult = {
+  clientUuid: string;
+  entityType: SyncEntityType;
+  status: 'applied' | 'duplicate' | 'conflict' | 'rejected';
+  entity?: unknown; // Server record after the operation
+  serverEntity?: unknown; // Existing server record when status is 'conflict'
+  error?: string;
+};
+
 // Doctor-Patient relationship schema is already defined above
 
 // Patient Progress Reports (PPR)
@@ -559,6 +942,8 @@ export const patientProgressReports = pgTable("patient_progress_reports", {
   engagementScore: real("engagement_score"), // Overall engagement score from 0-100
   healthTrends: json("health_trends"), // Array of trend data for visualizations
   progressBadges: json("progress_badges"), // Patient progress milestone badges data
+  medicationAdherence: json("medication_adherence"), // Logged-dose adherence for the period, beside the medication self-score
+  keepGoingAnalytics: json("keep_going_analytics"), // Keep Going sessions for the period: time of day, after low scores
 });
 
 // Patient Invitations
@@ -578,16 +963,75 @@ export const patientInvitations = pgTable("patient_invitations", {
 export const emergencyEvents = pgTable("emergency_events", {
   id: serial("id").primaryKey(),
   patientId: integer("patient_id").notNull().references(() => users.id),
-  doctorId: integer("doctor_id").notNull().references(() => users.id),
+  doctorId: integer("doctor_id").references(() => users.id), // Null when the patient has no active doctor
+  alertId: integer("alert_id").references(() => emergencyAlerts.id), // Escalation timeline entries for an alert
+  recipientUserId: integer("recipient_user_id").references(() => users.id), // Who was notified at this step
   eventTime: timestamp("event_time").defaultNow().notNull(),
-  eventType: text("event_type").notNull(), // 'doctor_notification', 'emergency_services'
+  eventType: text("event_type").notNull(), // 'doctor_notification', 'emergency_services', 'triage_screened', 'sms_sent', 'escalated', 'acknowledged', ...
   triggerReason: text("trigger_reason").notNull(),
   patientLocation: json("patient_location"), // GPS coordinates if available
+  details: json("details"),
   resolved: boolean("resolved").default(false).notNull(),
   resolvedTime: timestamp("resolved_time"),
   notes: text("notes"),
 });
 
+// Per-practice emergency escalation policy (practice = the admin who manages the doctor)
+export const emergencyEscalationPolicies = pgTable("emergency_escalation_policies", {
+  id: serial("id").primaryKey(),
+  practiceAdminId: integer("practice_admin_id").references(() => users.id).unique(), // Null = platform default policy
+  backupDoctorId: integer("backup_doctor_id").references(() => users.id),
+  escalationAdminId: integer("escalation_admin_id").references(() => users.id), // Defaults to the practice admin
+  ackTimeoutMinutes: integer("ack_timeout_minutes").notNull().default(10), // Wait before moving to the next step
+  maxEscalationRounds: integer("max_escalation_rounds").notNull().default(3), // Passes through doctor -> backup -> admin
+  smsMinSeverity: text("sms_min_severity").notNull().default('high'), // Below this, email the doctor without SMS escalation
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Scheduled background jobs - one row per job and timezone it runs in
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // Registered job key, e.g. 'daily-score-reminders'
+  description: text("description"),
+  cronExpression: text("cron_expression").notNull(), // 5-field cron, evaluated in the row's timezone
+  timezone: text("timezone").notNull(), // IANA zone; patient-scoped jobs get one row per patient timezone
+  enabled: boolean("enabled").default(true).notNull(),
+  maxRetries: integer("max_retries").default(3).notNull(),
+  retryDelaySeconds: integer("retry_delay_seconds").default(300).notNull(), // Doubles with each retry
+  currentAttempt: integer("current_attempt").default(0).notNull(), // Retry attempt of the pending run, 0 when on schedule
+  nextRunAt: timestamp("next_run_at"),
+  lastRunAt: timestamp("last_run_at"),
+  lastStatus: text("last_status"), // 'running', 'succeeded', 'failed'
+  lastError: text("last_error"),
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  lockedBy: text("locked_by"), // Server instance currently running the job
+  lockedUntil: timestamp("locked_until"), // Lease expiry so a crashed instance cannot hold the job forever
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    jobTimezoneUnique: uniqueIndex("scheduled_job_timezone_unique_idx").on(
+      table.name,
+      table.timezone
+    )
+  };
+});
+
+// History of scheduled job executions, including each retry attempt
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => scheduledJobs.id),
+  instanceId: text("instance_id").notNull(),
+  attempt: integer("attempt").default(1).notNull(),
+  status: text("status").notNull(), // 'running', 'succeeded', 'failed'
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  result: json("result"), // Handler summary, e.g. { remindersSent: 12 }
+  error: text("error"),
+});
+
 // Audit Log for Regulatory Compliance (HIPAA, TGA SaMD, Australian Privacy Principles)
 export const auditLog = pgTable("audit_log", {
   id: serial("id").primaryKey(),
@@ -602,8 +1046,33 @@ export const auditLog = pgTable("audit_log", {
   details: text("details"), // JSON string with event details
   complianceStandards: text("compliance_standards"), // CSV of applicable standards
   environment: text("environment").notNull(), // 'development', 'replit', 'aws', 'production'
+  // Hash chain (see server/services/auditChainService.ts); null on rows written before chaining
+  chainDate: date("chain_date"), // UTC day; each day is its own chain
+  sequence: integer("sequence"), // Position in the day's chain, from 1
+  previousHash: text("previous_hash"), // Hash of the previous row in the day, or the day's genesis hash
+  hash: text("hash"), // SHA-256 over this row's fields and previousHash
+}, (table) => {
+  return {
+    chainPositionUnique: uniqueIndex("audit_log_chain_position_idx").on(table.chainDate, table.sequence),
+  };
 });
 
+// Signed daily anchors: the head of each closed day's chain, signed and linked to the previous day's anchor
+export const auditLogAnchors = pgTable("audit_log_anchors", {
+  id: serial("id").primaryKey(),
+  chainDate: date("chain_date").notNull().unique(),
+  entryCount: integer("entry_count").notNull(),
+  firstEntryId: integer("first_entry_id"), // Null for a day with no entries
+  lastEntryId: integer("last_entry_id"),
+  headHash: text("head_hash").notNull(), // Hash of the day's last row, or the genesis hash when empty
+  previousSignature: text("previous_signature"), // Signature of the previous day's anchor
+  signature: text("signature").notNull(), // HMAC-SHA256 with AUDIT_ANCHOR_SECRET
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type AuditLogAnchor = typeof auditLogAnchors.$inferSelect;
+
 // Admin activity log
 export const adminActivityLog = pgTable("admin_activity_log", {
   id: serial("id").primaryKey(),
@@ -615,6 +1084,317 @@ export const adminActivityLog = pgTable("admin_activity_log", {
   details: json("details"), // Additional activity details
 });
 
+// Patient data deletion requests (Australian Privacy Principles 11 and 13)
+// The patient asks; their doctor or an admin approves before anything is erased
+export const dataDeletionModes = ['delete', 'deidentify'] as const;
+export const dataDeletionStatuses = ['pending', 'rejected', 'cancelled', 'completed'] as const;
+
+export const dataDeletionRequests = pgTable("data_deletion_requests", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => users.id),
+  mode: text("mode").notNull(), // 'delete' erases patient data; 'deidentify' keeps clinical measures with identity removed
+  status: text("status").default("pending").notNull(),
+  reason: text("reason"),
+  requestedAt: timestamp("requested_at").defaultNow().notNull(),
+  reviewedById: integer("reviewed_by_id").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  completedAt: timestamp("completed_at"),
+  certificateNumber: text("certificate_number").unique(), // Issued on completion
+  certificate: json("certificate"), // DataDeletionCertificate: what was erased, de-identified and retained
+});
+
+export const insertDataDeletionRequestSchema = createInsertSchema(dataDeletionRequests).pick({
+  mode: true,
+  reason: true,
+}).extend({
+  mode: z.enum(dataDeletionModes),
+  reason: z.string().trim().max(2000).optional(),
+});
+
+export const reviewDataDeletionRequestSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  notes: z.string().trim().max(2000).optional(),
+}).refine(review => review.decision === 'approve' || !!review.notes, {
+  message: "A reason is required when rejecting a request",
+  path: ["notes"],
+});
+
+export type DataDeletionRequest = typeof dataDeletionRequests.$inferSelect;
+export type InsertDataDeletionRequest = z.infer<typeof insertDataDeletionRequestSchema>;
+export type DataDeletionMode = typeof dataDeletionModes[number];
+export type DataDeletionStatus = typeof dataDeletionStatuses[number];
+export type DataDeletionCertificate = {
+  certificateNumber: string;
+  patientUin: string | null;
+  mode: DataDeletionMode;
+  requestedAt: string;
+  approvedBy: { id: number; name: string; role: string };
+  completedAt: string;
+  erased: { table: string; rows: number }[];
+  deidentified: { table: string; rows: number; fields: string[] }[];
+  retained: { table: string; reason: string }[];
+};
+
+// Notification outbox - one row per user and channel (see server/services/notificationService.ts)
+export const notificationChannels = ['sms', 'email', 'in_app', 'web_push'] as const;
+export const notificationCategories = ['reminder', 'alert', 'welcome', 'emergency', 'badge', 'care_update', 'message'] as const;
+export const notificationStatuses = ['pending', 'sending', 'sent', 'delivered', 'failed', 'skipped'] as const;
+export const notificationPriorities = ['normal', 'emergency'] as const;
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  channel: text("channel").notNull(),
+  category: text("category").notNull(),
+  templateKey: text("template_key").notNull(),
+  locale: text("locale").notNull(),
+  priority: text("priority").default("normal").notNull(), // 'emergency' ignores channel preferences and quiet hours
+  address: text("address"), // Phone number or email address at send time; null for in-app and web push
+  subject: text("subject"),
+  body: text("body").notNull(),
+  html: text("html"),
+  url: text("url"), // Deep link opened from in-app and push notifications
+  status: text("status").default("pending").notNull(),
+  statusReason: text("status_reason"), // Why it was skipped, or the last provider error
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(), // Quiet hours and retry backoff push this forward
+  lastAttemptAt: timestamp("last_attempt_at"),
+  providerMessageId: text("provider_message_id"), // Twilio SID / SendGrid message id, matched by delivery receipts
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  readAt: timestamp("read_at"), // In-app only
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  smsEnabled: boolean("sms_enabled").default(true).notNull(),
+  emailEnabled: boolean("email_enabled").default(true).notNull(),
+  inAppEnabled: boolean("in_app_enabled").default(true).notNull(),
+  webPushEnabled: boolean("web_push_enabled").default(true).notNull(),
+  quietHoursStart: text("quiet_hours_start"), // Local 'HH:MM' in the user's timezone; null for no quiet hours
+  quietHoursEnd: text("quiet_hours_end"),
+  locale: text("locale").default("en-AU").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Web Push subscriptions - one row per browser/device (see server/services/webPushService.ts)
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL; unique to the browser profile
+  p256dh: text("p256dh").notNull(), // Browser's ECDH public key (base64url)
+  auth: text("auth").notNull(), // Browser's auth secret (base64url)
+  deviceLabel: text("device_label"), // e.g. "Chrome on Android", shown in the device list
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSuccessAt: timestamp("last_success_at"),
+  lastFailureAt: timestamp("last_failure_at"),
+  failureCount: integer("failure_count").default(0).notNull(), // Consecutive failures; reset on success
+});
+
+export const insertPushSubscriptionSchema = z.object({
+  endpoint: z.string().url().startsWith("https://", "Push endpoints must use HTTPS"),
+  keys: z.object({
+    p256dh: z.string().regex(/^[A-Za-z0-9_-]+$/, "Expected base64url"),
+    auth: z.string().regex(/^[A-Za-z0-9_-]+$/, "Expected base64url"),
+  }),
+  deviceLabel: z.string().trim().max(100).optional(),
+});
+
+export type PushSubscriptionRecord = typeof pushSubscriptions.$inferSelect; // Not PushSubscription, which is the DOM type
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+
+const quietHoursTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM").nullable();
+
+export const updateNotificationPreferencesSchema = createInsertSchema(notificationPreferences).pick({
+  smsEnabled: true,
+  emailEnabled: true,
+  inAppEnabled: true,
+  webPushEnabled: true,
+  quietHoursStart: true,
+  quietHoursEnd: true,
+  locale: true,
+}).extend({
+  quietHoursStart: quietHoursTime.optional(),
+  quietHoursEnd: quietHoursTime.optional(),
+  locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Expected a locale such as en-AU").optional(),
+}).partial().refine(prefs => (prefs.quietHoursStart === undefined) === (prefs.quietHoursEnd === undefined)
+  && (prefs.quietHoursStart === null) === (prefs.quietHoursEnd === null), {
+  message: "Quiet hours need both a start and an end",
+  path: ["quietHoursEnd"],
+});
+
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+export type NotificationChannel = typeof notificationChannels[number];
+export type NotificationCategory = typeof notificationCategories[number];
+export type NotificationStatus = typeof notificationStatuses[number];
+export type NotificationPriority = typeof notificationPriorities[number];
+
+// Secure messaging between a patient and a doctor caring for them (see server/services/secureMessagingService.ts)
+export const secureMessageThreadStatuses = ['open', 'closed'] as const;
+export const secureMessageAttachmentTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'] as const;
+
+export const secureMessageThreads = pgTable("secure_message_threads", {
+  id: serial("id").primaryKey(),
+  patientId: integer("patient_id").notNull().references(() => users.id),
+  doctorId: integer("doctor_id").notNull().references(() => users.id),
+  subject: text("subject").notNull(),
+  status: text("status").default("open").notNull(),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  awaitingReplySince: timestamp("awaiting_reply_since"), // Oldest patient message the doctor has not answered yet
+  replyDueAt: timestamp("reply_due_at"), // awaitingReplySince plus the doctor's response time at that moment
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const secureMessages = pgTable("secure_messages", {
+  id: serial("id").primaryKey(),
+  threadId: integer("thread_id").notNull().references(() => secureMessageThreads.id),
+  patientId: integer("patient_id").notNull().references(() => users.id), // Copied from the thread for data rights
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  emergencySeverity: text("emergency_severity"), // Set when emergency triage raised an alert on a patient message
+  readAt: timestamp("read_at"), // Read receipt: when the other participant first opened the message
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const secureMessageAttachments = pgTable("secure_message_attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => secureMessages.id),
+  patientId: integer("patient_id").notNull().references(() => users.id),
+  filename: text("filename").notNull(),
+  mimeType: text("mime_type").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  data: text("data").notNull(), // Base64 file content
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const doctorMessagingSettings = pgTable("doctor_messaging_settings", {
+  id: serial("id").primaryKey(),
+  doctorId: integer("doctor_id").notNull().references(() => users.id).unique(),
+  responseTimeHours: integer("response_time_hours").default(48).notNull(), // Expected reply time shown to patients
+  availabilityNote: text("availability_note"), // e.g. "I reply on weekdays"; shown to patients before they write
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// 2 MB decoded, so three attachments fit the 10 MB JSON body limit; base64 takes 4 characters per 3 bytes
+export const SECURE_MESSAGE_ATTACHMENT_MAX_BYTES = 2 * 1024 * 1024;
+
+export const secureMessageAttachmentSchema = z.object({
+  filename: z.string().trim().min(1).max(200),
+  mimeType: z.enum(secureMessageAttachmentTypes),
+  data: z.string()
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, "Expected base64 file content")
+    .max(Math.ceil(SECURE_MESSAGE_ATTACHMENT_MAX_BYTES / 3) * 4, "Attachments are limited to 2 MB"),
+});
+
+export const sendSecureMessageSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  attachments: z.array(secureMessageAttachmentSchema).max(3).default([]),
+});
+
+// Patients choose the doctor; doctors choose the patient
+export const createSecureMessageThreadSchema = sendSecureMessageSchema.extend({
+  subject: z.string().trim().min(1).max(200),
+  doctorId: z.number().int().positive().optional(),
+  patientId: z.number().int().positive().optional(),
+});
+
+export const updateDoctorMessagingSettingsSchema = createInsertSchema(doctorMessagingSettings).pick({
+  responseTimeHours: true,
+  availabilityNote: true,
+}).extend({
+  responseTimeHours: z.number().int().min(1).max(168),
+  availabilityNote: z.string().trim().max(500).nullable().optional(),
+});
+
+export type SecureMessageThread = typeof secureMessageThreads.$inferSelect;
+export type SecureMessage = typeof secureMessages.$inferSelect;
+export type SecureMessageAttachment = typeof secureMessageAttachments.$inferSelect;
+export type DoctorMessagingSettings = typeof doctorMessagingSettings.$inferSelect;
+export type SendSecureMessage = z.infer<typeof sendSecureMessageSchema>;
+export type CreateSecureMessageThread = z.infer<typeof createSecureMessageThreadSchema>;
+export type UpdateDoctorMessagingSettings = z.infer<typeof updateDoctorMessagingSettingsSchema>;
+export type SecureMessageThreadStatus = typeof secureMessageThreadStatuses[number];
+export type SecureMessageAttachmentType = typeof secureMessageAttachmentTypes[number];
+
+// Admin-edited versions of MCP prompt templates; a new row is appended for every change and
+// the highest version is in use. Prompts without rows use the built-in template
+export const mcpPromptVersions = pgTable("mcp_prompt_versions", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // e.g. 'weekly_reflection'
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  arguments: json("arguments").$type<McpPromptArgument[]>().default([]).notNull(),
+  template: text("template").notNull(), // {{placeholder}} text with {{#arg}}...{{/arg}} optional sections
+  changeNote: text("change_note"),
+  authorId: integer("author_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    promptVersionUnique: uniqueIndex("mcp_prompt_name_version_idx").on(
+      table.name,
+      table.version
+    )
+  };
+});
+
+export const mcpPromptArgumentSchema = z.object({
+  name: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, "Use camelCase letters and numbers"),
+  description: z.string().trim().min(1).max(300),
+  required: z.boolean().default(false),
+});
+
+export const publishMcpPromptSchema = createInsertSchema(mcpPromptVersions).pick({
+  title: true,
+  description: true,
+  template: true,
+  changeNote: true,
+}).extend({
+  title: z.string().trim().min(1).max(120),
+  description: z.string().trim().min(1).max(500),
+  arguments: z.array(mcpPromptArgumentSchema).max(10).default([]),
+  template: z.string().trim().min(1).max(20000),
+  changeNote: z.string().trim().max(500).nullable().optional(),
+});
+
+export const mcpTraceStatuses = ['ok', 'tool_error', 'rpc_error', 'denied', 'cancelled'] as const;
+
+// One row per MCP request the server answered, PII-redacted, for support and replay
+export const mcpTraces = pgTable("mcp_traces", {
+  id: serial("id").primaryKey(),
+  mcpSessionId: text("mcp_session_id").notNull(),
+  requestId: text("request_id").notNull(), // JSON-RPC id as sent by the client
+  method: text("method").notNull(), // 'tools/call', 'resources/read', ...
+  target: text("target"), // Tool name, resource URI or prompt name
+  callerId: integer("caller_id").notNull().references(() => users.id),
+  callerRole: text("caller_role").notNull(),
+  patientId: integer("patient_id").references(() => users.id), // Patient the call acted on
+  status: text("status").notNull(), // See mcpTraceStatuses
+  errorMessage: text("error_message"),
+  requestRedacted: text("request_redacted").notNull(), // JSON params after PII redaction
+  responseRedacted: text("response_redacted"), // JSON result or error after PII redaction
+  durationMs: integer("duration_ms").notNull(),
+  correlationId: text("correlation_id"), // Groups the tool calls made for one chat query
+  hostQuery: text("host_query"), // The redacted patient query the host selected tools for
+  hostSelectedTools: text("host_selected_tools").array(), // Tools the host chose for that query
+  replayOfId: integer("replay_of_id"), // Set on traces recorded by an admin replay
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type McpTrace = typeof mcpTraces.$inferSelect;
+export type McpTraceStatus = typeof mcpTraceStatuses[number];
+
+export type McpPromptArgument = z.infer<typeof mcpPromptArgumentSchema>;
+export type McpPromptVersion = typeof mcpPromptVersions.$inferSelect;
+export type PublishMcpPrompt = z.infer<typeof publishMcpPromptSchema>;
+
 // Saved recipes table for diet inspiration feature
 export const savedRecipes = pgTable("saved_recipes", {
   id: serial("id").primaryKey(),
@@ -684,6 +1464,31 @@ export const userFoodPreferences = pgTable("user_food_preferences", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Packaged product catalogue keyed by GTIN (EAN-8/UPC-A/EAN-13/GTIN-14, stored zero-padded to 14 digits)
+// Nutrition panel values are per 100g (or 100mL) as printed on Australian NIPs
+export const productCatalogue = pgTable("product_catalogue", {
+  id: serial("id").primaryKey(),
+  gtin: varchar("gtin", { length: 14 }).notNull().unique(),
+  name: text("name").notNull(),
+  brand: text("brand"),
+  category: text("category"),
+  servingSizeGrams: real("serving_size_grams"),
+  energyKj: real("energy_kj"),
+  protein: real("protein"),
+  fatTotal: real("fat_total"),
+  saturatedFat: real("saturated_fat"),
+  carbohydrate: real("carbohydrate"),
+  sugars: real("sugars"),
+  fibre: real("fibre"),
+  sodium: real("sodium"), // mg per 100g
+  ingredients: text("ingredients"),
+  allergens: text("allergens").array(),
+  healthStarRating: real("health_star_rating"), // 0.5 to 5 in half-star steps
+  source: text("source").notNull().default('import'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Insert schemas for doctor-patient related tables
 export const insertDoctorPatientSchema = createInsertSchema(doctorPatients).pick({
   doctorId: true,
@@ -732,14 +1537,32 @@ export const insertPatientInvitationSchema = createInsertSchema(patientInvitatio
 export const insertEmergencyEventSchema = createInsertSchema(emergencyEvents).pick({
   patientId: true,
   doctorId: true,
+  alertId: true,
+  recipientUserId: true,
   eventType: true,
   triggerReason: true,
   patientLocation: true,
+  details: true,
   resolved: true,
   resolvedTime: true,
   notes: true,
 });
 
+export const emergencySeverities = ['moderate', 'high', 'critical'] as const;
+
+export const insertEmergencyEscalationPolicySchema = createInsertSchema(emergencyEscalationPolicies).pick({
+  practiceAdminId: true,
+  backupDoctorId: true,
+  escalationAdminId: true,
+  ackTimeoutMinutes: true,
+  maxEscalationRounds: true,
+  smsMinSeverity: true,
+}).extend({
+  ackTimeoutMinutes: z.number().int().min(1).max(120).optional(),
+  maxEscalationRounds: z.number().int().min(1).max(10).optional(),
+  smsMinSeverity: z.enum(emergencySeverities).optional(),
+});
+
 export const insertAdminActivityLogSchema = createInsertSchema(adminActivityLog).pick({
   adminId: true,
   activityType: true,
@@ -778,6 +1601,12 @@ export type PatientInvitation = typeof patientInvitations.$inferSelect;
 
 export type InsertEmergencyEvent = z.infer<typeof insertEmergencyEventSchema>;
 export type EmergencyEvent = typeof emergencyEvents.$inferSelect;
+export type EmergencyAlert = typeof emergencyAlerts.$inferSelect;
+export type EmergencySeverity = typeof emergencySeverities[number];
+export type InsertEmergencyEscalationPolicy = z.infer<typeof insertEmergencyEscalationPolicySchema>;
+export type EmergencyEscalationPolicy = typeof emergencyEscalationPolicies.$inferSelect;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
 
 export type InsertAdminActivityLog = z.infer<typeof insertAdminActivityLogSchema>;
 export type AdminActivityLog = typeof adminActivityLog.$inferSelect;
@@ -835,3 +1664,30 @@ export type FoodItem = typeof foodItems.$inferSelect;
 
 export type InsertUserFoodPreference = z.infer<typeof insertUserFoodPreferenceSchema>;
 export type UserFoodPreference = typeof userFoodPreferences.$inferSelect;
+
+export const insertCatalogueProductSchema = createInsertSchema(productCatalogue).pick({
+  gtin: true,
+  name: true,
+  brand: true,
+  category: true,
+  servingSizeGrams: true,
+  energyKj: true,
+  protein: true,
+  fatTotal: true,
+  saturatedFat: true,
+  carbohydrate: true,
+  sugars: true,
+  fibre: true,
+  sodium: true,
+  ingredients: true,
+  allergens: true,
+  healthStarRating: true,
+  source: true,
+}).extend({
+  gtin: z.string().regex(/^\d{8}$|^\d{12,14}$/, "GTIN must be 8, 12, 13 or 14 digits"),
+  name: z.string().trim().min(1, "Product name is required"),
+  healthStarRating: z.number().min(0.5).max(5).multipleOf(0.5).nullable().optional(),
+});
+
+export type InsertCatalogueProduct = z.infer<typeof insertCatalogueProductSchema>;
+export type CatalogueProduct = typeof productCatalogue.$inferSelect;